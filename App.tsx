@@ -1,13 +1,40 @@
 import React, { useEffect, useRef, useState } from "react";
 import { HashRouter, Routes, Route, Link, useLocation } from "react-router-dom";
-import { Recipe, WeekPlan, DayPlan, ActiveDayIndices, MealSlotPlan } from "./types";
+import { Recipe, WeekPlan, MealSlotConfig, GeneratorRule } from "./types";
 import MealPlanner from "./components/MealPlanner";
 import RecipeList from "./components/RecipeList";
 import RecipeContentEditor from "./components/RecipeContentEditor";
 import RecipeViewer from "./components/RecipeViewer";
 import ShoppingList from "./components/ShoppingList";
+import PlanOverview from "./components/PlanOverview";
 import Login from "./components/Login";
+import Settings from "./components/Settings";
+import CalendarSettings from "./components/CalendarSettings";
 import { supabase } from "./supabaseClient";
+import { getCurrentUserId } from "./services/authService";
+import {
+  DEFAULT_MEAL_SLOTS,
+  fetchMealSlots,
+  getDefaultActiveDays,
+  saveMealSlots,
+} from "./services/mealSlotService";
+import { fetchGeneratorRules, saveGeneratorRules } from "./services/generatorRuleService";
+import { scheduleCalDavSync } from "./services/caldavSyncService";
+import { DEFAULT_GENERATOR_RULES } from "./services/weekGenerator";
+import { normalizeActiveDays, normalizeDayPlans } from "./services/weekPlanService";
+import {
+  applyPlanPatch,
+  diffPlanState,
+  isEmptyPlanPatch,
+  type WeekPlanPatch,
+} from "./services/planHistory";
+import {
+  createUndoHistory,
+  pushUndoEntry,
+  stepRedo,
+  stepUndo,
+  type UndoHistory,
+} from "./services/undoHistory";
 
 type DbRecipe = {
   id: number;
@@ -18,6 +45,8 @@ type DbRecipe = {
   category: string | null;
   last_cooked: string | null;
   base_servings: number | null;
+  active_minutes: number | null;
+  total_minutes: number | null;
 };
 
 type DbWeekPlan = {
@@ -52,26 +81,26 @@ const NavLink: React.FC<{ to: string; children: React.ReactNode }> = ({
    SUPABASE HELPERS
    ========================= */
 
-async function getCurrentUserId(): Promise<string> {
-  const { data, error } = await supabase.auth.getUser();
-  if (error) throw error;
-  if (!data.user) throw new Error("Ingen inloggad användare");
-  return data.user.id;
-}
-
 function normalizeBaseServings(value: unknown): number {
   const parsed = Number(value);
   if (!Number.isFinite(parsed)) return 4;
   return Math.max(1, Math.round(parsed));
 }
 
+function normalizeCookingMinutes(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.round(parsed);
+}
+
 /* ---- Recipes ---- */
 
 async function fetchRecipesFromSupabase(): Promise<Recipe[]> {
   const { data, error } = await supabase
     .from("recipes")
     .select(
-      "id,user_id,name,source,has_recipe_content,category,last_cooked,base_servings"
+      "id,user_id,name,source,has_recipe_content,category,last_cooked,base_servings,active_minutes,total_minutes"
     )
     .order("name", { ascending: true });
 
@@ -85,6 +114,8 @@ async function fetchRecipesFromSupabase(): Promise<Recipe[]> {
     category: r.category ?? "Övrigt",
     lastCooked: r.last_cooked,
     baseServings: normalizeBaseServings(r.base_servings),
+    activeMinutes: normalizeCookingMinutes(r.active_minutes),
+    totalMinutes: normalizeCookingMinutes(r.total_minutes),
   }));
 }
 
@@ -100,6 +131,8 @@ async function saveRecipesToSupabase(recipes: Recipe[]): Promise<void> {
     category: r.category || null,
     last_cooked: r.lastCooked,
     base_servings: normalizeBaseServings(r.baseServings),
+    active_minutes: normalizeCookingMinutes(r.activeMinutes),
+    total_minutes: normalizeCookingMinutes(r.totalMinutes),
   }));
 
   const { error } = await supabase.from("recipes").upsert(payload, {
@@ -173,87 +206,14 @@ async function updateLastCookedUpdates(
 
 /* ---- Week plans ---- */
 
-const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
 const NAV_HEIGHT_PX = 80;
 
-function normalizeDayIndexArray(v: any): number[] {
-  if (!Array.isArray(v)) return [];
-  const nums = v
-    .map((x) => Number(x))
-    .filter((n) => Number.isFinite(n) && n >= 0 && n <= 6);
-  return Array.from(new Set(nums)).sort((a, b) => a - b);
-}
-
-// Bakåtkompatibel normalisering:
-// - gammalt format: [0,1,2...] => tolkas som middag/kvällsmat
-// - nytt format: { lunch: [...], dinner: [...] }
-function normalizeActiveDays(v: any): ActiveDayIndices {
-  if (Array.isArray(v)) {
-    return {
-      lunch: [],
-      dinner: normalizeDayIndexArray(v),
-    };
-  }
-
-  const lunch = normalizeDayIndexArray(v?.lunch);
-  const dinner = normalizeDayIndexArray(v?.dinner);
-
-  return {
-    lunch,
-    dinner: dinner.length > 0 ? dinner : ALL_DAYS,
-  };
-}
-
-function normalizeMealSlot(raw: any): MealSlotPlan {
-  const rawRecipeId = raw?.recipeId;
-  const recipeId =
-    rawRecipeId === null || rawRecipeId === undefined || rawRecipeId === ""
-      ? null
-      : Number(rawRecipeId);
-
-  const freeText = typeof raw?.freeText === "string" ? raw.freeText.trim() : null;
-  const hasText = !!(freeText && freeText.length > 0);
-  const hasRecipe = Number.isFinite(recipeId as number);
-
-  return {
-    recipeId: hasText ? null : hasRecipe ? (recipeId as number) : null,
-    freeText: hasText ? freeText : null,
-  };
-}
-
-function normalizeDayPlans(v: any): DayPlan[] {
-  if (!Array.isArray(v)) return [];
-
-  const out: DayPlan[] = [];
-
-  for (const raw of v) {
-    const dayId = Number(raw?.dayId);
-    if (!Number.isFinite(dayId) || dayId < 0 || dayId > 6) continue;
-
-    // Bakåtkompatibilitet:
-    // - gammal dagrad med recipeId/freeText mappas till dinner
-    // - nytt format läses från lunch/dinner
-    const hasLegacyFields =
-      Object.prototype.hasOwnProperty.call(raw ?? {}, "recipeId") ||
-      Object.prototype.hasOwnProperty.call(raw ?? {}, "freeText");
-
-    const lunch = hasLegacyFields ? normalizeMealSlot(null) : normalizeMealSlot(raw?.lunch);
-    const dinner = hasLegacyFields ? normalizeMealSlot(raw) : normalizeMealSlot(raw?.dinner);
-
-    const normalized: DayPlan = {
-      dayId,
-      lunch,
-      dinner,
-    };
-
-    out.push(normalized);
-  }
-
-  // En post per dayId (om dubletter: sista vinner)
-  const byDay = new Map<number, DayPlan>();
-  for (const p of out) byDay.set(p.dayId, p);
-
-  return Array.from(byDay.values()).sort((a, b) => a.dayId - b.dayId);
+function normalizeWeekPlans(plans: WeekPlan[]): WeekPlan[] {
+  return plans.map((p) => ({
+    ...p,
+    days: normalizeDayPlans(p.days),
+    activeDayIndices: normalizeActiveDays(p.activeDayIndices),
+  }));
 }
 
 function toWeekPlans(rows: DbWeekPlan[]): WeekPlan[] {
@@ -299,7 +259,16 @@ async function saveWeekPlansToSupabase(plans: WeekPlan[]): Promise<void> {
 const App: React.FC = () => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [plans, setPlans] = useState<WeekPlan[]>([]);
+  const [mealSlots, setMealSlots] = useState<MealSlotConfig[]>(DEFAULT_MEAL_SLOTS);
+  const [generatorRules, setGeneratorRules] =
+    useState<GeneratorRule[]>(DEFAULT_GENERATOR_RULES);
+  // Ångra/gör om för veckoplanerna (planering och portioner i inköpslistan)
+  const [planHistory, setPlanHistory] = useState<UndoHistory<WeekPlanPatch>>(() =>
+    createUndoHistory()
+  );
   const [authed, setAuthed] = useState(false);
+  // Inköpslistan får inte stämmas av mot tomma planer innan de hunnit laddas.
+  const [plansLoaded, setPlansLoaded] = useState(false);
 
   // Guard för att undvika att realtime-reload direkt skriver över våra egna, pågående writes
   const isWritingRecipesRef = useRef(false);
@@ -332,14 +301,19 @@ const App: React.FC = () => {
 
         setAuthed(true);
 
-        const [r, p] = await Promise.all([
+        const [r, p, slots, rules] = await Promise.all([
           fetchRecipesFromSupabase(),
           fetchWeekPlansFromSupabase(),
+          fetchMealSlots(),
+          fetchGeneratorRules(),
         ]);
 
         if (!mounted) return;
         setRecipes(r);
         setPlans(p);
+        setPlansLoaded(true);
+        setMealSlots(slots);
+        setGeneratorRules(rules);
       } catch (e) {
         console.error("Init error:", e);
         setAuthed(false);
@@ -409,6 +383,35 @@ const App: React.FC = () => {
     };
   }, [authed]);
 
+  /* -------- REALTIME SYNC (user_settings) -------- */
+  useEffect(() => {
+    if (!authed) return;
+
+    const channel = supabase
+      .channel("user-settings-sync")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "user_settings" },
+        async () => {
+          try {
+            const [slots, rules] = await Promise.all([
+              fetchMealSlots(),
+              fetchGeneratorRules(),
+            ]);
+            setMealSlots(slots);
+            setGeneratorRules(rules);
+          } catch (e) {
+            console.error("Realtime reload user_settings failed:", e);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authed]);
+
   /* -------- LOGIN -------- */
   if (!authed) {
     return (
@@ -417,16 +420,24 @@ const App: React.FC = () => {
           setAuthed(true);
 
           try {
-            const [r, p] = await Promise.all([
+            const [r, p, slots, rules] = await Promise.all([
               fetchRecipesFromSupabase(),
               fetchWeekPlansFromSupabase(),
+              fetchMealSlots(),
+              fetchGeneratorRules(),
             ]);
             setRecipes(r);
             setPlans(p);
+            setPlansLoaded(true);
+            setPlanHistory(createUndoHistory());
+            setMealSlots(slots);
+            setGeneratorRules(rules);
           } catch (e) {
             console.error("Load after login failed:", e);
             setRecipes([]);
             setPlans([]);
+            setMealSlots(DEFAULT_MEAL_SLOTS);
+            setGeneratorRules(DEFAULT_GENERATOR_RULES);
           }
         }}
       />
@@ -445,6 +456,10 @@ const App: React.FC = () => {
       setAuthed(false);
       setRecipes([]);
       setPlans([]);
+      setPlansLoaded(false);
+      setPlanHistory(createUndoHistory());
+      setMealSlots(DEFAULT_MEAL_SLOTS);
+      setGeneratorRules(DEFAULT_GENERATOR_RULES);
     }
   };
 
@@ -490,17 +505,12 @@ const App: React.FC = () => {
     return r;
   };
 
-  const handleUpdatePlans = async (newPlans: WeekPlan[]) => {
-    const normalized = newPlans.map((p) => ({
-      ...p,
-      days: normalizeDayPlans(p.days),
-      activeDayIndices: normalizeActiveDays(p.activeDayIndices),
-    }));
-
+  const persistPlans = async (normalized: WeekPlan[]) => {
     setPlans(normalized);
 
     try {
       await saveWeekPlansToSupabase(normalized);
+      scheduleCalDavSync();
     } catch (e) {
       console.error("SAVE WEEK PLANS FAILED:", e);
       alert("Kunde inte spara planering – se Console.");
@@ -511,6 +521,63 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpdatePlans = async (newPlans: WeekPlan[]) => {
+    const normalized = normalizeWeekPlans(newPlans);
+    // Ångra-historiken sparar bara vad som ändrades, så realtime-uppdateringar från
+    // andra enheter emellan inte skrivs över vid ångra.
+    const patch = diffPlanState(plans, normalized, getDefaultActiveDays(mealSlots));
+    if (!isEmptyPlanPatch(patch)) {
+      setPlanHistory((prev) => pushUndoEntry(prev, patch));
+    }
+    await persistPlans(normalized);
+  };
+
+  const handleStepPlanHistory = async (direction: "undo" | "redo") => {
+    const step = direction === "undo" ? stepUndo(planHistory) : stepRedo(planHistory);
+    if (!step) return;
+    setPlanHistory(step.history);
+
+    const { plans: nextPlans, conflicts } = applyPlanPatch(plans, step.entry, direction);
+    if (conflicts > 0) {
+      alert("Vissa måltider har ändrats på annat håll sedan dess och lämnades orörda.");
+    }
+    await persistPlans(normalizeWeekPlans(nextPlans));
+  };
+
+  const handleUpdateMealSlots = async (nextSlots: MealSlotConfig[]) => {
+    // Optimistiskt i UI
+    setMealSlots(nextSlots);
+
+    try {
+      const saved = await saveMealSlots(nextSlots);
+      setMealSlots(saved);
+    } catch (e) {
+      console.error("SAVE MEAL SLOTS FAILED:", e);
+      alert("Kunde inte spara måltider – se Console.");
+      try {
+        const slots = await fetchMealSlots();
+        setMealSlots(slots);
+      } catch {}
+    }
+  };
+
+  const handleUpdateGeneratorRules = async (nextRules: GeneratorRule[]) => {
+    // Optimistiskt i UI
+    setGeneratorRules(nextRules);
+
+    try {
+      const saved = await saveGeneratorRules(nextRules);
+      setGeneratorRules(saved);
+    } catch (e) {
+      console.error("SAVE GENERATOR RULES FAILED:", e);
+      alert("Kunde inte spara generatorregler – se Console.");
+      try {
+        const rules = await fetchGeneratorRules();
+        setGeneratorRules(rules);
+      } catch {}
+    }
+  };
+
   // NYTT: "Spara som lagade" – per recept kan datum skilja
   const handleMarkCooked = async (updates: { id: number; lastCooked: string }[]) => {
     const parseComparableDate = (value: string | null) => {
@@ -559,14 +626,23 @@ const App: React.FC = () => {
               </h1>
               <p className="text-sm text-gray-500">Planera smart, ät gott.</p>
             </div>
-            <button
-              type="button"
-              onClick={handleSignOut}
-              className="shrink-0 text-xs font-bold px-3 py-2 rounded-xl border border-gray-200 text-gray-600 hover:text-gray-900 hover:border-gray-300 bg-white"
-              title="Logga ut"
-            >
-              Logga ut
-            </button>
+            <div className="flex shrink-0 gap-2">
+              <Link
+                to="/settings"
+                className="text-xs font-bold px-3 py-2 rounded-xl border border-gray-200 text-gray-600 hover:text-gray-900 hover:border-gray-300 bg-white"
+                title="Inställningar"
+              >
+                Inställningar
+              </Link>
+              <button
+                type="button"
+                onClick={handleSignOut}
+                className="text-xs font-bold px-3 py-2 rounded-xl border border-gray-200 text-gray-600 hover:text-gray-900 hover:border-gray-300 bg-white"
+                title="Logga ut"
+              >
+                Logga ut
+              </button>
+            </div>
           </div>
         </header>
 
@@ -581,9 +657,15 @@ const App: React.FC = () => {
                 <MealPlanner
                   recipes={recipes}
                   plans={plans}
+                  mealSlots={mealSlots}
+                  generatorRules={generatorRules}
                   onUpdatePlans={handleUpdatePlans}
                   onUpdateRecipes={handleUpdateRecipes}
                   onMarkCooked={handleMarkCooked}
+                  canUndo={planHistory.past.length > 0}
+                  canRedo={planHistory.future.length > 0}
+                  onUndo={() => handleStepPlanHistory("undo")}
+                  onRedo={() => handleStepPlanHistory("redo")}
                 />
               }
             />
@@ -600,8 +682,34 @@ const App: React.FC = () => {
             />
             <Route
               path="/shopping"
-              element={<ShoppingList recipes={recipes} plans={plans} />}
+              element={
+                <ShoppingList
+                  recipes={recipes}
+                  plans={plans}
+                  plansLoaded={plansLoaded}
+                  mealSlots={mealSlots}
+                  onUpdatePlans={handleUpdatePlans}
+                  onUndoPlans={() => handleStepPlanHistory("undo")}
+                  onRedoPlans={() => handleStepPlanHistory("redo")}
+                />
+              }
+            />
+            <Route
+              path="/overview"
+              element={<PlanOverview recipes={recipes} plans={plans} mealSlots={mealSlots} />}
+            />
+            <Route
+              path="/settings"
+              element={
+                <Settings
+                  mealSlots={mealSlots}
+                  onUpdateMealSlots={handleUpdateMealSlots}
+                  generatorRules={generatorRules}
+                  onUpdateGeneratorRules={handleUpdateGeneratorRules}
+                />
+              }
             />
+            <Route path="/settings/calendars" element={<CalendarSettings />} />
             <Route
               path="/recipes/:id/content"
               element={
@@ -618,6 +726,7 @@ const App: React.FC = () => {
 
         <nav className="fixed bottom-0 left-0 right-0 max-w-lg mx-auto bg-white border-t border-gray-100 flex shadow-2xl z-20 [@media(orientation:landscape)_and_(hover:none)_and_(pointer:coarse)]:hidden">
           <NavLink to="/">Planering</NavLink>
+          <NavLink to="/overview">Översikt</NavLink>
           <NavLink to="/recipes">Våra rätter</NavLink>
           <NavLink to="/shopping">Inköpslista</NavLink>
         </nav>
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from "react";
+import { CalDavSyncTarget } from "../types";
+import {
+  fetchCalDavSyncTarget,
+  removeCalDavSyncTarget,
+  runCalDavSync,
+  saveCalDavSyncTarget,
+} from "../services/caldavSyncService";
+
+const LOOK_AHEAD_OPTIONS = [1, 2, 4, 8, 12];
+
+function isValidCalDavUrl(rawUrl: string): boolean {
+  try {
+    const url = new URL(rawUrl.trim());
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Skriver planerade måltider direkt till en CalDAV-kalender (iCloud, Fastmail, Nextcloud ...)
+// varje gång planen sparas.
+const CalDavSyncSettings: React.FC = () => {
+  const [target, setTarget] = useState<CalDavSyncTarget | null>(null);
+  const [calendarUrl, setCalendarUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [lookAheadWeeks, setLookAheadWeeks] = useState(4);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const applyTarget = (next: CalDavSyncTarget | null) => {
+    setTarget(next);
+    setCalendarUrl(next?.calendarUrl ?? "");
+    setUsername(next?.username ?? "");
+    setPassword("");
+    setEnabled(next?.enabled ?? true);
+    setLookAheadWeeks(next?.lookAheadWeeks ?? 4);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalDavSyncTarget()
+      .then((loaded) => {
+        if (!cancelled) applyTarget(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD CALDAV TARGET FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa CalDAV-inställningarna.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const runAction = async (action: () => Promise<void>, failMessage: string) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error("CALDAV ACTION FAILED:", actionError);
+      setError(failMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!isValidCalDavUrl(calendarUrl)) {
+      setError("Ange kalenderns CalDAV-adress (https://...).");
+      return;
+    }
+    if (!username.trim() || (!target && !password)) {
+      setError("Ange användarnamn och lösenord.");
+      return;
+    }
+    void runAction(async () => {
+      applyTarget(
+        await saveCalDavSyncTarget({ calendarUrl, username, password, enabled, lookAheadWeeks })
+      );
+      setMessage("Sparat.");
+    }, "Kunde inte spara CalDAV-inställningarna.");
+  };
+
+  const handleSyncNow = () => {
+    void runAction(async () => {
+      const result = await runCalDavSync();
+      // Status (senaste synk och fel) sparas av funktionen.
+      applyTarget(await fetchCalDavSyncTarget());
+      if (!result.ok) throw new Error(result.error ?? "CalDAV sync failed");
+      setMessage(
+        `Synkat: ${result.created ?? 0} nya, ${result.updated ?? 0} ändrade, ` +
+          `${result.deleted ?? 0} borttagna.`
+      );
+    }, "Synken misslyckades – se status nedan.");
+  };
+
+  const handleRemove = () => {
+    const confirmed = window.confirm(
+      "Ta bort kopplingen? Måltider som redan skrivits ligger kvar i kalendern."
+    );
+    if (!confirmed) return;
+    void runAction(async () => {
+      await removeCalDavSyncTarget();
+      applyTarget(null);
+    }, "Kunde inte ta bort kopplingen.");
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+        Skriv måltider till kalender (CalDAV)
+      </h2>
+      <p className="text-xs text-gray-500">
+        Måltiderna läggs in, ändras och tas bort i en egen kalender när planen sparas. Använd
+        ett appspecifikt lösenord – det sparas men visas aldrig igen.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Laddar...</p>
+      ) : (
+        <div className="space-y-2">
+          <input
+            value={calendarUrl}
+            onChange={(e) => setCalendarUrl(e.target.value)}
+            placeholder="https://caldav.example.com/calendars/namn/matplan/"
+            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-xs"
+          />
+          <div className="flex gap-2">
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Användarnamn"
+              autoComplete="username"
+              className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={target ? "Oförändrat lösenord" : "Lösenord"}
+              autoComplete="new-password"
+              className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              Påslagen
+            </label>
+            <label className="flex items-center gap-2">
+              Skriv
+              <select
+                value={lookAheadWeeks}
+                onChange={(e) => setLookAheadWeeks(Number(e.target.value))}
+                className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs"
+              >
+                {Array.from(new Set([...LOOK_AHEAD_OPTIONS, lookAheadWeeks]))
+                  .sort((a, b) => a - b)
+                  .map((weeks) => (
+                    <option key={weeks} value={weeks}>
+                      {weeks} {weeks === 1 ? "vecka" : "veckor"}
+                    </option>
+                  ))}
+              </select>
+              framåt
+            </label>
+          </div>
+
+          {target && (
+            <p className={`text-[11px] ${target.lastError ? "text-red-600" : "text-gray-500"}`}>
+              {target.lastError
+                ? `Senaste fel: ${target.lastError}`
+                : target.lastSyncedAt
+                ? `Senast synkad ${new Date(target.lastSyncedAt).toLocaleString("sv-SE")}`
+                : "Inte synkad än."}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isBusy}
+              className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+            >
+              {isBusy ? "Sparar..." : "Spara"}
+            </button>
+            {target && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleSyncNow}
+                  disabled={isBusy || !target.enabled}
+                  className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                >
+                  Synka nu
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRemove}
+                  disabled={isBusy}
+                  className="ml-auto rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold disabled:opacity-40"
+                >
+                  Ta bort
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CalDavSyncSettings;
@@ -0,0 +1,428 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { UserCalendar } from "../types";
+import {
+  createUserCalendar,
+  deleteUserCalendar,
+  fetchUserCalendars,
+  isValidCalendarUrl,
+  normalizeKeywords,
+  testCalendarUrl,
+  updateUserCalendar,
+} from "../services/calendarService";
+import MealPlanFeedSettings from "./MealPlanFeedSettings";
+import CalDavSyncSettings from "./CalDavSyncSettings";
+
+type TestState =
+  | { status: "testing" }
+  | { status: "ok"; eventCount: number }
+  | { status: "error"; message: string };
+
+// Nyckelord redigeras som kommaseparerad text.
+type CalendarDraft = Omit<UserCalendar, "includeKeywords" | "excludeKeywords"> & {
+  includeText: string;
+  excludeText: string;
+};
+
+const NEW_CALENDAR_KEY = "new";
+
+function toDraft(calendar: UserCalendar): CalendarDraft {
+  const { includeKeywords, excludeKeywords, ...rest } = calendar;
+  return {
+    ...rest,
+    includeText: includeKeywords.join(", "),
+    excludeText: excludeKeywords.join(", "),
+  };
+}
+
+function fromDraft(draft: CalendarDraft): UserCalendar {
+  const { includeText, excludeText, ...rest } = draft;
+  return {
+    ...rest,
+    includeKeywords: normalizeKeywords(includeText.split(",")),
+    excludeKeywords: normalizeKeywords(excludeText.split(",")),
+  };
+}
+
+function formatFetchedAt(value: string): string {
+  return new Date(value).toLocaleString("sv-SE", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const CalendarSettings: React.FC = () => {
+  const [calendars, setCalendars] = useState<UserCalendar[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newUrl, setNewUrl] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Testresultat per kalender-id (NEW_CALENDAR_KEY för länken som ännu inte sparats)
+  const [tests, setTests] = useState<Record<string, TestState>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUserCalendars()
+      .then((loaded) => {
+        if (!cancelled) setCalendars(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD USER CALENDARS FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa kalendrar.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const runTest = async (key: string, url: string) => {
+    if (!isValidCalendarUrl(url)) {
+      setTests((prev) => ({
+        ...prev,
+        [key]: { status: "error", message: "Länken måste börja med https:// eller webcal://." },
+      }));
+      return;
+    }
+
+    setTests((prev) => ({ ...prev, [key]: { status: "testing" } }));
+    try {
+      const { eventCount } = await testCalendarUrl(url);
+      setTests((prev) => ({ ...prev, [key]: { status: "ok", eventCount } }));
+    } catch (testError) {
+      console.error("TEST CALENDAR URL FAILED:", testError);
+      setTests((prev) => ({
+        ...prev,
+        [key]: {
+          status: "error",
+          message: testError instanceof Error ? testError.message : "Kunde inte hämta kalendern.",
+        },
+      }));
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!isValidCalendarUrl(newUrl)) {
+      setError("Länken måste börja med https:// eller webcal://.");
+      return;
+    }
+    if (calendars.some((calendar) => calendar.url.trim() === newUrl.trim())) {
+      setError("Kalendern finns redan.");
+      return;
+    }
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      const created = await createUserCalendar(newUrl, newLabel);
+      setCalendars((prev) => [...prev, created]);
+      setNewUrl("");
+      setNewLabel("");
+      setTests(({ [NEW_CALENDAR_KEY]: _, ...rest }) => rest);
+    } catch (addError) {
+      console.error("ADD USER CALENDAR FAILED:", addError);
+      setError("Kunde inte lägga till kalendern.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const saveCalendar = async (calendar: UserCalendar) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await updateUserCalendar(calendar);
+      setCalendars((prev) => prev.map((c) => (c.id === saved.id ? saved : c)));
+      return true;
+    } catch (saveError) {
+      console.error("SAVE USER CALENDAR FAILED:", saveError);
+      setError("Kunde inte spara kalendern.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!isValidCalendarUrl(draft.url)) {
+      setError("Länken måste börja med https:// eller webcal://.");
+      return;
+    }
+    if (await saveCalendar(fromDraft(draft))) setDraft(null);
+  };
+
+  const handleDelete = async (calendar: UserCalendar) => {
+    const confirmed = window.confirm(
+      `Ta bort kalendern "${calendar.label || calendar.url}"? Den används då inte längre för upptagna dagar.`
+    );
+    if (!confirmed) return;
+
+    setError(null);
+    try {
+      await deleteUserCalendar(calendar.id);
+      setCalendars((prev) => prev.filter((c) => c.id !== calendar.id));
+      if (draft?.id === calendar.id) setDraft(null);
+    } catch (deleteError) {
+      console.error("DELETE USER CALENDAR FAILED:", deleteError);
+      setError("Kunde inte ta bort kalendern.");
+    }
+  };
+
+  const renderTestResult = (key: string) => {
+    const test = tests[key];
+    if (!test) return null;
+    if (test.status === "testing") {
+      return <p className="text-xs text-gray-500">Testar länken...</p>;
+    }
+    if (test.status === "ok") {
+      return (
+        <p className="text-xs text-emerald-700">
+          Länken fungerar – {test.eventCount} händelser.
+        </p>
+      );
+    }
+    return <p className="text-xs text-red-600">Fel: {test.message}</p>;
+  };
+
+  const updateDraft = (patch: Partial<CalendarDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn pb-24">
+      <Link to="/settings" className="text-xs font-semibold text-emerald-700">
+        ← Inställningar
+      </Link>
+
+      <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">Kalendrar</h2>
+        <p className="text-xs text-gray-500">
+          Händelser i kalendrarna markerar måltider som upptagna. Klistra in en publik
+          ICS-länk (https:// eller webcal://), t.ex. en delad iCloud-kalender.
+        </p>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-xs text-gray-500">Laddar kalendrar...</p>
+        ) : calendars.length === 0 ? (
+          <p className="text-xs text-gray-500">Inga kalendrar kopplade ännu.</p>
+        ) : (
+          <div className="space-y-2">
+            {calendars.map((calendar) =>
+              draft?.id === calendar.id ? (
+                <div
+                  key={calendar.id}
+                  className="rounded-xl border border-emerald-200 bg-emerald-50/40 p-3 space-y-2"
+                >
+                  <input
+                    value={draft.label ?? ""}
+                    onChange={(e) => updateDraft({ label: e.target.value })}
+                    placeholder="Namn, t.ex. Familj"
+                    className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-semibold"
+                  />
+                  <input
+                    value={draft.url}
+                    onChange={(e) => updateDraft({ url: e.target.value })}
+                    placeholder="webcal://..."
+                    className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs"
+                  />
+                  <label className="block text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                    Tillhör
+                    <input
+                      value={draft.memberName ?? ""}
+                      onChange={(e) => updateDraft({ memberName: e.target.value })}
+                      placeholder="T.ex. Anna"
+                      className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal normal-case"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.ignoreBusy}
+                      onChange={(e) => updateDraft({ ignoreBusy: e.target.checked })}
+                    />
+                    Räkna aldrig som upptagen
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.countAllDay}
+                      disabled={draft.ignoreBusy}
+                      onChange={(e) => updateDraft({ countAllDay: e.target.checked })}
+                    />
+                    Heldagshändelser gör dagen upptagen
+                  </label>
+                  <label className="block text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                    Räkna bara rubriker med
+                    <input
+                      value={draft.includeText}
+                      disabled={draft.ignoreBusy}
+                      onChange={(e) => updateDraft({ includeText: e.target.value })}
+                      placeholder="T.ex. träning, match"
+                      className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal normal-case disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="block text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                    Räkna inte rubriker med
+                    <input
+                      value={draft.excludeText}
+                      disabled={draft.ignoreBusy}
+                      onChange={(e) => updateDraft({ excludeText: e.target.value })}
+                      placeholder="T.ex. påminnelse"
+                      className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal normal-case disabled:opacity-50"
+                    />
+                  </label>
+                  {renderTestResult(calendar.id)}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => runTest(calendar.id, draft.url)}
+                      className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                    >
+                      Testa
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft(null)}
+                      className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                    >
+                      Avbryt
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSaveDraft}
+                      disabled={isSaving}
+                      className="ml-auto rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                    >
+                      {isSaving ? "Sparar..." : "Spara"}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  key={calendar.id}
+                  className={`rounded-xl border border-gray-100 bg-gray-50 p-3 space-y-1.5 ${
+                    calendar.isActive ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold text-gray-900 truncate">
+                        {calendar.label || "Namnlös kalender"}
+                        {calendar.memberName && (
+                          <span className="ml-1 font-normal text-gray-500">
+                            · {calendar.memberName}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-[10px] text-gray-500 truncate">{calendar.url}</p>
+                    </div>
+                    <label className="flex items-center gap-1 text-[11px] font-semibold text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={calendar.isActive}
+                        disabled={isSaving}
+                        onChange={(e) =>
+                          void saveCalendar({ ...calendar, isActive: e.target.checked })
+                        }
+                      />
+                      Aktiv
+                    </label>
+                  </div>
+                  <p className="text-[11px] text-gray-500">
+                    {calendar.lastFetchedAt
+                      ? `Senast hämtad ${formatFetchedAt(calendar.lastFetchedAt)} · ${
+                          calendar.lastEventCount ?? 0
+                        } händelser`
+                      : "Inte hämtad ännu"}
+                    {calendar.ignoreBusy && " · räknas aldrig som upptagen"}
+                  </p>
+                  {calendar.lastError && (
+                    <p className="text-[11px] text-red-600">
+                      Senaste hämtningen misslyckades: {calendar.lastError}
+                    </p>
+                  )}
+                  {renderTestResult(calendar.id)}
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <button
+                      type="button"
+                      onClick={() => runTest(calendar.id, calendar.url)}
+                      className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                    >
+                      Testa
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft(toDraft(calendar))}
+                      className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                    >
+                      Ändra
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(calendar)}
+                      className="ml-auto rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold"
+                    >
+                      Ta bort
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+          Lägg till kalender
+        </h2>
+        <input
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          placeholder="webcal://p00-caldav.icloud.com/published/2/..."
+          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+        />
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Namn, t.ex. Skola"
+          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+        />
+        {renderTestResult(NEW_CALENDAR_KEY)}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => runTest(NEW_CALENDAR_KEY, newUrl)}
+            disabled={!newUrl.trim()}
+            className="rounded-lg bg-gray-100 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+          >
+            Testa länken
+          </button>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={isAdding || !newUrl.trim()}
+            className="ml-auto rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+          >
+            {isAdding ? "Lägger till..." : "Lägg till"}
+          </button>
+        </div>
+      </section>
+
+      <MealPlanFeedSettings />
+      <CalDavSyncSettings />
+    </div>
+  );
+};
+
+export default CalendarSettings;
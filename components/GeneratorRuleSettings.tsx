@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from "react";
+import {
+  GeneratorRule,
+  GeneratorRuleKind,
+  QuickOnBusyFallback,
+  RECIPE_CATEGORIES,
+  SWEDISH_DAYS,
+} from "../types";
+import {
+  GENERATOR_RULE_KINDS,
+  QUICK_ON_BUSY_FALLBACKS,
+  createGeneratorRule,
+  describeGeneratorRule,
+  normalizeGeneratorRules,
+} from "../services/weekGenerator";
+
+type GeneratorRuleSettingsProps = {
+  rules: GeneratorRule[];
+  onSave: (rules: GeneratorRule[]) => Promise<void> | void;
+};
+
+const RULE_KIND_LABELS: Record<GeneratorRuleKind, string> = {
+  categoryMin: "Kategori minst N ggr",
+  categoryMax: "Kategori högst N ggr",
+  categoryOnDays: "Kategori på vissa dagar",
+  noRepeatWeeks: "Ingen upprepning inom N veckor",
+  quickOnBusy: "Snabbt på upptagna dagar",
+  sharedIngredients: "Återanvänd ingredienser",
+};
+
+const FALLBACK_LABELS: Record<QuickOnBusyFallback, string> = {
+  leftovers: "Rester, annars enkel mat",
+  simpleMeal: "Enkel mat",
+  recipe: "Behåll receptet",
+};
+
+const inputClassName =
+  "mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal";
+const labelClassName = "text-[11px] font-bold text-gray-600 uppercase tracking-wide";
+
+const GeneratorRuleSettings: React.FC<GeneratorRuleSettingsProps> = ({ rules, onSave }) => {
+  const [draft, setDraft] = useState<GeneratorRule[]>(rules);
+  const [newKind, setNewKind] = useState<GeneratorRuleKind>("categoryMin");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const updateRule = (index: number, patch: Partial<GeneratorRule>) => {
+    setDraft((prev) =>
+      prev.map((rule, i) => (i === index ? ({ ...rule, ...patch } as GeneratorRule) : rule))
+    );
+  };
+
+  const toggleRuleDay = (index: number, dayId: number) => {
+    setDraft((prev) =>
+      prev.map((rule, i) => {
+        if (i !== index || rule.kind !== "categoryOnDays") return rule;
+        const dayIds = rule.dayIds.includes(dayId)
+          ? rule.dayIds.filter((d) => d !== dayId)
+          : [...rule.dayIds, dayId].sort((a, b) => a - b);
+        return { ...rule, dayIds };
+      })
+    );
+  };
+
+  const addRule = () => {
+    setDraft((prev) => [...prev, createGeneratorRule(newKind, prev.map((rule) => rule.id))]);
+  };
+
+  const removeRule = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await Promise.resolve(onSave(normalizeGeneratorRules(draft)));
+    } catch (saveError) {
+      console.error("SAVE GENERATOR RULES FAILED:", saveError);
+      setError("Kunde inte spara reglerna.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderRuleFields = (rule: GeneratorRule, index: number) => {
+    switch (rule.kind) {
+      case "categoryMin":
+      case "categoryMax":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <label className={labelClassName}>
+              Kategori
+              <select
+                value={rule.category}
+                onChange={(e) => updateRule(index, { category: e.target.value })}
+                className={inputClassName}
+              >
+                {RECIPE_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClassName}>
+              Antal
+              <input
+                type="number"
+                min={0}
+                value={rule.count}
+                onChange={(e) => updateRule(index, { count: Number(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        );
+      case "categoryOnDays":
+        return (
+          <div className="space-y-2">
+            <label className={labelClassName}>
+              Kategori
+              <select
+                value={rule.category}
+                onChange={(e) => updateRule(index, { category: e.target.value })}
+                className={inputClassName}
+              >
+                {RECIPE_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-7 gap-1.5">
+              {SWEDISH_DAYS.map((day, dayId) => {
+                const isActive = rule.dayIds.includes(dayId);
+                return (
+                  <button
+                    key={`${rule.id}-${day}`}
+                    type="button"
+                    onClick={() => toggleRuleDay(index, dayId)}
+                    className={`min-w-0 px-1.5 py-2 rounded-lg text-[10px] font-bold transition-all ${
+                      isActive
+                        ? "bg-emerald-100 text-emerald-700 ring-1 ring-emerald-500"
+                        : "bg-white text-gray-500 border border-gray-200"
+                    }`}
+                    title={day}
+                  >
+                    {day.substring(0, 3)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      case "noRepeatWeeks":
+        return (
+          <label className={labelClassName}>
+            Veckor
+            <input
+              type="number"
+              min={1}
+              value={rule.weeks}
+              onChange={(e) => updateRule(index, { weeks: Number(e.target.value) || 1 })}
+              className={inputClassName}
+            />
+          </label>
+        );
+      case "quickOnBusy":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <label className={labelClassName}>
+              Max minuter
+              <input
+                type="number"
+                min={5}
+                step={5}
+                value={rule.maxMinutes}
+                onChange={(e) => updateRule(index, { maxMinutes: Number(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </label>
+            <label className={labelClassName}>
+              Om inget hinns
+              <select
+                value={rule.fallback}
+                onChange={(e) =>
+                  updateRule(index, { fallback: e.target.value as QuickOnBusyFallback })
+                }
+                className={inputClassName}
+              >
+                {QUICK_ON_BUSY_FALLBACKS.map((fallback) => (
+                  <option key={fallback} value={fallback}>
+                    {FALLBACK_LABELS[fallback]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        );
+      case "sharedIngredients":
+        return null;
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+        Regler för slumpa vecka
+      </h2>
+      <p className="text-xs text-gray-500">
+        Måste-regler bryts aldrig om det går att undvika. Övriga regler vägs mot varandra med
+        sin vikt.
+      </p>
+
+      <div className="space-y-2">
+        {draft.map((rule, index) => (
+          <div
+            key={rule.id}
+            className={`rounded-xl border border-gray-100 p-3 space-y-2 ${
+              rule.enabled ? "bg-gray-50" : "bg-gray-50 opacity-60"
+            }`}
+          >
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+              />
+              {describeGeneratorRule(rule)}
+            </label>
+
+            {renderRuleFields(rule, index)}
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className={labelClassName}>
+                Vikt
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.weight}
+                  disabled={rule.hard}
+                  onChange={(e) => updateRule(index, { weight: Number(e.target.value) || 0 })}
+                  className={`${inputClassName} disabled:opacity-50`}
+                />
+              </label>
+              <label className={`${labelClassName} flex items-end gap-2 pb-2`}>
+                <input
+                  type="checkbox"
+                  checked={rule.hard}
+                  onChange={(e) => updateRule(index, { hard: e.target.checked })}
+                />
+                Måste
+              </label>
+            </div>
+
+            <button
+              type="button"
+              onClick={() => removeRule(index)}
+              className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1.5 text-xs font-semibold"
+            >
+              Ta bort
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as GeneratorRuleKind)}
+          className="min-w-0 flex-1 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs"
+        >
+          {GENERATOR_RULE_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {RULE_KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addRule}
+          className="rounded-lg bg-emerald-50 px-3 py-1.5 text-xs font-semibold text-emerald-700"
+        >
+          Lägg till
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full rounded-xl bg-emerald-600 text-white py-3 text-sm font-semibold disabled:opacity-60"
+      >
+        {isSaving ? "Sparar..." : "Spara regler"}
+      </button>
+    </section>
+  );
+};
+
+export default GeneratorRuleSettings;
@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { IngredientCatalogEntry } from "../types";
+import {
+  DEFAULT_INGREDIENT_CATALOG,
+  mergeIngredientCatalog,
+  normalizeIngredientName,
+  removeCatalogEntry,
+  replaceCatalogEntry,
+} from "../services/ingredientCatalog";
+import {
+  deleteIngredientCatalogEntry,
+  fetchIngredientCatalog,
+  saveIngredientCatalogEntry,
+} from "../services/ingredientCatalogService";
+import { INGREDIENT_CATEGORIES } from "../services/storeLayout";
+
+function parseSynonyms(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((synonym) => synonym.trim())
+    .filter(Boolean);
+}
+
+// Kanoniska ingrediensnamn med synonymer. Inköpslistan summerar synonymer som samma
+// ingrediens och receptredigeraren föreslår namnen.
+const IngredientCatalogSettings: React.FC = () => {
+  const [catalog, setCatalog] = useState<IngredientCatalogEntry[]>([]);
+  // Synonymer som redigeras, per postens namn
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newSynonyms, setNewSynonyms] = useState("");
+  const [newCategory, setNewCategory] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchIngredientCatalog()
+      .then((loaded) => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD INGREDIENT CATALOG FAILED:", loadError);
+        if (!cancelled) {
+          setCatalog(mergeIngredientCatalog([]));
+          setError("Kunde inte läsa den egna katalogen – visar bara inbyggda namn.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const visibleEntries = useMemo(() => {
+    const query = normalizeIngredientName(filter);
+    if (!query) return catalog;
+    return catalog.filter((entry) =>
+      [entry.name, ...entry.synonyms].some((name) =>
+        normalizeIngredientName(name).includes(query)
+      )
+    );
+  }, [catalog, filter]);
+
+  const runAction = async (
+    action: () => Promise<void>,
+    failMessage: string
+  ): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (actionError) {
+      console.error("INGREDIENT CATALOG ACTION FAILED:", actionError);
+      setError(failMessage);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveEntry = (name: string, synonyms: string[], category: string | null) =>
+    runAction(async () => {
+      const saved = await saveIngredientCatalogEntry({ name, synonyms, category });
+      setCatalog((prev) => replaceCatalogEntry(prev, saved));
+      setDrafts((prev) => {
+        const { [name]: _, ...rest } = prev;
+        return rest;
+      });
+    }, "Kunde inte spara ingrediensen.");
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    void saveEntry(name, parseSynonyms(newSynonyms), newCategory || null).then((saved) => {
+      if (!saved) return;
+      setNewName("");
+      setNewSynonyms("");
+      setNewCategory("");
+    });
+  };
+
+  const handleRemove = (entry: IngredientCatalogEntry) => {
+    const id = entry.id;
+    if (!id) return;
+    void runAction(async () => {
+      await deleteIngredientCatalogEntry(id);
+      setCatalog((prev) => removeCatalogEntry(prev, id));
+    }, "Kunde inte ta bort ingrediensen.");
+  };
+
+  const isBuiltInName = (name: string) =>
+    DEFAULT_INGREDIENT_CATALOG.some((entry) => entry.name === name);
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+        Ingredienskatalog
+      </h2>
+      <p className="text-xs text-gray-500">
+        Synonymer räknas som samma ingrediens i inköpslistan. Plural och bestämd form
+        ("lökarna", "krossade tomater") känns igen automatiskt.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Namn, t.ex. gul lök"
+          className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+        />
+        <input
+          value={newSynonyms}
+          onChange={(e) => setNewSynonyms(e.target.value)}
+          placeholder="Synonymer, kommaseparerade"
+          className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+        />
+        <select
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs"
+        >
+          <option value="">Avdelning</option>
+          {INGREDIENT_CATEGORIES.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isBusy || !newName.trim()}
+          className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+        >
+          Lägg till
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Laddar...</p>
+      ) : (
+        <>
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Sök ingrediens"
+            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-xs"
+          />
+          <div className="space-y-2">
+            {visibleEntries.map((entry) => {
+              const draft = drafts[entry.name];
+              const value = draft ?? entry.synonyms.join(", ");
+
+              return (
+                <div
+                  key={entry.id ?? `builtin-${entry.name}`}
+                  className="flex flex-wrap items-center gap-2 rounded-xl border border-gray-100 px-3 py-2"
+                >
+                  <span className="w-32 shrink-0 truncate text-xs font-semibold text-gray-900">
+                    {entry.name}
+                    {entry.id === null && (
+                      <span className="ml-1 font-normal text-gray-400">(inbyggd)</span>
+                    )}
+                  </span>
+                  <input
+                    value={value}
+                    onChange={(e) =>
+                      setDrafts((prev) => ({ ...prev, [entry.name]: e.target.value }))
+                    }
+                    placeholder="Inga synonymer"
+                    className="min-w-0 flex-1 rounded-lg border border-gray-200 px-2 py-1 text-xs"
+                  />
+                  <select
+                    value={entry.category ?? ""}
+                    onChange={(e) =>
+                      void saveEntry(
+                        entry.name,
+                        draft !== undefined ? parseSynonyms(draft) : entry.synonyms,
+                        e.target.value || null
+                      )
+                    }
+                    disabled={isBusy}
+                    className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs"
+                    aria-label={`Avdelning för ${entry.name}`}
+                  >
+                    <option value="">Okategoriserat</option>
+                    {INGREDIENT_CATEGORIES.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                  {draft !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => void saveEntry(entry.name, parseSynonyms(draft), entry.category)}
+                      disabled={isBusy}
+                      className="rounded-lg bg-emerald-600 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                    >
+                      Spara
+                    </button>
+                  )}
+                  {entry.id !== null && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(entry)}
+                      disabled={isBusy}
+                      className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold disabled:opacity-40"
+                    >
+                      {isBuiltInName(entry.name) ? "Återställ" : "Ta bort"}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {visibleEntries.length === 0 && (
+              <p className="text-xs text-gray-500">Inga ingredienser matchar.</p>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default IngredientCatalogSettings;
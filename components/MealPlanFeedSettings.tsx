@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { MealPlanFeed } from "../types";
+import {
+  createMealPlanFeed,
+  fetchMealPlanFeed,
+  getMealPlanFeedUrl,
+  revokeMealPlanFeed,
+  updateMealPlanFeedLookAhead,
+} from "../services/mealPlanFeedService";
+
+const LOOK_AHEAD_OPTIONS = [1, 2, 4, 8, 12];
+
+// Prenumererbar länk till matplanen, för kalenderappar som uppdaterar sig själva.
+const MealPlanFeedSettings: React.FC = () => {
+  const [feed, setFeed] = useState<MealPlanFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMealPlanFeed()
+      .then((loaded) => {
+        if (!cancelled) setFeed(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD MEAL PLAN FEED FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa kalenderlänken.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const runAction = async (action: () => Promise<MealPlanFeed | null>, failMessage: string) => {
+    setIsBusy(true);
+    setError(null);
+    setCopied(false);
+    try {
+      setFeed(await action());
+    } catch (actionError) {
+      console.error("MEAL PLAN FEED ACTION FAILED:", actionError);
+      setError(failMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRotate = () => {
+    if (!feed) return;
+    const confirmed = window.confirm(
+      "Skapa en ny länk? Kalendrar som prenumererar på den gamla länken slutar uppdateras."
+    );
+    if (!confirmed) return;
+    void runAction(() => createMealPlanFeed(feed.lookAheadWeeks), "Kunde inte byta länk.");
+  };
+
+  const handleRevoke = () => {
+    const confirmed = window.confirm(
+      "Stäng av kalenderlänken? Prenumerationer slutar uppdateras."
+    );
+    if (!confirmed) return;
+    void runAction(async () => {
+      await revokeMealPlanFeed();
+      return null;
+    }, "Kunde inte stänga av länken.");
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(getMealPlanFeedUrl(feed.token));
+      setCopied(true);
+    } catch (copyError) {
+      console.error("COPY FEED URL FAILED:", copyError);
+      setError("Kunde inte kopiera – markera länken och kopiera manuellt.");
+    }
+  };
+
+  const feedUrl = feed ? getMealPlanFeedUrl(feed.token) : "";
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+        Prenumerera på matplanen
+      </h2>
+      <p className="text-xs text-gray-500">
+        Lägg till länken som prenumererad kalender i t.ex. iPhone eller Google Kalender så
+        syns planerade måltider och uppdateras automatiskt. Alla som har länken kan se planen.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Laddar...</p>
+      ) : !feed ? (
+        <button
+          type="button"
+          onClick={() => void runAction(() => createMealPlanFeed(), "Kunde inte skapa länken.")}
+          disabled={isBusy}
+          className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+        >
+          {isBusy ? "Skapar..." : "Skapa kalenderlänk"}
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <input
+            readOnly
+            value={feedUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-[11px] text-gray-700"
+          />
+          {copied && <p className="text-xs text-emerald-700">Länken är kopierad.</p>}
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            Visa
+            <select
+              value={feed.lookAheadWeeks}
+              disabled={isBusy}
+              onChange={(e) =>
+                void runAction(
+                  () => updateMealPlanFeedLookAhead(Number(e.target.value)),
+                  "Kunde inte spara antal veckor."
+                )
+              }
+              className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs"
+            >
+              {Array.from(new Set([...LOOK_AHEAD_OPTIONS, feed.lookAheadWeeks]))
+                .sort((a, b) => a - b)
+                .map((weeks) => (
+                  <option key={weeks} value={weeks}>
+                    {weeks} {weeks === 1 ? "vecka" : "veckor"}
+                  </option>
+                ))}
+            </select>
+            framåt
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+            >
+              Kopiera
+            </button>
+            <a
+              href={feedUrl}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+            >
+              Öppna i kalender
+            </a>
+            <button
+              type="button"
+              onClick={handleRotate}
+              disabled={isBusy}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+            >
+              Byt länk
+            </button>
+            <button
+              type="button"
+              onClick={handleRevoke}
+              disabled={isBusy}
+              className="ml-auto rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold disabled:opacity-40"
+            >
+              Stäng av
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MealPlanFeedSettings;
@@ -3,133 +3,147 @@ import { useLocation, useNavigate } from "react-router-dom";
 import {
   ActiveDayIndices,
   DayPlan,
+  GeneratorRule,
+  MealDish,
+  MealSlotConfig,
   MealSlotPlan,
+  MealSlotRef,
   MealSlotType,
   Recipe,
   SWEDISH_DAYS,
+  UserCalendar,
   WeekPlan,
 } from "../types";
 import { generateICS } from "../services/icsService";
+import { fetchIngredientNamesByRecipe } from "../services/recipeContentService";
+import {
+  generateWeekPlan,
+  getRecipeMinutes,
+  type GeneratorAlternative,
+  type GeneratorAssignment,
+  type GeneratorInput,
+  type GeneratorResult,
+  type GeneratorTarget,
+} from "../services/weekGenerator";
+import {
+  getDefaultActiveDays,
+  getDishLabel,
+  getSlotPlan,
+  findSlotPlan,
+  getLeftoversLabel,
+  getSlotRecipeIds,
+  hasSlotContent,
+  isLeftoversSlot,
+  isSameSlotRef,
+  moveSlotPlan,
+  patchSlotPlan,
+  resolveSlotServings,
+  setSlotDish,
+} from "../services/mealSlotService";
 import { supabase } from "../supabaseClient";
+import {
+  type BusyBlock,
+  normalizeEventTitle,
+} from "../supabase/functions/_shared/busyBlocks";
+import {
+  getCurrentIsoWeek,
+  isoWeekDayToISODate,
+  parseIsoWeek,
+  shiftIsoWeek,
+} from "../supabase/functions/_shared/isoWeek";
+import { fetchUserCalendars } from "../services/calendarService";
+import { deductCookedDishes } from "../services/pantryService";
+import WeekTemplateModal from "./WeekTemplateModal";
+import { getUndoShortcut } from "../services/undoHistory";
 
 interface MealPlannerProps {
   recipes: Recipe[];
   plans: WeekPlan[];
+  mealSlots: MealSlotConfig[];
+  generatorRules: GeneratorRule[];
   onUpdatePlans: (plans: WeekPlan[]) => void;
   onUpdateRecipes: (recipes: Recipe[]) => void;
   onMarkCooked: (updates: { id: number; lastCooked: string }[]) => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
-const ALL_ACTIVE_DAYS: ActiveDayIndices = {
-  lunch: [...ALL_DAYS],
-  dinner: [...ALL_DAYS],
-};
-const DEFAULT_ACTIVE_DAYS_NEW_WEEK: ActiveDayIndices = {
-  // Nya veckor: lunch endast helg
-  lunch: [5, 6],
-  // Nya veckor: kvällsmat mån-lör
-  dinner: [0, 1, 2, 3, 4, 5],
-};
 const LAST_SELECTED_WEEK_KEY = "matplaneraren_selected_week_v1";
+const ICS_RECIPE_CONTENT_KEY = "matplaneraren_ics_recipe_content_v1";
+// Hur långt bakåt veckoplanerna räknas som historik för "ingen upprepning"
+const MAX_HISTORY_WEEKS = 8;
 const FALLBACK_SUPABASE_PROJECT_REF = "rmnqaqqtdysjpstktvvr";
 
-const SLOT_LABELS: Record<MealSlotType, string> = {
-  lunch: "Lunch",
-  dinner: "Kvällsmat",
-};
+// Färger för kalenderaktivitet per måltid (i måltidsordning, återanvänds vid fler måltider).
+const SLOT_BUSY_STYLES = [
+  {
+    dot: "bg-sky-500",
+    badge: "bg-sky-50 text-sky-700",
+    heading: "text-sky-700",
+    card: "border-sky-100 bg-sky-50/40",
+  },
+  {
+    dot: "bg-amber-500",
+    badge: "bg-amber-50 text-amber-700",
+    heading: "text-amber-700",
+    card: "border-amber-100 bg-amber-50/40",
+  },
+  {
+    dot: "bg-violet-500",
+    badge: "bg-violet-50 text-violet-700",
+    heading: "text-violet-700",
+    card: "border-violet-100 bg-violet-50/40",
+  },
+  {
+    dot: "bg-rose-500",
+    badge: "bg-rose-50 text-rose-700",
+    heading: "text-rose-700",
+    card: "border-rose-100 bg-rose-50/40",
+  },
+];
 
 type DayEventModalTarget = number | null;
-type RecipeModalTarget = { dayId: number; slot: MealSlotType } | null;
+// dishIndex = antal rätter betyder "lägg till ytterligare rätt"
+type RecipeModalTarget = { dayId: number; slot: MealSlotType; dishIndex: number } | null;
 
-type CalendarEventPeriod = {
-  start: Date;
-  end: Date;
-  summary: string;
-  description: string;
-  uid: string;
-};
+// Släppyta för en dragen måltid: en måltid/dagknapp i veckan eller pilen till grannveckan.
+type MealDropTarget =
+  | { kind: "slot"; dayId: number; slot: MealSlotType }
+  | { kind: "week"; delta: -1 | 1 };
 
-type RawCalendarEvent = {
-  start: Date;
-  end: Date;
-  summary: string;
-  description: string;
-  uid: string;
-  rrule: string | null;
-  exdates: Date[];
-};
-
-function getCurrentIsoWeek(): string {
-  const now = new Date();
-  const d = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
-}
-
-function isoWeekToMonday(weekIdentifier: string): Date | null {
-  const match = /^(\d{4})-W(\d{2})$/.exec(weekIdentifier);
-  if (!match) return null;
-
-  const year = Number(match[1]);
-  const week = Number(match[2]);
-  const jan4 = new Date(Date.UTC(year, 0, 4));
-  const jan4IsoDow = jan4.getUTCDay() || 7;
-  const week1Monday = new Date(jan4);
-  week1Monday.setUTCDate(jan4.getUTCDate() - (jan4IsoDow - 1));
-
-  const monday = new Date(week1Monday);
-  monday.setUTCDate(week1Monday.getUTCDate() + (week - 1) * 7);
-  return monday;
+function getMealDropKey(target: MealDropTarget): string {
+  return target.kind === "slot" ? `slot:${target.dayId}:${target.slot}` : `week:${target.delta}`;
 }
 
-function dateToIsoWeek(date: Date): string {
-  const d = new Date(
-    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
-  );
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
-}
-
-function shiftIsoWeek(weekIdentifier: string, deltaWeeks: number): string {
-  const monday = isoWeekToMonday(weekIdentifier);
-  if (!monday) return weekIdentifier;
-  monday.setUTCDate(monday.getUTCDate() + deltaWeeks * 7);
-  return dateToIsoWeek(monday);
-}
-
-function isoWeekDayToISODate(weekIdentifier: string, dayId: number): string {
-  const match = /^(\d{4})-W(\d{2})$/.exec(weekIdentifier);
-  if (!match) {
-    return new Date().toISOString().slice(0, 10);
+function parseMealDropKey(key: string): MealDropTarget | null {
+  const [kind, first, ...rest] = key.split(":");
+  if (kind === "week") {
+    return first === "-1" || first === "1" ? { kind, delta: Number(first) as -1 | 1 } : null;
   }
-
-  const year = Number(match[1]);
-  const week = Number(match[2]);
-  const jan4 = new Date(Date.UTC(year, 0, 4));
-  const jan4IsoDow = jan4.getUTCDay() || 7;
-  const week1Monday = new Date(jan4);
-  week1Monday.setUTCDate(jan4.getUTCDate() - (jan4IsoDow - 1));
-  const target = new Date(week1Monday);
-  target.setUTCDate(week1Monday.getUTCDate() + (week - 1) * 7 + dayId);
-  return target.toISOString().slice(0, 10);
+  const dayId = Number(first);
+  const slot = rest.join(":");
+  if (kind !== "slot" || !Number.isInteger(dayId) || !slot) return null;
+  return { kind, dayId, slot };
 }
 
-function getDefaultSlotPlan(): MealSlotPlan {
-  return { recipeId: null, freeText: null };
-}
+type CalendarEventPeriod = {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  summary: string;
+  // Rubriken från kalendern (rensad av proxyn), null om den saknas
+  title: string | null;
+  // Vems kalender händelsen kommer från (user_calendars.member_name)
+  memberName: string | null;
+};
 
 function getDefaultDayPlan(dayId: number): DayPlan {
   return {
     dayId,
-    lunch: getDefaultSlotPlan(),
-    dinner: getDefaultSlotPlan(),
+    meals: {},
   };
 }
 
@@ -184,371 +198,57 @@ function buildCalendarProxyEndpointCandidates(): string[] {
 
 const CALENDAR_PROXY_ENDPOINT_CANDIDATES = buildCalendarProxyEndpointCandidates();
 
-function parseIcsDateValue(rawValue: string): Date | null {
-  const value = rawValue.trim();
-
-  if (/^\d{8}$/.test(value)) {
-    const y = Number(value.slice(0, 4));
-    const m = Number(value.slice(4, 6));
-    const d = Number(value.slice(6, 8));
-    return new Date(y, m - 1, d, 0, 0, 0, 0);
+// Svaret från icloud-ics-proxy?mode=busy – upprepningar och regler per kalender är redan
+// tillämpade på servern, så här återstår bara att läsa in tiderna.
+function readBusyPayload(data: unknown): CalendarEventPeriod[] {
+  const payload = typeof data === "string" ? JSON.parse(data) : data;
+  if (!payload?.ok || !Array.isArray(payload.blocks)) {
+    throw new Error(`Unexpected function payload: ${JSON.stringify(payload).slice(0, 120)}`);
   }
-
-  if (/^\d{8}T\d{6}Z$/.test(value)) {
-    const y = Number(value.slice(0, 4));
-    const m = Number(value.slice(4, 6));
-    const d = Number(value.slice(6, 8));
-    const hh = Number(value.slice(9, 11));
-    const mm = Number(value.slice(11, 13));
-    const ss = Number(value.slice(13, 15));
-    return new Date(Date.UTC(y, m - 1, d, hh, mm, ss));
-  }
-
-  if (/^\d{8}T\d{6}$/.test(value)) {
-    const y = Number(value.slice(0, 4));
-    const m = Number(value.slice(4, 6));
-    const d = Number(value.slice(6, 8));
-    const hh = Number(value.slice(9, 11));
-    const mm = Number(value.slice(11, 13));
-    const ss = Number(value.slice(13, 15));
-    return new Date(y, m - 1, d, hh, mm, ss, 0);
+  if (Array.isArray(payload.failedCalendars) && payload.failedCalendars.length > 0) {
+    console.warn("CALENDAR SYNC PARTIAL:", payload.failedCalendars);
   }
-
-  return null;
-}
-
-function decodeIcsText(rawValue: string): string {
-  return rawValue
-    .replace(/\\n/gi, "\n")
-    .replace(/\\,/g, ",")
-    .replace(/\\;/g, ";")
-    .replace(/\\\\/g, "\\");
-}
-
-function normalizeSummaryForMatch(value: string): string {
-  return value.trim().toLowerCase().replace(/\s+/g, " ");
-}
-
-function parseIcsDateList(rawValue: string): Date[] {
-  return rawValue
-    .split(",")
-    .map((part) => parseIcsDateValue(part))
-    .filter((date): date is Date => date !== null);
-}
-
-function parseRRule(rawRule: string): Record<string, string> {
-  const out: Record<string, string> = {};
-  rawRule.split(";").forEach((part) => {
-    const [key, ...rest] = part.split("=");
-    if (!key) return;
-    out[key.trim().toUpperCase()] = rest.join("=").trim();
-  });
-  return out;
-}
-
-function getWeekRange(weekIdentifier: string): { start: Date; end: Date } {
-  const mondayIso = isoWeekDayToISODate(weekIdentifier, 0);
-  const start = new Date(`${mondayIso}T00:00:00`);
-  const end = new Date(start);
-  end.setDate(start.getDate() + 7);
-  return { start, end };
-}
-
-function expandRecurringEventForWeek(
-  rawEvent: RawCalendarEvent,
-  weekIdentifier: string
-): CalendarEventPeriod[] {
-  const range = getWeekRange(weekIdentifier);
-  const rangeStart = new Date(range.start.getTime() - 24 * 60 * 60 * 1000);
-  const rangeEnd = new Date(range.end.getTime() + 24 * 60 * 60 * 1000);
-  const durationMs = Math.max(1, rawEvent.end.getTime() - rawEvent.start.getTime());
-  const exdateSet = new Set(rawEvent.exdates.map((date) => date.getTime()));
-
-  const makeEvent = (start: Date): CalendarEventPeriod | null => {
-    if (exdateSet.has(start.getTime())) return null;
-    const end = new Date(start.getTime() + durationMs);
-    if (end <= rangeStart || start >= rangeEnd) return null;
-    return {
-      start,
-      end,
-      summary: rawEvent.summary,
-      description: rawEvent.description,
-      uid: rawEvent.uid,
-    };
-  };
-
-  if (!rawEvent.rrule) {
-    const single = makeEvent(rawEvent.start);
-    return single ? [single] : [];
-  }
-
-  const rule = parseRRule(rawEvent.rrule);
-  const freq = (rule.FREQ || "").toUpperCase();
-  const interval = Math.max(1, Number(rule.INTERVAL || "1"));
-  const count = Number(rule.COUNT || "0");
-  const until = rule.UNTIL ? parseIcsDateValue(rule.UNTIL) : null;
-  const byDayTokens = (rule.BYDAY || "")
-    .split(",")
-    .map((s) => s.trim().toUpperCase())
-    .filter(Boolean);
-  const byMonthDays = (rule.BYMONTHDAY || "")
-    .split(",")
-    .map((s) => Number(s.trim()))
-    .filter((n) => Number.isInteger(n) && n !== 0);
-
-  const dayTokenToJsDay: Record<string, number> = {
-    SU: 0,
-    MO: 1,
-    TU: 2,
-    WE: 3,
-    TH: 4,
-    FR: 5,
-    SA: 6,
-  };
-
-  const results: CalendarEventPeriod[] = [];
-  let emittedCount = 0;
-  const maxIterations = 5000;
-
-  const tryAdd = (start: Date): boolean => {
-    if (start < rawEvent.start) return false;
-    if (until && start > until) return true;
-    emittedCount += 1;
-    const event = makeEvent(start);
-    if (event) results.push(event);
-    if (count > 0 && emittedCount >= count) return true;
-    return false;
-  };
-
-  if (freq === "DAILY") {
-    const cursor = new Date(rawEvent.start);
-    let loops = 0;
-    while (loops < maxIterations && cursor < rangeEnd) {
-      loops += 1;
-      if (tryAdd(new Date(cursor))) break;
-      cursor.setDate(cursor.getDate() + interval);
-    }
-    return results.sort((a, b) => a.start.getTime() - b.start.getTime());
-  }
-
-  if (freq === "WEEKLY") {
-    const baseWeekStart = new Date(rawEvent.start);
-    baseWeekStart.setDate(rawEvent.start.getDate() - ((rawEvent.start.getDay() + 6) % 7));
-    const weekCursor = new Date(baseWeekStart);
-
-    const byDays =
-      byDayTokens.length > 0
-        ? byDayTokens
-            .map((token) => dayTokenToJsDay[token])
-            .filter((d) => d !== undefined)
-        : [rawEvent.start.getDay()];
-
-    let loops = 0;
-    while (loops < maxIterations && weekCursor < rangeEnd) {
-      loops += 1;
-      const weekEvents = byDays
-        .map((jsDay) => {
-          const candidate = new Date(weekCursor);
-          candidate.setDate(weekCursor.getDate() + ((jsDay + 6) % 7));
-          candidate.setHours(
-            rawEvent.start.getHours(),
-            rawEvent.start.getMinutes(),
-            rawEvent.start.getSeconds(),
-            rawEvent.start.getMilliseconds()
-          );
-          return candidate;
-        })
-        .sort((a, b) => a.getTime() - b.getTime());
-
-      for (const start of weekEvents) {
-        if (tryAdd(start)) {
-          return results.sort((a, b) => a.start.getTime() - b.start.getTime());
-        }
-      }
-
-      weekCursor.setDate(weekCursor.getDate() + interval * 7);
-    }
-
-    return results.sort((a, b) => a.start.getTime() - b.start.getTime());
-  }
-
-  if (freq === "MONTHLY") {
-    const cursor = new Date(rawEvent.start);
-    let loops = 0;
-
-    while (loops < maxIterations && cursor < rangeEnd) {
-      loops += 1;
-      const year = cursor.getFullYear();
-      const month = cursor.getMonth();
-      const monthDays = byMonthDays.length > 0 ? byMonthDays : [rawEvent.start.getDate()];
-
-      const monthEvents = monthDays
-        .map((dayOfMonth) => {
-          const candidate = new Date(year, month, dayOfMonth);
-          if (candidate.getMonth() !== month) return null;
-          candidate.setHours(
-            rawEvent.start.getHours(),
-            rawEvent.start.getMinutes(),
-            rawEvent.start.getSeconds(),
-            rawEvent.start.getMilliseconds()
-          );
-          return candidate;
-        })
-        .filter((candidate): candidate is Date => candidate !== null)
-        .sort((a, b) => a.getTime() - b.getTime());
-
-      for (const start of monthEvents) {
-        if (tryAdd(start)) {
-          return results.sort((a, b) => a.start.getTime() - b.start.getTime());
-        }
-      }
-
-      cursor.setMonth(cursor.getMonth() + interval);
-      cursor.setDate(1);
-    }
-
-    return results.sort((a, b) => a.start.getTime() - b.start.getTime());
-  }
-
-  const fallbackSingle = makeEvent(rawEvent.start);
-  return fallbackSingle ? [fallbackSingle] : [];
-}
-
-function extractIcsEventPeriods(
-  icsText: string,
-  weekIdentifier: string
-): CalendarEventPeriod[] {
-  const unfolded = icsText.replace(/\r?\n[ \t]/g, "");
-  const lines = unfolded.split(/\r?\n/);
-  const rawEvents: RawCalendarEvent[] = [];
-
-  let inEvent = false;
-  let dtStartRaw: string | null = null;
-  let dtEndRaw: string | null = null;
-  let summaryRaw: string | null = null;
-  let descriptionRaw: string | null = null;
-  let uidRaw: string | null = null;
-  let rruleRaw: string | null = null;
-  const exdateRawList: string[] = [];
-  let statusCancelled = false;
-
-  const pushEvent = () => {
-    if (!dtStartRaw || statusCancelled) return;
-    if (/^\d{8}$/.test(dtStartRaw)) return;
-
-    const start = parseIcsDateValue(dtStartRaw);
-    if (!start) return;
-
-    let end = dtEndRaw ? parseIcsDateValue(dtEndRaw) : null;
-    if (!end || end.getTime() <= start.getTime()) {
-      end = new Date(start.getTime() + 60 * 60 * 1000);
-    }
-
-    const summary = summaryRaw ? decodeIcsText(summaryRaw).trim() : "";
-    const description = descriptionRaw ? decodeIcsText(descriptionRaw).trim() : "";
-    const uid = uidRaw ? decodeIcsText(uidRaw).trim() : "";
-    const exdates = exdateRawList.flatMap((value) => parseIcsDateList(value));
-
-    rawEvents.push({
-      start,
-      end,
-      summary: summary || "Aktivitet",
-      description,
-      uid,
-      rrule: rruleRaw,
-      exdates,
-    });
-  };
-
-  lines.forEach((line) => {
-    if (line === "BEGIN:VEVENT") {
-      inEvent = true;
-      dtStartRaw = null;
-      dtEndRaw = null;
-      summaryRaw = null;
-      descriptionRaw = null;
-      uidRaw = null;
-      rruleRaw = null;
-      exdateRawList.length = 0;
-      statusCancelled = false;
-      return;
-    }
-
-    if (line === "END:VEVENT") {
-      if (inEvent) pushEvent();
-      inEvent = false;
-      return;
-    }
-
-    if (!inEvent) return;
-    if (line.startsWith("STATUS:")) {
-      statusCancelled = line.toUpperCase().includes("CANCELLED");
-      return;
-    }
-    if (line.startsWith("DTSTART")) {
-      dtStartRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("DTEND")) {
-      dtEndRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("SUMMARY")) {
-      summaryRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("UID")) {
-      uidRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("DESCRIPTION")) {
-      descriptionRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("RRULE")) {
-      rruleRaw = line.split(":").slice(1).join(":") || null;
-      return;
-    }
-    if (line.startsWith("EXDATE")) {
-      const value = line.split(":").slice(1).join(":");
-      if (value) exdateRawList.push(value);
-    }
-  });
-
-  return rawEvents
-    .flatMap((rawEvent) => expandRecurringEventForWeek(rawEvent, weekIdentifier))
-    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  return (payload.blocks as BusyBlock[]).map((block) => ({
+    start: new Date(block.start),
+    end: new Date(block.end),
+    allDay: block.allDay,
+    summary: block.title || block.calendarLabel || "Aktivitet",
+    title: block.title,
+    memberName: block.memberName,
+  }));
 }
 
-function computeBusyEveningDays(
+function computeBusyDays(
   weekIdentifier: string,
-  events: CalendarEventPeriod[]
+  events: CalendarEventPeriod[],
+  window: MealSlotConfig["busyWindow"]
 ): Set<number> {
   const busy = new Set<number>();
   for (let dayId = 0; dayId <= 6; dayId += 1) {
     const dateISO = isoWeekDayToISODate(weekIdentifier, dayId);
-    const eveningStart = new Date(`${dateISO}T16:00:00`);
-    const eveningEnd = new Date(`${dateISO}T21:00:00`);
+    const windowStart = new Date(`${dateISO}T${window.start}:00`);
+    const windowEnd = new Date(`${dateISO}T${window.end}:00`);
     const hasOverlap = events.some(
-      (event) => event.end > eveningStart && event.start < eveningEnd
+      (event) => event.end > windowStart && event.start < windowEnd
     );
     if (hasOverlap) busy.add(dayId);
   }
   return busy;
 }
 
-function buildWeekEveningEvents(
+function buildWeekEventsInWindow(
   weekIdentifier: string,
-  events: CalendarEventPeriod[]
+  events: CalendarEventPeriod[],
+  window: MealSlotConfig["busyWindow"]
 ): Map<number, CalendarEventPeriod[]> {
   const byDay = new Map<number, CalendarEventPeriod[]>();
   for (let dayId = 0; dayId <= 6; dayId += 1) {
     const dateISO = isoWeekDayToISODate(weekIdentifier, dayId);
-    const eveningStart = new Date(`${dateISO}T16:00:00`);
-    const eveningEnd = new Date(`${dateISO}T21:00:00`);
+    const windowStart = new Date(`${dateISO}T${window.start}:00`);
+    const windowEnd = new Date(`${dateISO}T${window.end}:00`);
 
     const overlaps = events
-      .filter((event) => event.end > eveningStart && event.start < eveningEnd)
+      .filter((event) => event.end > windowStart && event.start < windowEnd)
       .sort((a, b) => a.start.getTime() - b.start.getTime());
 
     if (overlaps.length > 0) byDay.set(dayId, overlaps);
@@ -556,139 +256,150 @@ function buildWeekEveningEvents(
   return byDay;
 }
 
-function computeBusyDaytimeDays(
-  weekIdentifier: string,
-  events: CalendarEventPeriod[]
-): Set<number> {
-  const busy = new Set<number>();
-  for (let dayId = 0; dayId <= 6; dayId += 1) {
-    const dateISO = isoWeekDayToISODate(weekIdentifier, dayId);
-    const dayStart = new Date(`${dateISO}T11:00:00`);
-    const dayEnd = new Date(`${dateISO}T14:30:00`);
-    const hasOverlap = events.some((event) => event.end > dayStart && event.start < dayEnd);
-    if (hasOverlap) busy.add(dayId);
-  }
-  return busy;
-}
-
-function buildWeekDaytimeEvents(
-  weekIdentifier: string,
-  events: CalendarEventPeriod[]
-): Map<number, CalendarEventPeriod[]> {
-  const byDay = new Map<number, CalendarEventPeriod[]>();
-  for (let dayId = 0; dayId <= 6; dayId += 1) {
-    const dateISO = isoWeekDayToISODate(weekIdentifier, dayId);
-    const dayStart = new Date(`${dateISO}T11:00:00`);
-    const dayEnd = new Date(`${dateISO}T14:30:00`);
-
-    const overlaps = events
-      .filter((event) => event.end > dayStart && event.start < dayEnd)
-      .sort((a, b) => a.start.getTime() - b.start.getTime());
-
-    if (overlaps.length > 0) byDay.set(dayId, overlaps);
-  }
-  return byDay;
-}
-
-function getRecencyBonus(lastCooked: string | null): number {
-  if (!lastCooked) return 20;
-
-  const lastCookedDate = new Date(lastCooked);
-  if (Number.isNaN(lastCookedDate.getTime())) return 0;
-
-  const diffDays = Math.floor(
-    (Date.now() - lastCookedDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  if (!Number.isFinite(diffDays)) return 0;
-  return Math.max(0, Math.min(diffDays, 30));
-}
-
-function pickWeightedRecipe(
-  candidates: Recipe[],
-  excludeCategories: Set<string>
-): Recipe | null {
-  if (candidates.length === 0) return null;
-
-  const weighted = candidates.map((recipe) => {
-    let score = 100 + getRecencyBonus(recipe.lastCooked);
-    if (excludeCategories.has(recipe.category)) score -= 40;
-    return { recipe, score: Math.max(1, score) };
-  });
-
-  const totalWeight = weighted.reduce((sum, c) => sum + c.score, 0);
-  let randomWeight = Math.random() * totalWeight;
-
-  for (const candidate of weighted) {
-    randomWeight -= candidate.score;
-    if (randomWeight <= 0) return candidate.recipe;
-  }
-
-  return weighted[weighted.length - 1].recipe;
-}
-
 const MealPlanner: React.FC<MealPlannerProps> = ({
   recipes,
   plans,
+  mealSlots,
+  generatorRules,
   onUpdatePlans,
   onUpdateRecipes,
   onMarkCooked,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
 
   const [selectedWeek, setSelectedWeek] = useState(() => {
+    // Översikten hoppar hit med vald vecka i location.state.
+    const requested = (location.state as { week?: string } | null)?.week;
+    if (requested && parseIsoWeek(requested)) return requested;
     const stored =
       typeof window !== "undefined"
         ? window.localStorage.getItem(LAST_SELECTED_WEEK_KEY)
         : null;
-    return stored || getCurrentIsoWeek();
+    return stored && parseIsoWeek(stored) ? stored : getCurrentIsoWeek();
   });
 
+  // Kalenderexport med ingredienser och steg (sparas per enhet).
+  const [exportRecipeContent, setExportRecipeContent] = useState(
+    () =>
+      typeof window !== "undefined" &&
+      window.localStorage.getItem(ICS_RECIPE_CONTENT_KEY) === "1"
+  );
+
+  const defaultActiveDays = useMemo(() => getDefaultActiveDays(mealSlots), [mealSlots]);
   const [activeDayIndices, setActiveDayIndices] =
-    useState<ActiveDayIndices>(ALL_ACTIVE_DAYS);
+    useState<ActiveDayIndices>(defaultActiveDays);
   const [showRecipeModal, setShowRecipeModal] = useState<RecipeModalTarget>(null);
   const [showDayEventsModal, setShowDayEventsModal] = useState<DayEventModalTarget>(null);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [draggingMeal, setDraggingMeal] = useState<{ dayId: number; slot: MealSlotType } | null>(
+    null
+  );
+  const [mealDropKey, setMealDropKey] = useState<string | null>(null);
   const [freeTextDraft, setFreeTextDraft] = useState("");
   const [modalSearchTerm, setModalSearchTerm] = useState("");
   const [modalCategoryFilter, setModalCategoryFilter] = useState<string>("Alla");
-  const [busyDaytimeDays, setBusyDaytimeDays] = useState<Set<number>>(new Set());
-  const [busyEveningDays, setBusyEveningDays] = useState<Set<number>>(new Set());
-  const [daytimeEventsByDay, setDaytimeEventsByDay] = useState<
-    Map<number, CalendarEventPeriod[]>
-  >(new Map());
-  const [eveningEventsByDay, setEveningEventsByDay] = useState<
-    Map<number, CalendarEventPeriod[]>
-  >(new Map());
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Förklaring till senaste "Slumpa fram allt" (vilka regler varje val uppfyllde/bröt)
+  const [generationReport, setGenerationReport] = useState<GeneratorResult | null>(null);
+  // Kalenderhändelser som krockar med respektive måltids tidsfönster (nyckel = måltids-id).
+  const [busyDaysBySlot, setBusyDaysBySlot] = useState<Record<MealSlotType, Set<number>>>({});
+  const [eventsBySlot, setEventsBySlot] = useState<
+    Record<MealSlotType, Map<number, CalendarEventPeriod[]>>
+  >({});
+  // Rubrikerna hämtas bara när dagens händelser visas.
+  const [hasEventTitles, setHasEventTitles] = useState(false);
 
   const currentPlan = useMemo(() => {
     return (
       plans.find((p) => p.weekIdentifier === selectedWeek) || {
         weekIdentifier: selectedWeek,
         days: [],
-        activeDayIndices: DEFAULT_ACTIVE_DAYS_NEW_WEEK,
+        activeDayIndices: defaultActiveDays,
       }
     );
-  }, [plans, selectedWeek]);
+  }, [plans, selectedWeek, defaultActiveDays]);
 
   const excludedCalendarSummaries = useMemo(() => {
     const summarySet = new Set<string>();
 
     recipes.forEach((recipe) => {
-      const normalized = normalizeSummaryForMatch(recipe.name);
+      const normalized = normalizeEventTitle(recipe.name);
       if (normalized) summarySet.add(normalized);
     });
 
     currentPlan.days.forEach((day) => {
-      (["lunch", "dinner"] as MealSlotType[]).forEach((slot) => {
-        const freeText = (day[slot].freeText ?? "").trim();
-        if (!freeText) return;
-        summarySet.add(normalizeSummaryForMatch(freeText));
+      Object.values(day.meals).forEach((slotPlan) => {
+        if (slotPlan.leftoversFrom) {
+          summarySet.add(normalizeEventTitle(getLeftoversLabel(slotPlan, plans, recipes)));
+          return;
+        }
+        const labels = slotPlan.dishes
+          .map((dish) => getDishLabel(dish, recipes))
+          .filter(Boolean);
+        labels.forEach((label) => summarySet.add(normalizeEventTitle(label)));
+        // Exporterade måltider med flera rätter heter "Huvudrätt + Tillbehör" i kalendern.
+        if (labels.length > 1) summarySet.add(normalizeEventTitle(labels.join(" + ")));
       });
     });
 
-    summarySet.add(normalizeSummaryForMatch("Måltid"));
+    summarySet.add(normalizeEventTitle("Måltid"));
     return summarySet;
-  }, [recipes, currentPlan.days]);
+  }, [recipes, currentPlan.days, plans]);
+
+  const modalDishes = showRecipeModal
+    ? getSlotPlan(
+        currentPlan.days.find((d) => d.dayId === showRecipeModal.dayId),
+        showRecipeModal.slot
+      ).dishes
+    : [];
+
+  // Måltider som kan ge rester: tidigare måltider i veckan samt hela föregående vecka.
+  const leftoverCandidates = useMemo(() => {
+    if (!showRecipeModal) return [];
+    const target = showRecipeModal;
+    const targetSlotIndex = mealSlots.findIndex((slot) => slot.id === target.slot);
+    const previousWeek = shiftIsoWeek(selectedWeek, -1);
+    const out: Array<{ ref: MealSlotRef; label: string }> = [];
+
+    [previousWeek, selectedWeek].forEach((weekIdentifier) => {
+      const week = plans.find((p) => p.weekIdentifier === weekIdentifier);
+      if (!week) return;
+      const isCurrentWeek = weekIdentifier === selectedWeek;
+
+      [...week.days]
+        .sort((a, b) => a.dayId - b.dayId)
+        .forEach((day) => {
+          mealSlots.forEach((mealSlot, slotIndex) => {
+            if (isCurrentWeek) {
+              if (day.dayId > target.dayId) return;
+              if (day.dayId === target.dayId && slotIndex >= targetSlotIndex) return;
+              if (!activeDayIndices[mealSlot.id]?.includes(day.dayId)) return;
+            } else if (!week.activeDayIndices?.[mealSlot.id]?.includes(day.dayId)) {
+              return;
+            }
+
+            const ref: MealSlotRef = { weekIdentifier, dayId: day.dayId, slot: mealSlot.id };
+            const source = findSlotPlan(plans, ref);
+            if (!source || !hasSlotContent(source)) return;
+
+            const dishLabels = source.dishes
+              .map((dish) => getDishLabel(dish, recipes))
+              .filter(Boolean);
+            out.push({
+              ref,
+              label: `${isCurrentWeek ? "" : "Förra veckan, "}${SWEDISH_DAYS[day.dayId]} ${mealSlot.label.toLowerCase()}: ${dishLabels.join(" + ")}`,
+            });
+          });
+        });
+    });
+
+    return out;
+  }, [showRecipeModal, mealSlots, selectedWeek, plans, recipes, activeDayIndices]);
 
   const modalCategories = useMemo(() => {
     return Array.from(new Set(recipes.map((r) => r.category))).sort((a, b) =>
@@ -710,13 +421,14 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
     });
   }, [recipes, modalSearchTerm, modalCategoryFilter]);
 
+  const isSlotActive = (slot: MealSlotType, dayId: number) =>
+    (activeDayIndices[slot] ?? []).includes(dayId);
+
   const dayIndicesToRender = useMemo(() => {
-    return ALL_DAYS.filter(
-      (dayId) =>
-        activeDayIndices.lunch.includes(dayId) ||
-        activeDayIndices.dinner.includes(dayId)
+    return ALL_DAYS.filter((dayId) =>
+      mealSlots.some((slot) => (activeDayIndices[slot.id] ?? []).includes(dayId))
     );
-  }, [activeDayIndices]);
+  }, [activeDayIndices, mealSlots]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -724,12 +436,25 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
   }, [selectedWeek]);
 
   useEffect(() => {
-    setActiveDayIndices(currentPlan.activeDayIndices ?? DEFAULT_ACTIVE_DAYS_NEW_WEEK);
-  }, [currentPlan.activeDayIndices, selectedWeek]);
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(ICS_RECIPE_CONTENT_KEY, exportRecipeContent ? "1" : "0");
+  }, [exportRecipeContent]);
+
+  useEffect(() => {
+    setGenerationReport(null);
+  }, [selectedWeek]);
+
+  useEffect(() => {
+    setActiveDayIndices(currentPlan.activeDayIndices ?? defaultActiveDays);
+  }, [currentPlan.activeDayIndices, selectedWeek, defaultActiveDays]);
 
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       if (event.key !== "Escape") return;
+      if (showTemplateModal) {
+        setShowTemplateModal(false);
+        return;
+      }
       if (showDayEventsModal !== null) {
         setShowDayEventsModal(null);
         return;
@@ -743,17 +468,126 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [showDayEventsModal, showRecipeModal]);
+  }, [showDayEventsModal, showRecipeModal, showTemplateModal]);
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    setGenerationReport(null);
+    onUndo();
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    setGenerationReport(null);
+    onRedo();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getUndoShortcut(event);
+      if (!shortcut || showRecipeModal || showTemplateModal) return;
+      event.preventDefault();
+      if (shortcut === "undo") handleUndo();
+      else handleRedo();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [canUndo, canRedo, onUndo, onRedo, showRecipeModal, showTemplateModal]);
+
+  // Mall eller kopierad vecka ersätter hela veckan (efter förhandsvisningen i modalen).
+  const applyWeekPlan = (next: WeekPlan) => {
+    const otherPlans = plans.filter((p) => p.weekIdentifier !== selectedWeek);
+    onUpdatePlans([...otherPlans, { ...next, weekIdentifier: selectedWeek }]);
+    setGenerationReport(null);
+  };
+
+  const clearMealDragState = () => {
+    setDraggingMeal(null);
+    setMealDropKey(null);
+  };
+
+  // Dra-och-släpp: flyttar måltiden, eller byter plats om målet redan har något.
+  const dropMeal = (key: string) => {
+    const target = parseMealDropKey(key);
+    if (!draggingMeal || !target) return;
+    const from: MealSlotRef = { weekIdentifier: selectedWeek, ...draggingMeal };
+    const to: MealSlotRef =
+      target.kind === "slot"
+        ? { weekIdentifier: selectedWeek, dayId: target.dayId, slot: target.slot }
+        : { weekIdentifier: shiftIsoWeek(selectedWeek, target.delta), ...draggingMeal };
+    if (isSameSlotRef(from, to)) return;
+    onUpdatePlans(moveSlotPlan(plans, from, to, defaultActiveDays));
+  };
+
+  const isMealDropTarget = (target: MealDropTarget) => mealDropKey === getMealDropKey(target);
+
+  const getMealDropProps = (target: MealDropTarget) => {
+    const key = getMealDropKey(target);
+    const isSource =
+      target.kind === "slot" &&
+      draggingMeal?.dayId === target.dayId &&
+      draggingMeal.slot === target.slot;
+    return {
+      "data-meal-drop": key,
+      onDragOver: (event: React.DragEvent) => {
+        if (!draggingMeal || isSource) return;
+        event.preventDefault();
+        setMealDropKey(key);
+      },
+      onDrop: (event: React.DragEvent) => {
+        if (!draggingMeal) return;
+        event.preventDefault();
+        dropMeal(key);
+        clearMealDragState();
+      },
+    };
+  };
+
+  const startMealDrag = (dayId: number, slot: MealSlotType) => {
+    setDraggingMeal({ dayId, slot });
+    setMealDropKey(null);
+  };
+
+  useEffect(() => {
+    if (!draggingMeal || typeof window === "undefined") return;
+
+    const handleWindowTouchMove = (event: TouchEvent) => {
+      const touch = event.touches[0];
+      if (!touch) return;
+
+      const element = document.elementFromPoint(touch.clientX, touch.clientY);
+      const dropElement = element?.closest("[data-meal-drop]");
+      const nextDropKey = dropElement?.getAttribute("data-meal-drop") || null;
+
+      setMealDropKey(
+        nextDropKey === getMealDropKey({ kind: "slot", ...draggingMeal }) ? null : nextDropKey
+      );
+      event.preventDefault();
+    };
+
+    const handleWindowTouchEnd = () => {
+      if (mealDropKey) dropMeal(mealDropKey);
+      clearMealDragState();
+    };
+
+    window.addEventListener("touchmove", handleWindowTouchMove, { passive: false });
+    window.addEventListener("touchend", handleWindowTouchEnd);
+    window.addEventListener("touchcancel", clearMealDragState);
+
+    return () => {
+      window.removeEventListener("touchmove", handleWindowTouchMove);
+      window.removeEventListener("touchend", handleWindowTouchEnd);
+      window.removeEventListener("touchcancel", clearMealDragState);
+    };
+  }, [draggingMeal, mealDropKey, plans, selectedWeek]);
 
   const persistActiveDaysForWeek = (next: ActiveDayIndices) => {
-    const normalized: ActiveDayIndices = {
-      lunch: Array.from(new Set(next.lunch))
+    const normalized: ActiveDayIndices = {};
+    for (const [slot, days] of Object.entries(next)) {
+      normalized[slot] = Array.from(new Set(days))
         .filter((d) => d >= 0 && d <= 6)
-        .sort((a, b) => a - b),
-      dinner: Array.from(new Set(next.dinner))
-        .filter((d) => d >= 0 && d <= 6)
-        .sort((a, b) => a - b),
-    };
+        .sort((a, b) => a - b);
+    }
 
     const otherPlans = plans.filter((p) => p.weekIdentifier !== selectedWeek);
     const existing = plans.find((p) => p.weekIdentifier === selectedWeek);
@@ -767,7 +601,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
 
   const toggleDay = (slot: MealSlotType, idx: number) => {
     setActiveDayIndices((prev) => {
-      const current = prev[slot];
+      const current = prev[slot] ?? [];
       const nextSlot = current.includes(idx)
         ? current.filter((d) => d !== idx)
         : [...current, idx].sort((a, b) => a - b);
@@ -785,110 +619,141 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
     return currentPlan.days.find((d) => d.dayId === dayId) ?? getDefaultDayPlan(dayId);
   };
 
-  const updateDayPlan = (dayId: number, nextDay: DayPlan) => {
-    const existingPlanIdx = plans.findIndex((p) => p.weekIdentifier === selectedWeek);
-    const newPlans = [...plans];
-
-    if (existingPlanIdx > -1) {
-      const dayIdx = newPlans[existingPlanIdx].days.findIndex((d) => d.dayId === dayId);
-      if (dayIdx > -1) {
-        newPlans[existingPlanIdx].days[dayIdx] = nextDay;
-      } else {
-        newPlans[existingPlanIdx].days.push(nextDay);
-      }
-      newPlans[existingPlanIdx].days.sort((a, b) => a.dayId - b.dayId);
-      newPlans[existingPlanIdx].activeDayIndices = activeDayIndices;
-    } else {
-      newPlans.push({
-        weekIdentifier: selectedWeek,
-        days: [nextDay],
-        activeDayIndices,
-      });
-    }
-
-    onUpdatePlans(newPlans);
-  };
-
+  // Bygger nya vecko- och dagobjekt, så att App:s ångra-historik ser ändringen.
   const updateSlotPlan = (
     dayId: number,
     slot: MealSlotType,
     patch: Partial<MealSlotPlan>
   ) => {
-    const current = getDayPlan(dayId);
-    const next: DayPlan = {
-      ...current,
-      [slot]: {
-        ...current[slot],
-        ...patch,
-      },
-    };
-    updateDayPlan(dayId, next);
+    onUpdatePlans(patchSlotPlan(plans, selectedWeek, dayId, slot, patch, activeDayIndices));
+  };
+
+  const updateDish = (
+    dayId: number,
+    slot: MealSlotType,
+    dishIndex: number,
+    dish: MealDish | null
+  ) => {
+    const next = setSlotDish(getSlotPlan(getDayPlan(dayId), slot), dishIndex, dish);
+    updateSlotPlan(dayId, slot, { dishes: next.dishes, leftoversFrom: next.leftoversFrom });
   };
 
-  const updateDayRecipe = (dayId: number, slot: MealSlotType, recipeId: number | null) => {
-    updateSlotPlan(dayId, slot, { recipeId, freeText: null });
+  const closeRecipeModal = () => {
     setShowRecipeModal(null);
     setFreeTextDraft("");
     setModalSearchTerm("");
     setModalCategoryFilter("Alla");
   };
 
-  const updateDayFreeText = (dayId: number, slot: MealSlotType, text: string) => {
+  const updateDayRecipe = (
+    dayId: number,
+    slot: MealSlotType,
+    dishIndex: number,
+    recipeId: number | null
+  ) => {
+    updateDish(dayId, slot, dishIndex, recipeId === null ? null : { recipeId, freeText: null });
+    closeRecipeModal();
+  };
+
+  const updateDayFreeText = (
+    dayId: number,
+    slot: MealSlotType,
+    dishIndex: number,
+    text: string
+  ) => {
     const cleaned = text.trim();
-    updateSlotPlan(dayId, slot, {
-      recipeId: null,
-      freeText: cleaned.length ? cleaned : null,
-    });
-    setShowRecipeModal(null);
-    setFreeTextDraft("");
-    setModalSearchTerm("");
-    setModalCategoryFilter("Alla");
+    updateDish(
+      dayId,
+      slot,
+      dishIndex,
+      cleaned.length ? { recipeId: null, freeText: cleaned } : null
+    );
+    closeRecipeModal();
   };
 
-  const buildWeekExcludes = (exclude?: { dayId: number; slot: MealSlotType }) => {
-    const usedIds = new Set<number>();
-    const usedCategories = new Set<string>();
+  const clearSlotDishes = (dayId: number, slot: MealSlotType) => {
+    updateSlotPlan(dayId, slot, { dishes: [], leftoversFrom: null });
+  };
 
-    currentPlan.days.forEach((day) => {
-      (["lunch", "dinner"] as MealSlotType[]).forEach((slot) => {
-        if (exclude && exclude.dayId === day.dayId && exclude.slot === slot) return;
-        const recipeId = day[slot].recipeId;
-        if (recipeId == null) return;
-
-        usedIds.add(recipeId);
-        const recipe = recipes.find((x) => x.id === recipeId);
-        if (recipe) usedCategories.add(recipe.category);
-      });
-    });
+  const updateDayLeftovers = (dayId: number, slot: MealSlotType, source: MealSlotRef) => {
+    updateSlotPlan(dayId, slot, { dishes: [], leftoversFrom: source });
+    closeRecipeModal();
+  };
 
-    return { usedIds, usedCategories };
+  const openRecipeModal = (dayId: number, slot: MealSlotType, dishIndex: number) => {
+    const dish = getSlotPlan(getDayPlan(dayId), slot).dishes[dishIndex];
+    setShowRecipeModal({ dayId, slot, dishIndex });
+    setFreeTextDraft(dish && dish.recipeId === null ? (dish.freeText ?? "").trim() : "");
   };
 
-  const pickSmartRecipe = (excludeIds: Set<number>, excludeCategories: Set<string>) => {
-    if (recipes.length === 0) return null;
-    const unusedRecipes = recipes.filter((recipe) => !excludeIds.has(recipe.id));
-    if (unusedRecipes.length === 0) {
-      return pickWeightedRecipe(recipes, excludeCategories);
+  // Allt som generatorn behöver utöver själva målen: historik, ingredienser och regler.
+  const buildGeneratorInput = async (
+    targets: GeneratorTarget[],
+    fixed: GeneratorAssignment[]
+  ): Promise<GeneratorInput> => {
+    const weeksSincePlanned: Record<number, number> = {};
+    for (let weeksAgo = MAX_HISTORY_WEEKS; weeksAgo >= 1; weeksAgo -= 1) {
+      const week = plans.find(
+        (p) => p.weekIdentifier === shiftIsoWeek(selectedWeek, -weeksAgo)
+      );
+      week?.days.forEach((day) => {
+        Object.values(day.meals).forEach((slotPlan) => {
+          getSlotRecipeIds(slotPlan).forEach((recipeId) => {
+            weeksSincePlanned[recipeId] = weeksAgo;
+          });
+        });
+      });
     }
 
-    const unusedAndNewCategory = unusedRecipes.filter(
-      (recipe) => !excludeCategories.has(recipe.category)
-    );
+    let ingredientsByRecipe: Record<number, string[]> | undefined;
+    if (generatorRules.some((rule) => rule.enabled && rule.kind === "sharedIngredients")) {
+      try {
+        ingredientsByRecipe = await fetchIngredientNamesByRecipe(recipes.map((r) => r.id));
+      } catch (loadError) {
+        // Regeln hoppas över hellre än att slumpningen stoppas.
+        console.error("LOAD GENERATOR INGREDIENTS FAILED:", loadError);
+      }
+    }
+
+    return {
+      recipes,
+      targets,
+      fixed,
+      rules: generatorRules,
+      seed: Math.floor(Math.random() * 2 ** 32),
+      referenceDate: isoWeekDayToISODate(selectedWeek, 0),
+      weeksSincePlanned,
+      ingredientsByRecipe,
+    };
+  };
 
-    if (unusedAndNewCategory.length > 0) {
-      return pickWeightedRecipe(unusedAndNewCategory, excludeCategories);
+  // Generatorns val som slot-ändring – en upptagen kväll kan bli rester eller enkel mat.
+  const getPickedSlotPatch = (
+    recipe: Recipe,
+    alternative: GeneratorAlternative | null
+  ): Pick<MealSlotPlan, "dishes" | "leftoversFrom"> => {
+    if (alternative?.kind === "leftovers") {
+      return {
+        dishes: [],
+        leftoversFrom: {
+          weekIdentifier: selectedWeek,
+          dayId: alternative.dayId,
+          slot: alternative.slot,
+        },
+      };
+    }
+    if (alternative?.kind === "simpleMeal") {
+      return { dishes: [{ recipeId: null, freeText: alternative.text }], leftoversFrom: null };
     }
-    return pickWeightedRecipe(unusedRecipes, excludeCategories);
+    return { dishes: [{ recipeId: recipe.id, freeText: null }], leftoversFrom: null };
   };
 
-  const randomizeAll = () => {
+  const randomizeAll = async () => {
     const hasExistingPlannedMeals = currentPlan.days.some((day) =>
-      (["lunch", "dinner"] as MealSlotType[]).some((slot) => {
-        if (!activeDayIndices[slot].includes(day.dayId)) return false;
-        const slotPlan = day[slot];
-        const hasRecipe = slotPlan.recipeId !== null;
-        const hasText = !!(slotPlan.freeText && slotPlan.freeText.trim().length > 0);
-        return hasRecipe || hasText;
+      mealSlots.some((slot) => {
+        if (!isSlotActive(slot.id, day.dayId)) return false;
+        const slotPlan = getSlotPlan(day, slot.id);
+        return hasSlotContent(slotPlan) && !isLeftoversSlot(slotPlan);
       })
     );
 
@@ -899,79 +764,147 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
       if (!confirmed) return;
     }
 
-    const { usedIds, usedCategories } = buildWeekExcludes();
-    const updates = new Map<number, DayPlan>(
-      currentPlan.days.map((d) => [d.dayId, { ...d, lunch: { ...d.lunch }, dinner: { ...d.dinner } }])
-    );
-
+    // Restmåltider är redan bestämda – slumpa inte över dem.
+    const targets: GeneratorTarget[] = [];
     ALL_DAYS.forEach((dayId) => {
-      (["lunch", "dinner"] as MealSlotType[]).forEach((slot) => {
-        if (!activeDayIndices[slot].includes(dayId)) return;
-        const selected = pickSmartRecipe(usedIds, usedCategories);
-        const base = updates.get(dayId) ?? getDefaultDayPlan(dayId);
-
-        if (selected) {
-          base[slot] = { recipeId: selected.id, freeText: null };
-          usedIds.add(selected.id);
-          usedCategories.add(selected.category);
-        }
-        updates.set(dayId, base);
+      mealSlots.forEach(({ id: slot }) => {
+        if (!isSlotActive(slot, dayId)) return;
+        if (isLeftoversSlot(getSlotPlan(getDayPlan(dayId), slot))) return;
+        targets.push({ dayId, slot, busy: isSlotBusy(slot, dayId) });
       });
     });
 
-    const mergedDays = Array.from(updates.values()).sort((a, b) => a.dayId - b.dayId);
-    const otherPlans = plans.filter((p) => p.weekIdentifier !== selectedWeek);
-    onUpdatePlans([
-      ...otherPlans,
-      { weekIdentifier: selectedWeek, days: mergedDays, activeDayIndices },
-    ]);
+    setIsGenerating(true);
+    try {
+      const result = generateWeekPlan(await buildGeneratorInput(targets, []));
+      if (!result) return;
+
+      const updates = new Map<number, DayPlan>(
+        currentPlan.days.map((d) => [d.dayId, { ...d, meals: { ...d.meals } }])
+      );
+      result.picks.forEach(({ target, recipe, alternative }) => {
+        const base = updates.get(target.dayId) ?? getDefaultDayPlan(target.dayId);
+        base.meals[target.slot] = {
+          ...getSlotPlan(base, target.slot),
+          ...getPickedSlotPatch(recipe, alternative),
+        };
+        updates.set(target.dayId, base);
+      });
+
+      const mergedDays = Array.from(updates.values()).sort((a, b) => a.dayId - b.dayId);
+      const otherPlans = plans.filter((p) => p.weekIdentifier !== selectedWeek);
+      onUpdatePlans([
+        ...otherPlans,
+        { weekIdentifier: selectedWeek, days: mergedDays, activeDayIndices },
+      ]);
+      setGenerationReport(result);
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
-  const randomizeSlot = (dayId: number, slot: MealSlotType) => {
-    const { usedIds, usedCategories } = buildWeekExcludes({ dayId, slot });
-    const selected = pickSmartRecipe(usedIds, usedCategories);
-    if (!selected) return;
-    updateSlotPlan(dayId, slot, { recipeId: selected.id, freeText: null });
+  const randomizeSlot = async (dayId: number, slot: MealSlotType) => {
+    // Övriga rätter i veckan ligger fast men påverkar reglerna (t.ex. max 2 pasta).
+    const fixed: GeneratorAssignment[] = [];
+    currentPlan.days.forEach((day) => {
+      Object.entries(day.meals).forEach(([otherSlot, slotPlan]) => {
+        if (day.dayId === dayId && otherSlot === slot) return;
+        if (!isSlotActive(otherSlot, day.dayId)) return;
+        getSlotRecipeIds(slotPlan).forEach((recipeId) => {
+          const recipe = recipes.find((r) => r.id === recipeId);
+          if (!recipe) return;
+          fixed.push({
+            target: { dayId: day.dayId, slot: otherSlot, busy: isSlotBusy(otherSlot, day.dayId) },
+            recipe,
+          });
+        });
+      });
+    });
+
+    const result = generateWeekPlan(
+      await buildGeneratorInput([{ dayId, slot, busy: isSlotBusy(slot, dayId) }], fixed)
+    );
+    const pick = result?.picks[0];
+    if (!pick) return;
+    updateSlotPlan(dayId, slot, getPickedSlotPatch(pick.recipe, pick.alternative));
   };
 
   const handleExportAll = () => {
-    generateICS(selectedWeek, currentPlan.days, recipes, {
+    void generateICS(selectedWeek, currentPlan.days, recipes, {
       activeDayIndices,
+      mealSlots,
+      weekPlans: plans,
+      includeRecipeContent: exportRecipeContent,
     });
   };
 
   const handleExportDay = (dayId: number) => {
     const day = getDayPlan(dayId);
-    const slots = (["lunch", "dinner"] as MealSlotType[]).filter((slot) =>
-      activeDayIndices[slot].includes(dayId)
-    );
+    const slots = mealSlots
+      .map((slot) => slot.id)
+      .filter((slot) => isSlotActive(slot, dayId));
     if (slots.length === 0) return;
 
     const dayShort = SWEDISH_DAYS[dayId].substring(0, 3);
-    generateICS(selectedWeek, [day], recipes, {
+    const dayActiveIndices: ActiveDayIndices = {};
+    slots.forEach((slot) => {
+      dayActiveIndices[slot] = [dayId];
+    });
+    void generateICS(selectedWeek, [day], recipes, {
       fileName: `matplan-${selectedWeek}-${dayShort}`,
       slots,
-      activeDayIndices: {
-        lunch: activeDayIndices.lunch.includes(dayId) ? [dayId] : [],
-        dinner: activeDayIndices.dinner.includes(dayId) ? [dayId] : [],
-      },
+      activeDayIndices: dayActiveIndices,
+      mealSlots,
+      weekPlans: plans,
+      includeRecipeContent: exportRecipeContent,
     });
   };
 
   const handleSaveCookedAll = async () => {
     const byRecipeId = new Map<number, string>();
+    const cookedDishes: Array<{ recipeId: number; servings: number }> = [];
 
+    // Rester inom veckan lagas samtidigt som källmåltiden.
+    const leftoverServings = new Map<string, number>();
     currentPlan.days.forEach((day) => {
-      (["lunch", "dinner"] as MealSlotType[]).forEach((slot) => {
-        if (!activeDayIndices[slot].includes(day.dayId)) return;
-        const recipeId = day[slot].recipeId;
-        if (recipeId == null) return;
+      mealSlots.forEach(({ id: slot }) => {
+        if (!isSlotActive(slot, day.dayId)) return;
+        const slotPlan = getSlotPlan(day, slot);
+        const ref = slotPlan.leftoversFrom;
+        if (!ref || ref.weekIdentifier !== selectedWeek) return;
+        const source = findSlotPlan(plans, ref);
+        const sourceRecipe = source
+          ? recipes.find((r) => r.id === getSlotRecipeIds(source)[0]) ?? null
+          : null;
+        const key = `${ref.dayId}-${ref.slot}`;
+        leftoverServings.set(
+          key,
+          (leftoverServings.get(key) ?? 0) + resolveSlotServings(slotPlan, sourceRecipe)
+        );
+      });
+    });
 
+    currentPlan.days.forEach((day) => {
+      mealSlots.forEach(({ id: slot }) => {
+        if (!isSlotActive(slot, day.dayId)) return;
         const cookDate = isoWeekDayToISODate(selectedWeek, day.dayId);
-        const existing = byRecipeId.get(recipeId);
-        if (!existing || cookDate > existing) {
-          byRecipeId.set(recipeId, cookDate);
-        }
+        const slotPlan = getSlotPlan(day, slot);
+        getSlotRecipeIds(slotPlan).forEach((recipeId) => {
+          const existing = byRecipeId.get(recipeId);
+          if (!existing || cookDate > existing) {
+            byRecipeId.set(recipeId, cookDate);
+          }
+
+          // Redan sparad som lagad den dagen (eller senare) – dras inte av från skafferiet igen.
+          const recipe = recipes.find((r) => r.id === recipeId) ?? null;
+          if (recipe?.lastCooked && recipe.lastCooked.slice(0, 10) >= cookDate) return;
+          cookedDishes.push({
+            recipeId,
+            servings:
+              resolveSlotServings(slotPlan, recipe) +
+              (leftoverServings.get(`${day.dayId}-${slot}`) ?? 0),
+          });
+        });
       });
     });
 
@@ -981,6 +914,13 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
     }));
     if (updates.length === 0) return;
     await onMarkCooked(updates);
+
+    try {
+      await deductCookedDishes(cookedDishes);
+    } catch (deductError) {
+      console.error("DEDUCT PANTRY FAILED:", deductError);
+      alert("Rätterna sparades som lagade, men skafferiet kunde inte uppdateras.");
+    }
   };
 
   const formatDate = (isoString?: string | null) => {
@@ -994,72 +934,76 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
       minute: "2-digit",
     });
 
-  const syncCalendarBusyDays = async () => {
+  const clearBusyState = () => {
+    setBusyDaysBySlot({});
+    setEventsBySlot({});
+    setHasEventTitles(false);
+  };
+
+  const applyBusyEvents = (events: CalendarEventPeriod[], withTitles: boolean) => {
+    const nextBusy: Record<MealSlotType, Set<number>> = {};
+    const nextEvents: Record<MealSlotType, Map<number, CalendarEventPeriod[]>> = {};
+    mealSlots.forEach((slot) => {
+      nextBusy[slot.id] = computeBusyDays(selectedWeek, events, slot.busyWindow);
+      nextEvents[slot.id] = buildWeekEventsInWindow(selectedWeek, events, slot.busyWindow);
+    });
+    setBusyDaysBySlot(nextBusy);
+    setEventsBySlot(nextEvents);
+    setHasEventTitles(withTitles);
+  };
+
+  const isSlotBusy = (slot: MealSlotType, dayId: number) =>
+    busyDaysBySlot[slot]?.has(dayId) ?? false;
+
+  // Exporterade måltider (med markör, @matplan-UID eller ett recept som rubrik) filtreras
+  // bort redan i proxyn. Med rubriker känns även äldre exporter av veckans måltider igen.
+  const isExternalCalendarEvent = (event: CalendarEventPeriod) => {
+    const normalizedTitle = normalizeEventTitle(event.title ?? "");
+    if (!normalizedTitle) return true;
+    return !excludedCalendarSummaries.has(normalizedTitle);
+  };
+
+  const syncCalendarBusyDays = async (withTitles: boolean) => {
+    // Rubrikerna behövs bara för dagens händelselista; beskrivningar lämnar aldrig proxyn.
+    const busyParams = new URLSearchParams({ mode: "busy", week: selectedWeek });
+    if (withTitles) busyParams.set("titles", "1");
+    const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (deviceTimeZone) busyParams.set("tz", deviceTimeZone);
     try {
       // Extra skydd: synka endast om aktuell användare faktiskt har en egen kalender-URL.
       // Detta förhindrar att en ny användare "ärver" kalenderkoppling via felkonfigurerad backend.
       const { data: userData, error: userError } = await supabase.auth.getUser();
       if (userError || !userData?.user) {
-        setBusyDaytimeDays(new Set());
-        setBusyEveningDays(new Set());
-        setDaytimeEventsByDay(new Map());
-        setEveningEventsByDay(new Map());
+        clearBusyState();
         return;
       }
 
       // Synka endast om användaren har minst en aktiv kalender i user_calendars.
-      const { data: calendarsData, error: calendarsError } = await supabase
-        .from("user_calendars")
-        .select("id")
-        .eq("user_id", userData.user.id)
-        .eq("is_active", true)
-        .limit(1);
-
-      const hasCalendar = !calendarsError && (calendarsData?.length ?? 0) > 0;
+      const calendars = await fetchUserCalendars().catch((calendarsError): UserCalendar[] => {
+        console.error("LOAD USER CALENDARS FAILED:", calendarsError);
+        return [];
+      });
 
-      if (!hasCalendar) {
+      if (!calendars.some((calendar) => calendar.isActive)) {
         console.info("CALENDAR SYNC SKIPPED: no active user calendar for current user");
-        setBusyDaytimeDays(new Set());
-        setBusyEveningDays(new Set());
-        setDaytimeEventsByDay(new Map());
-        setEveningEventsByDay(new Map());
+        clearBusyState();
         return;
       }
 
       // Primär väg: låt supabase-klienten anropa Edge Function med korrekta auth-headers.
-      const { data, error } = await supabase.functions.invoke("icloud-ics-proxy", {
-        method: "GET",
-      });
+      const { data, error } = await supabase.functions.invoke(
+        `icloud-ics-proxy?${busyParams}`,
+        { method: "GET" }
+      );
 
       if (error) {
         throw new Error(error.message || "Function invoke failed");
       }
 
-      const icsText =
-        typeof data === "string"
-          ? data
-          : data instanceof Blob
-          ? await data.text()
-          : String(data ?? "");
+      const events = readBusyPayload(data);
+      const filteredEvents = events.filter(isExternalCalendarEvent);
 
-      if (!icsText.includes("BEGIN:VCALENDAR")) {
-        throw new Error(`Unexpected function payload: ${icsText.slice(0, 120)}`);
-      }
-
-      const events = extractIcsEventPeriods(icsText, selectedWeek);
-      const filteredEvents = events.filter((event) => {
-        const normalizedSummary = normalizeSummaryForMatch(event.summary);
-        const hasExportTag = /X-MATPLAN-EXPORT:1/i.test(event.description);
-        const looksLikeMatplanUid = /@matplan/i.test(event.uid);
-        if (hasExportTag || looksLikeMatplanUid) return false;
-        if (!normalizedSummary) return true;
-        return !excludedCalendarSummaries.has(normalizedSummary);
-      });
-
-      setBusyDaytimeDays(computeBusyDaytimeDays(selectedWeek, filteredEvents));
-      setBusyEveningDays(computeBusyEveningDays(selectedWeek, filteredEvents));
-      setDaytimeEventsByDay(buildWeekDaytimeEvents(selectedWeek, filteredEvents));
-      setEveningEventsByDay(buildWeekEveningEvents(selectedWeek, filteredEvents));
+      applyBusyEvents(filteredEvents, withTitles);
       console.info("CALENDAR SYNC OK:", {
         totalEvents: events.length,
         filteredEvents: filteredEvents.length,
@@ -1082,7 +1026,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
       if (accessToken) {
         for (const endpoint of CALENDAR_PROXY_ENDPOINT_CANDIDATES) {
           try {
-            const requestUrl = `${endpoint}?t=${Date.now()}`;
+            const requestUrl = `${endpoint}?${busyParams}&t=${Date.now()}`;
             const response = await fetch(requestUrl, {
               cache: "no-store",
               headers: {
@@ -1101,20 +1045,10 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
               continue;
             }
 
-            const events = extractIcsEventPeriods(responseText, selectedWeek);
-            const filteredEvents = events.filter((event) => {
-              const normalizedSummary = normalizeSummaryForMatch(event.summary);
-              const hasExportTag = /X-MATPLAN-EXPORT:1/i.test(event.description);
-              const looksLikeMatplanUid = /@matplan/i.test(event.uid);
-              if (hasExportTag || looksLikeMatplanUid) return false;
-              if (!normalizedSummary) return true;
-              return !excludedCalendarSummaries.has(normalizedSummary);
-            });
+            const events = readBusyPayload(responseText);
+            const filteredEvents = events.filter(isExternalCalendarEvent);
 
-            setBusyDaytimeDays(computeBusyDaytimeDays(selectedWeek, filteredEvents));
-            setBusyEveningDays(computeBusyEveningDays(selectedWeek, filteredEvents));
-            setDaytimeEventsByDay(buildWeekDaytimeEvents(selectedWeek, filteredEvents));
-            setEveningEventsByDay(buildWeekEveningEvents(selectedWeek, filteredEvents));
+            applyBusyEvents(filteredEvents, withTitles);
             console.info("CALENDAR SYNC OK (fallback):", {
               endpoint,
               totalEvents: events.length,
@@ -1138,60 +1072,142 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
       console.error("CALENDAR SYNC FAILED:", failures);
     }
 
-    setBusyDaytimeDays(new Set());
-    setBusyEveningDays(new Set());
-    setDaytimeEventsByDay(new Map());
-    setEveningEventsByDay(new Map());
+    clearBusyState();
   };
 
   useEffect(() => {
-    void syncCalendarBusyDays();
-  }, [selectedWeek, excludedCalendarSummaries]);
+    void syncCalendarBusyDays(showDayEventsModal !== null);
+  }, [selectedWeek, excludedCalendarSummaries, mealSlots]);
+
+  useEffect(() => {
+    if (showDayEventsModal !== null && !hasEventTitles) void syncCalendarBusyDays(true);
+  }, [showDayEventsModal, hasEventTitles]);
 
-  const renderMealSection = (dayId: number, slot: MealSlotType) => {
-    if (!activeDayIndices[slot].includes(dayId)) return null;
+  const renderMealSection = (dayId: number, mealSlot: MealSlotConfig) => {
+    const slot = mealSlot.id;
+    if (!isSlotActive(slot, dayId)) return null;
 
     const dayPlan = getDayPlan(dayId);
-    const slotPlan = dayPlan[slot];
-    const recipe =
-      slotPlan.recipeId != null
-        ? recipes.find((r) => r.id === slotPlan.recipeId) ?? null
-        : null;
-    const freeText = (slotPlan.freeText ?? "").trim();
-    const hasSomething = !!recipe || freeText.length > 0;
+    const slotPlan = getSlotPlan(dayPlan, slot);
+    // För rester visas och skalas källmåltidens recept.
+    const sourcePlan = slotPlan.leftoversFrom
+      ? findSlotPlan(plans, slotPlan.leftoversFrom)
+      : null;
+    const firstRecipe =
+      getSlotRecipeIds(sourcePlan ?? slotPlan)
+        .map((id) => recipes.find((r) => r.id === id) ?? null)
+        .find((r): r is Recipe => r !== null) ?? null;
+    const hasSomething = hasSlotContent(slotPlan);
+    const servings = resolveSlotServings(slotPlan, firstRecipe);
 
     return (
-      <div key={`${dayId}-${slot}`} className="rounded-xl border border-gray-100 bg-gray-50 p-2.5">
+      <div
+        key={`${dayId}-${slot}`}
+        {...getMealDropProps({ kind: "slot", dayId, slot })}
+        className={`rounded-xl border p-2.5 transition-colors ${
+          isMealDropTarget({ kind: "slot", dayId, slot })
+            ? "border-emerald-400 bg-emerald-50"
+            : draggingMeal?.dayId === dayId && draggingMeal.slot === slot
+            ? "border-emerald-200 bg-gray-50"
+            : "border-gray-100 bg-gray-50"
+        }`}
+        style={{ WebkitUserSelect: "none", WebkitTouchCallout: "none" }}
+      >
         <div className="flex items-start justify-between gap-2">
           <div className="min-w-0">
-            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
-              {SLOT_LABELS[slot]}
-            </p>
-            {recipe ? (
-              <>
-                <h3 className="text-sm md:text-base font-bold text-gray-900 leading-tight">
-                  {recipe.name}
-                </h3>
-                <div className="flex flex-wrap gap-2 items-center mt-1">
-                  <span className="text-[9px] bg-emerald-50 text-emerald-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-tighter">
-                    {recipe.category}
-                  </span>
-                  <span className="text-[9px] text-gray-400">
-                    Lagad: {formatDate(recipe.lastCooked)}
-                  </span>
-                </div>
-              </>
-            ) : freeText ? (
-              <>
+            <div className="flex items-center gap-1.5">
+              {hasSomething && (
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", `${dayId}:${slot}`);
+                    startMealDrag(dayId, slot);
+                  }}
+                  onDragEnd={clearMealDragState}
+                  onTouchStart={(event) => {
+                    event.preventDefault();
+                    startMealDrag(dayId, slot);
+                  }}
+                  className="shrink-0 px-1 text-xs leading-none text-gray-400 hover:text-gray-600 cursor-grab"
+                  aria-label={`Dra ${mealSlot.label.toLowerCase()} för att flytta`}
+                  title="Dra för att flytta eller byta plats"
+                >
+                  ≡
+                </button>
+              )}
+              <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                {mealSlot.label}
+              </p>
+            </div>
+            {slotPlan.leftoversFrom ? (
+              <button
+                type="button"
+                onClick={() => openRecipeModal(dayId, slot, 0)}
+                className="block w-full min-w-0 text-left"
+                title="Byt rätt"
+              >
                 <h3 className="text-sm md:text-base font-bold text-gray-900 leading-tight">
-                  {freeText}
+                  {getLeftoversLabel(slotPlan, plans, recipes)}
                 </h3>
-                <span className="inline-block mt-1 text-[9px] bg-white border border-gray-200 text-gray-500 px-1.5 py-0.5 rounded font-bold uppercase tracking-tighter">
-                  Fritext
+                <span className="inline-block mt-1 text-[9px] bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded font-bold uppercase tracking-tighter">
+                  Från {SWEDISH_DAYS[slotPlan.leftoversFrom.dayId].toLowerCase()}
+                  {slotPlan.leftoversFrom.weekIdentifier !== selectedWeek ? " förra veckan" : ""}
                 </span>
-              </>
-            ) : (
+              </button>
+            ) : slotPlan.dishes.length === 0 ? (
               <p className="text-xs text-gray-400 italic mt-0.5">Ingen rätt vald...</p>
+            ) : (
+              <div className="space-y-1.5">
+                {slotPlan.dishes.map((dish, dishIndex) => {
+                  const recipe =
+                    dish.recipeId != null
+                      ? recipes.find((r) => r.id === dish.recipeId) ?? null
+                      : null;
+                  return (
+                    <button
+                      key={`${dayId}-${slot}-${dishIndex}`}
+                      type="button"
+                      onClick={() => openRecipeModal(dayId, slot, dishIndex)}
+                      className="block w-full min-w-0 text-left"
+                      title="Byt rätt"
+                    >
+                      <h3
+                        className={
+                          dishIndex === 0
+                            ? "text-sm md:text-base font-bold text-gray-900 leading-tight"
+                            : "text-xs md:text-sm font-semibold text-gray-700 leading-tight"
+                        }
+                      >
+                        {dishIndex > 0 ? "+ " : ""}
+                        {getDishLabel(dish, recipes) || "Okänt recept"}
+                      </h3>
+                      {recipe ? (
+                        <div className="flex flex-wrap gap-2 items-center mt-1">
+                          <span className="text-[9px] bg-emerald-50 text-emerald-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-tighter">
+                            {recipe.category}
+                          </span>
+                          <span className="text-[9px] text-gray-400">
+                            Lagad: {formatDate(recipe.lastCooked)}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="inline-block mt-1 text-[9px] bg-white border border-gray-200 text-gray-500 px-1.5 py-0.5 rounded font-bold uppercase tracking-tighter">
+                          Fritext
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() => openRecipeModal(dayId, slot, slotPlan.dishes.length)}
+                  className="text-[11px] font-semibold text-emerald-700 hover:text-emerald-800"
+                >
+                  + Lägg till rätt
+                </button>
+              </div>
             )}
           </div>
 
@@ -1199,7 +1215,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
             <button
               onClick={() => randomizeSlot(dayId, slot)}
               className="p-1.5 text-gray-400 hover:text-emerald-500 bg-white rounded-lg border border-gray-200 transition-colors"
-              title={`Slumpa ${SLOT_LABELS[slot].toLowerCase()}`}
+              title={`Slumpa ${mealSlot.label.toLowerCase()}`}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -1217,12 +1233,9 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
               </svg>
             </button>
             <button
-              onClick={() => {
-                setShowRecipeModal({ dayId, slot });
-                setFreeTextDraft((slotPlan.freeText ?? "").trim());
-              }}
+              onClick={() => openRecipeModal(dayId, slot, 0)}
               className="p-1.5 text-gray-400 hover:text-emerald-500 bg-white rounded-lg border border-gray-200 transition-colors"
-              title={`Välj rätt för ${SLOT_LABELS[slot].toLowerCase()}`}
+              title={`Välj rätt för ${mealSlot.label.toLowerCase()}`}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -1241,13 +1254,13 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
             </button>
             <button
               onClick={() =>
-                recipe
-                  ? navigate(`/recipes/${recipe.id}/view`, {
-                      state: { from: `${location.pathname}${location.search}` },
+                firstRecipe
+                  ? navigate(`/recipes/${firstRecipe.id}/view`, {
+                      state: { from: `${location.pathname}${location.search}`, servings },
                     })
                   : null
               }
-              disabled={!recipe}
+              disabled={!firstRecipe}
               className="p-1.5 text-gray-400 hover:text-emerald-500 bg-white rounded-lg border border-gray-200 transition-colors disabled:opacity-40"
               title="Visa recept"
             >
@@ -1267,10 +1280,10 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
               </svg>
             </button>
             <button
-              onClick={() => updateDayRecipe(dayId, slot, null)}
+              onClick={() => clearSlotDishes(dayId, slot)}
               disabled={!hasSomething}
               className="p-1.5 text-gray-400 hover:text-red-500 bg-white rounded-lg border border-gray-200 transition-colors disabled:opacity-40"
-              title="Rensa vald rätt"
+              title="Rensa valda rätter"
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -1284,6 +1297,49 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
             </button>
           </div>
         </div>
+
+        {hasSomething && (
+          <div className="mt-2 flex items-center gap-2">
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                type="button"
+                onClick={() =>
+                  updateSlotPlan(dayId, slot, { servings: Math.max(1, servings - 1) })
+                }
+                className="h-7 w-7 rounded-lg bg-white border border-gray-200 text-xs font-bold text-gray-700"
+                title="Färre portioner"
+              >
+                -
+              </button>
+              <span className="min-w-16 text-center text-[11px] font-semibold text-gray-700">
+                {servings} port.
+              </span>
+              <button
+                type="button"
+                onClick={() => updateSlotPlan(dayId, slot, { servings: servings + 1 })}
+                className="h-7 w-7 rounded-lg bg-white border border-gray-200 text-xs font-bold text-gray-700"
+                title="Fler portioner"
+              >
+                +
+              </button>
+            </div>
+            <input
+              // key med värdet så att ändringar från andra enheter syns i fältet
+              key={`${dayId}-${slot}-${slotPlan.guestNote ?? ""}`}
+              defaultValue={slotPlan.guestNote ?? ""}
+              onBlur={(e) => {
+                const next = e.target.value.trim();
+                if (next === (slotPlan.guestNote ?? "")) return;
+                updateSlotPlan(dayId, slot, { guestNote: next || null });
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              placeholder="Gäster, t.ex. mormor + 2"
+              className="min-w-0 flex-1 rounded-lg border border-gray-200 bg-white px-2 py-1 text-[11px] text-gray-700"
+            />
+          </div>
+        )}
       </div>
     );
   };
@@ -1291,12 +1347,39 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
   return (
     <div className="space-y-8 animate-fadeIn">
       <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
-        <label className="block text-sm font-semibold text-gray-700 mb-2">Välj vecka</label>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <label className="block text-sm font-semibold text-gray-700">Välj vecka</label>
+          <div className="flex gap-1.5">
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={!canUndo}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+              title="Ångra (Ctrl+Z)"
+            >
+              ↶ Ångra
+            </button>
+            <button
+              type="button"
+              onClick={handleRedo}
+              disabled={!canRedo}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+              title="Gör om (Ctrl+Shift+Z)"
+            >
+              ↷ Gör om
+            </button>
+          </div>
+        </div>
         <div className="flex items-center gap-2">
           <button
             type="button"
+            {...getMealDropProps({ kind: "week", delta: -1 })}
             onClick={() => setSelectedWeek((prev) => shiftIsoWeek(prev, -1))}
-            className="shrink-0 p-3 bg-gray-100 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors"
+            className={`shrink-0 p-3 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors ${
+              isMealDropTarget({ kind: "week", delta: -1 })
+                ? "bg-emerald-100 ring-2 ring-emerald-400"
+                : "bg-gray-100"
+            }`}
             aria-label="Föregående vecka"
             title="Föregående vecka"
           >
@@ -1310,14 +1393,32 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
           />
           <button
             type="button"
+            {...getMealDropProps({ kind: "week", delta: 1 })}
             onClick={() => setSelectedWeek((prev) => shiftIsoWeek(prev, 1))}
-            className="shrink-0 p-3 bg-gray-100 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors"
+            className={`shrink-0 p-3 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors ${
+              isMealDropTarget({ kind: "week", delta: 1 })
+                ? "bg-emerald-100 ring-2 ring-emerald-400"
+                : "bg-gray-100"
+            }`}
             aria-label="Nästa vecka"
             title="Nästa vecka"
           >
             →
           </button>
         </div>
+        {draggingMeal && (
+          <p className="mt-2 text-xs text-emerald-700">
+            Släpp på en annan måltid eller dag för att flytta (eller byta plats), eller på en pil
+            för att flytta till samma dag förra/nästa vecka.
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowTemplateModal(true)}
+          className="mt-3 w-full rounded-xl bg-gray-50 border border-gray-200 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          Mallar och kopiera vecka
+        </button>
       </section>
 
       <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
@@ -1325,38 +1426,35 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
           Vilka dagar planerar vi för?
         </label>
 
-        {(["lunch", "dinner"] as MealSlotType[]).map((slot) => (
-          <div key={slot} className="space-y-2">
+        {mealSlots.map((mealSlot, slotIndex) => (
+          <div key={mealSlot.id} className="space-y-2">
             <span className="block text-[11px] font-bold text-gray-600 uppercase tracking-wide">
-              {SLOT_LABELS[slot]}
+              {mealSlot.label}
             </span>
             <div className="grid grid-cols-7 gap-1.5">
               {SWEDISH_DAYS.map((day, idx) => {
-                const isActive = activeDayIndices[slot].includes(idx);
-                const hasDaytime = slot === "lunch" && busyDaytimeDays.has(idx);
-                const hasEvening = slot === "dinner" && busyEveningDays.has(idx);
+                const isActive = isSlotActive(mealSlot.id, idx);
+                const hasActivity = isSlotBusy(mealSlot.id, idx);
+                const busyStyle = SLOT_BUSY_STYLES[slotIndex % SLOT_BUSY_STYLES.length];
                 return (
                   <button
-                    key={`${slot}-${day}`}
-                    onClick={() => toggleDay(slot, idx)}
+                    key={`${mealSlot.id}-${day}`}
+                    {...getMealDropProps({ kind: "slot", dayId: idx, slot: mealSlot.id })}
+                    onClick={() => toggleDay(mealSlot.id, idx)}
                     className={`relative min-w-0 px-1.5 py-2 rounded-lg text-[10px] font-bold transition-all ${
-                      isActive
+                      isMealDropTarget({ kind: "slot", dayId: idx, slot: mealSlot.id })
+                        ? "bg-emerald-200 text-emerald-800 ring-2 ring-emerald-500"
+                        : isActive
                         ? "bg-emerald-100 text-emerald-700 ring-1 ring-emerald-500"
                         : "bg-gray-100 text-gray-500 border border-transparent"
                     }`}
                     title={day}
                   >
                     <span>{day.substring(0, 3)}</span>
-                    {hasDaytime && (
+                    {hasActivity && (
                       <span
-                        className="absolute top-1 right-1 inline-block h-1.5 w-1.5 rounded-full bg-sky-500"
-                        title="Aktivitet mellan 11:00-14:30"
-                      />
-                    )}
-                    {hasEvening && (
-                      <span
-                        className="absolute top-1 right-1 inline-block h-1.5 w-1.5 rounded-full bg-amber-500"
-                        title="Aktivitet mellan 16:00-21:00"
+                        className={`absolute top-1 right-1 inline-block h-1.5 w-1.5 rounded-full ${busyStyle.dot}`}
+                        title={`Aktivitet mellan ${mealSlot.busyWindow.start}-${mealSlot.busyWindow.end}`}
                       />
                     )}
                   </button>
@@ -1370,9 +1468,10 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
       <div className="flex gap-3">
         <button
           onClick={randomizeAll}
-          className="flex-1 bg-emerald-600 text-white py-3 px-4 rounded-2xl font-bold shadow-lg shadow-emerald-200 active:scale-95 transition-transform"
+          disabled={isGenerating}
+          className="flex-1 bg-emerald-600 text-white py-3 px-4 rounded-2xl font-bold shadow-lg shadow-emerald-200 active:scale-95 transition-transform disabled:opacity-60"
         >
-          Slumpa fram allt
+          {isGenerating ? "Slumpar..." : "Slumpa fram allt"}
         </button>
         <button
           onClick={handleExportAll}
@@ -1415,12 +1514,106 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
           </svg>
         </button>
       </div>
+      <label className="flex items-center gap-2 px-1 text-xs text-gray-500">
+        <input
+          type="checkbox"
+          checked={exportRecipeContent}
+          onChange={(e) => setExportRecipeContent(e.target.checked)}
+        />
+        Ta med ingredienser, steg och länk till receptet i kalenderexporten
+      </label>
+
+      {generationReport && (
+        <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+              Så valdes veckan
+            </h2>
+            <button
+              type="button"
+              onClick={() => setGenerationReport(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Stäng förklaring"
+            >
+              ×
+            </button>
+          </div>
+          {generationReport.hardViolations > 0 && (
+            <p className="text-xs text-red-600">
+              Hittade ingen vecka som uppfyller alla måste-regler – visar den som bryter minst.
+            </p>
+          )}
+          {generationReport.planOutcomes.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {generationReport.planOutcomes.map((outcome) => (
+                <span
+                  key={`plan-${outcome.ruleId}`}
+                  className={`text-[10px] px-2 py-1 rounded-full font-bold ${
+                    outcome.satisfied ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-600"
+                  }`}
+                >
+                  {outcome.satisfied ? "✓" : "✗"} {outcome.label}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            {generationReport.picks.map(({ target, recipe, outcomes, alternative }) => (
+              <div key={`${target.dayId}-${target.slot}`} className="text-xs">
+                <p className="font-semibold text-gray-800">
+                  {SWEDISH_DAYS[target.dayId]} ·{" "}
+                  {mealSlots.find((slot) => slot.id === target.slot)?.label ?? target.slot}:{" "}
+                  {alternative ? (
+                    <>
+                      <span className="line-through text-gray-400">{recipe.name}</span>{" "}
+                      <span className="text-amber-700">
+                        →{" "}
+                        {alternative.kind === "leftovers"
+                          ? `Rester från ${SWEDISH_DAYS[alternative.dayId].toLowerCase()} (${
+                              mealSlots.find((slot) => slot.id === alternative.slot)?.label ??
+                              alternative.slot
+                            })`
+                          : alternative.text}
+                      </span>
+                    </>
+                  ) : (
+                    recipe.name
+                  )}
+                  {getRecipeMinutes(recipe) !== null && (
+                    <span className="font-normal text-gray-400">
+                      {" "}
+                      · {getRecipeMinutes(recipe)} min
+                    </span>
+                  )}
+                </p>
+                {outcomes.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1.5">
+                    {outcomes.map((outcome, index) => (
+                      <span
+                        key={`${outcome.ruleId}-${index}`}
+                        className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${
+                          outcome.satisfied
+                            ? "bg-emerald-50 text-emerald-700"
+                            : "bg-red-50 text-red-600"
+                        }`}
+                      >
+                        {outcome.satisfied ? "✓" : "✗"} {outcome.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
 
       <div className="space-y-4">
         {dayIndicesToRender.length > 0 ? (
           dayIndicesToRender.map((dayId) => {
-            const hasDaytimeActivity = busyDaytimeDays.has(dayId);
-            const hasEveningActivity = busyEveningDays.has(dayId);
+            const busySlots = mealSlots.filter(
+              (slot) => isSlotActive(slot.id, dayId) && isSlotBusy(slot.id, dayId)
+            );
             return (
               <div
                 key={dayId}
@@ -1428,7 +1621,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                 onClick={(event) => {
                   const target = event.target as HTMLElement;
                   if (target.closest("button")) return;
-                  if (!hasDaytimeActivity && !hasEveningActivity) return;
+                  if (busySlots.length === 0) return;
                   setShowDayEventsModal(dayId);
                 }}
               >
@@ -1437,16 +1630,18 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                     <span className="text-xs font-bold text-emerald-600 uppercase tracking-wider">
                       {SWEDISH_DAYS[dayId]}
                     </span>
-                    {hasDaytimeActivity && (
-                      <span className="text-[10px] bg-sky-50 text-sky-700 px-2 py-0.5 rounded-full font-semibold">
-                        Dagsaktivitet
-                      </span>
-                    )}
-                    {hasEveningActivity && (
-                      <span className="text-[10px] bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full font-semibold">
-                        Kvällsaktivitet
-                      </span>
-                    )}
+                    {busySlots.map((slot) => {
+                      const busyStyle =
+                        SLOT_BUSY_STYLES[mealSlots.indexOf(slot) % SLOT_BUSY_STYLES.length];
+                      return (
+                        <span
+                          key={slot.id}
+                          className={`text-[10px] ${busyStyle.badge} px-2 py-0.5 rounded-full font-semibold`}
+                        >
+                          Aktivitet: {slot.label.toLowerCase()}
+                        </span>
+                      );
+                    })}
                   </div>
                   <button
                     onClick={() => handleExportDay(dayId)}
@@ -1470,8 +1665,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                   </button>
                 </div>
 
-                {renderMealSection(dayId, "lunch")}
-                {renderMealSection(dayId, "dinner")}
+                {mealSlots.map((slot) => renderMealSection(dayId, slot))}
               </div>
             );
           })
@@ -1487,15 +1681,12 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
           <div className="bg-white w-full max-w-md rounded-3xl shadow-2xl overflow-hidden max-h-[80vh] flex flex-col">
             <div className="p-6 border-b border-gray-100 flex justify-between items-center">
               <h3 className="text-lg md:text-xl font-bold">
-                {SWEDISH_DAYS[showRecipeModal.dayId]} - {SLOT_LABELS[showRecipeModal.slot]}
+                {SWEDISH_DAYS[showRecipeModal.dayId]} -{" "}
+                {mealSlots.find((slot) => slot.id === showRecipeModal.slot)?.label ??
+                  showRecipeModal.slot}
               </h3>
               <button
-                onClick={() => {
-                  setShowRecipeModal(null);
-                  setFreeTextDraft("");
-                  setModalSearchTerm("");
-                  setModalCategoryFilter("Alla");
-                }}
+                onClick={closeRecipeModal}
                 className="text-gray-400 hover:text-gray-600"
               >
                 ×
@@ -1503,6 +1694,36 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 no-scrollbar">
+                {modalDishes.map((dish, dishIndex) => (
+                  <button
+                    key={`modal-dish-${dishIndex}`}
+                    onClick={() =>
+                      openRecipeModal(showRecipeModal.dayId, showRecipeModal.slot, dishIndex)
+                    }
+                    className={`max-w-[10rem] truncate whitespace-nowrap px-3 py-1.5 rounded-lg text-[11px] font-bold transition-colors ${
+                      showRecipeModal.dishIndex === dishIndex
+                        ? "bg-emerald-600 text-white"
+                        : "bg-white border border-gray-200 text-gray-600"
+                    }`}
+                  >
+                    {getDishLabel(dish, recipes) || `Rätt ${dishIndex + 1}`}
+                  </button>
+                ))}
+                <button
+                  onClick={() =>
+                    openRecipeModal(showRecipeModal.dayId, showRecipeModal.slot, modalDishes.length)
+                  }
+                  className={`whitespace-nowrap px-3 py-1.5 rounded-lg text-[11px] font-bold transition-colors ${
+                    showRecipeModal.dishIndex >= modalDishes.length
+                      ? "bg-emerald-600 text-white"
+                      : "bg-emerald-50 text-emerald-700"
+                  }`}
+                >
+                  + Lägg till rätt
+                </button>
+              </div>
+
               <div className="space-y-2">
                 <input
                   type="text"
@@ -1545,6 +1766,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                       updateDayFreeText(
                         showRecipeModal.dayId,
                         showRecipeModal.slot,
+                        showRecipeModal.dishIndex,
                         freeTextDraft
                       )
                     }
@@ -1553,9 +1775,7 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                     Spara fritext
                   </button>
                   <button
-                    onClick={() =>
-                      updateDayFreeText(showRecipeModal.dayId, showRecipeModal.slot, "")
-                    }
+                    onClick={() => setFreeTextDraft("")}
                     className="flex-none px-4 bg-white border border-gray-200 text-gray-700 py-2.5 rounded-xl text-xs md:text-sm font-bold"
                     title="Rensa fritext"
                   >
@@ -1564,20 +1784,69 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
                 </div>
               </div>
 
-              <button
-                onClick={() =>
-                  updateDayRecipe(showRecipeModal.dayId, showRecipeModal.slot, null)
-                }
-                className="w-full text-left p-4 rounded-2xl hover:bg-gray-50 transition-colors border-2 border-transparent hover:border-gray-200 text-red-500 font-semibold"
-              >
-                Rensa vald rätt
-              </button>
+              {showRecipeModal.dishIndex === 0 && leftoverCandidates.length > 0 && (
+                <div className="rounded-2xl border border-amber-100 bg-amber-50/60 p-3 space-y-2">
+                  <label className="block text-[11px] font-bold text-amber-700 uppercase tracking-wide">
+                    Rester från
+                  </label>
+                  <div className="space-y-1.5">
+                    {leftoverCandidates.map((candidate) => {
+                      const currentSource = getSlotPlan(
+                        currentPlan.days.find((d) => d.dayId === showRecipeModal.dayId),
+                        showRecipeModal.slot
+                      ).leftoversFrom;
+                      const isSelected =
+                        !!currentSource && isSameSlotRef(currentSource, candidate.ref);
+                      return (
+                        <button
+                          key={`${candidate.ref.weekIdentifier}-${candidate.ref.dayId}-${candidate.ref.slot}`}
+                          onClick={() =>
+                            updateDayLeftovers(
+                              showRecipeModal.dayId,
+                              showRecipeModal.slot,
+                              candidate.ref
+                            )
+                          }
+                          className={`w-full text-left px-3 py-2 rounded-xl text-xs font-semibold transition-colors ${
+                            isSelected
+                              ? "bg-amber-500 text-white"
+                              : "bg-white border border-amber-100 text-gray-700 hover:border-amber-300"
+                          }`}
+                        >
+                          {candidate.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {showRecipeModal.dishIndex < modalDishes.length && (
+                <button
+                  onClick={() =>
+                    updateDayRecipe(
+                      showRecipeModal.dayId,
+                      showRecipeModal.slot,
+                      showRecipeModal.dishIndex,
+                      null
+                    )
+                  }
+                  className="w-full text-left p-4 rounded-2xl hover:bg-gray-50 transition-colors border-2 border-transparent hover:border-gray-200 text-red-500 font-semibold"
+                >
+                  Ta bort rätten
+                </button>
+              )}
 
               {filteredModalRecipes.map((r) => (
                 <button
                   key={r.id}
                   onClick={() =>
-                    updateDayRecipe(showRecipeModal.dayId, showRecipeModal.slot, r.id)
+                    updateDayRecipe(
+                      showRecipeModal.dayId,
+                      showRecipeModal.slot,
+                      showRecipeModal.dishIndex,
+                      r.id
+                    )
                   }
                   className="w-full text-left p-4 rounded-2xl hover:bg-emerald-50 transition-colors border-2 border-transparent hover:border-emerald-200"
                 >
@@ -1614,51 +1883,57 @@ const MealPlanner: React.FC<MealPlannerProps> = ({
             </div>
 
             <div className="p-4 space-y-2 max-h-[60vh] overflow-y-auto">
-              {(daytimeEventsByDay.get(showDayEventsModal) ?? []).length > 0 && (
-                <div className="space-y-2">
-                  <p className="text-[11px] font-bold uppercase tracking-widest text-sky-700">
-                    Dagsaktivitet (11:00-14:30)
-                  </p>
-                  {(daytimeEventsByDay.get(showDayEventsModal) ?? []).map((event, index) => (
-                    <div
-                      key={`day-${event.start.toISOString()}-${event.end.toISOString()}-${index}`}
-                      className="rounded-xl border border-sky-100 bg-sky-50/40 p-3"
-                    >
-                      <div className="text-xs font-semibold text-gray-500">
-                        {formatTime(event.start)}-{formatTime(event.end)}
-                      </div>
-                      <div className="text-sm font-semibold text-gray-900 mt-1">
-                        {event.summary}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-
-              {(eveningEventsByDay.get(showDayEventsModal) ?? []).length > 0 && (
-                <div className="space-y-2">
-                  <p className="text-[11px] font-bold uppercase tracking-widest text-amber-700">
-                    Kvällsaktivitet (16:00-21:00)
-                  </p>
-                  {(eveningEventsByDay.get(showDayEventsModal) ?? []).map((event, index) => (
-                    <div
-                      key={`evening-${event.start.toISOString()}-${event.end.toISOString()}-${index}`}
-                      className="rounded-xl border border-amber-100 bg-amber-50/40 p-3"
+              {mealSlots.map((slot, slotIndex) => {
+                const slotEvents = eventsBySlot[slot.id]?.get(showDayEventsModal) ?? [];
+                if (!isSlotActive(slot.id, showDayEventsModal) || slotEvents.length === 0) {
+                  return null;
+                }
+                const busyStyle = SLOT_BUSY_STYLES[slotIndex % SLOT_BUSY_STYLES.length];
+                return (
+                  <div key={slot.id} className="space-y-2">
+                    <p
+                      className={`text-[11px] font-bold uppercase tracking-widest ${busyStyle.heading}`}
                     >
-                      <div className="text-xs font-semibold text-gray-500">
-                        {formatTime(event.start)}-{formatTime(event.end)}
+                      {slot.label} ({slot.busyWindow.start}-{slot.busyWindow.end})
+                    </p>
+                    {slotEvents.map((event, index) => (
+                      <div
+                        key={`${slot.id}-${event.start.toISOString()}-${event.end.toISOString()}-${index}`}
+                        className={`rounded-xl border ${busyStyle.card} p-3`}
+                      >
+                        <div className="text-xs font-semibold text-gray-500">
+                          {event.allDay
+                            ? "Heldag"
+                            : `${formatTime(event.start)}-${formatTime(event.end)}`}
+                          {event.memberName && ` · ${event.memberName}`}
+                        </div>
+                        <div className="text-sm font-semibold text-gray-900 mt-1">
+                          {event.summary}
+                        </div>
                       </div>
-                      <div className="text-sm font-semibold text-gray-900 mt-1">
-                        {event.summary}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
+                    ))}
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
       )}
+
+      {showTemplateModal && (
+        <WeekTemplateModal
+          selectedWeek={selectedWeek}
+          currentPlan={currentPlan}
+          plans={plans}
+          recipes={recipes}
+          mealSlots={mealSlots}
+          pastWeeks={Array.from({ length: MAX_HISTORY_WEEKS }, (_, index) =>
+            shiftIsoWeek(selectedWeek, -(index + 1))
+          )}
+          onApply={applyWeekPlan}
+          onClose={() => setShowTemplateModal(false)}
+        />
+      )}
     </div>
   );
 };
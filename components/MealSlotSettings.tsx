@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from "react";
+import { MealSlotConfig, MealSlotReminders, SWEDISH_DAYS } from "../types";
+import {
+  buildDefaultBusyWindow,
+  createMealSlotId,
+  normalizeMealSlots,
+} from "../services/mealSlotService";
+
+type MealSlotSettingsProps = {
+  mealSlots: MealSlotConfig[];
+  onSave: (slots: MealSlotConfig[]) => Promise<void> | void;
+};
+
+const NO_REMINDERS: MealSlotReminders = { cookingMarginMinutes: null, eveningBeforeTime: null };
+
+const MealSlotSettings: React.FC<MealSlotSettingsProps> = ({ mealSlots, onSave }) => {
+  const [draft, setDraft] = useState<MealSlotConfig[]>(mealSlots);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(mealSlots);
+  }, [mealSlots]);
+
+  const updateSlot = (index: number, patch: Partial<MealSlotConfig>) => {
+    setDraft((prev) => prev.map((slot, i) => (i === index ? { ...slot, ...patch } : slot)));
+  };
+
+  const setDayStartTime = (index: number, dayId: number, time: string) => {
+    setDraft((prev) =>
+      prev.map((slot, i) => {
+        if (i !== index) return slot;
+        const { [dayId]: _, ...rest } = slot.dayStartTimes ?? {};
+        return { ...slot, dayStartTimes: time ? { ...rest, [dayId]: time } : rest };
+      })
+    );
+  };
+
+  const updateReminders = (index: number, patch: Partial<MealSlotReminders>) => {
+    setDraft((prev) =>
+      prev.map((slot, i) =>
+        i === index
+          ? { ...slot, reminders: { ...(slot.reminders ?? NO_REMINDERS), ...patch } }
+          : slot
+      )
+    );
+  };
+
+  const toggleDefaultDay = (index: number, dayId: number) => {
+    setDraft((prev) =>
+      prev.map((slot, i) => {
+        if (i !== index) return slot;
+        const days = slot.defaultActiveDays.includes(dayId)
+          ? slot.defaultActiveDays.filter((d) => d !== dayId)
+          : [...slot.defaultActiveDays, dayId].sort((a, b) => a - b);
+        return { ...slot, defaultActiveDays: days };
+      })
+    );
+  };
+
+  const addSlot = () => {
+    setDraft((prev) => {
+      const label = "Ny måltid";
+      const startTime = "08:00";
+      const durationMinutes = 30;
+      return [
+        ...prev,
+        {
+          id: createMealSlotId(label, prev.map((slot) => slot.id)),
+          label,
+          startTime,
+          durationMinutes,
+          defaultActiveDays: [],
+          busyWindow: buildDefaultBusyWindow(startTime, durationMinutes),
+        },
+      ];
+    });
+  };
+
+  const removeSlot = (index: number) => {
+    const slot = draft[index];
+    if (!slot) return;
+    const confirmed = window.confirm(
+      `Ta bort "${slot.label}"? Redan planerade rätter för måltiden sparas men visas inte.`
+    );
+    if (!confirmed) return;
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const moveSlot = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      const nextIndex = index + direction;
+      if (nextIndex < 0 || nextIndex >= prev.length) return prev;
+      const copy = [...prev];
+      [copy[index], copy[nextIndex]] = [copy[nextIndex], copy[index]];
+      return copy;
+    });
+  };
+
+  const handleSave = async () => {
+    if (draft.some((slot) => !slot.label.trim())) {
+      setError("Alla måltider måste ha ett namn.");
+      return;
+    }
+    if (draft.length === 0) {
+      setError("Minst en måltid krävs.");
+      return;
+    }
+    if (draft.some((slot) => slot.busyWindow.start >= slot.busyWindow.end)) {
+      setError("Upptagen-fönstret måste sluta efter att det börjar.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await Promise.resolve(
+        onSave(normalizeMealSlots(draft.map((slot) => ({ ...slot, label: slot.label.trim() }))))
+      );
+    } catch (saveError) {
+      console.error("SAVE MEAL SLOTS FAILED:", saveError);
+      setError("Kunde inte spara måltider.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">Måltider</h2>
+        <button
+          type="button"
+          onClick={addSlot}
+          className="rounded-lg bg-emerald-50 px-3 py-1.5 text-xs font-semibold text-emerald-700"
+        >
+          Lägg till
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Tid, längd och påminnelser används vid kalenderexport. Standarddagarna tänds när en ny vecka planeras.
+        Kalenderhändelser inom "upptagen"-fönstret markerar måltiden som upptagen, och då föreslår
+        slumpningen snabba rätter.
+      </p>
+
+      <div className="space-y-2">
+        {draft.map((slot, index) => (
+          <div
+            key={slot.id}
+            className="rounded-xl border border-gray-100 bg-gray-50 p-3 space-y-2"
+          >
+            <input
+              value={slot.label}
+              onChange={(e) => updateSlot(index, { label: e.target.value })}
+              placeholder="Namn, t.ex. Frukost"
+              className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-semibold"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                Starttid
+                <input
+                  type="time"
+                  value={slot.startTime}
+                  onChange={(e) => updateSlot(index, { startTime: e.target.value })}
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal"
+                />
+              </label>
+              <label className="text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                Längd (min)
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={slot.durationMinutes}
+                  onChange={(e) =>
+                    updateSlot(index, { durationMinutes: Number(e.target.value) || 0 })
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal"
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                Upptagen från
+                <input
+                  type="time"
+                  value={slot.busyWindow.start}
+                  onChange={(e) =>
+                    updateSlot(index, {
+                      busyWindow: { ...slot.busyWindow, start: e.target.value },
+                    })
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal"
+                />
+              </label>
+              <label className="text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                Upptagen till
+                <input
+                  type="time"
+                  value={slot.busyWindow.end}
+                  onChange={(e) =>
+                    updateSlot(index, {
+                      busyWindow: { ...slot.busyWindow, end: e.target.value },
+                    })
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-normal"
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-7 gap-1.5">
+              {SWEDISH_DAYS.map((day, dayId) => {
+                const isActive = slot.defaultActiveDays.includes(dayId);
+                return (
+                  <button
+                    key={`${slot.id}-${day}`}
+                    type="button"
+                    onClick={() => toggleDefaultDay(index, dayId)}
+                    className={`min-w-0 px-1.5 py-2 rounded-lg text-[10px] font-bold transition-all ${
+                      isActive
+                        ? "bg-emerald-100 text-emerald-700 ring-1 ring-emerald-500"
+                        : "bg-white text-gray-500 border border-gray-200"
+                    }`}
+                    title={day}
+                  >
+                    {day.substring(0, 3)}
+                  </button>
+                );
+              })}
+            </div>
+            <details className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+              <summary className="cursor-pointer text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+                Tid per dag och påminnelser
+              </summary>
+              <div className="mt-2 space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  {SWEDISH_DAYS.map((day, dayId) => (
+                    <label
+                      key={`${slot.id}-time-${day}`}
+                      className="flex items-center justify-between gap-2 text-xs text-gray-700"
+                    >
+                      {day.substring(0, 3)}
+                      <input
+                        type="time"
+                        value={slot.dayStartTimes?.[dayId] ?? ""}
+                        onChange={(e) => setDayStartTime(index, dayId, e.target.value)}
+                        title={`Tom = ${slot.startTime}`}
+                        className="w-24 rounded-lg border border-gray-200 px-2 py-1 text-xs"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="text-[11px] text-gray-500">
+                  Tomma dagar använder starttiden {slot.startTime}.
+                </p>
+                <label className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={slot.reminders?.cookingMarginMinutes != null}
+                    onChange={(e) =>
+                      updateReminders(index, { cookingMarginMinutes: e.target.checked ? 15 : null })
+                    }
+                  />
+                  Påminn om att börja laga, receptets tid +
+                  <input
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={slot.reminders?.cookingMarginMinutes ?? 15}
+                    disabled={slot.reminders?.cookingMarginMinutes == null}
+                    onChange={(e) =>
+                      updateReminders(index, {
+                        cookingMarginMinutes: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                    className="w-16 rounded-lg border border-gray-200 px-2 py-1 text-xs disabled:opacity-50"
+                  />
+                  min
+                </label>
+                <label className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!slot.reminders?.eveningBeforeTime}
+                    onChange={(e) =>
+                      updateReminders(index, { eveningBeforeTime: e.target.checked ? "19:00" : null })
+                    }
+                  />
+                  Påminn kvällen före (t.ex. ta fram ur frysen) kl.
+                  <input
+                    type="time"
+                    value={slot.reminders?.eveningBeforeTime ?? "19:00"}
+                    disabled={!slot.reminders?.eveningBeforeTime}
+                    onChange={(e) =>
+                      updateReminders(index, { eveningBeforeTime: e.target.value || null })
+                    }
+                    className="w-24 rounded-lg border border-gray-200 px-2 py-1 text-xs disabled:opacity-50"
+                  />
+                </label>
+              </div>
+            </details>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => moveSlot(index, -1)}
+                className="rounded-lg bg-white border border-gray-200 px-3 py-1.5 text-xs font-semibold text-gray-700"
+              >
+                Upp
+              </button>
+              <button
+                type="button"
+                onClick={() => moveSlot(index, 1)}
+                className="rounded-lg bg-white border border-gray-200 px-3 py-1.5 text-xs font-semibold text-gray-700"
+              >
+                Ner
+              </button>
+              <button
+                type="button"
+                onClick={() => removeSlot(index)}
+                disabled={draft.length <= 1}
+                className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1.5 text-xs font-semibold disabled:opacity-40"
+              >
+                Ta bort
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full rounded-xl bg-emerald-600 text-white py-3 text-sm font-semibold disabled:opacity-60"
+      >
+        {isSaving ? "Sparar..." : "Spara måltider"}
+      </button>
+    </section>
+  );
+};
+
+export default MealSlotSettings;
@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from "react";
+import { PantryItem } from "../types";
+import { isPantryItemExpired } from "../services/pantry";
+import { deletePantryItem, fetchPantryItems, savePantryItem } from "../services/pantryService";
+
+type PantryDraft = {
+  name: string;
+  // Tomt = finns alltid hemma
+  amount: string;
+  unit: string;
+  bestBefore: string;
+};
+
+const EMPTY_DRAFT: PantryDraft = { name: "", amount: "", unit: "", bestBefore: "" };
+// Visas som "snart" så här många dagar före bäst före.
+const EXPIRES_SOON_DAYS = 3;
+
+function toDraft(item: PantryItem): PantryDraft {
+  return {
+    name: item.name,
+    amount: item.amount === null ? "" : String(item.amount).replace(".", ","),
+    unit: item.unit ?? "",
+    bestBefore: item.bestBefore ?? "",
+  };
+}
+
+// undefined = ogiltig mängd
+function parseAmount(value: string): number | null | undefined {
+  const trimmed = value.trim().replace(",", ".");
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString("sv-SE");
+}
+
+// Bäst före först, sedan namn.
+function sortPantry(items: PantryItem[]): PantryItem[] {
+  return [...items].sort(
+    (a, b) =>
+      (a.bestBefore ?? "9999-12-31").localeCompare(b.bestBefore ?? "9999-12-31") ||
+      a.name.localeCompare(b.name, "sv")
+  );
+}
+
+// Det som finns hemma. Dras av från inköpslistan och minskas när rätter sparas som lagade.
+const PantrySettings: React.FC = () => {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PantryDraft>(EMPTY_DRAFT);
+  const [newDraft, setNewDraft] = useState<PantryDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toLocaleDateString("sv-SE");
+  const soon = addDays(today, EXPIRES_SOON_DAYS);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPantryItems()
+      .then((loaded) => {
+        if (!cancelled) setItems(sortPantry(loaded));
+      })
+      .catch((loadError) => {
+        console.error("LOAD PANTRY FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa skafferiet.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const runAction = async (action: () => Promise<void>, failMessage: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (actionError) {
+      console.error("PANTRY ACTION FAILED:", actionError);
+      setError(failMessage);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveDraft = async (id: string | null, value: PantryDraft) => {
+    const amount = parseAmount(value.amount);
+    if (!value.name.trim()) return false;
+    if (amount === undefined) {
+      setError("Mängden måste vara ett tal (eller tom).");
+      return false;
+    }
+    return runAction(async () => {
+      const saved = await savePantryItem({
+        id,
+        name: value.name,
+        amount,
+        unit: amount === null ? null : value.unit,
+        bestBefore: value.bestBefore || null,
+      });
+      setItems((prev) => sortPantry([...prev.filter((item) => item.id !== saved.id), saved]));
+    }, "Kunde inte spara i skafferiet.");
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await saveDraft(null, newDraft)) setNewDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    if (editingId && (await saveDraft(editingId, draft))) setEditingId(null);
+  };
+
+  const handleDelete = (item: PantryItem) => {
+    void runAction(async () => {
+      await deletePantryItem(item.id);
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+      if (editingId === item.id) setEditingId(null);
+    }, "Kunde inte ta bort varan.");
+  };
+
+  const formatQuantity = (item: PantryItem) =>
+    item.amount === null
+      ? "finns alltid"
+      : `${String(Math.round(item.amount * 100) / 100).replace(".", ",")}${
+          item.unit ? ` ${item.unit}` : ""
+        }`;
+
+  const renderFields = (value: PantryDraft, onChange: (next: PantryDraft) => void) => (
+    <>
+      <input
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+        placeholder="Vara, t.ex. krossade tomater"
+        className="w-full rounded-lg border border-gray-200 px-3 py-2 text-xs"
+      />
+      <div className="flex gap-2">
+        <input
+          value={value.amount}
+          onChange={(e) => onChange({ ...value, amount: e.target.value })}
+          placeholder="Mängd"
+          inputMode="decimal"
+          className="w-20 min-w-0 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+        />
+        <input
+          value={value.unit}
+          onChange={(e) => onChange({ ...value, unit: e.target.value })}
+          placeholder="Enhet"
+          className="w-20 min-w-0 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+        />
+        <input
+          type="date"
+          value={value.bestBefore}
+          onChange={(e) => onChange({ ...value, bestBefore: e.target.value })}
+          className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+          aria-label="Bäst före"
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">Skafferi</h2>
+      <p className="text-xs text-gray-500">
+        Det som finns hemma dras av från inköpslistan. Utan mängd räknas varan som att den
+        alltid finns. Passerat bäst före räknas inte.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Laddar...</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) =>
+            editingId === item.id ? (
+              <div key={item.id} className="rounded-xl border border-emerald-200 p-3 space-y-2">
+                {renderFields(draft, setDraft)}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleSave()}
+                    disabled={isBusy || !draft.name.trim()}
+                    className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                  >
+                    Spara
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                  >
+                    Avbryt
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-2 rounded-xl border border-gray-100 px-3 py-2"
+              >
+                <span className="min-w-0">
+                  <span className="block truncate text-xs font-semibold text-gray-900">
+                    {item.name}
+                  </span>
+                  <span className="block text-[11px] text-gray-500">
+                    {formatQuantity(item)}
+                    {item.bestBefore && (
+                      <span
+                        className={
+                          isPantryItemExpired(item, today)
+                            ? "text-red-600"
+                            : item.bestBefore <= soon
+                              ? "text-amber-700"
+                              : undefined
+                        }
+                      >
+                        {" · bäst före "}
+                        {item.bestBefore}
+                      </span>
+                    )}
+                  </span>
+                </span>
+                <span className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(item.id);
+                      setDraft(toDraft(item));
+                    }}
+                    className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                  >
+                    Ändra
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(item)}
+                    disabled={isBusy}
+                    className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold disabled:opacity-40"
+                  >
+                    Ta bort
+                  </button>
+                </span>
+              </div>
+            )
+          )}
+          {items.length === 0 && <p className="text-xs text-gray-500">Skafferiet är tomt.</p>}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        {renderFields(newDraft, setNewDraft)}
+        <button
+          type="submit"
+          disabled={isBusy || !newDraft.name.trim()}
+          className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+        >
+          Lägg till
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default PantrySettings;
@@ -0,0 +1,408 @@
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  MealSlotConfig,
+  MealSlotType,
+  Recipe,
+  RECIPE_CATEGORIES,
+  SWEDISH_DAYS,
+  WeekPlan,
+} from "../types";
+import {
+  getDishLabel,
+  getLeftoversLabel,
+  getSlotPlan,
+  getSlotRecipeIds,
+  hasSlotContent,
+} from "../services/mealSlotService";
+import {
+  dateToIsoWeek,
+  getCurrentIsoWeek,
+  isoWeekToMonday,
+  shiftIsoWeek,
+} from "../supabase/functions/_shared/isoWeek";
+
+type PlanOverviewProps = {
+  recipes: Recipe[];
+  plans: WeekPlan[];
+  mealSlots: MealSlotConfig[];
+};
+
+type OverviewRange = "weeks" | "month";
+
+type OverviewMeal = {
+  slot: MealSlotType;
+  label: string;
+  category: string | null;
+  recipeIds: number[];
+  isLeftovers: boolean;
+};
+
+type OverviewDay = {
+  weekIdentifier: string;
+  dayId: number;
+  date: Date;
+  inRange: boolean;
+  meals: OverviewMeal[];
+};
+
+const LAST_SELECTED_WEEK_KEY = "matplaneraren_selected_week_v1";
+const OVERVIEW_WEEK_COUNT = 4;
+const MONTH_NAMES = [
+  "januari",
+  "februari",
+  "mars",
+  "april",
+  "maj",
+  "juni",
+  "juli",
+  "augusti",
+  "september",
+  "oktober",
+  "november",
+  "december",
+];
+
+// En färg per kategori (samma ordning som RECIPE_CATEGORIES), okända blir grå.
+const CATEGORY_STYLES: Record<string, { chip: string; dot: string }> = {
+  Kött: { chip: "bg-red-50 text-red-700 border-red-100", dot: "bg-red-500" },
+  Fisk: { chip: "bg-sky-50 text-sky-700 border-sky-100", dot: "bg-sky-500" },
+  Vegetariskt: {
+    chip: "bg-emerald-50 text-emerald-700 border-emerald-100",
+    dot: "bg-emerald-500",
+  },
+  Kyckling: { chip: "bg-amber-50 text-amber-700 border-amber-100", dot: "bg-amber-500" },
+  Pasta: { chip: "bg-yellow-50 text-yellow-800 border-yellow-100", dot: "bg-yellow-500" },
+  Soppa: { chip: "bg-orange-50 text-orange-700 border-orange-100", dot: "bg-orange-500" },
+  Annat: { chip: "bg-violet-50 text-violet-700 border-violet-100", dot: "bg-violet-500" },
+};
+const FALLBACK_CATEGORY_STYLE = {
+  chip: "bg-gray-50 text-gray-700 border-gray-100",
+  dot: "bg-gray-400",
+};
+const LEFTOVERS_STYLE = "bg-white text-amber-700 border-amber-200 border-dashed";
+
+// Veckorna som visas: de fyra senaste t.o.m. ankarveckan, eller alla veckor som rör månaden.
+function getOverviewWeeks(
+  range: OverviewRange,
+  anchorWeek: string
+): { weeks: string[]; month: { year: number; month: number } | null } {
+  if (range === "weeks") {
+    return {
+      weeks: Array.from({ length: OVERVIEW_WEEK_COUNT }, (_, index) =>
+        shiftIsoWeek(anchorWeek, index - (OVERVIEW_WEEK_COUNT - 1))
+      ),
+      month: null,
+    };
+  }
+
+  const monday = isoWeekToMonday(anchorWeek) ?? new Date();
+  // Torsdagen avgör vilken månad en ISO-vecka "tillhör".
+  const thursday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3);
+  const year = thursday.getFullYear();
+  const month = thursday.getMonth();
+
+  const weeks: string[] = [];
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  for (let day = 1; day <= lastDay; day += 1) {
+    const week = dateToIsoWeek(new Date(year, month, day));
+    if (!weeks.includes(week)) weeks.push(week);
+  }
+  return { weeks, month: { year, month } };
+}
+
+const PlanOverview: React.FC<PlanOverviewProps> = ({ recipes, plans, mealSlots }) => {
+  const navigate = useNavigate();
+  const [range, setRange] = useState<OverviewRange>("weeks");
+  const [anchorWeek, setAnchorWeek] = useState(() => {
+    const stored =
+      typeof window !== "undefined"
+        ? window.localStorage.getItem(LAST_SELECTED_WEEK_KEY)
+        : null;
+    return stored && isoWeekToMonday(stored) ? stored : getCurrentIsoWeek();
+  });
+
+  const { weeks, month } = useMemo(
+    () => getOverviewWeeks(range, anchorWeek),
+    [range, anchorWeek]
+  );
+
+  const recipesById = useMemo(
+    () => new Map(recipes.map((recipe) => [recipe.id, recipe])),
+    [recipes]
+  );
+
+  const daysByWeek = useMemo(() => {
+    return weeks.map((weekIdentifier) => {
+      const plan = plans.find((p) => p.weekIdentifier === weekIdentifier);
+      const monday = isoWeekToMonday(weekIdentifier) ?? new Date();
+
+      return SWEDISH_DAYS.map((_, dayId): OverviewDay => {
+        const date = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + dayId);
+        const inRange =
+          !month || (date.getFullYear() === month.year && date.getMonth() === month.month);
+        const day = plan?.days.find((d) => d.dayId === dayId);
+
+        const meals: OverviewMeal[] = [];
+        if (plan && inRange) {
+          mealSlots.forEach((mealSlot) => {
+            if (!(plan.activeDayIndices?.[mealSlot.id] ?? []).includes(dayId)) return;
+            const slotPlan = getSlotPlan(day, mealSlot.id);
+            if (!hasSlotContent(slotPlan)) return;
+
+            if (slotPlan.leftoversFrom) {
+              meals.push({
+                slot: mealSlot.id,
+                label: getLeftoversLabel(slotPlan, plans, recipes),
+                category: null,
+                recipeIds: [],
+                isLeftovers: true,
+              });
+              return;
+            }
+
+            const recipeIds = getSlotRecipeIds(slotPlan);
+            meals.push({
+              slot: mealSlot.id,
+              label: slotPlan.dishes
+                .map((dish) => getDishLabel(dish, recipes))
+                .filter(Boolean)
+                .join(" + "),
+              category:
+                recipeIds.length > 0 ? recipesById.get(recipeIds[0])?.category ?? null : null,
+              recipeIds,
+              isLeftovers: false,
+            });
+          });
+        }
+
+        return { weekIdentifier, dayId, date, inRange, meals };
+      });
+    });
+  }, [weeks, month, plans, mealSlots, recipes, recipesById]);
+
+  const allDays = useMemo(() => daysByWeek.flat(), [daysByWeek]);
+
+  // Kategorier räknas per rätt med recept; rester räknas inte (de lagas ju inte igen).
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    allDays.forEach((day) =>
+      day.meals.forEach((meal) =>
+        meal.recipeIds.forEach((recipeId) => {
+          const category = recipesById.get(recipeId)?.category;
+          if (!category) return;
+          counts.set(category, (counts.get(category) ?? 0) + 1);
+        })
+      )
+    );
+    const known: string[] = RECIPE_CATEGORIES.filter((category) => counts.has(category));
+    const other = Array.from(counts.keys()).filter((category) => !known.includes(category));
+    return [...known, ...other].map((category) => ({
+      category,
+      count: counts.get(category) ?? 0,
+    }));
+  }, [allDays, recipesById]);
+
+  // Recept som återkommer i perioden, t.ex. tacos tre fredagar i rad.
+  const repeats = useMemo(() => {
+    const occurrences = new Map<number, OverviewDay[]>();
+    allDays.forEach((day) =>
+      day.meals.forEach((meal) =>
+        new Set(meal.recipeIds).forEach((recipeId) => {
+          occurrences.set(recipeId, [...(occurrences.get(recipeId) ?? []), day]);
+        })
+      )
+    );
+    return Array.from(occurrences.entries())
+      .filter(([, days]) => days.length > 1)
+      .map(([recipeId, days]) => ({
+        recipeId,
+        name: recipesById.get(recipeId)?.name ?? "Okänt recept",
+        days,
+      }))
+      .sort((a, b) => b.days.length - a.days.length || a.name.localeCompare(b.name, "sv"));
+  }, [allDays, recipesById]);
+
+  const repeatCounts = useMemo(
+    () => new Map(repeats.map((repeat) => [repeat.recipeId, repeat.days.length])),
+    [repeats]
+  );
+
+  const shiftRange = (direction: -1 | 1) => {
+    if (range === "weeks") {
+      setAnchorWeek((prev) => shiftIsoWeek(prev, direction * OVERVIEW_WEEK_COUNT));
+      return;
+    }
+    if (!month) return;
+    // Hoppa till en vecka mitt i nästa/föregående månad.
+    setAnchorWeek(dateToIsoWeek(new Date(month.year, month.month + direction, 15)));
+  };
+
+  const openWeek = (weekIdentifier: string) => {
+    navigate("/", { state: { week: weekIdentifier } });
+  };
+
+  const formatDay = (date: Date) => `${date.getDate()}/${date.getMonth() + 1}`;
+  const formatWeek = (weekIdentifier: string) => `v.${Number(weekIdentifier.slice(-2))}`;
+  const getSlotLabel = (slotId: string) =>
+    mealSlots.find((slot) => slot.id === slotId)?.label ?? slotId;
+
+  const rangeTitle = month
+    ? `${MONTH_NAMES[month.month]} ${month.year}`
+    : `${formatWeek(weeks[0])}–${formatWeek(weeks[weeks.length - 1])}`;
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {(["weeks", "month"] as OverviewRange[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRange(option)}
+              className={`rounded-xl py-2 text-xs font-bold transition-all ${
+                range === option
+                  ? "bg-emerald-100 text-emerald-700 ring-1 ring-emerald-500"
+                  : "bg-gray-100 text-gray-500"
+              }`}
+            >
+              {option === "weeks" ? `${OVERVIEW_WEEK_COUNT} veckor` : "Månad"}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => shiftRange(-1)}
+            className="shrink-0 p-3 bg-gray-100 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors"
+            aria-label="Föregående period"
+          >
+            ←
+          </button>
+          <p className="flex-1 text-center text-sm font-semibold text-gray-800 capitalize">
+            {rangeTitle}
+          </p>
+          <button
+            type="button"
+            onClick={() => shiftRange(1)}
+            className="shrink-0 p-3 bg-gray-100 rounded-xl text-gray-700 font-bold hover:bg-gray-200 transition-colors"
+            aria-label="Nästa period"
+          >
+            →
+          </button>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+          Kategorier
+        </h2>
+        {categoryCounts.length === 0 ? (
+          <p className="text-xs text-gray-500">Inga planerade recept i perioden.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {categoryCounts.map(({ category, count }) => {
+              const style = CATEGORY_STYLES[category] ?? FALLBACK_CATEGORY_STYLE;
+              return (
+                <span
+                  key={category}
+                  className={`text-[11px] px-2 py-1 rounded-full border font-bold ${style.chip}`}
+                >
+                  {category} · {count}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        {repeats.length > 0 && (
+          <div className="space-y-1.5 pt-1">
+            <h3 className="text-[11px] font-bold text-gray-600 uppercase tracking-wide">
+              Upprepningar
+            </h3>
+            {repeats.map((repeat) => (
+              <p key={repeat.recipeId} className="text-xs text-gray-700">
+                <span className="font-semibold text-red-600">
+                  {repeat.name} ×{repeat.days.length}
+                </span>
+                {" – "}
+                {repeat.days
+                  .map(
+                    (day) =>
+                      `${SWEDISH_DAYS[day.dayId].substring(0, 3).toLowerCase()} ${formatWeek(
+                        day.weekIdentifier
+                      )}`
+                  )
+                  .join(", ")}
+              </p>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        {daysByWeek.map((days, weekIndex) => (
+          <div
+            key={weeks[weekIndex]}
+            className="bg-white rounded-2xl p-3 shadow-sm border border-gray-100 space-y-2"
+          >
+            <button
+              type="button"
+              onClick={() => openWeek(weeks[weekIndex])}
+              className="text-xs font-bold text-emerald-600 uppercase tracking-wider"
+              title="Öppna veckan i planeringen"
+            >
+              {formatWeek(weeks[weekIndex])} · {weeks[weekIndex]}
+            </button>
+            <div className="grid grid-cols-7 gap-1">
+              {days.map((day) => (
+                <button
+                  key={`${day.weekIdentifier}-${day.dayId}`}
+                  type="button"
+                  onClick={() => openWeek(day.weekIdentifier)}
+                  className={`min-w-0 min-h-[4.5rem] rounded-lg border p-1 text-left align-top transition-colors hover:border-emerald-300 ${
+                    day.inRange ? "border-gray-100 bg-gray-50" : "border-transparent bg-white opacity-40"
+                  }`}
+                  title={`${SWEDISH_DAYS[day.dayId]} ${formatDay(day.date)}`}
+                >
+                  <span className="block text-[9px] font-bold text-gray-400">
+                    {SWEDISH_DAYS[day.dayId].substring(0, 2)} {formatDay(day.date)}
+                  </span>
+                  <span className="mt-0.5 block space-y-0.5">
+                    {day.meals.map((meal) => {
+                      const style = meal.isLeftovers
+                        ? LEFTOVERS_STYLE
+                        : (meal.category && CATEGORY_STYLES[meal.category]
+                            ? CATEGORY_STYLES[meal.category]
+                            : FALLBACK_CATEGORY_STYLE
+                          ).chip;
+                      const repeatCount = Math.max(
+                        0,
+                        ...meal.recipeIds.map((recipeId) => repeatCounts.get(recipeId) ?? 0)
+                      );
+                      return (
+                        <span
+                          key={meal.slot}
+                          className={`block truncate rounded border px-0.5 text-[9px] leading-tight font-semibold ${style} ${
+                            repeatCount > 1 ? "ring-1 ring-red-400" : ""
+                          }`}
+                          title={`${getSlotLabel(meal.slot)}: ${meal.label}${
+                            repeatCount > 1 ? ` (${repeatCount} ggr i perioden)` : ""
+                          }`}
+                        >
+                          {meal.label || "–"}
+                        </span>
+                      );
+                    })}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default PlanOverview;
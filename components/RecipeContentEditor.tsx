@@ -1,6 +1,16 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { fetchRecipeFull, saveRecipeFull } from "../services/recipeContentService";
+import { IngredientCatalogEntry } from "../types";
+import {
+  buildIngredientIndex,
+  mergeIngredientCatalog,
+  normalizeIngredientName,
+  resolveIngredientName,
+} from "../services/ingredientCatalog";
+import { fetchIngredientCatalog } from "../services/ingredientCatalogService";
+
+const INGREDIENT_NAMES_LIST_ID = "ingredient-catalog-names";
 
 type ContentIngredient = {
   name: string;
@@ -35,6 +45,9 @@ const RecipeContentEditor: React.FC<RecipeContentEditorProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<IngredientCatalogEntry[]>(() =>
+    mergeIngredientCatalog([])
+  );
 
   useEffect(() => {
     const previousOverflow = document.body.style.overflow;
@@ -96,6 +109,40 @@ const RecipeContentEditor: React.FC<RecipeContentEditorProps> = ({
     };
   }, [recipeId]);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchIngredientCatalog()
+      .then((loaded) => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch((loadError) => {
+        // Förslagen faller tillbaka på de inbyggda namnen.
+        console.error("LOAD INGREDIENT CATALOG FAILED:", loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const ingredientIndex = useMemo(() => buildIngredientIndex(catalog), [catalog]);
+
+  // Ett känt namn skrivet som synonym ("gula lökar") byts mot katalogens namn.
+  const canonicalizeIngredientName = (index: number) => {
+    setIngredients((prev) =>
+      prev.map((row, i) => {
+        if (i !== index || !row.name.trim()) return row;
+        const resolved = resolveIngredientName(row.name, ingredientIndex);
+        if (
+          !resolved.known ||
+          normalizeIngredientName(row.name) === normalizeIngredientName(resolved.name)
+        ) {
+          return row;
+        }
+        return { ...row, name: resolved.name };
+      })
+    );
+  };
+
   const goBack = () => navigate("/recipes");
 
   const addIngredient = () => {
@@ -236,6 +283,11 @@ const RecipeContentEditor: React.FC<RecipeContentEditorProps> = ({
                     Lägg till
                   </button>
                 </div>
+                <datalist id={INGREDIENT_NAMES_LIST_ID}>
+                  {catalog.map((entry) => (
+                    <option key={entry.name} value={entry.name} />
+                  ))}
+                </datalist>
                 <div className="space-y-2">
                   {ingredients.map((ingredient, index) => (
                     <div
@@ -251,6 +303,8 @@ const RecipeContentEditor: React.FC<RecipeContentEditorProps> = ({
                             )
                           )
                         }
+                        onBlur={() => canonicalizeIngredientName(index)}
+                        list={INGREDIENT_NAMES_LIST_ID}
                         placeholder="Ingrediens"
                         className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
                       />
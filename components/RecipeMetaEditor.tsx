@@ -22,6 +22,12 @@ const RecipeMetaEditor: React.FC<RecipeMetaEditorProps> = ({
   const [baseServingsInput, setBaseServingsInput] = useState(
     String(recipe.baseServings ?? 4)
   );
+  const [activeMinutesInput, setActiveMinutesInput] = useState(
+    recipe.activeMinutes != null ? String(recipe.activeMinutes) : ""
+  );
+  const [totalMinutesInput, setTotalMinutesInput] = useState(
+    recipe.totalMinutes != null ? String(recipe.totalMinutes) : ""
+  );
   const [hasRecipeContent, setHasRecipeContent] = useState(recipe.hasRecipeContent);
   const [lastCooked, setLastCooked] = useState<string | null>(recipe.lastCooked);
   const [isSaving, setIsSaving] = useState(false);
@@ -32,6 +38,8 @@ const RecipeMetaEditor: React.FC<RecipeMetaEditorProps> = ({
     setCategory(recipe.category);
     setSource(recipe.source ?? "");
     setBaseServingsInput(String(recipe.baseServings ?? 4));
+    setActiveMinutesInput(recipe.activeMinutes != null ? String(recipe.activeMinutes) : "");
+    setTotalMinutesInput(recipe.totalMinutes != null ? String(recipe.totalMinutes) : "");
     setHasRecipeContent(recipe.hasRecipeContent);
     setLastCooked(recipe.lastCooked);
     setError(null);
@@ -48,6 +56,22 @@ const RecipeMetaEditor: React.FC<RecipeMetaEditorProps> = ({
       setError("Portioner måste vara ett heltal minst 1.");
       return;
     }
+    // Tom ruta = okänd tid
+    const parseMinutes = (value: string) => (value.trim() ? Number(value) : null);
+    const activeMinutes = parseMinutes(activeMinutesInput);
+    const totalMinutes = parseMinutes(totalMinutesInput);
+    if (
+      [activeMinutes, totalMinutes].some(
+        (minutes) => minutes !== null && (!Number.isInteger(minutes) || minutes < 0)
+      )
+    ) {
+      setError("Tid måste anges i hela minuter.");
+      return;
+    }
+    if (activeMinutes !== null && totalMinutes !== null && totalMinutes < activeMinutes) {
+      setError("Total tid kan inte vara kortare än aktiv tid.");
+      return;
+    }
 
     setIsSaving(true);
     setError(null);
@@ -59,6 +83,8 @@ const RecipeMetaEditor: React.FC<RecipeMetaEditorProps> = ({
           category: category.trim() || "Annat",
           source: source.trim() || null,
           baseServings: parsedBaseServings,
+          activeMinutes,
+          totalMinutes,
           hasRecipeContent,
           lastCooked,
         })
@@ -146,6 +172,39 @@ const RecipeMetaEditor: React.FC<RecipeMetaEditorProps> = ({
         />
       </div>
 
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-emerald-700 uppercase mb-1">
+            Aktiv tid (min)
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            inputMode="numeric"
+            value={activeMinutesInput}
+            onChange={(e) => setActiveMinutesInput(e.target.value)}
+            className="w-full p-2.5 text-sm bg-white border-none rounded-xl focus:ring-2 focus:ring-emerald-500"
+            placeholder="T.ex. 20"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-emerald-700 uppercase mb-1">
+            Total tid (min)
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            inputMode="numeric"
+            value={totalMinutesInput}
+            onChange={(e) => setTotalMinutesInput(e.target.value)}
+            className="w-full p-2.5 text-sm bg-white border-none rounded-xl focus:ring-2 focus:ring-emerald-500"
+            placeholder="T.ex. 45"
+          />
+        </div>
+      </div>
+
       <label className="flex items-center gap-2 text-xs text-emerald-800 font-medium">
         <input
           type="checkbox"
@@ -46,7 +46,20 @@ const RecipeViewer: React.FC = () => {
         if (!active) return;
         setData(full);
         setCompletedSteps({});
-        setSelectedServings(Math.max(1, Math.round(full.recipe.baseServings ?? 4)));
+        // Öppnat från veckoplanen: använd måltidens portioner i stället för grundportionerna.
+        const plannedServings = Number(
+          (location.state as { servings?: number } | null)?.servings
+        );
+        setSelectedServings(
+          Math.max(
+            1,
+            Math.round(
+              Number.isFinite(plannedServings) && plannedServings > 0
+                ? plannedServings
+                : full.recipe.baseServings ?? 4
+            )
+          )
+        );
       } catch (loadError) {
         if (!active) return;
         console.error("FETCH RECIPE VIEW FAILED:", loadError);
@@ -0,0 +1,43 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { GeneratorRule, MealSlotConfig } from "../types";
+import MealSlotSettings from "./MealSlotSettings";
+import GeneratorRuleSettings from "./GeneratorRuleSettings";
+import IngredientCatalogSettings from "./IngredientCatalogSettings";
+import StoreProfileSettings from "./StoreProfileSettings";
+import PantrySettings from "./PantrySettings";
+
+type SettingsProps = {
+  mealSlots: MealSlotConfig[];
+  onUpdateMealSlots: (slots: MealSlotConfig[]) => Promise<void> | void;
+  generatorRules: GeneratorRule[];
+  onUpdateGeneratorRules: (rules: GeneratorRule[]) => Promise<void> | void;
+};
+
+const Settings: React.FC<SettingsProps> = ({
+  mealSlots,
+  onUpdateMealSlots,
+  generatorRules,
+  onUpdateGeneratorRules,
+}) => {
+  return (
+    <div className="space-y-6 animate-fadeIn pb-24">
+      <Link
+        to="/settings/calendars"
+        className="flex items-center justify-between bg-white rounded-2xl p-4 shadow-sm border border-gray-100"
+      >
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+          Kalendrar
+        </span>
+        <span className="text-xs font-semibold text-emerald-700">Hantera →</span>
+      </Link>
+      <MealSlotSettings mealSlots={mealSlots} onSave={onUpdateMealSlots} />
+      <GeneratorRuleSettings rules={generatorRules} onSave={onUpdateGeneratorRules} />
+      <IngredientCatalogSettings />
+      <StoreProfileSettings />
+      <PantrySettings />
+    </div>
+  );
+};
+
+export default Settings;
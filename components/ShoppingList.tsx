@@ -1,38 +1,146 @@
-import React, { useEffect, useMemo, useState } from "react";
-import { ActiveDayIndices, MealSlotType, Recipe, WeekPlan } from "../types";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  IngredientCatalogEntry,
+  MealSlotConfig,
+  MealSlotPlan,
+  MealSlotType,
+  PantryItem,
+  Recipe,
+  ShoppingListItem,
+  StoreProfile,
+  WeekPlan,
+  WeekShoppingList,
+} from "../types";
+import { supabase } from "../supabaseClient";
 import { fetchRecipeFull, type RecipeFull } from "../services/recipeContentService";
+import {
+  addManualShoppingItem,
+  applyGeneratedItemChanges,
+  deleteShoppingItem,
+  ensureShoppingList,
+  fetchShoppingList,
+  fetchShoppingListItems,
+  hasGeneratedItemChanges,
+  planGeneratedItemChanges,
+  setShoppingItemChecked,
+  setShoppingItemsInPantry,
+  setShoppingItemsRemoved,
+  updateShoppingItemOrder,
+  updateShoppingListEdits,
+  type GeneratedShoppingRow,
+} from "../services/shoppingListService";
+import {
+  addSynonymToCatalog,
+  buildIngredientIndex,
+  getIngredientKey,
+  mergeIngredientCatalog,
+  replaceCatalogEntry,
+  resolveIngredientName,
+  setCatalogCategory,
+} from "../services/ingredientCatalog";
+import {
+  fetchIngredientCatalog,
+  saveIngredientCatalogEntry,
+} from "../services/ingredientCatalogService";
+import { fetchPantryItems, savePantryItem } from "../services/pantryService";
+import {
+  hasPantryStock,
+  pickPantryWeek,
+  planPantryAddition,
+  subtractPantryStock,
+} from "../services/pantry";
+import {
+  INGREDIENT_CATEGORIES,
+  getCategoryOrder,
+  groupByCategory,
+} from "../services/storeLayout";
+import {
+  fetchStoreProfiles,
+  getSelectedStoreId,
+  setSelectedStoreId,
+} from "../services/storeProfileService";
+import {
+  canConvertUnits,
+  convertQuantity,
+  getIngredientProfile,
+  sumQuantities,
+  toDisplayQuantity,
+  type Quantity,
+} from "../services/unitConversion";
+import {
+  findSlotPlan,
+  getDefaultActiveDays,
+  getSlotPlan,
+  getSlotRecipeIds,
+  patchSlotPlan,
+  resolveSlotServings,
+} from "../services/mealSlotService";
+import { diffPlanState, isEmptyPlanPatch } from "../services/planHistory";
+import {
+  createUndoHistory,
+  getUndoShortcut,
+  pushUndoEntry,
+  stepRedo,
+  stepUndo,
+  type UndoHistory,
+} from "../services/undoHistory";
+import {
+  getCurrentIsoWeek,
+  isoWeekDayToISODate,
+  parseIsoWeek,
+  shiftIsoWeek,
+} from "../supabase/functions/_shared/isoWeek";
 
 type ShoppingListProps = {
   recipes: Recipe[];
   plans: WeekPlan[];
+  plansLoaded: boolean;
+  mealSlots: MealSlotConfig[];
+  onUpdatePlans: (plans: WeekPlan[]) => void;
+  onUndoPlans: () => void;
+  onRedoPlans: () => void;
 };
 
+// Ändringar i listan som går att ångra: sammanslagna och borttagna rader
+// (nycklade på generated_key).
+type ListEdits = {
+  manualMergeMap: Record<string, string>;
+  removedIngredientIds: Record<string, true>;
+};
+
+type ShoppingUndoEntry =
+  | { kind: "list"; before: ListEdits; after: ListEdits }
+  // Portionsändringar sparas i veckoplanen och ångras via App:s historik.
+  | { kind: "plans" };
+
 type LoadedRecipeEntry = {
   dayId: number;
   slot: MealSlotType;
+  dishIndex: number;
   recipe: Recipe;
   full: RecipeFull | null;
   error: string | null;
 };
 
+// amount i grundenheten (ml, g, st ...), se unitConversion.ts
 type SummedIngredientRow = {
   id: string;
   name: string;
   unit: string | null;
   amount: number;
+  sourceUnits: string[];
 };
 
 type UnsummedIngredientRow = {
   id: string;
+  // Ingrediensens namn (utan enhet), för att se om den finns i skafferiet
+  name: string;
   label: string;
 };
 
-const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
-const ALL_ACTIVE_DAYS: ActiveDayIndices = {
-  lunch: [...ALL_DAYS],
-  dinner: [...ALL_DAYS],
-};
 const LAST_SELECTED_WEEK_KEY = "matplaneraren_selected_week_v1";
+// Flera ändringar i rad från en annan enhet (t.ex. en avstämning) blir en omläsning.
+const REALTIME_RELOAD_DELAY_MS = 300;
 const SHOPPING_EXCLUDED_INGREDIENTS = new Set([
   "salt",
   "peppar",
@@ -42,63 +150,47 @@ const SHOPPING_EXCLUDED_INGREDIENTS = new Set([
   "vatten",
 ]);
 
-function getCurrentIsoWeek(): string {
-  const now = new Date();
-  const d = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
+function normalizeKeyPart(value: string | null): string {
+  return (value ?? "").trim().toLowerCase();
 }
 
-function isoWeekToMonday(weekIdentifier: string): Date | null {
-  const match = /^(\d{4})-W(\d{2})$/.exec(weekIdentifier);
-  if (!match) return null;
+function shouldExcludeFromShoppingList(name: string): boolean {
+  return SHOPPING_EXCLUDED_INGREDIENTS.has(normalizeKeyPart(name));
+}
 
-  const year = Number(match[1]);
-  const week = Number(match[2]);
-  const jan4 = new Date(Date.UTC(year, 0, 4));
-  const jan4IsoDow = jan4.getUTCDay() || 7;
-  const week1Monday = new Date(jan4);
-  week1Monday.setUTCDate(jan4.getUTCDate() - (jan4IsoDow - 1));
+type MergeableRow = Pick<SummedIngredientRow, "name" | "unit">;
 
-  const monday = new Date(week1Monday);
-  monday.setUTCDate(week1Monday.getUTCDate() + (week - 1) * 7);
-  return monday;
+// Målradens omräkningsvärden gäller i första hand ("grädde" in i "vispgrädde").
+function getMergeProfile(source: MergeableRow, target: MergeableRow) {
+  return getIngredientProfile(target.name) ?? getIngredientProfile(source.name);
 }
 
-function dateToIsoWeek(date: Date): string {
-  const d = new Date(
-    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
-  );
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
+function canMergeIngredientRows(source: MergeableRow, target: MergeableRow): boolean {
+  return canConvertUnits(source.unit, target.unit, getMergeProfile(source, target));
 }
 
-function shiftIsoWeek(weekIdentifier: string, deltaWeeks: number): string {
-  const monday = isoWeekToMonday(weekIdentifier);
-  if (!monday) return weekIdentifier;
-  monday.setUTCDate(monday.getUTCDate() + deltaWeeks * 7);
-  return dateToIsoWeek(monday);
+// Rader utan mängd ("lite persilja") kan inte summeras eller slås ihop.
+function getUnsummedKey(label: string): string {
+  return `unsummed|${normalizeKeyPart(label)}`;
 }
 
-function normalizeKeyPart(value: string | null): string {
-  return (value ?? "").trim().toLowerCase();
+function isMergeableItem(item: ShoppingListItem): boolean {
+  return (
+    item.source === "generated" &&
+    item.amount !== null &&
+    !(item.generatedKey ?? "").startsWith("unsummed|")
+  );
 }
 
-function shouldExcludeFromShoppingList(name: string): boolean {
-  return SHOPPING_EXCLUDED_INGREDIENTS.has(normalizeKeyPart(name));
+// Avbockad med mindre än nuvarande mängd = planen har ökat efter att varan köptes.
+function getRemainingAmount(item: ShoppingListItem): number | null {
+  if (!item.checked || item.amount === null || item.checkedAmount === null) return null;
+  const remaining = item.amount - item.checkedAmount;
+  return remaining > 0.0005 ? remaining : null;
 }
 
-function canMergeIngredientRows(
-  source: SummedIngredientRow,
-  target: SummedIngredientRow
-): boolean {
-  return normalizeKeyPart(source.unit) === normalizeKeyPart(target.unit);
+function isItemDone(item: ShoppingListItem): boolean {
+  return item.checked && getRemainingAmount(item) === null;
 }
 
 function resolveMergeTarget(
@@ -116,96 +208,234 @@ function resolveMergeTarget(
   return current;
 }
 
-const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
+const ShoppingList: React.FC<ShoppingListProps> = ({
+  recipes,
+  plans,
+  plansLoaded,
+  mealSlots,
+  onUpdatePlans,
+  onUndoPlans,
+  onRedoPlans,
+}) => {
   const [selectedWeek, setSelectedWeek] = useState(() => {
     const stored =
       typeof window !== "undefined"
         ? window.localStorage.getItem(LAST_SELECTED_WEEK_KEY)
         : null;
-    return stored || getCurrentIsoWeek();
+    return stored && parseIsoWeek(stored) ? stored : getCurrentIsoWeek();
   });
   const [loadedEntries, setLoadedEntries] = useState<LoadedRecipeEntry[]>([]);
-  const [servingsByMeal, setServingsByMeal] = useState<Record<string, number>>({});
-  const [excludedMealKeys, setExcludedMealKeys] = useState<Record<string, true>>({});
-  const [manualMergeMap, setManualMergeMap] = useState<Record<string, string>>({});
-  const [removedIngredientIds, setRemovedIngredientIds] = useState<Record<string, true>>({});
+  // Vilken uppsättning rätter loadedEntries hör till (se recipeDaysSignature).
+  const [loadedSignature, setLoadedSignature] = useState<string | null>(null);
+  const [shoppingList, setShoppingList] = useState<WeekShoppingList | null>(null);
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [listError, setListError] = useState<string | null>(null);
+  const [newItemName, setNewItemName] = useState("");
+  const [history, setHistory] = useState<UndoHistory<ShoppingUndoEntry>>(() =>
+    createUndoHistory()
+  );
   const [draggingIngredientId, setDraggingIngredientId] = useState<string | null>(null);
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mergeError, setMergeError] = useState<string | null>(null);
+  // null = katalogen laddas; listan stäms inte av innan, så att raderna inte byter nyckel två gånger.
+  const [catalog, setCatalog] = useState<IngredientCatalogEntry[] | null>(null);
+  const [pantry, setPantry] = useState<PantryItem[] | null>(null);
+  const [stores, setStores] = useState<StoreProfile[]>([]);
+  const [selectedStoreId, setSelectedStoreIdState] = useState<string | null>(() =>
+    getSelectedStoreId()
+  );
+  const activeListIdRef = useRef<string | null>(null);
+  const isReconcilingRef = useRef(false);
 
   const getMealKey = (dayId: number, slot: MealSlotType) => `${dayId}-${slot}`;
+  const getDishKey = (dayId: number, slot: MealSlotType, dishIndex: number) =>
+    `${dayId}-${slot}-${dishIndex}`;
 
   useEffect(() => {
     if (typeof window === "undefined") return;
     window.localStorage.setItem(LAST_SELECTED_WEEK_KEY, selectedWeek);
   }, [selectedWeek]);
 
+  const defaultActiveDays = useMemo(() => getDefaultActiveDays(mealSlots), [mealSlots]);
+
   const currentPlan = useMemo(() => {
     return (
       plans.find((plan) => plan.weekIdentifier === selectedWeek) || {
         weekIdentifier: selectedWeek,
         days: [],
-        activeDayIndices: ALL_ACTIVE_DAYS,
+        activeDayIndices: defaultActiveDays,
       }
     );
-  }, [plans, selectedWeek]);
+  }, [plans, selectedWeek, defaultActiveDays]);
+
+  const activeDayIndices = currentPlan.activeDayIndices ?? defaultActiveDays;
 
-  const activeDayIndices = currentPlan.activeDayIndices ?? ALL_ACTIVE_DAYS;
+  const getSlotLabel = (slot: MealSlotType) =>
+    mealSlots.find((mealSlot) => mealSlot.id === slot)?.label ?? slot;
 
   const activeMeals = useMemo(
     () => {
       const out: Array<{
         dayId: number;
         slot: MealSlotType;
-        recipeId: number | null;
-        freeText: string | null;
+        slotPlan: MealSlotPlan;
       }> = [];
 
       currentPlan.days.forEach((day) => {
-        (["lunch", "dinner"] as MealSlotType[]).forEach((slot) => {
+        mealSlots.forEach(({ id: slot }) => {
           if (!activeDayIndices[slot]?.includes(day.dayId)) return;
+          const slotPlan = getSlotPlan(day, slot);
           out.push({
             dayId: day.dayId,
             slot,
-            recipeId: day[slot].recipeId,
-            freeText: (day[slot].freeText ?? "").trim() || null,
+            slotPlan,
           });
         });
       });
 
       return out.sort((a, b) => a.dayId - b.dayId);
     },
-    [currentPlan.days, activeDayIndices]
+    [currentPlan.days, activeDayIndices, mealSlots]
   );
 
   const freeTextDays = useMemo(
     () =>
-      activeMeals
-        .filter((meal) => meal.recipeId == null && meal.freeText)
-        .map((meal) => ({
-          dayId: meal.dayId,
-          slot: meal.slot,
-          text: meal.freeText!,
-        })),
+      activeMeals.flatMap((meal) =>
+        meal.slotPlan.dishes.flatMap((dish, dishIndex) => {
+          const text = (dish.freeText ?? "").trim();
+          if (dish.recipeId != null || !text) return [];
+          return [{ dayId: meal.dayId, slot: meal.slot, dishIndex, text }];
+        })
+      ),
     [activeMeals]
   );
 
   const recipeDays = useMemo(
     () =>
-      activeMeals
-        .filter((meal) => meal.recipeId != null)
-        .map((meal) => ({
-          dayId: meal.dayId,
-          slot: meal.slot,
-          recipe: recipes.find((recipe) => recipe.id === meal.recipeId) ?? null,
-        })),
+      activeMeals.flatMap((meal) =>
+        meal.slotPlan.dishes.flatMap((dish, dishIndex) => {
+          if (dish.recipeId == null) return [];
+          return [
+            {
+              dayId: meal.dayId,
+              slot: meal.slot,
+              dishIndex,
+              recipe: recipes.find((recipe) => recipe.id === dish.recipeId) ?? null,
+            },
+          ];
+        })
+      ),
     [activeMeals, recipes]
   );
 
+  // Portioner kommer från veckoplanen – ändras de ska recepten inte laddas om.
+  const recipeDaysSignature = recipeDays
+    .map(
+      (entry) =>
+        `${getDishKey(entry.dayId, entry.slot, entry.dishIndex)}-${entry.recipe?.id ?? "x"}`
+    )
+    .join("|");
+
+  const slotPlansByMeal = useMemo(() => {
+    const out: Record<string, MealSlotPlan> = {};
+    for (const meal of activeMeals) out[getMealKey(meal.dayId, meal.slot)] = meal.slotPlan;
+    return out;
+  }, [activeMeals]);
+
+  // Rester (samma eller nästa vecka) som pekar på veckans måltider lagas samtidigt –
+  // deras portioner läggs på källmåltiden.
+  const leftoverServingsByMeal = useMemo(() => {
+    const out: Record<string, number> = {};
+    [selectedWeek, shiftIsoWeek(selectedWeek, 1)].forEach((weekIdentifier) => {
+      const week = plans.find((p) => p.weekIdentifier === weekIdentifier);
+      if (!week) return;
+      const weekActiveDays = week.activeDayIndices ?? defaultActiveDays;
+
+      week.days.forEach((day) => {
+        mealSlots.forEach(({ id: slot }) => {
+          if (!weekActiveDays[slot]?.includes(day.dayId)) return;
+          const slotPlan = getSlotPlan(day, slot);
+          const ref = slotPlan.leftoversFrom;
+          if (!ref || ref.weekIdentifier !== selectedWeek) return;
+
+          const source = findSlotPlan(plans, ref);
+          if (!source) return;
+          const sourceRecipe =
+            recipes.find((r) => r.id === getSlotRecipeIds(source)[0]) ?? null;
+          const key = getMealKey(ref.dayId, ref.slot);
+          out[key] = (out[key] ?? 0) + resolveSlotServings(slotPlan, sourceRecipe);
+        });
+      });
+    });
+    return out;
+  }, [plans, selectedWeek, defaultActiveDays, mealSlots, recipes]);
+
+  // Portioner per rätt: måltidens sparade portioner, annars rättens egna grundportioner.
+  const getEntryServings = (entry: LoadedRecipeEntry) => {
+    const slotPlan = slotPlansByMeal[getMealKey(entry.dayId, entry.slot)];
+    return slotPlan
+      ? resolveSlotServings(slotPlan, entry.recipe)
+      : Math.max(1, Math.round(entry.recipe.baseServings || 4));
+  };
+
+  const guestNotesByMeal = useMemo(() => {
+    const out: Record<string, string> = {};
+    for (const meal of activeMeals) {
+      const note = (meal.slotPlan.guestNote ?? "").trim();
+      if (note) out[getMealKey(meal.dayId, meal.slot)] = note;
+    }
+    return out;
+  }, [activeMeals]);
+
+  // Lagad = receptet lagades samma dag eller senare (som "Spara lagad" i veckoplanen).
+  // Receptlistan används i stället för den laddade kopian, så att nya datum syns direkt.
+  const isDishCooked = (weekIdentifier: string, dayId: number, recipeId: number) => {
+    const lastCooked = recipes.find((recipe) => recipe.id === recipeId)?.lastCooked;
+    return !!lastCooked && lastCooked.slice(0, 10) >= isoWeekDayToISODate(weekIdentifier, dayId);
+  };
+
+  // Veckan som skafferiet räknas av mot (se pickPantryWeek).
+  const pantryWeek = useMemo(() => {
+    const openWeeks = plans
+      .filter((plan) => {
+        const weekActiveDays = plan.activeDayIndices ?? defaultActiveDays;
+        return plan.days.some((day) =>
+          mealSlots.some(
+            ({ id: slot }) =>
+              weekActiveDays[slot]?.includes(day.dayId) &&
+              getSlotPlan(day, slot).dishes.some(
+                (dish) =>
+                  dish.recipeId != null &&
+                  !isDishCooked(plan.weekIdentifier, day.dayId, dish.recipeId)
+              )
+          )
+        );
+      })
+      .map((plan) => plan.weekIdentifier);
+    return pickPantryWeek(openWeeks, getCurrentIsoWeek());
+  }, [plans, defaultActiveDays, mealSlots, recipes]);
+
+  // App sparar bara en ångra-post när planen ändras (diffPlanState) – samma jämförelse här,
+  // annars skulle t.ex. "−" vid 1 portion lämna en tom post som ångrar något annat.
+  const updateServings = (dayId: number, slot: MealSlotType, servings: number) => {
+    const nextPlans = patchSlotPlan(
+      plans,
+      selectedWeek,
+      dayId,
+      slot,
+      { servings: Math.max(1, Math.round(servings)) },
+      defaultActiveDays
+    );
+    if (isEmptyPlanPatch(diffPlanState(plans, nextPlans, defaultActiveDays))) return;
+    setHistory((prev) => pushUndoEntry(prev, { kind: "plans" }));
+    onUpdatePlans(nextPlans);
+  };
+
   useEffect(() => {
     let active = true;
+    const signature = recipeDaysSignature;
 
     const run = async () => {
       setIsLoading(true);
@@ -218,6 +448,7 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
               return {
                 dayId: entry.dayId,
                 slot: entry.slot,
+                dishIndex: entry.dishIndex,
                 recipe: null,
                 full: null,
                 error: "Recept saknas i listan.",
@@ -229,6 +460,7 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
                 return {
                   dayId: entry.dayId,
                   slot: entry.slot,
+                  dishIndex: entry.dishIndex,
                   recipe: entry.recipe,
                   full,
                   error: null,
@@ -238,6 +470,7 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
                 return {
                   dayId: entry.dayId,
                   slot: entry.slot,
+                  dishIndex: entry.dishIndex,
                   recipe: entry.recipe,
                   full: null,
                   error: "Kunde inte läsa receptinnehåll.",
@@ -251,26 +484,11 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
         const normalizedResults = results.filter(
           (
             result
-          ): result is {
-            dayId: number;
-            slot: MealSlotType;
-            recipe: Recipe;
-            full: RecipeFull | null;
-            error: string | null;
-          } => result.recipe !== null
+          ): result is LoadedRecipeEntry => result.recipe !== null
         );
 
         setLoadedEntries(normalizedResults);
-
-        const nextServings: Record<string, number> = {};
-        for (const result of normalizedResults) {
-          const key = `${result.dayId}-${result.slot}`;
-          nextServings[key] = Math.max(
-            1,
-            Math.round(result.recipe.baseServings || 4)
-          );
-        }
-        setServingsByMeal(nextServings);
+        setLoadedSignature(signature);
       } catch (loadError) {
         if (!active) return;
         console.error("LOAD SHOPPING LIST FAILED:", loadError);
@@ -285,22 +503,97 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
     return () => {
       active = false;
     };
-  }, [recipeDays]);
+  }, [recipeDaysSignature]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchIngredientCatalog()
+      .then((loaded) => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD INGREDIENT CATALOG FAILED:", loadError);
+        // Utan egen katalog används de inbyggda namnen.
+        if (!cancelled) setCatalog(mergeIngredientCatalog([]));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const ingredientIndex = useMemo(() => buildIngredientIndex(catalog ?? []), [catalog]);
+
+  const getIngredientNameKey = (name: string) =>
+    resolveIngredientName(name, ingredientIndex).key;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPantryItems()
+      .then((loaded) => {
+        if (!cancelled) setPantry(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD PANTRY FAILED:", loadError);
+        // Utan skafferi handlas allt som behövs.
+        if (!cancelled) setPantry([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStoreProfiles()
+      .then((loaded) => {
+        if (!cancelled) setStores(loaded);
+      })
+      .catch((loadError) => {
+        // Utan butiker visas listan i standardordning.
+        console.error("LOAD STORE PROFILES FAILED:", loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedStore = stores.find((store) => store.id === selectedStoreId) ?? null;
+
+  const selectStore = (id: string | null) => {
+    setSelectedStoreIdState(id);
+    setSelectedStoreId(id);
+  };
+
+  // Avdelning per katalognyckel
+  const categoryByKey = useMemo(() => {
+    const out = new Map<string, string>();
+    (catalog ?? []).forEach((entry) => {
+      if (entry.category) out.set(getIngredientKey(entry.name), entry.category);
+    });
+    return out;
+  }, [catalog]);
+
+  const manualMergeMap = useMemo(() => shoppingList?.merges ?? {}, [shoppingList]);
+
+  const excludedMealKeys = useMemo(
+    () => new Set(shoppingList?.excludedDishKeys ?? []),
+    [shoppingList]
+  );
 
   const baseIngredients = useMemo(() => {
-    const summed = new Map<string, SummedIngredientRow>();
-    const unsummed: UnsummedIngredientRow[] = [];
+    const quantitiesByName = new Map<string, { name: string; quantities: Quantity[] }>();
+    const unsummed = new Map<string, UnsummedIngredientRow>();
 
     for (const entry of loadedEntries) {
-      if (excludedMealKeys[getMealKey(entry.dayId, entry.slot)]) continue;
+      if (excludedMealKeys.has(getDishKey(entry.dayId, entry.slot, entry.dishIndex))) continue;
       if (!entry.full || entry.full.ingredients.length === 0) continue;
+      // Lagade rätter har redan dragits från skafferiet – inget kvar att handla till dem.
+      if (isDishCooked(selectedWeek, entry.dayId, entry.recipe.id)) continue;
 
       const baseServings = Math.max(1, Math.round(entry.recipe.baseServings || 4));
-      const servingsKey = `${entry.dayId}-${entry.slot}`;
-      const selectedServings = Math.max(
-        1,
-        Math.round(servingsByMeal[servingsKey] || baseServings)
-      );
+      const selectedServings =
+        getEntryServings(entry) +
+        (leftoverServingsByMeal[getMealKey(entry.dayId, entry.slot)] ?? 0);
       const factor = selectedServings / baseServings;
 
       for (const ingredient of entry.full.ingredients) {
@@ -313,50 +606,166 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
 
         if (ingredient.amount === null) {
           const label = [ingredient.unit, ingredient.name].filter(Boolean).join(" ").trim();
-          unsummed.push({
-            id: `unsummed-${entry.dayId}-${unsummed.length}-${normalizeKeyPart(label)}`,
-            label,
-          });
+          const id = getUnsummedKey(label);
+          if (!unsummed.has(id)) unsummed.set(id, { id, name: ingredient.name, label });
           continue;
         }
 
-        const normalizedName = ingredient.name.trim();
-        const normalizedUnit = ingredient.unit?.trim() || null;
-        const key = `${normalizeKeyPart(normalizedName)}|${normalizeKeyPart(normalizedUnit)}`;
-        const scaledAmount = ingredient.amount * factor;
-        const existing = summed.get(key);
+        const resolved = resolveIngredientName(ingredient.name, ingredientIndex);
+        const quantity = { amount: ingredient.amount * factor, unit: ingredient.unit };
+        const existing = quantitiesByName.get(resolved.key);
 
         if (existing) {
-          existing.amount += scaledAmount;
+          existing.quantities.push(quantity);
         } else {
-          summed.set(key, {
-            id: key,
-            name: normalizedName,
-            unit: normalizedUnit,
-            amount: scaledAmount,
-          });
+          quantitiesByName.set(resolved.key, { name: resolved.name, quantities: [quantity] });
         }
       }
     }
 
+    // En rad per ingrediens och grundenhet; det som inte går att räkna om blir egna rader.
+    // Grundenheten beror bara på ingrediensen, så radens nyckel står still när recept läggs till.
+    const summed: SummedIngredientRow[] = [];
+    quantitiesByName.forEach(({ name, quantities }, nameKey) => {
+      sumQuantities(quantities, getIngredientProfile(name)).forEach((quantity) => {
+        summed.push({ id: `${nameKey}|${quantity.unit}`, name, ...quantity });
+      });
+    });
+
     return {
-      summed: Array.from(summed.values()).sort((a, b) => a.name.localeCompare(b.name, "sv")),
-      unsummed,
+      summed: summed.sort((a, b) => a.name.localeCompare(b.name, "sv")),
+      unsummed: Array.from(unsummed.values()),
     };
-  }, [loadedEntries, servingsByMeal, excludedMealKeys]);
+  }, [
+    loadedEntries,
+    slotPlansByMeal,
+    leftoverServingsByMeal,
+    excludedMealKeys,
+    ingredientIndex,
+    recipes,
+    selectedWeek,
+  ]);
 
   useEffect(() => {
-    setManualMergeMap({});
-    setRemovedIngredientIds({});
-    setExcludedMealKeys({});
+    setHistory(createUndoHistory());
     setDraggingIngredientId(null);
     setDropTargetId(null);
     setMergeError(null);
   }, [selectedWeek]);
 
+  // Veckans sparade lista (skapas första gången veckan öppnas).
+  useEffect(() => {
+    let cancelled = false;
+    activeListIdRef.current = null;
+    setShoppingList(null);
+    setItems([]);
+    setListError(null);
+
+    (async () => {
+      try {
+        const list = await ensureShoppingList(selectedWeek);
+        const loadedItems = await fetchShoppingListItems(list.id);
+        if (cancelled) return;
+        activeListIdRef.current = list.id;
+        setShoppingList(list);
+        setItems(loadedItems);
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error("LOAD SHOPPING LIST FAILED:", loadError);
+        setListError("Kunde inte läsa den sparade inköpslistan.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedWeek]);
+
+  const reloadShoppingList = async (listId: string, weekIdentifier: string) => {
+    const [list, loadedItems] = await Promise.all([
+      fetchShoppingList(weekIdentifier),
+      fetchShoppingListItems(listId),
+    ]);
+    if (activeListIdRef.current !== listId || !list || list.id !== listId) return;
+    setShoppingList(list);
+    setItems(loadedItems);
+  };
+
+  /* -------- REALTIME SYNC (shopping_lists + items) -------- */
+  const shoppingListId = shoppingList?.id ?? null;
+  const shoppingListWeek = shoppingList?.weekIdentifier ?? null;
+
+  useEffect(() => {
+    if (!shoppingListId || !shoppingListWeek) return;
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleReload = () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        reloadShoppingList(shoppingListId, shoppingListWeek).catch((e) =>
+          console.error("Realtime reload shopping list failed:", e)
+        );
+      }, REALTIME_RELOAD_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel(`shopping-list-sync-${shoppingListId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "shopping_list_items",
+          filter: `list_id=eq.${shoppingListId}`,
+        },
+        scheduleReload
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "shopping_lists",
+          filter: `id=eq.${shoppingListId}`,
+        },
+        scheduleReload
+      )
+      .subscribe();
+
+    return () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [shoppingListId, shoppingListWeek]);
+
+  // Sparar en ändring som redan visas. Misslyckas den läses listan om från servern.
+  const persistListChange = (action: () => Promise<void>) => {
+    const listId = shoppingList?.id;
+    if (!listId) return;
+    action().catch(async (saveError) => {
+      console.error("SAVE SHOPPING LIST FAILED:", saveError);
+      setListError("Kunde inte spara ändringen i inköpslistan.");
+      try {
+        await reloadShoppingList(listId, selectedWeek);
+      } catch {}
+    });
+  };
+
+  const toggleExcludedDish = (dishKey: string) => {
+    if (!shoppingList) return;
+    const excludedDishKeys = excludedMealKeys.has(dishKey)
+      ? shoppingList.excludedDishKeys.filter((key) => key !== dishKey)
+      : [...shoppingList.excludedDishKeys, dishKey];
+    setShoppingList({ ...shoppingList, excludedDishKeys });
+    persistListChange(() => updateShoppingListEdits(shoppingList.id, { excludedDishKeys }));
+  };
+
   const activeLoadedEntries = useMemo(
     () =>
-      loadedEntries.filter((entry) => !excludedMealKeys[getMealKey(entry.dayId, entry.slot)]),
+      loadedEntries.filter(
+        (entry) => !excludedMealKeys.has(getDishKey(entry.dayId, entry.slot, entry.dishIndex))
+      ),
     [loadedEntries, excludedMealKeys]
   );
 
@@ -377,23 +786,134 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
       const sourceRow = rowMap.get(sourceId);
       const targetRow = rowMap.get(resolvedTargetId);
       if (!sourceRow || !targetRow) continue;
-      if (!canMergeIngredientRows(sourceRow, targetRow)) continue;
+      const converted = convertQuantity(
+        sourceRow.amount,
+        sourceRow.unit,
+        targetRow.unit,
+        getMergeProfile(sourceRow, targetRow)
+      );
+      if (converted === null) continue;
 
-      targetRow.amount += sourceRow.amount;
+      targetRow.amount += converted;
+      targetRow.sourceUnits = Array.from(
+        new Set([...targetRow.sourceUnits, ...sourceRow.sourceUnits])
+      );
       rowMap.delete(sourceId);
     }
 
     return Array.from(rowMap.values()).sort((a, b) => a.name.localeCompare(b.name, "sv"));
   }, [baseIngredients.summed, manualMergeMap]);
 
-  const displayedIngredients = useMemo(
-    () => summedIngredients.filter((row) => !removedIngredientIds[row.id]),
-    [summedIngredients, removedIngredientIds]
+  // Det som finns hemma dras av, men bara i skafferiveckans lista; bäst före-datum jämförs
+  // med dagens datum.
+  const today = new Date().toLocaleDateString("sv-SE");
+  const pantryStock = useMemo(
+    () => (selectedWeek === pantryWeek ? pantry ?? [] : []),
+    [selectedWeek, pantryWeek, pantry]
+  );
+  const generatedRows = useMemo<GeneratedShoppingRow[]>(
+    () => [
+      ...subtractPantryStock(summedIngredients, pantryStock, getIngredientNameKey, today).map(
+        (row) => ({
+          key: row.id,
+          name: row.name,
+          ...toDisplayQuantity(
+            row.amount,
+            row.unit ?? "st",
+            row.sourceUnits,
+            getIngredientProfile(row.name)
+          ),
+        })
+      ),
+      ...baseIngredients.unsummed
+        .filter((row) => !hasPantryStock(row.name, pantryStock, getIngredientNameKey, today))
+        .map((row) => ({
+          key: row.id,
+          name: row.label,
+          amount: null,
+          unit: null,
+        })),
+    ],
+    [summedIngredients, baseIngredients.unsummed, pantryStock, ingredientIndex, today]
+  );
+  const generatedRowsKey = JSON.stringify(generatedRows);
+
+  // Rader tas bara bort när alla recept kunnat läsas – annars skulle en tillfällig
+  // läsmiss tömma listan för hela hushållet.
+  const allowRemovals =
+    recipeDays.every((entry) => entry.recipe !== null) &&
+    loadedEntries.every((entry) => !entry.error);
+  const canReconcile =
+    plansLoaded &&
+    catalog !== null &&
+    pantry !== null &&
+    !isLoading &&
+    loadedSignature === recipeDaysSignature &&
+    shoppingList?.weekIdentifier === selectedWeek;
+
+  // Stämmer av den sparade listan mot veckoplanen: nya rader läggs till, ändrade mängder
+  // uppdateras och rader som försvunnit tas bort om de inte redan bockats av.
+  useEffect(() => {
+    if (!canReconcile || !shoppingList || isReconcilingRef.current) return;
+    const changes = planGeneratedItemChanges(items, generatedRows, { allowRemovals });
+    if (!hasGeneratedItemChanges(changes)) return;
+
+    const listId = shoppingList.id;
+    const nextSortOrder = items.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+    isReconcilingRef.current = true;
+    applyGeneratedItemChanges(listId, changes, nextSortOrder)
+      .then(() => fetchShoppingListItems(listId))
+      .then((loadedItems) => {
+        if (activeListIdRef.current === listId) setItems(loadedItems);
+      })
+      .catch((syncError) => {
+        console.error("SYNC SHOPPING LIST FAILED:", syncError);
+        setListError("Kunde inte uppdatera inköpslistan från veckoplanen.");
+      })
+      .finally(() => {
+        isReconcilingRef.current = false;
+      });
+  }, [canReconcile, shoppingList?.id, generatedRowsKey, items, allowRemovals]);
+
+  const removedIngredientIds = useMemo(() => {
+    const out: Record<string, true> = {};
+    items.forEach((item) => {
+      if (item.removed && item.generatedKey) out[item.generatedKey] = true;
+    });
+    return out;
+  }, [items]);
+
+  // Kvar att handla i listans ordning, avbockat sist.
+  const openItems = useMemo(
+    () =>
+      items
+        .filter((item) => !item.removed && !isItemDone(item))
+        .sort((a, b) => a.sortOrder - b.sortOrder),
+    [items]
+  );
+
+  const doneItems = useMemo(
+    () =>
+      items
+        .filter((item) => !item.removed && isItemDone(item))
+        .sort((a, b) => a.sortOrder - b.sortOrder),
+    [items]
   );
 
-  const displayedUnsummedIngredients = useMemo(
-    () => baseIngredients.unsummed.filter((row) => !removedIngredientIds[row.id]),
-    [baseIngredients.unsummed, removedIngredientIds]
+  // Avbockat med mängd som inte lagts i skafferiet än.
+  const pantryCandidates = useMemo(
+    () => doneItems.filter((item) => !item.inPantry && item.amount !== null),
+    [doneItems]
+  );
+
+  const openGroups = useMemo(
+    () =>
+      groupByCategory(
+        openItems,
+        (item) => categoryByKey.get(resolveIngredientName(item.name, ingredientIndex).key) ?? null,
+        getCategoryOrder(selectedStore)
+      ),
+    [openItems, categoryByKey, ingredientIndex, selectedStore]
   );
 
   const missingRecipeContent = useMemo(
@@ -410,15 +930,27 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
     return rounded.toFixed(2).replace(/\.?0+$/, "");
   };
 
+  const formatItemAmount = (item: ShoppingListItem) => {
+    if (item.amount === null) return "";
+    const unit = item.unit ? ` ${item.unit}` : "";
+    const remaining = getRemainingAmount(item);
+    if (remaining !== null && item.checkedAmount !== null) {
+      return `${formatAmount(remaining)}${unit} kvar (${formatAmount(item.checkedAmount)} köpt)`;
+    }
+    return `${formatAmount(item.amount)}${unit}`;
+  };
+
   const tryMergeIngredients = (sourceId: string, targetId: string) => {
     if (sourceId === targetId) return;
 
-    const sourceRow = displayedIngredients.find((row) => row.id === sourceId);
-    const targetRow = displayedIngredients.find((row) => row.id === targetId);
+    const findRow = (id: string) =>
+      openItems.find((item) => item.generatedKey === id && isMergeableItem(item));
+    const sourceRow = findRow(sourceId);
+    const targetRow = findRow(targetId);
     if (!sourceRow || !targetRow) return;
 
     if (!canMergeIngredientRows(sourceRow, targetRow)) {
-      setMergeError("Kan inte slå ihop rader med olika enheter ännu.");
+      setMergeError("Enheterna går inte att räkna om till varandra för de här raderna.");
       return;
     }
 
@@ -428,12 +960,216 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
     if (!confirmed) return;
 
     setMergeError(null);
-    setManualMergeMap((prev) => ({
+    applyListEdit((prev) => ({
+      ...prev,
+      manualMergeMap: {
+        ...prev.manualMergeMap,
+        [sourceId]: resolveMergeTarget(targetId, prev.manualMergeMap),
+      },
+    }));
+
+    if (getIngredientKey(sourceRow.name) === getIngredientKey(targetRow.name)) return;
+    const learn = window.confirm(
+      `Räkna "${sourceRow.name}" som "${targetRow.name}" även i fortsättningen?`
+    );
+    if (learn) learnIngredientSynonym(targetRow.name, sourceRow.name);
+  };
+
+  // Sparar sammanslagningen i ingredienskatalogen så att namnen summeras ihop i alla veckor.
+  const learnIngredientSynonym = (canonicalName: string, synonym: string) => {
+    if (!catalog) return;
+    const entry = addSynonymToCatalog(catalog, canonicalName, synonym);
+    if (!entry) return;
+    saveIngredientCatalogEntry(entry)
+      .then((saved) => setCatalog((prev) => replaceCatalogEntry(prev ?? [], saved)))
+      .catch((saveError) => {
+        console.error("SAVE INGREDIENT SYNONYM FAILED:", saveError);
+        setMergeError("Kunde inte spara synonymen i ingredienskatalogen.");
+      });
+  };
+
+  // Visar ändringen direkt och sparar den; sammanslagningar på listan, borttagna rader
+  // som removed på raderna så att de inte kommer tillbaka vid nästa avstämning.
+  const commitListEdits = (after: ListEdits) => {
+    if (!shoppingList) return;
+    const mergesChanged =
+      JSON.stringify(manualMergeMap) !== JSON.stringify(after.manualMergeMap);
+    const removedKeys = Object.keys(after.removedIngredientIds).filter(
+      (key) => !removedIngredientIds[key]
+    );
+    const restoredKeys = Object.keys(removedIngredientIds).filter(
+      (key) => !after.removedIngredientIds[key]
+    );
+
+    const listId = shoppingList.id;
+    setShoppingList({ ...shoppingList, merges: after.manualMergeMap });
+    setItems((prev) =>
+      prev.map((item) =>
+        item.generatedKey && item.removed !== !!after.removedIngredientIds[item.generatedKey]
+          ? { ...item, removed: !item.removed }
+          : item
+      )
+    );
+    persistListChange(async () => {
+      if (mergesChanged) {
+        await updateShoppingListEdits(listId, { merges: after.manualMergeMap });
+      }
+      await setShoppingItemsRemoved(listId, removedKeys, true);
+      await setShoppingItemsRemoved(listId, restoredKeys, false);
+    });
+  };
+
+  const applyListEdit = (update: (prev: ListEdits) => ListEdits) => {
+    const before: ListEdits = { manualMergeMap, removedIngredientIds };
+    const after = update(before);
+    commitListEdits(after);
+    setHistory((prev) => pushUndoEntry(prev, { kind: "list", before, after }));
+  };
+
+  const removeItem = (item: ShoppingListItem) => {
+    if (item.source === "manual" || !item.generatedKey) {
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+      persistListChange(() => deleteShoppingItem(item.id));
+      return;
+    }
+    const key = item.generatedKey;
+    applyListEdit((prev) => ({
       ...prev,
-      [sourceId]: resolveMergeTarget(targetId, prev),
+      removedIngredientIds: { ...prev.removedIngredientIds, [key]: true },
     }));
   };
 
+  const toggleItemChecked = (item: ShoppingListItem) => {
+    const checked = !isItemDone(item);
+    setItems((prev) =>
+      prev.map((entry) =>
+        entry.id === item.id
+          ? { ...entry, checked, checkedAmount: checked ? entry.amount : null }
+          : entry
+      )
+    );
+    persistListChange(() => setShoppingItemChecked(item, checked));
+  };
+
+  // Lägger det som handlats i skafferiet. Varje rad läggs dit en gång.
+  const addItemsToPantry = async (targets: ShoppingListItem[]) => {
+    if (!pantry || targets.length === 0) return;
+    let nextPantry = pantry;
+    const addedIds: string[] = [];
+    setListError(null);
+
+    try {
+      for (const item of targets) {
+        const addition = planPantryAddition(
+          nextPantry,
+          { name: item.name, amount: item.checkedAmount ?? item.amount, unit: item.unit },
+          getIngredientNameKey
+        );
+        if (addition) {
+          const saved = await savePantryItem(addition);
+          nextPantry = [...nextPantry.filter((entry) => entry.id !== saved.id), saved];
+        }
+        addedIds.push(item.id);
+      }
+    } catch (saveError) {
+      console.error("ADD TO PANTRY FAILED:", saveError);
+      setListError("Kunde inte lägga allt i skafferiet.");
+    }
+
+    setPantry(nextPantry);
+    if (addedIds.length === 0) return;
+    setItems((prev) =>
+      prev.map((entry) => (addedIds.includes(entry.id) ? { ...entry, inPantry: true } : entry))
+    );
+    persistListChange(() => setShoppingItemsInPantry(addedIds));
+  };
+
+  // Flyttar inom avdelningen (siblings = avdelningens öppna rader i visad ordning).
+  const moveItem = (
+    item: ShoppingListItem,
+    direction: -1 | 1,
+    siblings: ShoppingListItem[]
+  ) => {
+    const index = siblings.findIndex((entry) => entry.id === item.id);
+    const swapIndex = index + direction;
+    if (index < 0 || swapIndex < 0 || swapIndex >= siblings.length) return;
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[swapIndex]] = [reordered[swapIndex], reordered[index]];
+    // Numrera om raderna från den lägsta platsen, så att lika sort_order
+    // (t.ex. rader som lagts till samtidigt från två enheter) också går att flytta.
+    const start = Math.min(...siblings.map((entry) => entry.sortOrder));
+    const updates = reordered
+      .map((entry, position) => ({ id: entry.id, sortOrder: start + position }))
+      .filter(({ id, sortOrder }) => items.find((entry) => entry.id === id)?.sortOrder !== sortOrder);
+    const orderById = new Map(updates.map(({ id, sortOrder }) => [id, sortOrder]));
+
+    setItems((prev) =>
+      prev.map((entry) =>
+        orderById.has(entry.id) ? { ...entry, sortOrder: orderById.get(entry.id)! } : entry
+      )
+    );
+    persistListChange(() => updateShoppingItemOrder(updates));
+  };
+
+  // Sparas i ingredienskatalogen, så att varan hamnar rätt även nästa vecka.
+  const assignCategory = (item: ShoppingListItem, category: string) => {
+    if (!catalog || !category) return;
+    const name = resolveIngredientName(item.name, ingredientIndex).name;
+    saveIngredientCatalogEntry(setCatalogCategory(catalog, name, category))
+      .then((saved) => setCatalog((prev) => replaceCatalogEntry(prev ?? [], saved)))
+      .catch((saveError) => {
+        console.error("SAVE INGREDIENT CATEGORY FAILED:", saveError);
+        setListError("Kunde inte spara avdelningen.");
+      });
+  };
+
+  const handleAddItem = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newItemName.trim();
+    if (!name || !shoppingList) return;
+
+    const listId = shoppingList.id;
+    const sortOrder = items.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+    setNewItemName("");
+    try {
+      const created = await addManualShoppingItem(listId, name, sortOrder);
+      if (activeListIdRef.current !== listId) return;
+      setItems((prev) =>
+        prev.some((item) => item.id === created.id) ? prev : [...prev, created]
+      );
+    } catch (addError) {
+      console.error("ADD SHOPPING ITEM FAILED:", addError);
+      setNewItemName(name);
+      setListError("Kunde inte lägga till varan.");
+    }
+  };
+
+  const stepHistory = (direction: "undo" | "redo") => {
+    const step = direction === "undo" ? stepUndo(history) : stepRedo(history);
+    if (!step) return;
+    setHistory(step.history);
+
+    if (step.entry.kind === "plans") {
+      if (direction === "undo") onUndoPlans();
+      else onRedoPlans();
+      return;
+    }
+    commitListEdits(direction === "undo" ? step.entry.before : step.entry.after);
+    setMergeError(null);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getUndoShortcut(event);
+      if (!shortcut) return;
+      event.preventDefault();
+      stepHistory(shortcut);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [history, onUndoPlans, onRedoPlans, shoppingList, items]);
+
   const clearDragState = () => {
     setDraggingIngredientId(null);
     setDropTargetId(null);
@@ -470,7 +1206,7 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
       window.removeEventListener("touchend", handleWindowTouchEnd);
       window.removeEventListener("touchcancel", clearDragState);
     };
-  }, [draggingIngredientId, dropTargetId, displayedIngredients]);
+  }, [draggingIngredientId, dropTargetId, openItems]);
 
   return (
     <div className="space-y-6 animate-fadeIn pb-24">
@@ -512,21 +1248,16 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
           <p className="text-xs text-gray-500">Inga valda rätter för veckan.</p>
         )}
         {loadedEntries.map((entry) => {
-          const mealKey = getMealKey(entry.dayId, entry.slot);
-          const isActive = !excludedMealKeys[mealKey];
+          const mealKey = getDishKey(entry.dayId, entry.slot, entry.dishIndex);
+          const isActive = !excludedMealKeys.has(mealKey);
+          const entryServings = getEntryServings(entry);
+          const leftoverServings =
+            leftoverServingsByMeal[getMealKey(entry.dayId, entry.slot)] ?? 0;
 
           return (
             <div
-              key={`${entry.dayId}-${entry.slot}-${entry.recipe.id}`}
-              onClick={() =>
-                setExcludedMealKeys((prev) => {
-                  if (prev[mealKey]) {
-                    const { [mealKey]: _, ...rest } = prev;
-                    return rest;
-                  }
-                  return { ...prev, [mealKey]: true };
-                })
-              }
+              key={`${mealKey}-${entry.recipe.id}`}
+              onClick={() => toggleExcludedDish(mealKey)}
               className={`rounded-2xl border p-4 space-y-3 cursor-pointer transition-colors ${
                 isActive
                   ? "bg-emerald-50/40 border-emerald-300 ring-1 ring-emerald-200"
@@ -540,7 +1271,7 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
                     isActive ? "text-gray-500" : "text-gray-400"
                   }`}
                 >
-                  Dag {entry.dayId + 1} - {entry.slot === "lunch" ? "Lunch" : "Kvällsmat"}
+                  Dag {entry.dayId + 1} - {getSlotLabel(entry.slot)}
                 </p>
                 <h3
                   className={`text-sm font-bold truncate ${
@@ -563,6 +1294,10 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
             <div className="flex items-center justify-between gap-3">
               <span className={`text-xs ${isActive ? "text-gray-500" : "text-gray-400"}`}>
                 Grund: {entry.recipe.baseServings} portioner
+                {guestNotesByMeal[getMealKey(entry.dayId, entry.slot)]
+                  ? ` · ${guestNotesByMeal[getMealKey(entry.dayId, entry.slot)]}`
+                  : ""}
+                {leftoverServings > 0 ? ` · +${leftoverServings} port. rester` : ""}
               </span>
               <div className="flex items-center gap-2">
                 {isActive && (
@@ -571,33 +1306,20 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
                       type="button"
                       onClick={(event) => {
                         event.stopPropagation();
-                        setServingsByMeal((prev) => ({
-                          ...prev,
-                          [`${entry.dayId}-${entry.slot}`]: Math.max(
-                            1,
-                            (prev[`${entry.dayId}-${entry.slot}`] ||
-                              entry.recipe.baseServings) - 1
-                          ),
-                        }));
+                        updateServings(entry.dayId, entry.slot, entryServings - 1);
                       }}
                       className="h-8 w-8 rounded-lg bg-white border border-gray-200 font-bold text-gray-700"
                     >
                       -
                     </button>
                     <span className="min-w-12 text-center text-xs font-semibold text-gray-900">
-                      {servingsByMeal[`${entry.dayId}-${entry.slot}`] ||
-                        entry.recipe.baseServings}
+                      {entryServings}
                     </span>
                     <button
                       type="button"
                       onClick={(event) => {
                         event.stopPropagation();
-                        setServingsByMeal((prev) => ({
-                          ...prev,
-                          [`${entry.dayId}-${entry.slot}`]:
-                            (prev[`${entry.dayId}-${entry.slot}`] ||
-                              entry.recipe.baseServings) + 1,
-                        }));
+                        updateServings(entry.dayId, entry.slot, entryServings + 1);
                       }}
                       className="h-8 w-8 rounded-lg bg-white border border-gray-200 font-bold text-gray-700"
                     >
@@ -613,120 +1335,270 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
       </section>
 
       <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
-        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
-          Summerade ingredienser
-        </h2>
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+            Inköpslista
+          </h2>
+          <div className="flex gap-1.5">
+            <button
+              type="button"
+              onClick={() => stepHistory("undo")}
+              disabled={history.past.length === 0}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+              title="Ångra (Ctrl+Z)"
+            >
+              ↶ Ångra
+            </button>
+            <button
+              type="button"
+              onClick={() => stepHistory("redo")}
+              disabled={history.future.length === 0}
+              className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+              title="Gör om (Ctrl+Shift+Z)"
+            >
+              ↷ Gör om
+            </button>
+          </div>
+        </div>
         <p className="text-xs text-gray-500">
-          Dra en ingrediensrad ovanpå en annan för att slå ihop dem lokalt i listan.
+          Listan sparas och delas mellan enheterna – bocka av det du handlat. Dra en rad ovanpå
+          en annan för att slå ihop dem.
         </p>
+        {pantryWeek && pantryWeek !== selectedWeek && pantry && pantry.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Skafferiet räknas av mot vecka {parseIsoWeek(pantryWeek)?.week} – den här veckans lista
+            visar allt som behövs.
+          </p>
+        )}
+        {stores.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            Butik
+            <select
+              value={selectedStore?.id ?? ""}
+              onChange={(e) => selectStore(e.target.value || null)}
+              className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs"
+            >
+              <option value="">Standardordning</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {listError && <p className="text-xs text-red-600">{listError}</p>}
         {mergeError && <p className="text-xs text-amber-700">{mergeError}</p>}
-        {displayedIngredients.length === 0 && displayedUnsummedIngredients.length === 0 ? (
+        {!shoppingList && !listError && (
+          <p className="text-xs text-gray-500">Laddar inköpslistan...</p>
+        )}
+        {shoppingList && openItems.length === 0 && doneItems.length === 0 && (
           <p className="text-xs text-gray-500">Inga ingredienser kunde räknas fram.</p>
-        ) : (
-          <>
-            {displayedIngredients.length > 0 && (
-              <div className="space-y-2">
-                {displayedIngredients.map((ingredient) => (
-                  <div
-                    key={ingredient.id}
-                    data-ingredient-id={ingredient.id}
-                    onDragOver={(event) => {
-                      if (!draggingIngredientId || draggingIngredientId === ingredient.id) {
-                        return;
-                      }
-                      event.preventDefault();
-                      setDropTargetId(ingredient.id);
-                    }}
-                    onDrop={(event) => {
-                      event.preventDefault();
-                      if (draggingIngredientId) {
-                        tryMergeIngredients(draggingIngredientId, ingredient.id);
-                      }
-                      clearDragState();
-                    }}
-                    onDragEnd={clearDragState}
-                    className={`flex items-center justify-between gap-3 rounded-xl border px-3 py-3 transition-colors ${
-                      dropTargetId === ingredient.id
-                        ? "border-emerald-400 bg-emerald-50"
-                        : draggingIngredientId === ingredient.id
-                        ? "border-emerald-200 bg-gray-50"
-                        : "border-gray-100"
-                    }`}
-                    style={{ WebkitUserSelect: "none", WebkitTouchCallout: "none" }}
-                  >
-                    <div className="flex items-center gap-3 min-w-0">
+        )}
+        {openItems.length > 0 && (
+          <div className="space-y-4">
+            {openGroups.map((group) => (
+              <div key={group.categoryId ?? "uncategorized"} className="space-y-2">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                  {group.label}
+                </p>
+            {group.items.map((item, index) => {
+              const rowId = item.generatedKey ?? item.id;
+              const canMerge = isMergeableItem(item);
+
+              return (
+                <div
+                  key={item.id}
+                  data-ingredient-id={canMerge ? rowId : undefined}
+                  onDragOver={(event) => {
+                    if (!canMerge || !draggingIngredientId || draggingIngredientId === rowId) {
+                      return;
+                    }
+                    event.preventDefault();
+                    setDropTargetId(rowId);
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    if (canMerge && draggingIngredientId) {
+                      tryMergeIngredients(draggingIngredientId, rowId);
+                    }
+                    clearDragState();
+                  }}
+                  onDragEnd={clearDragState}
+                  className={`flex items-center justify-between gap-3 rounded-xl border px-3 py-3 transition-colors ${
+                    dropTargetId === rowId
+                      ? "border-emerald-400 bg-emerald-50"
+                      : draggingIngredientId === rowId
+                      ? "border-emerald-200 bg-gray-50"
+                      : "border-gray-100"
+                  }`}
+                  style={{ WebkitUserSelect: "none", WebkitTouchCallout: "none" }}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={false}
+                      onChange={() => toggleItemChecked(item)}
+                      className="h-5 w-5 shrink-0 accent-emerald-600"
+                      aria-label={`Bocka av ${item.name}`}
+                    />
+                    {canMerge && (
                       <button
                         type="button"
                         draggable
                         onDragStart={() => {
                           setMergeError(null);
-                          setDraggingIngredientId(ingredient.id);
+                          setDraggingIngredientId(rowId);
                           setDropTargetId(null);
                         }}
                         onTouchStart={(event) => {
                           event.preventDefault();
                           setMergeError(null);
-                          setDraggingIngredientId(ingredient.id);
+                          setDraggingIngredientId(rowId);
                           setDropTargetId(null);
                         }}
                         className="shrink-0 h-9 w-9 rounded-lg border border-gray-200 bg-white text-gray-500 font-bold"
-                        aria-label={`Dra ${ingredient.name} för att slå ihop`}
+                        aria-label={`Dra ${item.name} för att slå ihop`}
                         title="Dra för att slå ihop"
                       >
                         ≡
                       </button>
-                      <span className="text-sm text-gray-900 font-medium truncate">{ingredient.name}</span>
-                    </div>
-                    <div className="flex items-center gap-2 shrink-0">
-                      <span className="text-xs text-gray-500 whitespace-nowrap">
-                        {formatAmount(ingredient.amount)} {ingredient.unit ?? ""}
-                      </span>
+                    )}
+                    <span className="text-sm text-gray-900 font-medium truncate">{item.name}</span>
+                    {group.categoryId === null && (
+                      <select
+                        value=""
+                        onChange={(e) => assignCategory(item, e.target.value)}
+                        className="shrink-0 rounded-lg border border-dashed border-gray-300 bg-white px-1.5 py-1 text-[11px] text-gray-500"
+                        aria-label={`Välj avdelning för ${item.name}`}
+                      >
+                        <option value="" disabled>
+                          Avdelning…
+                        </option>
+                        {INGREDIENT_CATEGORIES.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {formatItemAmount(item)}
+                    </span>
+                    <div className="flex flex-col">
                       <button
                         type="button"
-                        onClick={() =>
-                          setRemovedIngredientIds((prev) => ({
-                            ...prev,
-                            [ingredient.id]: true,
-                          }))
-                        }
-                        className="h-9 w-9 rounded-lg border border-gray-200 bg-white text-gray-500 font-bold"
-                        aria-label={`Ta bort ${ingredient.name} från inköpslistan`}
-                        title="Ta bort från listan"
+                        onClick={() => moveItem(item, -1, group.items)}
+                        disabled={index === 0}
+                        className="px-1 text-[10px] leading-4 text-gray-500 disabled:opacity-30"
+                        aria-label={`Flytta upp ${item.name}`}
+                        title="Flytta upp"
                       >
-                        ×
+                        ▲
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveItem(item, 1, group.items)}
+                        disabled={index === group.items.length - 1}
+                        className="px-1 text-[10px] leading-4 text-gray-500 disabled:opacity-30"
+                        aria-label={`Flytta ner ${item.name}`}
+                        title="Flytta ner"
+                      >
+                        ▼
                       </button>
                     </div>
-                  </div>
-                ))}
-              </div>
-            )}
-            {displayedUnsummedIngredients.length > 0 && (
-              <div className="space-y-2">
-                {displayedUnsummedIngredients.map((ingredient) => (
-                  <div
-                    key={ingredient.id}
-                    className="flex items-center justify-between gap-3 rounded-xl border border-gray-100 px-3 py-3"
-                  >
-                    <span className="text-sm text-gray-900 font-medium">{ingredient.label}</span>
                     <button
                       type="button"
-                      onClick={() =>
-                        setRemovedIngredientIds((prev) => ({
-                          ...prev,
-                          [ingredient.id]: true,
-                        }))
-                      }
-                      className="h-9 w-9 rounded-lg border border-gray-200 bg-white text-gray-500 font-bold shrink-0"
-                      aria-label={`Ta bort ${ingredient.label} från inköpslistan`}
+                      onClick={() => removeItem(item)}
+                      className="h-9 w-9 rounded-lg border border-gray-200 bg-white text-gray-500 font-bold"
+                      aria-label={`Ta bort ${item.name} från inköpslistan`}
                       title="Ta bort från listan"
                     >
                       ×
                     </button>
                   </div>
-                ))}
+                </div>
+              );
+            })}
+              </div>
+            ))}
+          </div>
+        )}
+        {shoppingList && (
+          <form onSubmit={handleAddItem} className="flex gap-2">
+            <input
+              value={newItemName}
+              onChange={(e) => setNewItemName(e.target.value)}
+              placeholder="Lägg till vara, t.ex. diskmedel"
+              className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+            />
+            <button
+              type="submit"
+              disabled={!newItemName.trim()}
+              className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+            >
+              Lägg till
+            </button>
+          </form>
+        )}
+        {doneItems.length > 0 && (
+          <div className="space-y-2 pt-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                Avbockat ({doneItems.length})
+              </p>
+              {pantryCandidates.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => void addItemsToPantry(pantryCandidates)}
+                  disabled={pantry === null}
+                  className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                >
+                  Allt till skafferiet ({pantryCandidates.length})
+                </button>
+              )}
+            </div>
+            {doneItems.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-3 rounded-xl border border-gray-100 bg-gray-50 px-3 py-2"
+              >
+                <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked
+                    onChange={() => toggleItemChecked(item)}
+                    className="h-5 w-5 shrink-0 accent-emerald-600"
+                  />
+                  <span className="text-sm text-gray-400 line-through truncate">{item.name}</span>
+                </label>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {formatItemAmount(item)}
+                  </span>
+                  {item.inPantry ? (
+                    <span className="text-[11px] text-emerald-700 whitespace-nowrap">
+                      I skafferiet
+                    </span>
+                  ) : (
+                    item.amount !== null && (
+                      <button
+                        type="button"
+                        onClick={() => void addItemsToPantry([item])}
+                        disabled={pantry === null}
+                        className="rounded-lg bg-gray-100 px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-200 disabled:opacity-40 whitespace-nowrap"
+                        title="Lägg det du handlat i skafferiet"
+                      >
+                        Till skafferiet
+                      </button>
+                    )
+                  )}
+                </span>
               </div>
-            )}
-          </>
+            ))}
+          </div>
         )}
       </section>
 
@@ -760,7 +1632,10 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ recipes, plans }) => {
         ) : (
           <div className="space-y-2">
             {freeTextDays.map((day) => (
-              <p key={`${day.dayId}-${day.slot}`} className="text-xs text-gray-700">
+              <p
+                key={`${day.dayId}-${day.slot}-${day.dishIndex}`}
+                className="text-xs text-gray-700"
+              >
                 {day.text}
               </p>
             ))}
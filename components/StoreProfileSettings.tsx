@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import { StoreProfile } from "../types";
+import { getCategoryLabel, getCategoryOrder } from "../services/storeLayout";
+import {
+  deleteStoreProfile,
+  fetchStoreProfiles,
+  saveStoreProfile,
+} from "../services/storeProfileService";
+
+// Butiker med avdelningarnas ordning. Inköpslistan grupperas efter vald butik.
+const StoreProfileSettings: React.FC = () => {
+  const [stores, setStores] = useState<StoreProfile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftOrder, setDraftOrder] = useState<string[]>([]);
+  const [newName, setNewName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStoreProfiles()
+      .then((loaded) => {
+        if (!cancelled) setStores(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD STORE PROFILES FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa butikerna.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startEditing = (store: StoreProfile) => {
+    setEditingId(store.id);
+    setDraftName(store.name);
+    setDraftOrder(getCategoryOrder(store));
+  };
+
+  const runAction = async (action: () => Promise<void>, failMessage: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error("STORE PROFILE ACTION FAILED:", actionError);
+      setError(failMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    void runAction(async () => {
+      const created = await saveStoreProfile({ name, categoryOrder: getCategoryOrder(null) });
+      setStores((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name, "sv")));
+      setNewName("");
+      startEditing(created);
+    }, "Kunde inte skapa butiken (finns namnet redan?).");
+  };
+
+  const handleSave = () => {
+    if (!editingId || !draftName.trim()) return;
+    void runAction(async () => {
+      const saved = await saveStoreProfile({
+        id: editingId,
+        name: draftName,
+        categoryOrder: draftOrder,
+      });
+      setStores((prev) => prev.map((store) => (store.id === saved.id ? saved : store)));
+      setEditingId(null);
+    }, "Kunde inte spara butiken.");
+  };
+
+  const handleDelete = (store: StoreProfile) => {
+    if (!window.confirm(`Ta bort ${store.name}?`)) return;
+    void runAction(async () => {
+      await deleteStoreProfile(store.id);
+      setStores((prev) => prev.filter((entry) => entry.id !== store.id));
+      if (editingId === store.id) setEditingId(null);
+    }, "Kunde inte ta bort butiken.");
+  };
+
+  const moveCategory = (index: number, direction: -1 | 1) => {
+    setDraftOrder((prev) => {
+      const nextIndex = index + direction;
+      if (nextIndex < 0 || nextIndex >= prev.length) return prev;
+      const copy = [...prev];
+      [copy[index], copy[nextIndex]] = [copy[nextIndex], copy[index]];
+      return copy;
+    });
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+      <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest">Butiker</h2>
+      <p className="text-xs text-gray-500">
+        Ordna avdelningarna i den ordning du går igenom butiken. Inköpslistan grupperas efter
+        butiken du väljer där.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Laddar...</p>
+      ) : (
+        <div className="space-y-2">
+          {stores.map((store) =>
+            editingId === store.id ? (
+              <div key={store.id} className="rounded-xl border border-emerald-200 p-3 space-y-2">
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  className="w-full rounded-lg border border-gray-200 px-3 py-2 text-xs"
+                />
+                <ol className="space-y-1">
+                  {draftOrder.map((categoryId, index) => (
+                    <li
+                      key={categoryId}
+                      className="flex items-center justify-between gap-2 rounded-lg bg-gray-50 px-3 py-1.5 text-xs text-gray-700"
+                    >
+                      <span>
+                        {index + 1}. {getCategoryLabel(categoryId)}
+                      </span>
+                      <span className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveCategory(index, -1)}
+                          disabled={index === 0}
+                          className="px-1 text-gray-500 disabled:opacity-30"
+                          aria-label={`Flytta upp ${getCategoryLabel(categoryId)}`}
+                        >
+                          ▲
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveCategory(index, 1)}
+                          disabled={index === draftOrder.length - 1}
+                          className="px-1 text-gray-500 disabled:opacity-30"
+                          aria-label={`Flytta ner ${getCategoryLabel(categoryId)}`}
+                        >
+                          ▼
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isBusy || !draftName.trim()}
+                    className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                  >
+                    Spara
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                  >
+                    Avbryt
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={store.id}
+                className="flex items-center justify-between gap-2 rounded-xl border border-gray-100 px-3 py-2"
+              >
+                <span className="text-xs font-semibold text-gray-900">{store.name}</span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => startEditing(store)}
+                    className="rounded-lg bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-200"
+                  >
+                    Ändra
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(store)}
+                    disabled={isBusy}
+                    className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1 text-xs font-semibold disabled:opacity-40"
+                  >
+                    Ta bort
+                  </button>
+                </span>
+              </div>
+            )
+          )}
+          {stores.length === 0 && <p className="text-xs text-gray-500">Inga butiker än.</p>}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Ny butik, t.ex. ICA Kvantum"
+          className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-xs"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !newName.trim()}
+          className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+        >
+          Lägg till
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default StoreProfileSettings;
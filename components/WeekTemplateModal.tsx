@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { MealSlotConfig, Recipe, SWEDISH_DAYS, WeekPlan, WeekTemplate } from "../types";
+import { hasSlotContent } from "../services/mealSlotService";
+import {
+  TEMPLATE_WEEK_IDENTIFIER,
+  buildWeekFromSource,
+  diffWeekPlans,
+} from "../services/weekPlanService";
+import {
+  deleteWeekTemplate,
+  fetchWeekTemplates,
+  saveWeekTemplate,
+} from "../services/weekTemplateService";
+
+type WeekTemplateModalProps = {
+  selectedWeek: string;
+  currentPlan: WeekPlan;
+  plans: WeekPlan[];
+  recipes: Recipe[];
+  mealSlots: MealSlotConfig[];
+  // Tidigare veckor, närmast först (index 0 = förra veckan)
+  pastWeeks: string[];
+  onApply: (plan: WeekPlan) => void;
+  onClose: () => void;
+};
+
+type PreviewTarget = {
+  title: string;
+  plan: WeekPlan;
+};
+
+const WeekTemplateModal: React.FC<WeekTemplateModalProps> = ({
+  selectedWeek,
+  currentPlan,
+  plans,
+  recipes,
+  mealSlots,
+  pastWeeks,
+  onApply,
+  onClose,
+}) => {
+  const [templates, setTemplates] = useState<WeekTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [preview, setPreview] = useState<PreviewTarget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWeekTemplates()
+      .then((loaded) => {
+        if (!cancelled) setTemplates(loaded);
+      })
+      .catch((loadError) => {
+        console.error("LOAD WEEK TEMPLATES FAILED:", loadError);
+        if (!cancelled) setError("Kunde inte läsa mallar.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Bara veckor som faktiskt har något planerat är värda att upprepa.
+  const pastWeekOptions = useMemo(
+    () =>
+      pastWeeks
+        .map((weekIdentifier, index) => ({
+          weekIdentifier,
+          weeksAgo: index + 1,
+          plan: plans.find((p) => p.weekIdentifier === weekIdentifier),
+        }))
+        .filter(({ plan }) =>
+          plan?.days.some((day) => Object.values(day.meals).some(hasSlotContent))
+        ),
+    [pastWeeks, plans]
+  );
+
+  const changes = useMemo(() => {
+    if (!preview) return [];
+    return diffWeekPlans(
+      currentPlan,
+      preview.plan,
+      mealSlots.map((slot) => slot.id),
+      plans,
+      recipes
+    );
+  }, [preview, currentPlan, mealSlots, plans, recipes]);
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) {
+      setError("Ge mallen ett namn.");
+      return;
+    }
+    if (templates.some((template) => template.name === name)) {
+      const confirmed = window.confirm(`Det finns redan en mall som heter "${name}". Skriv över?`);
+      if (!confirmed) return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveWeekTemplate(
+        name,
+        selectedWeek,
+        currentPlan.days,
+        currentPlan.activeDayIndices ?? {}
+      );
+      setTemplates((prev) =>
+        [...prev.filter((template) => template.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name, "sv")
+        )
+      );
+      setTemplateName("");
+    } catch (saveError) {
+      console.error("SAVE WEEK TEMPLATE FAILED:", saveError);
+      setError("Kunde inte spara mallen.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: WeekTemplate) => {
+    const confirmed = window.confirm(`Ta bort mallen "${template.name}"?`);
+    if (!confirmed) return;
+
+    setError(null);
+    try {
+      await deleteWeekTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } catch (deleteError) {
+      console.error("DELETE WEEK TEMPLATE FAILED:", deleteError);
+      setError("Kunde inte ta bort mallen.");
+    }
+  };
+
+  const getSlotLabel = (slotId: string) =>
+    mealSlots.find((slot) => slot.id === slotId)?.label ?? slotId;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white w-full max-w-md rounded-3xl shadow-2xl overflow-hidden">
+        <div className="p-5 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-base font-bold">
+            {preview ? preview.title : `Mallar och kopiering (${selectedWeek})`}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {preview ? (
+            <div className="space-y-3">
+              {changes.length === 0 ? (
+                <p className="text-sm text-gray-500">Inga ändringar – veckan ser redan ut så.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    {changes.length} måltider ändras i {selectedWeek}:
+                  </p>
+                  <div className="space-y-1.5">
+                    {changes.map((change) => (
+                      <div
+                        key={`${change.dayId}-${change.slot}`}
+                        className="rounded-xl border border-gray-100 bg-gray-50 p-2.5 text-xs"
+                      >
+                        <p className="font-semibold text-gray-800">
+                          {SWEDISH_DAYS[change.dayId]} · {getSlotLabel(change.slot)}
+                          {change.activeBefore !== change.activeAfter && (
+                            <span className="ml-1 font-normal text-gray-500">
+                              ({change.activeAfter ? "tänds" : "släcks"})
+                            </span>
+                          )}
+                        </p>
+                        {change.before !== change.after && (
+                          <p className="mt-0.5">
+                            <span className="text-red-600 line-through">
+                              {change.before ?? "tomt"}
+                            </span>{" "}
+                            →{" "}
+                            <span className="text-emerald-700">{change.after ?? "tomt"}</span>
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPreview(null)}
+                  className="flex-1 rounded-xl bg-white border border-gray-200 text-gray-700 py-3 text-sm font-semibold"
+                >
+                  Tillbaka
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onApply(preview.plan);
+                    onClose();
+                  }}
+                  disabled={changes.length === 0}
+                  className="flex-1 rounded-xl bg-emerald-600 text-white py-3 text-sm font-semibold disabled:opacity-60"
+                >
+                  Verkställ
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+                  Spara veckan som mall
+                </h4>
+                <div className="flex gap-2">
+                  <input
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder="T.ex. Vardagsvecka"
+                    className="min-w-0 flex-1 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSaveTemplate}
+                    disabled={isSaving}
+                    className="rounded-lg bg-emerald-50 px-3 py-1.5 text-xs font-semibold text-emerald-700 disabled:opacity-60"
+                  >
+                    {isSaving ? "Sparar..." : "Spara"}
+                  </button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+                  Använd mall
+                </h4>
+                {isLoading ? (
+                  <p className="text-xs text-gray-500">Laddar mallar...</p>
+                ) : templates.length === 0 ? (
+                  <p className="text-xs text-gray-500">Inga sparade mallar ännu.</p>
+                ) : (
+                  templates.map((template) => (
+                    <div
+                      key={template.id}
+                      className="flex items-center gap-2 rounded-xl border border-gray-100 bg-gray-50 p-2.5"
+                    >
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPreview({
+                            title: `Mall: ${template.name}`,
+                            plan: buildWeekFromSource(
+                              template,
+                              TEMPLATE_WEEK_IDENTIFIER,
+                              selectedWeek
+                            ),
+                          })
+                        }
+                        className="min-w-0 flex-1 text-left text-sm font-semibold text-gray-900 truncate"
+                      >
+                        {template.name}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="rounded-lg bg-red-50 border border-red-100 text-red-600 px-3 py-1.5 text-xs font-semibold"
+                      >
+                        Ta bort
+                      </button>
+                    </div>
+                  ))
+                )}
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest">
+                  Upprepa tidigare vecka
+                </h4>
+                {pastWeekOptions.length === 0 ? (
+                  <p className="text-xs text-gray-500">Inga planerade veckor att kopiera.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {pastWeekOptions.map(({ weekIdentifier, weeksAgo, plan }) => (
+                      <button
+                        key={weekIdentifier}
+                        type="button"
+                        onClick={() =>
+                          plan &&
+                          setPreview({
+                            title: `Kopiera ${weekIdentifier}`,
+                            plan: buildWeekFromSource(plan, weekIdentifier, selectedWeek),
+                          })
+                        }
+                        className="rounded-xl bg-white border border-gray-200 px-3 py-2 text-left"
+                      >
+                        <span className="block text-xs font-semibold text-gray-900">
+                          {weeksAgo === 1 ? "Förra veckan" : `${weeksAgo} veckor sedan`}
+                        </span>
+                        <span className="block text-[10px] text-gray-500">{weekIdentifier}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WeekTemplateModal;
@@ -15,3 +15,11 @@ export async function getSession() {
   const { data } = await supabase.auth.getSession();
   return data.session;
 }
+
+// Inloggad användares id till user_id-kolumnerna. Kastar om ingen är inloggad.
+export async function getCurrentUserId(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+  if (!data.user) throw new Error("Ingen inloggad användare");
+  return data.user.id;
+}
@@ -0,0 +1,152 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { CalDavSyncTarget } from "../types";
+
+type DbCalDavSyncTarget = {
+  calendar_url: string;
+  username: string;
+  enabled: boolean;
+  look_ahead_weeks: number;
+  timezone: string;
+  last_synced_at: string | null;
+  last_error: string | null;
+};
+
+export type CalDavSyncResult = {
+  ok: boolean;
+  skipped?: boolean;
+  created?: number;
+  updated?: number;
+  deleted?: number;
+  error?: string;
+  failed?: Array<{ uid: string; error: string }>;
+};
+
+// password saknas med flit – kolumnen går inte att läsa för inloggade (caldav_sync.sql).
+const CALDAV_SYNC_TARGET_COLUMNS =
+  "calendar_url,username,enabled,look_ahead_weeks,timezone,last_synced_at,last_error";
+const DEFAULT_TIMEZONE = "Europe/Stockholm";
+// Flera ändringar i rad (dra och släpp, slumpa veckan) blir en synk.
+const SYNC_DEBOUNCE_MS = 3000;
+
+function toCalDavSyncTarget(row: DbCalDavSyncTarget): CalDavSyncTarget {
+  return {
+    calendarUrl: row.calendar_url,
+    username: row.username,
+    enabled: row.enabled,
+    lookAheadWeeks: row.look_ahead_weeks,
+    timezone: row.timezone,
+    lastSyncedAt: row.last_synced_at,
+    lastError: row.last_error,
+  };
+}
+
+function getDeviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// Om synken är påslagen för användaren, så att vanliga sparningar inte anropar
+// funktionen i onödan. null = inte kontrollerat än.
+let syncState: { userId: string; enabled: boolean } | null = null;
+
+export async function fetchCalDavSyncTarget(): Promise<CalDavSyncTarget | null> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("caldav_sync_targets")
+    .select(CALDAV_SYNC_TARGET_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const target = data ? toCalDavSyncTarget(data as DbCalDavSyncTarget) : null;
+  syncState = { userId, enabled: target?.enabled ?? false };
+  return target;
+}
+
+// Tomt lösenord behåller det sparade. En ny koppling kräver lösenord.
+export async function saveCalDavSyncTarget(input: {
+  calendarUrl: string;
+  username: string;
+  password: string;
+  enabled: boolean;
+  lookAheadWeeks: number;
+}): Promise<CalDavSyncTarget> {
+  const userId = await getCurrentUserId();
+  const patch: Record<string, unknown> = {
+    calendar_url: input.calendarUrl.trim(),
+    username: input.username.trim(),
+    enabled: input.enabled,
+    look_ahead_weeks: input.lookAheadWeeks,
+    timezone: getDeviceTimezone(),
+  };
+  if (input.password) patch.password = input.password;
+
+  const { data: updated, error: updateError } = await supabase
+    .from("caldav_sync_targets")
+    .update(patch)
+    .eq("user_id", userId)
+    .select(CALDAV_SYNC_TARGET_COLUMNS)
+    .maybeSingle();
+  if (updateError) throw updateError;
+
+  let row = updated as DbCalDavSyncTarget | null;
+  if (!row) {
+    if (!input.password) throw new Error("Lösenord krävs");
+    const { data: inserted, error: insertError } = await supabase
+      .from("caldav_sync_targets")
+      .insert({ ...patch, user_id: userId })
+      .select(CALDAV_SYNC_TARGET_COLUMNS)
+      .single();
+    if (insertError) throw insertError;
+    row = inserted as DbCalDavSyncTarget;
+  }
+
+  const target = toCalDavSyncTarget(row);
+  syncState = { userId, enabled: target.enabled };
+  return target;
+}
+
+// Kopplingen tas bort; redan skrivna händelser ligger kvar i kalendern.
+export async function removeCalDavSyncTarget(): Promise<void> {
+  const userId = await getCurrentUserId();
+  const { error } = await supabase.from("caldav_sync_targets").delete().eq("user_id", userId);
+  if (error) throw error;
+  syncState = { userId, enabled: false };
+}
+
+export async function runCalDavSync(): Promise<CalDavSyncResult> {
+  const { data, error } = await supabase.functions.invoke("caldav-meal-sync", {
+    method: "POST",
+  });
+  if (error) throw error;
+  const payload = typeof data === "string" ? JSON.parse(data) : data;
+  return payload as CalDavSyncResult;
+}
+
+let scheduledTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Anropas när week_plans sparats. Fel loggas bara – planen är redan sparad och nästa
+// ändring (eller "Synka nu") försöker igen.
+export function scheduleCalDavSync(): void {
+  if (scheduledTimer) clearTimeout(scheduledTimer);
+  scheduledTimer = setTimeout(() => {
+    scheduledTimer = null;
+    void (async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        const userId = data.session?.user.id;
+        if (!userId) return;
+        if (syncState?.userId !== userId) await fetchCalDavSyncTarget();
+        if (!syncState?.enabled) return;
+        const result = await runCalDavSync();
+        if (!result.ok) console.error("CALDAV SYNC FAILED:", result);
+      } catch (error) {
+        console.error("CALDAV SYNC FAILED:", error);
+      }
+    })();
+  }, SYNC_DEBOUNCE_MS);
+}
@@ -0,0 +1,126 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { UserCalendar } from "../types";
+import { normalizeKeywords } from "../supabase/functions/_shared/busyBlocks";
+
+type DbUserCalendar = {
+  id: string;
+  calendar_ics_url: string;
+  label: string | null;
+  is_active: boolean;
+  ignore_busy: boolean | null;
+  count_all_day: boolean | null;
+  include_keywords: string[] | null;
+  exclude_keywords: string[] | null;
+  member_name: string | null;
+  last_fetched_at: string | null;
+  last_event_count: number | null;
+  last_error: string | null;
+};
+
+const USER_CALENDAR_COLUMNS =
+  "id,calendar_ics_url,label,is_active,ignore_busy,count_all_day,include_keywords,exclude_keywords,member_name,last_fetched_at,last_event_count,last_error";
+
+// Delas med proxyn, som tillämpar reglerna när den räknar fram upptagna tider.
+export { normalizeKeywords };
+
+function toUserCalendar(row: DbUserCalendar): UserCalendar {
+  return {
+    id: row.id,
+    url: row.calendar_ics_url,
+    label: row.label?.trim() || null,
+    isActive: row.is_active,
+    ignoreBusy: row.ignore_busy ?? false,
+    countAllDay: row.count_all_day ?? false,
+    includeKeywords: normalizeKeywords(row.include_keywords),
+    excludeKeywords: normalizeKeywords(row.exclude_keywords),
+    memberName: row.member_name?.trim() || null,
+    lastFetchedAt: row.last_fetched_at,
+    lastEventCount: row.last_event_count,
+    lastError: row.last_error,
+  };
+}
+
+// webcal:// är samma sak som https:// (proxyn byter ut det vid hämtning).
+export function isValidCalendarUrl(rawUrl: string): boolean {
+  const trimmed = rawUrl.trim().replace(/^webcal:\/\//i, "https://");
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export async function fetchUserCalendars(): Promise<UserCalendar[]> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("user_calendars")
+    .select(USER_CALENDAR_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as DbUserCalendar[]).map(toUserCalendar);
+}
+
+export async function createUserCalendar(
+  url: string,
+  label: string | null
+): Promise<UserCalendar> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("user_calendars")
+    .insert({
+      user_id: userId,
+      calendar_ics_url: url.trim(),
+      label: label?.trim() || null,
+      is_active: true,
+    })
+    .select(USER_CALENDAR_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toUserCalendar(data as DbUserCalendar);
+}
+
+export async function updateUserCalendar(calendar: UserCalendar): Promise<UserCalendar> {
+  const { data, error } = await supabase
+    .from("user_calendars")
+    .update({
+      calendar_ics_url: calendar.url.trim(),
+      label: calendar.label?.trim() || null,
+      is_active: calendar.isActive,
+      ignore_busy: calendar.ignoreBusy,
+      count_all_day: calendar.countAllDay,
+      include_keywords: normalizeKeywords(calendar.includeKeywords),
+      exclude_keywords: normalizeKeywords(calendar.excludeKeywords),
+      member_name: calendar.memberName?.trim() || null,
+    })
+    .eq("id", calendar.id)
+    .select(USER_CALENDAR_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toUserCalendar(data as DbUserCalendar);
+}
+
+export async function deleteUserCalendar(id: string): Promise<void> {
+  const { error } = await supabase.from("user_calendars").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Hämtar länken via icloud-ics-proxy (samma väg som synken) och räknar händelserna.
+export async function testCalendarUrl(url: string): Promise<{ eventCount: number }> {
+  const params = new URLSearchParams({ mode: "test", url: url.trim() });
+  const { data, error } = await supabase.functions.invoke(`icloud-ics-proxy?${params}`, {
+    method: "GET",
+  });
+  if (error) throw error;
+
+  const payload = typeof data === "string" ? JSON.parse(data) : data;
+  if (!payload?.ok) {
+    throw new Error(payload?.error || "Okänt fel från proxyn");
+  }
+  return { eventCount: Number(payload.eventCount) || 0 };
+}
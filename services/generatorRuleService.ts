@@ -0,0 +1,28 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { GeneratorRule } from "../types";
+import { normalizeGeneratorRules } from "./weekGenerator";
+
+export async function fetchGeneratorRules(): Promise<GeneratorRule[]> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("generator_rules")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeGeneratorRules(data?.generator_rules ?? null);
+}
+
+export async function saveGeneratorRules(rules: GeneratorRule[]): Promise<GeneratorRule[]> {
+  const userId = await getCurrentUserId();
+  const normalized = normalizeGeneratorRules(rules);
+
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: userId, generator_rules: normalized }, { onConflict: "user_id" });
+
+  if (error) throw error;
+  return normalized;
+}
@@ -1,47 +1,17 @@
-import { ActiveDayIndices, DayPlan, MealSlotType, Recipe } from "../types";
-
-const formatDateForICS = (date: Date) => {
-  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
-};
-
-const getWeekDates = (weekString: string) => {
-  const [year, week] = weekString.split("-W").map(Number);
-  const firstDayOfYear = new Date(Date.UTC(year, 0, 1));
-  const daysOffset = (week - 1) * 7;
-
-  // ISO week starts on Monday
-  const firstMonday = new Date(firstDayOfYear);
-  const dayOfWeek = firstDayOfYear.getUTCDay();
-  const diff = (dayOfWeek === 0 ? -6 : 1) - dayOfWeek;
-  firstMonday.setUTCDate(firstDayOfYear.getUTCDate() + diff);
-
-  const weekStart = new Date(firstMonday);
-  weekStart.setUTCDate(firstMonday.getUTCDate() + daysOffset);
-
-  return Array.from({ length: 7 }, (_, i) => {
-    const date = new Date(weekStart);
-    date.setUTCDate(weekStart.getUTCDate() + i);
-    return date;
-  });
-};
-
-const escapeICS = (text: string) => {
-  return text
-    .replace(/\\/g, "\\\\")
-    .replace(/\n/g, "\\n")
-    .replace(/,/g, "\\,")
-    .replace(/;/g, "\\;");
-};
-
-const SLOT_META: Record<
+import {
+  ActiveDayIndices,
+  DayPlan,
+  MealSlotConfig,
   MealSlotType,
-  { label: string; startHour: number; startMinute: number; durationHours: number }
-> = {
-  lunch: { label: "Lunch", startHour: 12, startMinute: 30, durationHours: 1 },
-  dinner: { label: "Kvällsmat", startHour: 17, startMinute: 30, durationHours: 1 },
-};
-
-const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+  Recipe,
+  WeekPlan,
+} from "../types";
+import {
+  buildMealEvents,
+  serializeMealCalendar,
+  type MealEventRecipeContent,
+} from "../supabase/functions/_shared/mealPlanIcs";
+import { fetchRecipeFull } from "./recipeContentService";
 
 type GenerateIcsOptions = {
   // Om du vill ha ett specifikt filnamn (utan .ics)
@@ -50,86 +20,86 @@ type GenerateIcsOptions = {
   slots?: MealSlotType[];
   // Styr vilka dagar som är aktiva per slot.
   activeDayIndices?: ActiveDayIndices;
+  // Användarens måltider (namn, tid och längd). Standard: lunch + kvällsmat.
+  mealSlots?: MealSlotConfig[];
+  // Alla veckoplaner, så att rester från föregående vecka kan få rätt namn.
+  weekPlans?: WeekPlan[];
+  // Skalade ingredienser, steg och länk till receptvyn i varje händelse.
+  includeRecipeContent?: boolean;
 };
 
-function resolveActiveDays(
-  activeDayIndices: ActiveDayIndices | undefined,
-  slot: MealSlotType
-): number[] {
-  const days = activeDayIndices?.[slot];
-  if (!Array.isArray(days)) return ALL_DAYS;
-  return days;
+// Nedladdade filer använder enhetens tidszon för måltidstiderna.
+const deviceWallClockToInstant = (local: number) => {
+  const d = new Date(local);
+  return new Date(
+    d.getUTCFullYear(),
+    d.getUTCMonth(),
+    d.getUTCDate(),
+    d.getUTCHours(),
+    d.getUTCMinutes()
+  ).getTime();
+};
+
+// Hämtar ingredienser och steg för veckans recept. Ett recept som inte kan läsas
+// exporteras utan innehåll i stället för att stoppa hela exporten.
+async function fetchRecipeContents(
+  plans: DayPlan[],
+  recipes: Recipe[]
+): Promise<Map<number, MealEventRecipeContent>> {
+  const recipeIds = new Set<number>();
+  plans.forEach((day) =>
+    Object.values(day.meals).forEach((slotPlan) =>
+      slotPlan.dishes.forEach((dish) => {
+        const recipe = recipes.find((r) => r.id === dish.recipeId);
+        if (recipe?.hasRecipeContent) recipeIds.add(recipe.id);
+      })
+    )
+  );
+
+  const contents = new Map<number, MealEventRecipeContent>();
+  await Promise.all(
+    Array.from(recipeIds).map(async (recipeId) => {
+      try {
+        const full = await fetchRecipeFull(recipeId);
+        contents.set(recipeId, {
+          ingredients: full.ingredients.map((ingredient) => ({
+            name: ingredient.name,
+            amount: ingredient.amount,
+            unit: ingredient.unit,
+            optional: ingredient.optional,
+          })),
+          steps: full.steps
+            .slice()
+            .sort((a, b) => a.stepOrder - b.stepOrder)
+            .map((step) => step.text),
+        });
+      } catch (error) {
+        console.error("FETCH RECIPE FOR ICS FAILED:", recipeId, error);
+      }
+    })
+  );
+  return contents;
 }
 
-export const generateICS = (
+export const generateICS = async (
   weekString: string,
   plans: DayPlan[],
   recipes: Recipe[],
   options?: GenerateIcsOptions
 ) => {
-  const weekDates = getWeekDates(weekString);
-  const selectedSlots = options?.slots?.length ? options.slots : (["lunch", "dinner"] as MealSlotType[]);
-
-  const events: string[] = [];
-
-  plans.forEach((plan) => {
-    const date = weekDates[plan.dayId];
-    if (!date) return;
-
-    selectedSlots.forEach((slot) => {
-      const activeDays = resolveActiveDays(options?.activeDayIndices, slot);
-      if (!activeDays.includes(plan.dayId)) return;
-
-      const slotPlan = plan[slot];
-      const hasRecipe = slotPlan.recipeId !== null;
-      const hasText = !!(slotPlan.freeText && slotPlan.freeText.trim().length > 0);
-      if (!hasRecipe && !hasText) return;
-
-      const recipe =
-        slotPlan.recipeId !== null
-          ? recipes.find((r) => r.id === slotPlan.recipeId)
-          : null;
-      const title =
-        recipe?.name?.trim() || (slotPlan.freeText ? slotPlan.freeText.trim() : "") || SLOT_META[slot].label;
-
-      // Lägg in en tydlig intern markering så vi kan ignorera egna exporter i kalenderläsning.
-      const descriptionParts = [
-        recipe?.source ? `Källa: ${recipe.source}` : "",
-        `X-MATPLAN-EXPORT:1`,
-        `X-MATPLAN-SLOT:${slot}`,
-      ].filter(Boolean);
-      const description = descriptionParts.join("\n");
-
-      const start = new Date(date);
-      start.setHours(SLOT_META[slot].startHour, SLOT_META[slot].startMinute, 0, 0);
-      const end = new Date(start);
-      end.setHours(start.getHours() + SLOT_META[slot].durationHours);
-
-      const uid = `${weekString}-${plan.dayId}-${slot}-${slotPlan.recipeId ?? "text"}@matplan`;
-
-      events.push(
-        [
-          "BEGIN:VEVENT",
-          `UID:${escapeICS(uid)}`,
-          `DTSTAMP:${formatDateForICS(new Date())}`,
-          `DTSTART:${formatDateForICS(start)}`,
-          `DTEND:${formatDateForICS(end)}`,
-          `SUMMARY:${escapeICS(title)}`,
-          `DESCRIPTION:${escapeICS(description)}`,
-          "END:VEVENT",
-        ].join("\n")
-      );
-    });
+  const events = buildMealEvents(weekString, plans, recipes, {
+    slots: options?.slots,
+    activeDayIndices: options?.activeDayIndices,
+    mealSlots: options?.mealSlots,
+    weekPlans: options?.weekPlans,
+    ...(options?.includeRecipeContent
+      ? {
+          recipeContents: await fetchRecipeContents(plans, recipes),
+          appUrl: `${window.location.origin}${window.location.pathname}`,
+        }
+      : {}),
   });
-
-  const icsContent = [
-    "BEGIN:VCALENDAR",
-    "VERSION:2.0",
-    "PRODID:-//Matplaneraren//SE",
-    "CALSCALE:GREGORIAN",
-    ...events,
-    "END:VCALENDAR",
-  ].join("\n");
+  const icsContent = serializeMealCalendar(events, { toInstant: deviceWallClockToInstant });
 
   const fileNameBase = options?.fileName?.trim()
     ? options.fileName.trim()
@@ -0,0 +1,195 @@
+import type { IngredientCatalogEntry } from "../types";
+
+// Ingredienskatalog: känner igen samma ingrediens under olika namn ("gula lökar",
+// "lök, gul", "gul lök") och ger ett kanoniskt namn. Ren modul utan Supabase/DOM.
+
+export type IngredientIndex = Map<string, string>;
+
+export type ResolvedIngredientName = {
+  // Jämförelsenyckel (se getIngredientKey)
+  key: string;
+  name: string;
+  // true = namnet finns i katalogen
+  known: boolean;
+};
+
+// Inbyggda poster; egna poster med samma namn ersätter dem.
+const builtIn = (
+  name: string,
+  category: string | null,
+  synonyms: string[] = []
+): IngredientCatalogEntry => ({ id: null, name, synonyms, category });
+
+export const DEFAULT_INGREDIENT_CATALOG: IngredientCatalogEntry[] = [
+  builtIn("gul lök", "frukt_gront", ["lök", "gullök"]),
+  builtIn("rödlök", "frukt_gront", ["röd lök"]),
+  builtIn("vitlöksklyfta", "frukt_gront", ["vitlöksklyftor", "klyfta vitlök"]),
+  builtIn("potatis", "frukt_gront"),
+  builtIn("morot", "frukt_gront", ["morötter"]),
+  builtIn("tomat", "frukt_gront"),
+  builtIn("paprika", "frukt_gront"),
+  builtIn("gurka", "frukt_gront"),
+  builtIn("citron", "frukt_gront"),
+  builtIn("äpple", "frukt_gront"),
+  builtIn("banan", "frukt_gront"),
+  builtIn("mjölk", "mejeri", ["standardmjölk"]),
+  builtIn("vispgrädde", "mejeri"),
+  builtIn("matlagningsgrädde", "mejeri"),
+  builtIn("crème fraiche", "mejeri"),
+  builtIn("yoghurt", "mejeri"),
+  builtIn("smör", "mejeri"),
+  builtIn("ägg", "mejeri"),
+  builtIn("riven ost", "mejeri"),
+  builtIn("parmesan", "mejeri", ["parmesanost", "parmigiano reggiano"]),
+  builtIn("fetaost", "mejeri", ["feta", "salladsost"]),
+  builtIn("köttfärs", "kott", ["nötfärs"]),
+  builtIn("kycklingfilé", "kott", ["kycklingbröst", "kycklingbröstfilé"]),
+  builtIn("laxfilé", "fisk", ["lax"]),
+  builtIn("krossade tomater", "skafferi", ["krossad tomat", "tomatkross"]),
+  builtIn("tomatpuré", "skafferi"),
+  builtIn("kokosmjölk", "skafferi"),
+  builtIn("vetemjöl", "skafferi", ["mjöl"]),
+  builtIn("strösocker", "skafferi", ["socker"]),
+  builtIn("spaghetti", "skafferi", ["spagetti"]),
+  builtIn("pasta", "skafferi"),
+  builtIn("ris", "skafferi"),
+  builtIn("frysta ärtor", "frys"),
+];
+
+// Bestämd form och plural tas bort från slutet av varje ord; längst ändelse först.
+// "ade" -> "ad" så att "krossade" och "krossad" möts, "e" så att "grädde" och "grädden" gör det.
+const WORD_SUFFIXES = ["orna", "arna", "erna", "ade", "or", "ar", "er", "en", "et", "a", "e"];
+const MIN_STEM_LENGTH = 3;
+
+function stemWord(word: string): string {
+  for (const suffix of WORD_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return suffix === "ade" ? word.slice(0, -1) : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// Gemener, utan parentes, "lök, gul" -> "gul lök", "crème fraîche" -> "creme fraiche".
+export function normalizeIngredientName(name: string): string {
+  let cleaned = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[éèêë]/g, "e")
+    .replace(/[îï]/g, "i")
+    .replace(/[ü]/g, "u")
+    .replace(/[âà]/g, "a");
+
+  const parts = cleaned.split(",").map((part) => part.trim());
+  if (parts.length === 2 && parts[0] && parts[1]) cleaned = `${parts[1]} ${parts[0]}`;
+
+  return cleaned.replace(/[^a-z0-9åäö\s-]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function getIngredientKey(name: string): string {
+  return normalizeIngredientName(name).split(" ").filter(Boolean).map(stemWord).join(" ");
+}
+
+// Egna poster ersätter inbyggda med samma namn.
+export function mergeIngredientCatalog(
+  userEntries: IngredientCatalogEntry[]
+): IngredientCatalogEntry[] {
+  const userKeys = new Set(userEntries.map((entry) => getIngredientKey(entry.name)));
+  return [
+    ...DEFAULT_INGREDIENT_CATALOG.filter((entry) => !userKeys.has(getIngredientKey(entry.name))),
+    ...userEntries,
+  ].sort((a, b) => a.name.localeCompare(b.name, "sv"));
+}
+
+// Egna poster läggs sist och vinner när samma synonym finns på flera ställen.
+export function buildIngredientIndex(entries: IngredientCatalogEntry[]): IngredientIndex {
+  const index: IngredientIndex = new Map();
+  const ordered = [
+    ...entries.filter((entry) => entry.id === null),
+    ...entries.filter((entry) => entry.id !== null),
+  ];
+  ordered.forEach((entry) => {
+    [entry.name, ...entry.synonyms].forEach((name) => {
+      const key = getIngredientKey(name);
+      if (key) index.set(key, entry.name);
+    });
+  });
+  // Kanoniska namn pekar alltid på sig själva, även om någon annan post har dem som synonym.
+  ordered.forEach((entry) => index.set(getIngredientKey(entry.name), entry.name));
+  return index;
+}
+
+export function resolveIngredientName(
+  name: string,
+  index: IngredientIndex
+): ResolvedIngredientName {
+  const key = getIngredientKey(name);
+  const canonical = index.get(key);
+  return canonical
+    ? { key: getIngredientKey(canonical), name: canonical, known: true }
+    : { key, name: name.trim(), known: false };
+}
+
+// Lägger till synonym till postens kanoniska namn (ny egen post om namnet saknas).
+// Returnerar posten som ska sparas, eller null om synonymen redan gäller.
+export function addSynonymToCatalog(
+  entries: IngredientCatalogEntry[],
+  canonicalName: string,
+  synonym: string
+): IngredientCatalogEntry | null {
+  const index = buildIngredientIndex(entries);
+  const target = resolveIngredientName(canonicalName, index);
+  const cleanedSynonym = synonym.trim().toLowerCase();
+  if (!cleanedSynonym || resolveIngredientName(cleanedSynonym, index).key === target.key) {
+    return null;
+  }
+
+  const existing = findCatalogEntry(entries, canonicalName);
+  return {
+    id: existing?.id ?? null,
+    name: existing?.name ?? target.name.toLowerCase(),
+    synonyms: [...(existing?.synonyms ?? []), cleanedSynonym],
+    category: existing?.category ?? null,
+  };
+}
+
+// Posten som namnet (eller en synonym) hör till.
+export function findCatalogEntry(
+  entries: IngredientCatalogEntry[],
+  name: string
+): IngredientCatalogEntry | null {
+  const target = resolveIngredientName(name, buildIngredientIndex(entries));
+  return entries.find((entry) => getIngredientKey(entry.name) === target.key) ?? null;
+}
+
+// Posten att spara när en vara får en avdelning; saknas namnet i katalogen skapas en post.
+export function setCatalogCategory(
+  entries: IngredientCatalogEntry[],
+  name: string,
+  category: string | null
+): IngredientCatalogEntry {
+  const existing = findCatalogEntry(entries, name);
+  return existing
+    ? { ...existing, category }
+    : { id: null, name: name.trim().toLowerCase(), synonyms: [], category };
+}
+
+// Katalogen efter att en egen post sparats eller tagits bort.
+export function replaceCatalogEntry(
+  entries: IngredientCatalogEntry[],
+  saved: IngredientCatalogEntry
+): IngredientCatalogEntry[] {
+  return mergeIngredientCatalog([
+    ...entries.filter(
+      (entry) => entry.id !== null && entry.id !== saved.id && entry.name !== saved.name
+    ),
+    saved,
+  ]);
+}
+
+export function removeCatalogEntry(
+  entries: IngredientCatalogEntry[],
+  id: string
+): IngredientCatalogEntry[] {
+  return mergeIngredientCatalog(entries.filter((entry) => entry.id !== null && entry.id !== id));
+}
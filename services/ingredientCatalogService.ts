@@ -0,0 +1,71 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { IngredientCatalogEntry } from "../types";
+import { mergeIngredientCatalog } from "./ingredientCatalog";
+
+type DbIngredientCatalogEntry = {
+  id: string;
+  name: string;
+  synonyms: string[] | null;
+  category: string | null;
+};
+
+const INGREDIENT_CATALOG_COLUMNS = "id,name,synonyms,category";
+
+function toIngredientCatalogEntry(row: DbIngredientCatalogEntry): IngredientCatalogEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    synonyms: row.synonyms ?? [],
+    category: row.category ?? null,
+  };
+}
+
+function cleanSynonyms(name: string, synonyms: string[]): string[] {
+  const canonical = name.trim().toLowerCase();
+  return Array.from(
+    new Set(synonyms.map((synonym) => synonym.trim().toLowerCase()).filter(Boolean))
+  ).filter((synonym) => synonym !== canonical);
+}
+
+// Inbyggda och egna poster tillsammans (se mergeIngredientCatalog).
+export async function fetchIngredientCatalog(): Promise<IngredientCatalogEntry[]> {
+  const { data, error } = await supabase
+    .from("ingredient_catalog")
+    .select(INGREDIENT_CATALOG_COLUMNS)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return mergeIngredientCatalog(
+    ((data ?? []) as DbIngredientCatalogEntry[]).map(toIngredientCatalogEntry)
+  );
+}
+
+// Samma namn skriver över – så ersätts även en inbyggd post.
+export async function saveIngredientCatalogEntry(
+  entry: Pick<IngredientCatalogEntry, "name" | "synonyms" | "category">
+): Promise<IngredientCatalogEntry> {
+  const userId = await getCurrentUserId();
+  const name = entry.name.trim().toLowerCase();
+  const { data, error } = await supabase
+    .from("ingredient_catalog")
+    .upsert(
+      {
+        user_id: userId,
+        name,
+        synonyms: cleanSynonyms(name, entry.synonyms),
+        category: entry.category,
+      },
+      { onConflict: "user_id,name" }
+    )
+    .select(INGREDIENT_CATALOG_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toIngredientCatalogEntry(data as DbIngredientCatalogEntry);
+}
+
+export async function deleteIngredientCatalogEntry(id: string): Promise<void> {
+  const { error } = await supabase.from("ingredient_catalog").delete().eq("id", id);
+  if (error) throw error;
+}
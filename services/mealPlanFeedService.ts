@@ -0,0 +1,99 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { MealPlanFeed } from "../types";
+
+type DbMealPlanFeed = {
+  token: string;
+  look_ahead_weeks: number;
+  timezone: string;
+  updated_at: string;
+};
+
+const MEAL_PLAN_FEED_COLUMNS = "token,look_ahead_weeks,timezone,updated_at";
+const DEFAULT_LOOK_AHEAD_WEEKS = 4;
+const DEFAULT_TIMEZONE = "Europe/Stockholm";
+
+function toMealPlanFeed(row: DbMealPlanFeed): MealPlanFeed {
+  return {
+    token: row.token,
+    lookAheadWeeks: row.look_ahead_weeks,
+    timezone: row.timezone,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Token är enda skyddet för flödet – 32 slumpade bytes, hex-kodade.
+function generateFeedToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function getDeviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+export function getMealPlanFeedUrl(token: string): string {
+  const supabaseUrl: string = (import.meta as any)?.env?.VITE_SUPABASE_URL?.trim?.() ?? "";
+  const base = supabaseUrl.replace(/\/+$/, "").replace(/^https?:\/\//i, "webcal://");
+  return `${base}/functions/v1/meal-plan-feed?token=${encodeURIComponent(token)}`;
+}
+
+export async function fetchMealPlanFeed(): Promise<MealPlanFeed | null> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("meal_plan_feeds")
+    .select(MEAL_PLAN_FEED_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toMealPlanFeed(data as DbMealPlanFeed) : null;
+}
+
+// Skapar länken, eller ersätter token om den redan finns (gamla länken slutar fungera).
+export async function createMealPlanFeed(
+  lookAheadWeeks = DEFAULT_LOOK_AHEAD_WEEKS
+): Promise<MealPlanFeed> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("meal_plan_feeds")
+    .upsert(
+      {
+        user_id: userId,
+        token: generateFeedToken(),
+        look_ahead_weeks: lookAheadWeeks,
+        timezone: getDeviceTimezone(),
+      },
+      { onConflict: "user_id" }
+    )
+    .select(MEAL_PLAN_FEED_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toMealPlanFeed(data as DbMealPlanFeed);
+}
+
+export async function updateMealPlanFeedLookAhead(lookAheadWeeks: number): Promise<MealPlanFeed> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("meal_plan_feeds")
+    .update({ look_ahead_weeks: lookAheadWeeks })
+    .eq("user_id", userId)
+    .select(MEAL_PLAN_FEED_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toMealPlanFeed(data as DbMealPlanFeed);
+}
+
+// Tar bort länken helt – prenumerationer får 404 vid nästa uppdatering.
+export async function revokeMealPlanFeed(): Promise<void> {
+  const userId = await getCurrentUserId();
+  const { error } = await supabase.from("meal_plan_feeds").delete().eq("user_id", userId);
+  if (error) throw error;
+}
@@ -0,0 +1,247 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type {
+  ActiveDayIndices,
+  DayPlan,
+  MealDish,
+  MealSlotConfig,
+  MealSlotPlan,
+  MealSlotRef,
+  MealSlotType,
+  Recipe,
+  WeekPlan,
+} from "../types";
+import { DEFAULT_MEAL_SLOTS } from "../supabase/functions/_shared/mealPlanIcs";
+import {
+  buildDefaultBusyWindow,
+  normalizeMealSlots,
+} from "../supabase/functions/_shared/planNormalization";
+
+// Standardmåltiderna och normaliseringen delas med kalenderflödet (Edge Function).
+export { DEFAULT_MEAL_SLOTS, buildDefaultBusyWindow, normalizeMealSlots };
+
+export function createMealSlotId(label: string, existingIds: Iterable<string>): string {
+  const taken = new Set(existingIds);
+  const base =
+    label
+      .trim()
+      .toLowerCase()
+      .replace(/[åä]/g, "a")
+      .replace(/ö/g, "o")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "maltid";
+
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix += 1;
+  return `${base}-${suffix}`;
+}
+
+export function getDefaultActiveDays(slots: MealSlotConfig[]): ActiveDayIndices {
+  const out: ActiveDayIndices = {};
+  for (const slot of slots) out[slot.id] = [...slot.defaultActiveDays];
+  return out;
+}
+
+export function getEmptySlotPlan(): MealSlotPlan {
+  return { dishes: [] };
+}
+
+export function getSlotPlan(day: DayPlan | undefined, slotId: MealSlotType): MealSlotPlan {
+  return day?.meals[slotId] ?? getEmptySlotPlan();
+}
+
+export function hasDishContent(dish: MealDish): boolean {
+  const hasRecipe = dish.recipeId !== null;
+  const hasText = !!(dish.freeText && dish.freeText.trim().length > 0);
+  return hasRecipe || hasText;
+}
+
+export function hasSlotContent(slotPlan: MealSlotPlan): boolean {
+  return isLeftoversSlot(slotPlan) || slotPlan.dishes.some(hasDishContent);
+}
+
+export function isLeftoversSlot(slotPlan: MealSlotPlan): boolean {
+  return !!slotPlan.leftoversFrom;
+}
+
+export function isSameSlotRef(a: MealSlotRef, b: MealSlotRef): boolean {
+  return a.weekIdentifier === b.weekIdentifier && a.dayId === b.dayId && a.slot === b.slot;
+}
+
+// Slår upp måltiden som en referens pekar på. Rester av rester följs inte vidare.
+export function findSlotPlan(plans: WeekPlan[], ref: MealSlotRef): MealSlotPlan | null {
+  const week = plans.find((p) => p.weekIdentifier === ref.weekIdentifier);
+  const day = week?.days.find((d) => d.dayId === ref.dayId);
+  const slotPlan = day?.meals[ref.slot];
+  if (!slotPlan || isLeftoversSlot(slotPlan)) return null;
+  return slotPlan;
+}
+
+// Text för en restmåltid, t.ex. "Rester: Chili sin carne".
+export function getLeftoversLabel(
+  slotPlan: MealSlotPlan,
+  plans: WeekPlan[],
+  recipes: Recipe[]
+): string {
+  const source = slotPlan.leftoversFrom ? findSlotPlan(plans, slotPlan.leftoversFrom) : null;
+  const labels = (source?.dishes ?? [])
+    .map((dish) => getDishLabel(dish, recipes))
+    .filter(Boolean);
+  return `Rester: ${labels.join(" + ") || "okänd måltid"}`;
+}
+
+export function getSlotRecipeIds(slotPlan: MealSlotPlan): number[] {
+  return slotPlan.dishes
+    .map((dish) => dish.recipeId)
+    .filter((id): id is number => id !== null);
+}
+
+// Byter ut rätten på given plats (null tar bort den). Index efter sista rätten lägger till en ny.
+// En restmåltid som får en egen rätt slutar vara rester.
+export function setSlotDish(
+  slotPlan: MealSlotPlan,
+  dishIndex: number,
+  dish: MealDish | null
+): MealSlotPlan {
+  const dishes = isLeftoversSlot(slotPlan) ? [] : [...slotPlan.dishes];
+  if (dish === null || !hasDishContent(dish)) {
+    dishes.splice(dishIndex, 1);
+  } else if (dishIndex >= dishes.length) {
+    dishes.push(dish);
+  } else {
+    dishes[dishIndex] = dish;
+  }
+  return { ...slotPlan, dishes, leftoversFrom: null };
+}
+
+// Rättens namn: receptnamn om receptet finns, annars fritexten.
+export function getDishLabel(dish: MealDish, recipes: Recipe[]): string {
+  if (dish.recipeId !== null) {
+    return recipes.find((r) => r.id === dish.recipeId)?.name?.trim() || "";
+  }
+  return (dish.freeText ?? "").trim();
+}
+
+// Portioner för en måltid: sparat värde i veckoplanen, annars receptets grundportioner.
+export function resolveSlotServings(slotPlan: MealSlotPlan, recipe: Recipe | null): number {
+  if (slotPlan.servings != null && Number.isFinite(slotPlan.servings)) {
+    return Math.max(1, Math.round(slotPlan.servings));
+  }
+  return Math.max(1, Math.round(recipe?.baseServings || 4));
+}
+
+// Returnerar nya veckoplaner där en enskild måltid har patchats (utan att mutera indata).
+export function patchSlotPlan(
+  plans: WeekPlan[],
+  weekIdentifier: string,
+  dayId: number,
+  slot: MealSlotType,
+  patch: Partial<MealSlotPlan>,
+  fallbackActiveDays: ActiveDayIndices
+): WeekPlan[] {
+  const existing = plans.find((p) => p.weekIdentifier === weekIdentifier);
+  const days = existing?.days ?? [];
+  const currentDay = days.find((d) => d.dayId === dayId) ?? { dayId, meals: {} };
+  const nextDay: DayPlan = {
+    ...currentDay,
+    meals: {
+      ...currentDay.meals,
+      [slot]: { ...getSlotPlan(currentDay, slot), ...patch },
+    },
+  };
+  const nextDays = [...days.filter((d) => d.dayId !== dayId), nextDay].sort(
+    (a, b) => a.dayId - b.dayId
+  );
+
+  return [
+    ...plans.filter((p) => p.weekIdentifier !== weekIdentifier),
+    {
+      weekIdentifier,
+      days: nextDays,
+      activeDayIndices: existing?.activeDayIndices ?? fallbackActiveDays,
+    },
+  ];
+}
+
+// Flyttar en måltid till en annan dag, måltid eller vecka. Ligger det redan något där byter
+// de plats. Rester som pekade på någon av måltiderna följer med, och målplatsen tänds.
+export function moveSlotPlan(
+  plans: WeekPlan[],
+  from: MealSlotRef,
+  to: MealSlotRef,
+  fallbackActiveDays: ActiveDayIndices
+): WeekPlan[] {
+  if (isSameSlotRef(from, to)) return plans;
+
+  const readSlot = (ref: MealSlotRef): MealSlotPlan => {
+    const week = plans.find((p) => p.weekIdentifier === ref.weekIdentifier);
+    const slotPlan = getSlotPlan(week?.days.find((d) => d.dayId === ref.dayId), ref.slot);
+    return {
+      dishes: slotPlan.dishes,
+      leftoversFrom: slotPlan.leftoversFrom ?? null,
+      servings: slotPlan.servings ?? null,
+      guestNote: slotPlan.guestNote ?? null,
+    };
+  };
+  const source = readSlot(from);
+  const target = readSlot(to);
+
+  let next = patchSlotPlan(plans, to.weekIdentifier, to.dayId, to.slot, source, fallbackActiveDays);
+  next = patchSlotPlan(next, from.weekIdentifier, from.dayId, from.slot, target, fallbackActiveDays);
+
+  const remapRef = (ref: MealSlotRef): MealSlotRef => {
+    if (isSameSlotRef(ref, from)) return { ...to };
+    if (isSameSlotRef(ref, to)) return { ...from };
+    return ref;
+  };
+
+  return next.map((week) => {
+    const days = week.days.map((day) => {
+      const meals: Record<MealSlotType, MealSlotPlan> = {};
+      for (const [slot, slotPlan] of Object.entries(day.meals)) {
+        if (!slotPlan.leftoversFrom) {
+          meals[slot] = slotPlan;
+          continue;
+        }
+        const ref = remapRef(slotPlan.leftoversFrom);
+        const self = { weekIdentifier: week.weekIdentifier, dayId: day.dayId, slot };
+        // En måltid kan inte vara rester av sig själv.
+        meals[slot] = { ...slotPlan, leftoversFrom: isSameSlotRef(ref, self) ? null : ref };
+      }
+      return { ...day, meals };
+    });
+
+    if (week.weekIdentifier !== to.weekIdentifier) return { ...week, days };
+    const activeDayIndices = { ...(week.activeDayIndices ?? fallbackActiveDays) };
+    const activeDays = activeDayIndices[to.slot] ?? [];
+    if (!activeDays.includes(to.dayId)) {
+      activeDayIndices[to.slot] = [...activeDays, to.dayId].sort((a, b) => a - b);
+    }
+    return { ...week, days, activeDayIndices };
+  });
+}
+
+export async function fetchMealSlots(): Promise<MealSlotConfig[]> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("meal_slots")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeMealSlots(data?.meal_slots ?? null);
+}
+
+export async function saveMealSlots(slots: MealSlotConfig[]): Promise<MealSlotConfig[]> {
+  const userId = await getCurrentUserId();
+  const normalized = normalizeMealSlots(slots);
+
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: userId, meal_slots: normalized }, { onConflict: "user_id" });
+
+  if (error) throw error;
+  return normalized;
+}
@@ -0,0 +1,149 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { PantryItem } from "../types";
+import {
+  hasPantryStock,
+  pickPantryWeek,
+  planPantryAddition,
+  planPantryDeduction,
+  subtractPantryStock,
+} from "./pantry";
+
+const TODAY = "2026-10-19";
+const getKey = (name: string) => name.trim().toLowerCase();
+
+function item(
+  id: string,
+  name: string,
+  amount: number | null,
+  unit: string | null,
+  bestBefore: string | null = null
+): PantryItem {
+  return { id, name, amount, unit, bestBefore };
+}
+
+describe("subtractPantryStock", () => {
+  test("drar av det som finns hemma och tar bort täckta rader", () => {
+    const rows = [
+      { name: "Mjöl", amount: 500, unit: "g" },
+      { name: "Smör", amount: 50, unit: "g" },
+    ];
+    const pantry = [item("1", "mjöl", 200, "g"), item("2", "Smör", 100, "g")];
+    assert.deepEqual(subtractPantryStock(rows, pantry, getKey, TODAY), [
+      { name: "Mjöl", amount: 300, unit: "g" },
+    ]);
+  });
+
+  test("räknar om enheter och tar samma lager bara en gång", () => {
+    const rows = [
+      { name: "mjölk", amount: 3, unit: "dl" },
+      { name: "mjölk", amount: 300, unit: "ml" },
+    ];
+    const pantry = [item("1", "mjölk", 0.5, "l")];
+    assert.deepEqual(subtractPantryStock(rows, pantry, getKey, TODAY), [
+      { name: "mjölk", amount: 100, unit: "ml" },
+    ]);
+  });
+
+  test("passerat bäst före räknas inte, och varor utan mängd täcker allt", () => {
+    const rows = [
+      { name: "grädde", amount: 2, unit: "dl" },
+      { name: "salt", amount: 1, unit: "tsk" },
+    ];
+    const pantry = [item("1", "grädde", 5, "dl", "2026-10-18"), item("2", "salt", null, null)];
+    assert.deepEqual(subtractPantryStock(rows, pantry, getKey, TODAY), [
+      { name: "grädde", amount: 2, unit: "dl" },
+    ]);
+  });
+});
+
+describe("hasPantryStock", () => {
+  test("finns hemma med mängd eller utan", () => {
+    const pantry = [
+      item("1", "persilja", 1, "kruka"),
+      item("2", "salt", null, null),
+      item("3", "dill", 0, "kruka"),
+      item("4", "basilika", 1, "kruka", "2026-10-01"),
+    ];
+    assert.equal(hasPantryStock("Persilja", pantry, getKey, TODAY), true);
+    assert.equal(hasPantryStock("salt", pantry, getKey, TODAY), true);
+    assert.equal(hasPantryStock("dill", pantry, getKey, TODAY), false);
+    assert.equal(hasPantryStock("basilika", pantry, getKey, TODAY), false);
+    assert.equal(hasPantryStock("timjan", pantry, getKey, TODAY), false);
+  });
+});
+
+describe("planPantryDeduction", () => {
+  test("tar tidigast bäst före först och tömmer rader som tar slut", () => {
+    const pantry = [
+      item("sen", "mjöl", 400, "g", "2026-12-01"),
+      item("tidig", "mjöl", 200, "g", "2026-11-01"),
+      item("alltid", "salt", null, null),
+    ];
+    const changes = planPantryDeduction(
+      pantry,
+      [
+        { name: "mjöl", amount: 500, unit: "g" },
+        { name: "salt", amount: 1, unit: "tsk" },
+      ],
+      getKey
+    );
+    assert.deepEqual(changes, [
+      { id: "sen", amount: 100 },
+      { id: "tidig", amount: 0 },
+    ]);
+  });
+
+  test("hoppar över okända mängder och enheter som inte går att räkna om", () => {
+    const pantry = [item("1", "krossade tomater", 2, "burk")];
+    assert.deepEqual(
+      planPantryDeduction(
+        pantry,
+        [
+          { name: "krossade tomater", amount: 400, unit: "g" },
+          { name: "krossade tomater", amount: null, unit: "burk" },
+        ],
+        getKey
+      ),
+      []
+    );
+  });
+});
+
+describe("planPantryAddition", () => {
+  test("läggs på en rad utan bäst före i radens enhet", () => {
+    const pantry = [item("1", "mjöl", 1, "kg", "2026-11-01"), item("2", "mjöl", 0.5, "kg")];
+    assert.deepEqual(
+      planPantryAddition(pantry, { name: "Mjöl", amount: 300, unit: "g" }, getKey),
+      { ...pantry[1], amount: 0.8 }
+    );
+  });
+
+  test("ny rad när enheten inte går att räkna om", () => {
+    const pantry = [item("1", "krossade tomater", 400, "g")];
+    assert.deepEqual(
+      planPantryAddition(pantry, { name: " krossade tomater ", amount: 2, unit: "burk" }, getKey),
+      { id: null, name: "krossade tomater", amount: 2, unit: "burk", bestBefore: null }
+    );
+  });
+
+  test("inget att lägga till utan mängd eller för varor som alltid finns", () => {
+    const pantry = [item("1", "salt", null, null)];
+    assert.equal(
+      planPantryAddition(pantry, { name: "salt", amount: 1, unit: "pkt" }, getKey),
+      null
+    );
+    assert.equal(planPantryAddition([], { name: "dill", amount: null, unit: null }, getKey), null);
+  });
+});
+
+describe("pickPantryWeek", () => {
+  test("första veckan från och med innevarande som har rätter kvar", () => {
+    assert.equal(
+      pickPantryWeek(["2026-W45", "2026-W42", "2026-W40", "2026-W43"], "2026-W43"),
+      "2026-W43"
+    );
+    assert.equal(pickPantryWeek(["2027-W01", "2026-W52"], "2026-W43"), "2026-W52");
+    assert.equal(pickPantryWeek(["2026-W40"], "2026-W43"), null);
+  });
+});
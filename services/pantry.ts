@@ -0,0 +1,164 @@
+import type { PantryItem } from "../types";
+import { convertQuantity, getIngredientProfile } from "./unitConversion";
+
+// Skafferiet: drar av det som finns hemma från inköpslistan, minskar lagret när rätter
+// lagas och lägger till det som handlats. Ren modul utan Supabase/DOM.
+
+export type PantryQuantity = {
+  name: string;
+  // null = mängd okänd
+  amount: number | null;
+  unit: string | null;
+};
+
+// Ny mängd för en rad i skafferiet; 0 = slut (raden tas bort).
+export type PantryChange = {
+  id: string;
+  amount: number;
+};
+
+// Jämförelsenyckel för namn, t.ex. via ingredienskatalogen.
+type GetIngredientKey = (name: string) => string;
+
+// Rester under det här räknas som slut (avrundningar vid omräkning).
+const EPSILON = 1e-6;
+
+// Passerat bäst före räknas inte som att det finns hemma.
+export function isPantryItemExpired(item: PantryItem, today: string): boolean {
+  return item.bestBefore !== null && item.bestBefore < today;
+}
+
+// Det som går åt först: tidigast bäst före först, rader utan datum sist.
+function groupStock(
+  pantry: PantryItem[],
+  getKey: GetIngredientKey
+): Map<string, PantryItem[]> {
+  const byKey = new Map<string, PantryItem[]>();
+  [...pantry]
+    .sort((a, b) => (a.bestBefore ?? "9999-12-31").localeCompare(b.bestBefore ?? "9999-12-31"))
+    .forEach((item) => {
+      const key = getKey(item.name);
+      byKey.set(key, [...(byKey.get(key) ?? []), item]);
+    });
+  return byKey;
+}
+
+// Tar så mycket som behövs ur lagret (i radens enhet) och returnerar det som saknas.
+// remaining håller varje skafferirads kvarvarande mängd i dess egen enhet.
+function takeFromStock(
+  needed: number,
+  unit: string | null,
+  name: string,
+  stock: PantryItem[],
+  remaining: Map<string, number>
+): number {
+  const profile = getIngredientProfile(name);
+  let missing = needed;
+  for (const item of stock) {
+    if (missing <= EPSILON) break;
+    const left = remaining.get(item.id) ?? 0;
+    if (left <= EPSILON) continue;
+    const available = convertQuantity(left, item.unit, unit, profile);
+    if (available === null || available <= EPSILON) continue;
+    const used = Math.min(available, missing);
+    missing -= used;
+    remaining.set(item.id, left * (1 - used / available));
+  }
+  return Math.max(0, missing);
+}
+
+// Drar av skafferiet från inköpslistans rader. Rader som täcks helt försvinner; en vara
+// utan mängd i skafferiet ("finns alltid hemma") täcker hela behovet.
+export function subtractPantryStock<T extends { name: string; amount: number; unit: string | null }>(
+  rows: T[],
+  pantry: PantryItem[],
+  getKey: GetIngredientKey,
+  today: string
+): T[] {
+  const usable = pantry.filter((item) => !isPantryItemExpired(item, today));
+  const byKey = groupStock(usable, getKey);
+  const remaining = new Map(usable.map((item) => [item.id, item.amount ?? 0]));
+
+  return rows.flatMap((row) => {
+    const stock = byKey.get(getKey(row.name)) ?? [];
+    if (stock.some((item) => item.amount === null)) return [];
+    const missing = takeFromStock(row.amount, row.unit, row.name, stock, remaining);
+    return missing > EPSILON ? [{ ...row, amount: missing }] : [];
+  });
+}
+
+// För rader utan mängd ("lite persilja"): finns ingrediensen hemma över huvud taget?
+export function hasPantryStock(
+  name: string,
+  pantry: PantryItem[],
+  getKey: GetIngredientKey,
+  today: string
+): boolean {
+  const key = getKey(name);
+  return pantry.some(
+    (item) =>
+      !isPantryItemExpired(item, today) &&
+      (item.amount === null || item.amount > EPSILON) &&
+      getKey(item.name) === key
+  );
+}
+
+// Minskar lagret med det som gått åt. Varor utan mängd i skafferiet lämnas orörda, och
+// det som inte går att räkna om (t.ex. "1 burk" mot gram) dras inte av.
+export function planPantryDeduction(
+  pantry: PantryItem[],
+  used: PantryQuantity[],
+  getKey: GetIngredientKey
+): PantryChange[] {
+  const counted = pantry.filter((item) => item.amount !== null);
+  const byKey = groupStock(counted, getKey);
+  const remaining = new Map(counted.map((item) => [item.id, item.amount as number]));
+
+  used.forEach((quantity) => {
+    if (quantity.amount === null || quantity.amount <= 0) return;
+    const stock = byKey.get(getKey(quantity.name)) ?? [];
+    takeFromStock(quantity.amount, quantity.unit, quantity.name, stock, remaining);
+  });
+
+  return counted.flatMap((item) => {
+    const left = remaining.get(item.id) ?? 0;
+    if (Math.abs(left - (item.amount as number)) <= EPSILON) return [];
+    return [{ id: item.id, amount: left > EPSILON ? left : 0 }];
+  });
+}
+
+// Det som handlats läggs på en befintlig rad om enheten går att räkna om, annars blir det
+// en ny rad (id = null). Rader med bäst före-datum är egna partier och får inget tillägg.
+// null = inget att lägga till (mängd saknas eller varan finns alltid hemma).
+export function planPantryAddition(
+  pantry: PantryItem[],
+  bought: PantryQuantity,
+  getKey: GetIngredientKey
+): (Omit<PantryItem, "id"> & { id: string | null }) | null {
+  if (bought.amount === null || bought.amount <= 0) return null;
+  const key = getKey(bought.name);
+  const sameIngredient = pantry.filter((item) => getKey(item.name) === key);
+  if (sameIngredient.some((item) => item.amount === null)) return null;
+
+  const profile = getIngredientProfile(bought.name);
+  for (const item of sameIngredient) {
+    if (item.bestBefore !== null) continue;
+    const converted = convertQuantity(bought.amount, bought.unit, item.unit, profile);
+    if (converted === null) continue;
+    return { ...item, amount: (item.amount as number) + converted };
+  }
+
+  return {
+    id: null,
+    name: bought.name.trim(),
+    amount: bought.amount,
+    unit: bought.unit,
+    bestBefore: null,
+  };
+}
+
+// Lagret räknas av mot en vecka i taget: den första veckan från och med innevarande som har
+// rätter kvar att laga. Annars drar varje öppen veckas lista av samma lager.
+export function pickPantryWeek(openWeeks: string[], currentWeek: string): string | null {
+  return [...openWeeks].filter((week) => week >= currentWeek).sort()[0] ?? null;
+}
@@ -0,0 +1,132 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { PantryItem } from "../types";
+import {
+  buildIngredientIndex,
+  mergeIngredientCatalog,
+  resolveIngredientName,
+} from "./ingredientCatalog";
+import { fetchIngredientCatalog } from "./ingredientCatalogService";
+import { planPantryDeduction, type PantryChange, type PantryQuantity } from "./pantry";
+import { fetchRecipeFull } from "./recipeContentService";
+
+type DbPantryItem = {
+  id: string;
+  name: string;
+  amount: number | string | null;
+  unit: string | null;
+  best_before: string | null;
+};
+
+const PANTRY_ITEM_COLUMNS = "id,name,amount,unit,best_before";
+
+function toNullableNumber(value: number | string | null): number | null {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Tre decimaler räcker och gör att omräkningar inte ger långa svansar.
+function roundAmount(amount: number | null): number | null {
+  return amount === null ? null : Math.round(amount * 1000) / 1000;
+}
+
+function toPantryItem(row: DbPantryItem): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    amount: toNullableNumber(row.amount),
+    unit: row.unit,
+    bestBefore: row.best_before,
+  };
+}
+
+export async function fetchPantryItems(): Promise<PantryItem[]> {
+  const { data, error } = await supabase
+    .from("pantry_items")
+    .select(PANTRY_ITEM_COLUMNS)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as DbPantryItem[]).map(toPantryItem);
+}
+
+// Utan id skapas en ny rad.
+export async function savePantryItem(
+  item: Omit<PantryItem, "id"> & { id?: string | null }
+): Promise<PantryItem> {
+  const patch = {
+    name: item.name.trim(),
+    amount: roundAmount(item.amount),
+    unit: item.unit?.trim() || null,
+    best_before: item.bestBefore || null,
+  };
+  const query = item.id
+    ? supabase.from("pantry_items").update(patch).eq("id", item.id)
+    : supabase.from("pantry_items").insert({ ...patch, user_id: await getCurrentUserId() });
+  const { data, error } = await query.select(PANTRY_ITEM_COLUMNS).single();
+
+  if (error) throw error;
+  return toPantryItem(data as DbPantryItem);
+}
+
+export async function deletePantryItem(id: string): Promise<void> {
+  const { error } = await supabase.from("pantry_items").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Rader som tar slut tas bort.
+export async function applyPantryChanges(changes: PantryChange[]): Promise<void> {
+  const emptied = changes.filter((change) => change.amount <= 0).map((change) => change.id);
+  for (const change of changes) {
+    if (change.amount <= 0) continue;
+    const { error } = await supabase
+      .from("pantry_items")
+      .update({ amount: roundAmount(change.amount) })
+      .eq("id", change.id);
+    if (error) throw error;
+  }
+
+  if (emptied.length > 0) {
+    const { error } = await supabase.from("pantry_items").delete().in("id", emptied);
+    if (error) throw error;
+  }
+}
+
+// Drar av lagade rätters ingredienser (skalade till portionerna) från skafferiet.
+export async function deductCookedDishes(
+  dishes: Array<{ recipeId: number; servings: number }>
+): Promise<void> {
+  if (dishes.length === 0) return;
+
+  const recipeIds = Array.from(new Set(dishes.map((dish) => dish.recipeId)));
+  const [pantry, catalog, fullRecipes] = await Promise.all([
+    fetchPantryItems(),
+    // Utan egna poster räcker de inbyggda för att känna igen namnen.
+    fetchIngredientCatalog().catch(() => mergeIngredientCatalog([])),
+    Promise.all(recipeIds.map((id) => fetchRecipeFull(id))),
+  ]);
+  if (pantry.length === 0) return;
+
+  const fullById = new Map(recipeIds.map((id, index) => [id, fullRecipes[index]]));
+  const used: PantryQuantity[] = dishes.flatMap(({ recipeId, servings }) => {
+    const full = fullById.get(recipeId);
+    if (!full) return [];
+    const factor = servings / Math.max(1, Math.round(full.recipe.baseServings || 4));
+    return full.ingredients
+      .filter((ingredient) => ingredient.amount !== null)
+      .map((ingredient) => ({
+        name: ingredient.name,
+        amount: (ingredient.amount as number) * factor,
+        unit: ingredient.unit,
+      }));
+  });
+
+  const index = buildIngredientIndex(catalog);
+  const changes = planPantryDeduction(
+    pantry,
+    used,
+    (name) => resolveIngredientName(name, index).key
+  );
+  await applyPantryChanges(changes);
+}
@@ -0,0 +1,60 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { MealSlotPlan, WeekPlan } from "../types";
+import { applyPlanPatch, diffPlanState, isEmptyPlanPatch } from "./planHistory";
+
+const WEEK = "2026-W43";
+const ACTIVE_DAYS = { dinner: [0, 1, 2, 3, 4, 5, 6] };
+
+function dinner(servings: number | null): MealSlotPlan {
+  return {
+    dishes: [{ recipeId: 1, freeText: null }],
+    leftoversFrom: null,
+    servings,
+    guestNote: null,
+  };
+}
+
+function week(servings: number | null): WeekPlan[] {
+  return [
+    {
+      weekIdentifier: WEEK,
+      days: [{ dayId: 0, meals: { dinner: dinner(servings) } }],
+      activeDayIndices: ACTIVE_DAYS,
+    },
+  ];
+}
+
+describe("diffPlanState", () => {
+  test("oförändrade portioner (t.ex. − vid 1 portion) ger ingen ångra-post", () => {
+    const patch = diffPlanState(week(1), week(1), ACTIVE_DAYS);
+    assert.equal(isEmptyPlanPatch(patch), true);
+  });
+
+  test("ändrade portioner ger en post för just den måltiden", () => {
+    const patch = diffPlanState(week(2), week(3), ACTIVE_DAYS);
+    assert.deepEqual(patch, {
+      slots: [
+        { weekIdentifier: WEEK, dayId: 0, slot: "dinner", before: dinner(2), after: dinner(3) },
+      ],
+      activeDays: [],
+    });
+  });
+
+  test("portioner som sätts för första gången räknas som ändring", () => {
+    assert.equal(isEmptyPlanPatch(diffPlanState(week(null), week(4), ACTIVE_DAYS)), false);
+  });
+});
+
+describe("applyPlanPatch", () => {
+  test("ångra och gör om spelar upp ändringen", () => {
+    const patch = diffPlanState(week(2), week(3), ACTIVE_DAYS);
+    assert.deepEqual(applyPlanPatch(week(3), patch, "undo"), { plans: week(2), conflicts: 0 });
+    assert.deepEqual(applyPlanPatch(week(2), patch, "redo"), { plans: week(3), conflicts: 0 });
+  });
+
+  test("måltider som ändrats på annat håll lämnas orörda", () => {
+    const patch = diffPlanState(week(2), week(3), ACTIVE_DAYS);
+    assert.deepEqual(applyPlanPatch(week(5), patch, "undo"), { plans: week(5), conflicts: 1 });
+  });
+});
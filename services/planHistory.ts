@@ -0,0 +1,135 @@
+import type { ActiveDayIndices, MealSlotPlan, MealSlotType, WeekPlan } from "../types";
+
+// Ångra/gör om för veckoplanerna: ändringar sparas måltid för måltid (före/efter) och
+// spelas upp mot det aktuella läget. Ren modul utan Supabase/DOM.
+
+export type SlotPlanChange = {
+  weekIdentifier: string;
+  dayId: number;
+  slot: MealSlotType;
+  before: MealSlotPlan | null;
+  after: MealSlotPlan | null;
+};
+
+export type ActiveDaysChange = {
+  weekIdentifier: string;
+  slot: MealSlotType;
+  before: number[] | null;
+  after: number[] | null;
+};
+
+// En ändring i veckoplanerna, måltid för måltid – så att en ångra bara rör det som ändrades.
+export type WeekPlanPatch = {
+  slots: SlotPlanChange[];
+  activeDays: ActiveDaysChange[];
+};
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Veckor som saknas i prev räknas som tomma med standarddagarna tända (så visas de i appen).
+export function diffPlanState(
+  prev: WeekPlan[],
+  next: WeekPlan[],
+  fallbackActiveDays: ActiveDayIndices
+): WeekPlanPatch {
+  const patch: WeekPlanPatch = { slots: [], activeDays: [] };
+  const weekIds = new Set([...prev, ...next].map((p) => p.weekIdentifier));
+
+  weekIds.forEach((weekIdentifier) => {
+    const prevWeek = prev.find((p) => p.weekIdentifier === weekIdentifier);
+    const nextWeek = next.find((p) => p.weekIdentifier === weekIdentifier);
+
+    for (let dayId = 0; dayId <= 6; dayId += 1) {
+      const prevMeals = prevWeek?.days.find((d) => d.dayId === dayId)?.meals ?? {};
+      const nextMeals = nextWeek?.days.find((d) => d.dayId === dayId)?.meals ?? {};
+      new Set([...Object.keys(prevMeals), ...Object.keys(nextMeals)]).forEach((slot) => {
+        const before = prevMeals[slot] ?? null;
+        const after = nextMeals[slot] ?? null;
+        if (isSameValue(before, after)) return;
+        patch.slots.push({ weekIdentifier, dayId, slot, before, after });
+      });
+    }
+
+    const prevActive = prevWeek
+      ? prevWeek.activeDayIndices ?? fallbackActiveDays
+      : fallbackActiveDays;
+    const nextActive = nextWeek
+      ? nextWeek.activeDayIndices ?? fallbackActiveDays
+      : prevActive;
+    new Set([...Object.keys(prevActive), ...Object.keys(nextActive)]).forEach((slot) => {
+      const before = prevActive[slot] ?? null;
+      const after = nextActive[slot] ?? null;
+      if (isSameValue(before, after)) return;
+      patch.activeDays.push({ weekIdentifier, slot, before, after });
+    });
+  });
+
+  return patch;
+}
+
+export function isEmptyPlanPatch(patch: WeekPlanPatch): boolean {
+  return patch.slots.length === 0 && patch.activeDays.length === 0;
+}
+
+// Spelar upp en ändring bakåt (undo) eller framåt (redo). Måltider som har ändrats på annat
+// håll sedan dess lämnas orörda och räknas som konflikter.
+export function applyPlanPatch(
+  plans: WeekPlan[],
+  patch: WeekPlanPatch,
+  direction: "undo" | "redo"
+): { plans: WeekPlan[]; conflicts: number } {
+  const expectedKey = direction === "undo" ? "after" : "before";
+  const targetKey = direction === "undo" ? "before" : "after";
+  let conflicts = 0;
+
+  const weeks = new Map<string, WeekPlan>(
+    plans.map((week) => [
+      week.weekIdentifier,
+      {
+        ...week,
+        days: week.days.map((day) => ({ ...day, meals: { ...day.meals } })),
+        activeDayIndices: week.activeDayIndices ? { ...week.activeDayIndices } : undefined,
+      },
+    ])
+  );
+  const getWeek = (weekIdentifier: string): WeekPlan => {
+    const existing = weeks.get(weekIdentifier);
+    if (existing) return existing;
+    const created: WeekPlan = { weekIdentifier, days: [], activeDayIndices: {} };
+    weeks.set(weekIdentifier, created);
+    return created;
+  };
+
+  patch.slots.forEach((change) => {
+    const week = getWeek(change.weekIdentifier);
+    let day = week.days.find((d) => d.dayId === change.dayId);
+    if (!isSameValue(day?.meals[change.slot], change[expectedKey])) {
+      conflicts += 1;
+      return;
+    }
+    if (!day) {
+      day = { dayId: change.dayId, meals: {} };
+      week.days = [...week.days, day].sort((a, b) => a.dayId - b.dayId);
+    }
+    const value = change[targetKey];
+    if (value) day.meals[change.slot] = value;
+    else delete day.meals[change.slot];
+  });
+
+  patch.activeDays.forEach((change) => {
+    const week = getWeek(change.weekIdentifier);
+    const activeDayIndices = { ...(week.activeDayIndices ?? {}) };
+    if (!isSameValue(activeDayIndices[change.slot], change[expectedKey])) {
+      conflicts += 1;
+      return;
+    }
+    const value = change[targetKey];
+    if (value) activeDayIndices[change.slot] = value;
+    else delete activeDayIndices[change.slot];
+    week.activeDayIndices = activeDayIndices;
+  });
+
+  return { plans: Array.from(weeks.values()), conflicts };
+}
@@ -560,3 +560,37 @@ export async function fetchRecipeFull(recipeId: number): Promise<RecipeFull> {
     })),
   };
 }
+
+// Ingrediensnamn per recept (gemener, utan dubbletter) – används av veckogeneratorn.
+export async function fetchIngredientNamesByRecipe(
+  recipeIds: number[]
+): Promise<Record<number, string[]>> {
+  if (recipeIds.length === 0) return {};
+  const userId = await getCurrentUserId();
+
+  const { data, error } = await supabase
+    .from("recipe_ingredients")
+    .select("recipe_id,name,exclude_from_shopping")
+    .in("recipe_id", recipeIds)
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(buildSupabaseErrorMessage("fetch ingredient names", error));
+  }
+
+  const byRecipe: Record<number, Set<string>> = {};
+  for (const row of (data ?? []) as Array<{
+    recipe_id: number;
+    name: string | null;
+    exclude_from_shopping: boolean | null;
+  }>) {
+    const name = (row.name ?? "").trim().toLowerCase();
+    if (!name || row.exclude_from_shopping) continue;
+    (byRecipe[row.recipe_id] ??= new Set()).add(name);
+  }
+
+  const out: Record<number, string[]> = {};
+  for (const [recipeId, names] of Object.entries(byRecipe)) {
+    out[Number(recipeId)] = Array.from(names);
+  }
+  return out;
+}
@@ -0,0 +1,311 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { ShoppingListItem, WeekShoppingList } from "../types";
+
+type DbShoppingList = {
+  id: string;
+  week_identifier: string;
+  merges: unknown;
+  excluded_dish_keys: unknown;
+  updated_at: string;
+};
+
+type DbShoppingListItem = {
+  id: string;
+  list_id: string;
+  source: string;
+  generated_key: string | null;
+  name: string;
+  amount: number | string | null;
+  unit: string | null;
+  checked: boolean;
+  checked_amount: number | string | null;
+  removed: boolean;
+  sort_order: number;
+  in_pantry: boolean | null;
+};
+
+// En rad som räknats fram ur veckans recept (efter sammanslagningar och bortvalda rätter).
+export type GeneratedShoppingRow = {
+  key: string;
+  name: string;
+  // null = mängd saknas i receptet ("lite persilja")
+  amount: number | null;
+  unit: string | null;
+};
+
+export type GeneratedItemChanges = {
+  inserts: GeneratedShoppingRow[];
+  updates: Array<{ id: string; row: GeneratedShoppingRow }>;
+  deletes: string[];
+};
+
+const SHOPPING_LIST_COLUMNS = "id,week_identifier,merges,excluded_dish_keys,updated_at";
+const SHOPPING_LIST_ITEM_COLUMNS =
+  "id,list_id,source,generated_key,name,amount,unit,checked,checked_amount,removed,sort_order,in_pantry";
+
+function toNullableNumber(value: number | string | null): number | null {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Mängder sparas med tre decimaler så att omräkningar inte ger ändringar i onödan.
+function roundAmount(amount: number | null): number | null {
+  return amount === null ? null : Math.round(amount * 1000) / 1000;
+}
+
+function toWeekShoppingList(row: DbShoppingList): WeekShoppingList {
+  const merges =
+    row.merges && typeof row.merges === "object" && !Array.isArray(row.merges)
+      ? Object.fromEntries(
+          Object.entries(row.merges as Record<string, unknown>).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string"
+          )
+        )
+      : {};
+  return {
+    id: row.id,
+    weekIdentifier: row.week_identifier,
+    merges,
+    excludedDishKeys: Array.isArray(row.excluded_dish_keys)
+      ? row.excluded_dish_keys.filter((key): key is string => typeof key === "string")
+      : [],
+    updatedAt: row.updated_at,
+  };
+}
+
+function toShoppingListItem(row: DbShoppingListItem): ShoppingListItem {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    source: row.source === "generated" ? "generated" : "manual",
+    generatedKey: row.generated_key,
+    name: row.name,
+    amount: toNullableNumber(row.amount),
+    unit: row.unit,
+    checked: row.checked,
+    checkedAmount: toNullableNumber(row.checked_amount),
+    removed: row.removed,
+    sortOrder: row.sort_order,
+    inPantry: !!row.in_pantry,
+  };
+}
+
+export async function fetchShoppingList(weekIdentifier: string): Promise<WeekShoppingList | null> {
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .select(SHOPPING_LIST_COLUMNS)
+    .eq("week_identifier", weekIdentifier)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toWeekShoppingList(data as DbShoppingList) : null;
+}
+
+// Hämtar veckans lista eller skapar den. Två enheter som skapar samtidigt får samma rad.
+export async function ensureShoppingList(weekIdentifier: string): Promise<WeekShoppingList> {
+  const existing = await fetchShoppingList(weekIdentifier);
+  if (existing) return existing;
+
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .insert({ user_id: userId, week_identifier: weekIdentifier })
+    .select(SHOPPING_LIST_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      const created = await fetchShoppingList(weekIdentifier);
+      if (created) return created;
+    }
+    throw error;
+  }
+  return toWeekShoppingList(data as DbShoppingList);
+}
+
+export async function fetchShoppingListItems(listId: string): Promise<ShoppingListItem[]> {
+  const { data, error } = await supabase
+    .from("shopping_list_items")
+    .select(SHOPPING_LIST_ITEM_COLUMNS)
+    .eq("list_id", listId)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as DbShoppingListItem[]).map(toShoppingListItem);
+}
+
+export async function updateShoppingListEdits(
+  listId: string,
+  patch: { merges?: Record<string, string>; excludedDishKeys?: string[] }
+): Promise<void> {
+  const dbPatch: Record<string, unknown> = {};
+  if (patch.merges) dbPatch.merges = patch.merges;
+  if (patch.excludedDishKeys) dbPatch.excluded_dish_keys = patch.excludedDishKeys;
+  const { error } = await supabase.from("shopping_lists").update(dbPatch).eq("id", listId);
+  if (error) throw error;
+}
+
+// Jämför framräknade rader med sparade. Avbockade rader behåller sin bock även när
+// mängden ändras eller rätten försvinner ur planen (varan är redan köpt). Bortvalda rader
+// behåller sitt val. Med allowRemovals = false (något recept kunde inte läsas) tas inget
+// bort, så att en tillfällig läsmiss inte tömmer listan.
+export function planGeneratedItemChanges(
+  items: ShoppingListItem[],
+  rows: GeneratedShoppingRow[],
+  options: { allowRemovals: boolean }
+): GeneratedItemChanges {
+  const itemsByKey = new Map(
+    items
+      .filter((item) => item.source === "generated" && item.generatedKey)
+      .map((item) => [item.generatedKey as string, item])
+  );
+  const changes: GeneratedItemChanges = { inserts: [], updates: [], deletes: [] };
+  const wantedKeys = new Set<string>();
+
+  rows.forEach((row) => {
+    wantedKeys.add(row.key);
+    const next = { ...row, amount: roundAmount(row.amount) };
+    const existing = itemsByKey.get(row.key);
+    if (!existing) {
+      changes.inserts.push(next);
+    } else if (
+      existing.name !== next.name ||
+      existing.unit !== next.unit ||
+      roundAmount(existing.amount) !== next.amount
+    ) {
+      changes.updates.push({ id: existing.id, row: next });
+    }
+  });
+
+  if (options.allowRemovals) {
+    itemsByKey.forEach((item, key) => {
+      if (!wantedKeys.has(key) && !item.checked) changes.deletes.push(item.id);
+    });
+  }
+
+  return changes;
+}
+
+export function hasGeneratedItemChanges(changes: GeneratedItemChanges): boolean {
+  return (
+    changes.inserts.length > 0 || changes.updates.length > 0 || changes.deletes.length > 0
+  );
+}
+
+// Nya rader hamnar sist i listans ordning.
+export async function applyGeneratedItemChanges(
+  listId: string,
+  changes: GeneratedItemChanges,
+  nextSortOrder: number
+): Promise<void> {
+  const userId = await getCurrentUserId();
+
+  if (changes.inserts.length > 0) {
+    const { error } = await supabase.from("shopping_list_items").upsert(
+      changes.inserts.map((row, index) => ({
+        list_id: listId,
+        user_id: userId,
+        source: "generated",
+        generated_key: row.key,
+        name: row.name,
+        amount: row.amount,
+        unit: row.unit,
+        sort_order: nextSortOrder + index,
+      })),
+      // En annan enhet kan ha hunnit lägga in samma rad – då behålls dess bock och plats.
+      { onConflict: "list_id,generated_key", ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  }
+
+  for (const { id, row } of changes.updates) {
+    const { error } = await supabase
+      .from("shopping_list_items")
+      .update({ name: row.name, amount: row.amount, unit: row.unit })
+      .eq("id", id);
+    if (error) throw error;
+  }
+
+  if (changes.deletes.length > 0) {
+    const { error } = await supabase
+      .from("shopping_list_items")
+      .delete()
+      .in("id", changes.deletes);
+    if (error) throw error;
+  }
+}
+
+export async function setShoppingItemChecked(
+  item: ShoppingListItem,
+  checked: boolean
+): Promise<void> {
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .update({ checked, checked_amount: checked ? item.amount : null })
+    .eq("id", item.id);
+  if (error) throw error;
+}
+
+export async function setShoppingItemsRemoved(
+  listId: string,
+  generatedKeys: string[],
+  removed: boolean
+): Promise<void> {
+  if (generatedKeys.length === 0) return;
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .update({ removed })
+    .eq("list_id", listId)
+    .in("generated_key", generatedKeys);
+  if (error) throw error;
+}
+
+export async function setShoppingItemsInPantry(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .update({ in_pantry: true })
+    .in("id", ids);
+  if (error) throw error;
+}
+
+export async function addManualShoppingItem(
+  listId: string,
+  name: string,
+  sortOrder: number
+): Promise<ShoppingListItem> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("shopping_list_items")
+    .insert({
+      list_id: listId,
+      user_id: userId,
+      source: "manual",
+      name: name.trim(),
+      sort_order: sortOrder,
+    })
+    .select(SHOPPING_LIST_ITEM_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toShoppingListItem(data as DbShoppingListItem);
+}
+
+export async function deleteShoppingItem(id: string): Promise<void> {
+  const { error } = await supabase.from("shopping_list_items").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function updateShoppingItemOrder(
+  updates: Array<{ id: string; sortOrder: number }>
+): Promise<void> {
+  for (const { id, sortOrder } of updates) {
+    const { error } = await supabase
+      .from("shopping_list_items")
+      .update({ sort_order: sortOrder })
+      .eq("id", id);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,69 @@
+import type { StoreProfile } from "../types";
+
+// Avdelningar i butiken och ordningen de besöks i. Ren modul utan Supabase/DOM.
+
+export type IngredientCategory = {
+  id: string;
+  label: string;
+};
+
+// Standardordningen när ingen butik är vald.
+export const INGREDIENT_CATEGORIES: IngredientCategory[] = [
+  { id: "frukt_gront", label: "Frukt & grönt" },
+  { id: "brod", label: "Bröd" },
+  { id: "mejeri", label: "Mejeri & ägg" },
+  { id: "kott", label: "Kött & fågel" },
+  { id: "fisk", label: "Fisk" },
+  { id: "skafferi", label: "Skafferi" },
+  { id: "kryddor", label: "Kryddor" },
+  { id: "frys", label: "Frys" },
+  { id: "dryck", label: "Dryck" },
+  { id: "hushall", label: "Hushåll" },
+];
+
+export type CategoryGroup<T> = {
+  // null = okategoriserat
+  categoryId: string | null;
+  label: string;
+  items: T[];
+};
+
+const CATEGORY_LABELS = new Map(INGREDIENT_CATEGORIES.map((category) => [category.id, category.label]));
+
+export function getCategoryLabel(categoryId: string | null): string {
+  return (categoryId && CATEGORY_LABELS.get(categoryId)) || "Okategoriserat";
+}
+
+// Butikens ordning; avdelningar som saknas i butiken (t.ex. nya) läggs sist.
+export function getCategoryOrder(store: StoreProfile | null): string[] {
+  const known = (store?.categoryOrder ?? []).filter(
+    (id, index, all) => CATEGORY_LABELS.has(id) && all.indexOf(id) === index
+  );
+  return [
+    ...known,
+    ...INGREDIENT_CATEGORIES.map((category) => category.id).filter((id) => !known.includes(id)),
+  ];
+}
+
+// Grupperar i butikens ordning. Okategoriserat först, så att det syns och kan sorteras in.
+// Ordningen inom en grupp behålls.
+export function groupByCategory<T>(
+  items: T[],
+  getCategory: (item: T) => string | null,
+  categoryOrder: string[]
+): CategoryGroup<T>[] {
+  const byCategory = new Map<string | null, T[]>();
+  items.forEach((item) => {
+    const category = getCategory(item);
+    const key = category && CATEGORY_LABELS.has(category) ? category : null;
+    byCategory.set(key, [...(byCategory.get(key) ?? []), item]);
+  });
+
+  return [null, ...categoryOrder]
+    .filter((categoryId) => byCategory.has(categoryId))
+    .map((categoryId) => ({
+      categoryId,
+      label: getCategoryLabel(categoryId),
+      items: byCategory.get(categoryId)!,
+    }));
+}
@@ -0,0 +1,62 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { StoreProfile } from "../types";
+
+type DbStoreProfile = {
+  id: string;
+  name: string;
+  category_order: unknown;
+};
+
+const SELECTED_STORE_KEY = "matplaneraren_selected_store_v1";
+
+function toStoreProfile(row: DbStoreProfile): StoreProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    categoryOrder: Array.isArray(row.category_order)
+      ? row.category_order.filter((id): id is string => typeof id === "string")
+      : [],
+  };
+}
+
+export async function fetchStoreProfiles(): Promise<StoreProfile[]> {
+  const { data, error } = await supabase
+    .from("store_profiles")
+    .select("id,name,category_order")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as DbStoreProfile[]).map(toStoreProfile);
+}
+
+// Utan id skapas en ny butik.
+export async function saveStoreProfile(
+  profile: Omit<StoreProfile, "id"> & { id?: string }
+): Promise<StoreProfile> {
+  const patch = { name: profile.name.trim(), category_order: profile.categoryOrder };
+  const query = profile.id
+    ? supabase.from("store_profiles").update(patch).eq("id", profile.id)
+    : supabase.from("store_profiles").insert({ ...patch, user_id: await getCurrentUserId() });
+  const { data, error } = await query.select("id,name,category_order").single();
+
+  if (error) throw error;
+  return toStoreProfile(data as DbStoreProfile);
+}
+
+export async function deleteStoreProfile(id: string): Promise<void> {
+  const { error } = await supabase.from("store_profiles").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Vald butik sparas per enhet – olika personer kan handla i olika butiker.
+export function getSelectedStoreId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(SELECTED_STORE_KEY);
+}
+
+export function setSelectedStoreId(id: string | null): void {
+  if (typeof window === "undefined") return;
+  if (id) window.localStorage.setItem(SELECTED_STORE_KEY, id);
+  else window.localStorage.removeItem(SELECTED_STORE_KEY);
+}
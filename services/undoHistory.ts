@@ -0,0 +1,59 @@
+// Enkel ångra/gör om-stack. Posterna ska beskriva ändringar (före/efter), inte hela
+// tillstånd, så att ändringar som kommer från andra enheter emellan inte skrivs över.
+
+export type UndoHistory<T> = {
+  past: T[];
+  future: T[];
+};
+
+export const MAX_UNDO_ENTRIES = 50;
+
+export function createUndoHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [] };
+}
+
+// En ny ändring tömmer "gör om".
+export function pushUndoEntry<T>(history: UndoHistory<T>, entry: T): UndoHistory<T> {
+  return { past: [...history.past, entry].slice(-MAX_UNDO_ENTRIES), future: [] };
+}
+
+export function stepUndo<T>(
+  history: UndoHistory<T>
+): { entry: T; history: UndoHistory<T> } | null {
+  const entry = history.past[history.past.length - 1];
+  if (entry === undefined) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+  };
+}
+
+export function stepRedo<T>(
+  history: UndoHistory<T>
+): { entry: T; history: UndoHistory<T> } | null {
+  const entry = history.future[history.future.length - 1];
+  if (entry === undefined) return null;
+  return {
+    entry,
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+  };
+}
+
+// Ctrl/Cmd+Z ångrar, Ctrl/Cmd+Shift+Z eller Ctrl+Y gör om.
+// I textfält får webbläsarens egen ångra gälla.
+export function getUndoShortcut(event: KeyboardEvent): "undo" | "redo" | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  const target = event.target as HTMLElement | null;
+  if (
+    target &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  ) {
+    return null;
+  }
+
+  const key = event.key.toLowerCase();
+  if (key === "z") return event.shiftKey ? "redo" : "undo";
+  if (key === "y" && !event.shiftKey) return "redo";
+  return null;
+}
@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getIngredientProfile, sumQuantities, toDisplayQuantity } from "./unitConversion";
+
+describe("getIngredientProfile", () => {
+  test("exakta namn och hela ord", () => {
+    assert.deepEqual(getIngredientProfile("Lök"), { gramsPerPiece: 100 });
+    assert.deepEqual(getIngredientProfile("gul lök"), { gramsPerPiece: 100 });
+    assert.deepEqual(getIngredientProfile("lök, hackad"), { gramsPerPiece: 100 });
+    assert.deepEqual(getIngredientProfile("kokt ris"), { gramsPerDl: 85 });
+    assert.deepEqual(getIngredientProfile("vispgrädde"), { gramsPerDl: 100 });
+  });
+
+  test("längsta nyckeln vinner", () => {
+    assert.deepEqual(getIngredientProfile("riven  ost"), { gramsPerDl: 40 });
+    assert.deepEqual(getIngredientProfile("rödlök"), { gramsPerPiece: 80 });
+  });
+
+  test("delar av ord matchar inte", () => {
+    assert.equal(getIngredientProfile("vitlök"), null);
+    assert.equal(getIngredientProfile("riskakor"), null);
+    assert.equal(getIngredientProfile("paris"), null);
+    assert.equal(getIngredientProfile("kycklinglår"), null);
+    assert.equal(getIngredientProfile(""), null);
+  });
+});
+
+describe("sumQuantities", () => {
+  const cream = getIngredientProfile("grädde");
+  const egg = getIngredientProfile("ägg");
+
+  test("grundenheten beror bara på ingrediensen", () => {
+    const volumeOnly = sumQuantities([{ amount: 2, unit: "dl" }], cream);
+    const withWeight = sumQuantities(
+      [
+        { amount: 2, unit: "dl" },
+        { amount: 50, unit: "g" },
+      ],
+      cream
+    );
+    assert.deepEqual(volumeOnly, [{ amount: 200, unit: "g", sourceUnits: ["dl"] }]);
+    assert.deepEqual(withWeight, [{ amount: 250, unit: "g", sourceUnits: ["dl", "g"] }]);
+  });
+
+  test("utan profil summeras per grundenhet", () => {
+    assert.deepEqual(
+      sumQuantities([
+        { amount: 2, unit: "dl" },
+        { amount: 3, unit: "msk" },
+        { amount: 100, unit: "g" },
+        { amount: 1, unit: "förp" },
+      ]),
+      [
+        { amount: 245, unit: "ml", sourceUnits: ["dl", "msk"] },
+        { amount: 100, unit: "g", sourceUnits: ["g"] },
+        { amount: 1, unit: "förp", sourceUnits: ["förp"] },
+      ]
+    );
+  });
+
+  test("visas i receptets enhet när alla rader hade samma", () => {
+    const [summed] = sumQuantities(
+      [
+        { amount: 1, unit: "dl" },
+        { amount: 1.5, unit: "dl" },
+      ],
+      cream
+    );
+    assert.deepEqual(toDisplayQuantity(summed.amount, summed.unit, summed.sourceUnits, cream), {
+      amount: 2.5,
+      unit: "dl",
+    });
+
+    const [eggs] = sumQuantities([{ amount: 3, unit: null }], egg);
+    assert.deepEqual(toDisplayQuantity(eggs.amount, eggs.unit, eggs.sourceUnits, egg), {
+      amount: 3,
+      unit: null,
+    });
+  });
+
+  test("blandade enheter visas i den naturligaste", () => {
+    assert.deepEqual(toDisplayQuantity(1250, "g", ["dl", "g"], cream), { amount: 1.25, unit: "kg" });
+    assert.deepEqual(toDisplayQuantity(245, "ml", ["dl", "msk"]), { amount: 2.45, unit: "dl" });
+  });
+});
@@ -0,0 +1,268 @@
+// Svenska köksenheter: räknar om mängder till en grundenhet (ml, g eller st) så att
+// "2 dl grädde" och "3 msk grädde" kan summeras, och väljer en naturlig enhet att visa.
+// Ren modul utan Supabase/DOM.
+
+export type UnitKind = "volume" | "mass" | "count";
+
+// Omräkning mellan volym, vikt och styck för en viss ingrediens.
+export type IngredientProfile = {
+  gramsPerDl?: number;
+  gramsPerPiece?: number;
+};
+
+export type Quantity = {
+  amount: number;
+  unit: string | null;
+};
+
+export type SummedQuantity = {
+  // I grundenheten (ml, g, st, förp ...) eller en okänd enhet som den skrevs
+  amount: number;
+  unit: string;
+  // Enheterna i receptet, för att kunna visa "5 msk" i stället för "0,75 dl"
+  sourceUnits: string[];
+};
+
+type UnitDefinition = {
+  kind: UnitKind;
+  base: string;
+  factor: number;
+};
+
+const UNITS: Record<string, UnitDefinition> = {
+  krm: { kind: "volume", base: "ml", factor: 1 },
+  tsk: { kind: "volume", base: "ml", factor: 5 },
+  msk: { kind: "volume", base: "ml", factor: 15 },
+  ml: { kind: "volume", base: "ml", factor: 1 },
+  cl: { kind: "volume", base: "ml", factor: 10 },
+  dl: { kind: "volume", base: "ml", factor: 100 },
+  l: { kind: "volume", base: "ml", factor: 1000 },
+  g: { kind: "mass", base: "g", factor: 1 },
+  hg: { kind: "mass", base: "g", factor: 100 },
+  kg: { kind: "mass", base: "g", factor: 1000 },
+  st: { kind: "count", base: "st", factor: 1 },
+  // Förpackningar har olika storlek beroende på vara och räknas bara mot sig själva.
+  förp: { kind: "count", base: "förp", factor: 1 },
+  paket: { kind: "count", base: "paket", factor: 1 },
+  burk: { kind: "count", base: "burk", factor: 1 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  kryddmått: "krm",
+  tesked: "tsk",
+  teskedar: "tsk",
+  matsked: "msk",
+  matskedar: "msk",
+  milliliter: "ml",
+  centiliter: "cl",
+  deciliter: "dl",
+  liter: "l",
+  gram: "g",
+  gr: "g",
+  hekto: "hg",
+  kilo: "kg",
+  styck: "st",
+  stycken: "st",
+  förpackning: "förp",
+  förpackningar: "förp",
+  frp: "förp",
+  pkt: "paket",
+  burkar: "burk",
+};
+
+// Ungefärliga värden för vanliga ingredienser. Namn matchas som hela ord ("gul lök" ->
+// "lök"), inte som delar av ord – "vitlök" är inte lök och "riskakor" inte ris – så
+// vanliga sammansättningar står med för sig.
+const INGREDIENT_PROFILES: Record<string, IngredientProfile> = {
+  mjöl: { gramsPerDl: 60 },
+  vetemjöl: { gramsPerDl: 60 },
+  potatismjöl: { gramsPerDl: 80 },
+  socker: { gramsPerDl: 85 },
+  florsocker: { gramsPerDl: 60 },
+  havregryn: { gramsPerDl: 35 },
+  ris: { gramsPerDl: 85 },
+  jasminris: { gramsPerDl: 85 },
+  basmatiris: { gramsPerDl: 85 },
+  risottoris: { gramsPerDl: 85 },
+  kakao: { gramsPerDl: 40 },
+  smör: { gramsPerDl: 95 },
+  olja: { gramsPerDl: 90 },
+  honung: { gramsPerDl: 140 },
+  sirap: { gramsPerDl: 140 },
+  grädde: { gramsPerDl: 100 },
+  vispgrädde: { gramsPerDl: 100 },
+  matlagningsgrädde: { gramsPerDl: 100 },
+  gräddfil: { gramsPerDl: 100 },
+  "crème fraiche": { gramsPerDl: 100 },
+  mjölk: { gramsPerDl: 100 },
+  mellanmjölk: { gramsPerDl: 100 },
+  standardmjölk: { gramsPerDl: 100 },
+  lättmjölk: { gramsPerDl: 100 },
+  filmjölk: { gramsPerDl: 100 },
+  yoghurt: { gramsPerDl: 100 },
+  "riven ost": { gramsPerDl: 40 },
+  ägg: { gramsPerPiece: 60 },
+  lök: { gramsPerPiece: 100 },
+  gullök: { gramsPerPiece: 100 },
+  rödlök: { gramsPerPiece: 80 },
+  vitlöksklyfta: { gramsPerPiece: 5 },
+  vitlöksklyftor: { gramsPerPiece: 5 },
+  potatis: { gramsPerPiece: 100 },
+  morot: { gramsPerPiece: 80 },
+  morötter: { gramsPerPiece: 80 },
+  tomat: { gramsPerPiece: 100 },
+  tomater: { gramsPerPiece: 100 },
+  paprika: { gramsPerPiece: 150 },
+  gurka: { gramsPerPiece: 350 },
+  citron: { gramsPerPiece: 100 },
+  citroner: { gramsPerPiece: 100 },
+  lime: { gramsPerPiece: 70 },
+  äpple: { gramsPerPiece: 150 },
+  äpplen: { gramsPerPiece: 150 },
+  banan: { gramsPerPiece: 120 },
+  bananer: { gramsPerPiece: 120 },
+};
+
+// Gränser (i ml) för vilken volymenhet som känns naturlig, största först.
+const VOLUME_DISPLAY_STEPS: Array<[number, string]> = [
+  [1000, "l"],
+  [100, "dl"],
+  [15, "msk"],
+  [5, "tsk"],
+];
+
+// "Msk." -> "msk", "Matskedar" -> "msk". Okända enheter behålls (gemener), tom blir null.
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  const cleaned = (unit ?? "").trim().toLowerCase().replace(/\.$/, "");
+  if (!cleaned) return null;
+  return UNIT_ALIASES[cleaned] ?? cleaned;
+}
+
+export function getUnitKind(unit: string | null): UnitKind | null {
+  const normalized = normalizeUnit(unit);
+  // Utan enhet ("2 ägg") räknas som styck.
+  if (normalized === null) return "count";
+  return UNITS[normalized]?.kind ?? null;
+}
+
+export function getIngredientProfile(name: string): IngredientProfile | null {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized) return null;
+  if (INGREDIENT_PROFILES[normalized]) return INGREDIENT_PROFILES[normalized];
+
+  // Längsta nyckeln som finns som hela ord ("riven ost" före "ost").
+  const words = ` ${normalized.replace(/[^\p{L}\p{N}]+/gu, " ").trim()} `;
+  let best: string | null = null;
+  for (const key of Object.keys(INGREDIENT_PROFILES)) {
+    if (words.includes(` ${key} `) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? INGREDIENT_PROFILES[best] : null;
+}
+
+function toBaseQuantity(amount: number, unit: string | null): { amount: number; unit: string } {
+  const normalized = normalizeUnit(unit) ?? "st";
+  const definition = UNITS[normalized];
+  return definition
+    ? { amount: amount * definition.factor, unit: definition.base }
+    : { amount, unit: normalized };
+}
+
+function canConvertToGrams(baseUnit: string, profile: IngredientProfile | null): boolean {
+  return (
+    baseUnit === "g" ||
+    (baseUnit === "ml" && !!profile?.gramsPerDl) ||
+    (baseUnit === "st" && !!profile?.gramsPerPiece)
+  );
+}
+
+// Mellan grundenheter; volym och styck går via vikt.
+function convertBaseAmount(
+  amount: number,
+  fromBase: string,
+  toBase: string,
+  profile: IngredientProfile | null
+): number | null {
+  if (fromBase === toBase) return amount;
+  if (!canConvertToGrams(fromBase, profile) || !canConvertToGrams(toBase, profile)) return null;
+
+  const grams =
+    fromBase === "ml"
+      ? (amount / 100) * profile!.gramsPerDl!
+      : fromBase === "st"
+      ? amount * profile!.gramsPerPiece!
+      : amount;
+  if (toBase === "ml") return (grams / profile!.gramsPerDl!) * 100;
+  if (toBase === "st") return grams / profile!.gramsPerPiece!;
+  return grams;
+}
+
+export function convertQuantity(
+  amount: number,
+  fromUnit: string | null,
+  toUnit: string | null,
+  profile: IngredientProfile | null = null
+): number | null {
+  const from = toBaseQuantity(amount, fromUnit);
+  const target = toBaseQuantity(1, toUnit);
+  const converted = convertBaseAmount(from.amount, from.unit, target.unit, profile);
+  return converted === null ? null : converted / target.amount;
+}
+
+export function canConvertUnits(
+  fromUnit: string | null,
+  toUnit: string | null,
+  profile: IngredientProfile | null = null
+): boolean {
+  return convertQuantity(1, fromUnit, toUnit, profile) !== null;
+}
+
+// Summerar mängder av samma ingrediens. Allt som går att räkna om till vikt summeras i
+// gram och resten per grundenhet, så att en rads enhet bara beror på ingrediensen – inte
+// på vilka enheter recepten råkar ha. Det som inte går att räkna om blir egna rader.
+export function sumQuantities(
+  quantities: Quantity[],
+  profile: IngredientProfile | null = null
+): SummedQuantity[] {
+  const groups = new Map<string, SummedQuantity>();
+  quantities.forEach((quantity) => {
+    const sourceUnit = normalizeUnit(quantity.unit) ?? "";
+    let { amount, unit } = toBaseQuantity(quantity.amount, quantity.unit);
+    if (unit !== "g" && canConvertToGrams(unit, profile)) {
+      amount = convertBaseAmount(amount, unit, "g", profile)!;
+      unit = "g";
+    }
+    const group = groups.get(unit);
+    if (group) {
+      group.amount += amount;
+      if (!group.sourceUnits.includes(sourceUnit)) group.sourceUnits.push(sourceUnit);
+    } else {
+      groups.set(unit, { amount, unit, sourceUnits: [sourceUnit] });
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+// Visar i receptets enhet om alla rader hade samma ("2 dl grädde" summeras i gram men
+// visas i dl), annars i den naturligaste (g/kg, krm/tsk/msk/dl/l). Tom enhet = styck
+// utan enhet ("3 ägg").
+export function toDisplayQuantity(
+  amount: number,
+  baseUnit: string,
+  sourceUnits: string[] = [],
+  profile: IngredientProfile | null = null
+): Quantity {
+  if (sourceUnits.length === 1) {
+    const sourceUnit = sourceUnits[0] || null;
+    const converted = convertQuantity(amount, baseUnit, sourceUnit, profile);
+    if (converted !== null) return { amount: converted, unit: sourceUnit };
+  }
+
+  if (baseUnit === "g" && amount >= 1000) return { amount: amount / 1000, unit: "kg" };
+  if (baseUnit === "ml") {
+    const step = VOLUME_DISPLAY_STEPS.find(([limit]) => amount >= limit);
+    const unit = step?.[1] ?? "krm";
+    return { amount: amount / UNITS[unit].factor, unit };
+  }
+  return { amount, unit: baseUnit };
+}
@@ -0,0 +1,167 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratorRule, Recipe } from "../types";
+import {
+  evaluateGeneratorPlan,
+  generateWeekPlan,
+  type GeneratorAssignment,
+  type GeneratorInput,
+  type GeneratorTarget,
+} from "./weekGenerator";
+
+const CATEGORIES = ["Fisk", "Pasta", "Kött", "Vegetariskt", "Soppa"];
+
+function makeRecipes(count: number): Recipe[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    name: `Recept ${index + 1}`,
+    source: null,
+    hasRecipeContent: true,
+    category: CATEGORIES[index % CATEGORIES.length],
+    lastCooked: null,
+    baseServings: 4,
+    totalMinutes: 15 + ((index * 7) % 60),
+  }));
+}
+
+const TARGETS: GeneratorTarget[] = [0, 1, 2, 3, 4, 5, 6].map((dayId) => ({
+  dayId,
+  slot: "dinner",
+  busy: false,
+}));
+
+function makeInput(overrides: Partial<GeneratorInput> = {}): GeneratorInput {
+  return {
+    recipes: makeRecipes(30),
+    targets: TARGETS,
+    rules: [],
+    seed: 42,
+    referenceDate: "2026-10-19",
+    ...overrides,
+  };
+}
+
+const countCategory = (assignments: GeneratorAssignment[], category: string) =>
+  assignments.filter(({ recipe }) => recipe.category === category).length;
+
+describe("generateWeekPlan", () => {
+  test("samma frö ger samma vecka", () => {
+    const input = makeInput({ seed: 1234 });
+    const first = generateWeekPlan(input)!;
+    const second = generateWeekPlan(input)!;
+    assert.deepEqual(
+      first.picks.map(({ target, recipe }) => [target.dayId, recipe.id]),
+      second.picks.map(({ target, recipe }) => [target.dayId, recipe.id])
+    );
+    assert.equal(first.score, second.score);
+  });
+
+  test("olika frön ger olika veckor", () => {
+    const plans = [1, 2, 3, 4, 5].map((seed) =>
+      generateWeekPlan(makeInput({ seed }))!
+        .picks.map(({ recipe }) => recipe.id)
+        .join(",")
+    );
+    assert.ok(new Set(plans).size > 1);
+  });
+
+  test("tom indata ger ingen plan", () => {
+    assert.equal(generateWeekPlan(makeInput({ recipes: [] })), null);
+    assert.equal(generateWeekPlan(makeInput({ targets: [] })), null);
+  });
+
+  test("måste-regel för karens bryts aldrig", () => {
+    const rules: GeneratorRule[] = [
+      { id: "cooldown", kind: "noRepeatWeeks", weeks: 3, weight: 10, hard: true, enabled: true },
+    ];
+    // Recept 1–15 låg i någon av de senaste två veckorna
+    const weeksSincePlanned = Object.fromEntries(
+      Array.from({ length: 15 }, (_, index) => [index + 1, index % 3])
+    );
+
+    for (let seed = 1; seed <= 20; seed += 1) {
+      const result = generateWeekPlan(makeInput({ seed, rules, weeksSincePlanned }))!;
+      const ids = result.picks.map(({ recipe }) => recipe.id);
+      assert.equal(result.hardViolations, 0);
+      assert.equal(new Set(ids).size, ids.length, "inget recept två gånger");
+      assert.ok(ids.every((id) => id > 15), `nyligen planerat valdes (frö ${seed})`);
+    }
+  });
+
+  test("måste-regel för max per vecka bryts aldrig", () => {
+    const rules: GeneratorRule[] = [
+      { id: "pasta", kind: "categoryMax", category: "Pasta", count: 1, weight: 10, hard: true, enabled: true },
+    ];
+    // Nästan bara pasta att välja på
+    const recipes = makeRecipes(30).map((recipe) =>
+      recipe.id <= 27 ? { ...recipe, category: "Pasta" } : recipe
+    );
+
+    for (let seed = 1; seed <= 20; seed += 1) {
+      const result = generateWeekPlan(makeInput({ seed, rules, recipes }))!;
+      assert.equal(result.hardViolations, 0);
+      assert.ok(countCategory(result.picks, "Pasta") <= 1);
+    }
+  });
+
+  test("låsta måltider byts inte ut men räknas in i reglerna", () => {
+    const recipes = makeRecipes(30);
+    const pasta = recipes.find((recipe) => recipe.category === "Pasta")!;
+    const fixed: GeneratorAssignment[] = [
+      { target: { dayId: 0, slot: "dinner", busy: false }, recipe: pasta },
+    ];
+    const rules: GeneratorRule[] = [
+      { id: "pasta", kind: "categoryMax", category: "Pasta", count: 1, weight: 10, hard: true, enabled: true },
+    ];
+
+    for (let seed = 1; seed <= 10; seed += 1) {
+      const result = generateWeekPlan(
+        makeInput({ seed, rules, recipes, fixed, targets: TARGETS.slice(1) })
+      )!;
+      assert.deepEqual(
+        result.picks.map(({ target }) => target.dayId),
+        [1, 2, 3, 4, 5, 6]
+      );
+      assert.equal(countCategory(result.picks, "Pasta"), 0);
+      assert.equal(result.hardViolations, 0);
+    }
+  });
+
+  test("mjuka regler påverkar utfallet", () => {
+    const fishRule: GeneratorRule = {
+      id: "fish",
+      kind: "categoryMin",
+      category: "Fisk",
+      count: 4,
+      weight: 100,
+      hard: false,
+      enabled: true,
+    };
+    let withoutRule = 0;
+    let withRule = 0;
+    for (let seed = 1; seed <= 10; seed += 1) {
+      withoutRule += countCategory(generateWeekPlan(makeInput({ seed }))!.picks, "Fisk");
+      withRule += countCategory(
+        generateWeekPlan(makeInput({ seed, rules: [fishRule] }))!.picks,
+        "Fisk"
+      );
+    }
+    assert.ok(withRule > withoutRule, `${withRule} fisk med regeln, ${withoutRule} utan`);
+    assert.ok(withRule >= 4 * 10 * 0.9);
+  });
+
+  test("avstängda regler ignoreras", () => {
+    const rule: GeneratorRule = {
+      id: "fish",
+      kind: "categoryMin",
+      category: "Fisk",
+      count: 7,
+      weight: 100,
+      hard: true,
+      enabled: false,
+    };
+    const evaluation = evaluateGeneratorPlan([], makeInput({ rules: [rule] }));
+    assert.equal(evaluation.hardViolations, 0);
+    assert.deepEqual(evaluation.planOutcomes, []);
+  });
+});
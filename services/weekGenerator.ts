@@ -0,0 +1,694 @@
+import type {
+  GeneratorRule,
+  GeneratorRuleKind,
+  MealSlotType,
+  QuickOnBusyFallback,
+  Recipe,
+} from "../types";
+import { SWEDISH_DAYS } from "../types";
+
+// Veckogenerator: ren modul utan Supabase/DOM, så samma frö alltid ger samma vecka.
+
+export type GeneratorTarget = {
+  dayId: number;
+  slot: MealSlotType;
+  // Måltiden krockar med kalendern (se busyWindow i MealSlotConfig)
+  busy: boolean;
+};
+
+export type GeneratorAssignment = {
+  target: GeneratorTarget;
+  recipe: Recipe;
+};
+
+export type GeneratorInput = {
+  recipes: Recipe[];
+  targets: GeneratorTarget[];
+  rules: GeneratorRule[];
+  seed: number;
+  // ISO-datum (YYYY-MM-DD) som receptens lastCooked räknas mot, normalt veckans måndag
+  referenceDate: string;
+  // Redan bestämda rätter i veckan som ska vägas in men inte bytas ut
+  fixed?: GeneratorAssignment[];
+  // Antal veckor sedan receptet senast låg i en veckoplan (0 = samma vecka)
+  weeksSincePlanned?: Record<number, number>;
+  // Ingrediensnamn per recept, för regeln "sharedIngredients"
+  ingredientsByRecipe?: Record<number, string[]>;
+  // Antal försök – det bäst poängsatta vinner
+  attempts?: number;
+};
+
+export type RuleOutcome = {
+  ruleId: string;
+  label: string;
+  hard: boolean;
+  satisfied: boolean;
+};
+
+// Ersättning för ett recept som inte hinns med en upptagen dag
+export type GeneratorAlternative =
+  | { kind: "leftovers"; dayId: number; slot: MealSlotType }
+  | { kind: "simpleMeal"; text: string };
+
+export type GeneratorPick = GeneratorAssignment & {
+  outcomes: RuleOutcome[];
+  alternative: GeneratorAlternative | null;
+};
+
+export type GeneratorResult = {
+  picks: GeneratorPick[];
+  // Regler som gäller hela veckan, t.ex. "fisk minst en gång"
+  planOutcomes: RuleOutcome[];
+  score: number;
+  hardViolations: number;
+  seed: number;
+};
+
+type PlanEvaluation = {
+  score: number;
+  hardViolations: number;
+  pickOutcomes: RuleOutcome[][];
+  planOutcomes: RuleOutcome[];
+};
+
+const DEFAULT_ATTEMPTS = 24;
+// Hur "modig" slumpen är bland nästan lika bra kandidater
+const SAMPLING_TEMPERATURE = 12;
+const HARD_VIOLATION_COST = 1000;
+const RECENCY_WEIGHT = 10;
+const DUPLICATE_RECIPE_PENALTY = 40;
+const REPEATED_CATEGORY_PENALTY = 8;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const SIMPLE_MEAL_TEXT = "Enkel mat";
+
+export const QUICK_ON_BUSY_FALLBACKS: QuickOnBusyFallback[] = [
+  "leftovers",
+  "simpleMeal",
+  "recipe",
+];
+
+export const GENERATOR_RULE_KINDS: GeneratorRuleKind[] = [
+  "categoryMin",
+  "categoryMax",
+  "categoryOnDays",
+  "noRepeatWeeks",
+  "quickOnBusy",
+  "sharedIngredients",
+];
+
+export const DEFAULT_GENERATOR_RULES: GeneratorRule[] = [
+  {
+    id: "no-repeat",
+    kind: "noRepeatWeeks",
+    weeks: 2,
+    weight: 30,
+    hard: false,
+    enabled: true,
+  },
+  {
+    id: "fish-min",
+    kind: "categoryMin",
+    category: "Fisk",
+    count: 1,
+    weight: 20,
+    hard: false,
+    enabled: true,
+  },
+  {
+    id: "pasta-max",
+    kind: "categoryMax",
+    category: "Pasta",
+    count: 2,
+    weight: 20,
+    hard: false,
+    enabled: true,
+  },
+  {
+    id: "quick-busy",
+    kind: "quickOnBusy",
+    maxMinutes: 30,
+    fallback: "leftovers",
+    weight: 20,
+    hard: false,
+    enabled: true,
+  },
+  {
+    id: "shared-ingredients",
+    kind: "sharedIngredients",
+    weight: 5,
+    hard: false,
+    enabled: true,
+  },
+  {
+    id: "veg-monday",
+    kind: "categoryOnDays",
+    category: "Vegetariskt",
+    dayIds: [0],
+    weight: 15,
+    hard: false,
+    enabled: false,
+  },
+];
+
+// Mulberry32 – litet, snabbt och deterministiskt.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function describeGeneratorRule(rule: GeneratorRule): string {
+  switch (rule.kind) {
+    case "categoryMin":
+      return `${rule.category} minst ${rule.count} ggr/vecka`;
+    case "categoryMax":
+      return `${rule.category} högst ${rule.count} ggr/vecka`;
+    case "categoryOnDays": {
+      const days = rule.dayIds
+        .map((dayId) => SWEDISH_DAYS[dayId]?.toLowerCase())
+        .filter(Boolean);
+      return `${rule.category} på ${days.join(", ") || "valda dagar"}`;
+    }
+    case "noRepeatWeeks":
+      return `Inget recept upprepas inom ${rule.weeks} veckor`;
+    case "quickOnBusy": {
+      const fallback =
+        rule.fallback === "leftovers"
+          ? ", annars rester"
+          : rule.fallback === "simpleMeal"
+            ? ", annars enkel mat"
+            : "";
+      return `Max ${rule.maxMinutes} min på upptagna dagar${fallback}`;
+    }
+    case "sharedIngredients":
+      return "Återanvänd ingredienser mellan rätter";
+  }
+}
+
+export function createGeneratorRule(
+  kind: GeneratorRuleKind,
+  existingIds: Iterable<string>
+): GeneratorRule {
+  const taken = new Set(existingIds);
+  let suffix = 1;
+  while (taken.has(`${kind}-${suffix}`)) suffix += 1;
+  const base = { id: `${kind}-${suffix}`, enabled: true, hard: false, weight: 20 };
+
+  switch (kind) {
+    case "categoryMin":
+      return { ...base, kind, category: "Fisk", count: 1 };
+    case "categoryMax":
+      return { ...base, kind, category: "Pasta", count: 2 };
+    case "categoryOnDays":
+      return { ...base, kind, category: "Vegetariskt", dayIds: [0] };
+    case "noRepeatWeeks":
+      return { ...base, kind, weeks: 2 };
+    case "quickOnBusy":
+      return { ...base, kind, maxMinutes: 30, fallback: "leftovers" };
+    case "sharedIngredients":
+      return { ...base, kind, weight: 5 };
+  }
+}
+
+function toCount(value: unknown, fallback: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(max, Math.round(n)));
+}
+
+function normalizeGeneratorRule(raw: any): GeneratorRule | null {
+  const id = typeof raw?.id === "string" ? raw.id.trim() : "";
+  const kind = raw?.kind as GeneratorRuleKind;
+  if (!id || !GENERATOR_RULE_KINDS.includes(kind)) return null;
+
+  const fallback = createGeneratorRule(kind, []);
+  const base = {
+    id,
+    enabled: raw?.enabled !== false,
+    hard: raw?.hard === true,
+    weight: toCount(raw?.weight, fallback.weight, 1000),
+  };
+  const category =
+    typeof raw?.category === "string" && raw.category.trim() ? raw.category.trim() : "";
+
+  switch (kind) {
+    case "categoryMin":
+    case "categoryMax":
+      if (!category) return null;
+      return { ...base, kind, category, count: toCount(raw?.count, 1, 21) };
+    case "categoryOnDays": {
+      if (!category) return null;
+      const dayIds: number[] = Array.isArray(raw?.dayIds)
+        ? raw.dayIds
+            .map((d: unknown) => Number(d))
+            .filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6)
+        : [];
+      return {
+        ...base,
+        kind,
+        category,
+        dayIds: Array.from(new Set(dayIds)).sort((a, b) => a - b),
+      };
+    }
+    case "noRepeatWeeks":
+      return { ...base, kind, weeks: Math.max(1, toCount(raw?.weeks, 2, 52)) };
+    case "quickOnBusy":
+      return {
+        ...base,
+        kind,
+        maxMinutes: Math.max(5, toCount(raw?.maxMinutes, 30, 600)),
+        fallback: QUICK_ON_BUSY_FALLBACKS.includes(raw?.fallback) ? raw.fallback : "leftovers",
+      };
+    case "sharedIngredients":
+      return { ...base, kind };
+  }
+}
+
+export function normalizeGeneratorRules(raw: unknown): GeneratorRule[] {
+  if (!Array.isArray(raw)) return DEFAULT_GENERATOR_RULES;
+
+  const byId = new Map<string, GeneratorRule>();
+  for (const item of raw) {
+    const rule = normalizeGeneratorRule(item);
+    if (rule && !byId.has(rule.id)) byId.set(rule.id, rule);
+  }
+  return Array.from(byId.values());
+}
+
+// Total tid räknas i första hand – det är den som avgör om maten hinns med.
+export function getRecipeMinutes(recipe: Recipe): number | null {
+  return recipe.totalMinutes ?? recipe.activeMinutes ?? null;
+}
+
+function parseIsoDate(value: string | null): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+// Samma idé som den gamla getRecencyBonus: längre sedan = högre bonus (max 30 dagar).
+function getRecencyBonus(recipe: Recipe, referenceTime: number | null): number {
+  const lastCooked = parseIsoDate(recipe.lastCooked);
+  if (lastCooked === null || referenceTime === null) return 1;
+  const diffDays = Math.floor((referenceTime - lastCooked) / MS_PER_DAY);
+  return Math.max(0, Math.min(diffDays, 30)) / 30;
+}
+
+function getWeeksSinceUsed(
+  recipe: Recipe,
+  input: GeneratorInput,
+  referenceTime: number | null
+): number | null {
+  const candidates: number[] = [];
+  const planned = input.weeksSincePlanned?.[recipe.id];
+  if (planned !== undefined) candidates.push(planned);
+
+  const lastCooked = parseIsoDate(recipe.lastCooked);
+  if (lastCooked !== null && referenceTime !== null) {
+    candidates.push(Math.max(0, Math.floor((referenceTime - lastCooked) / (MS_PER_DAY * 7))));
+  }
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+export function evaluateGeneratorPlan(
+  assignments: GeneratorAssignment[],
+  input: GeneratorInput
+): PlanEvaluation {
+  const rules = input.rules.filter((rule) => rule.enabled);
+  const referenceTime = parseIsoDate(input.referenceDate);
+  const pickOutcomes: RuleOutcome[][] = assignments.map(() => []);
+  const planOutcomes: RuleOutcome[] = [];
+  let score = 0;
+  let hardViolations = 0;
+
+  const record = (
+    rule: GeneratorRule,
+    satisfied: boolean,
+    pickIndex: number | null,
+    penaltyUnits = 1
+  ) => {
+    const outcome: RuleOutcome = {
+      ruleId: rule.id,
+      label: describeGeneratorRule(rule),
+      hard: rule.hard,
+      satisfied,
+    };
+    if (pickIndex === null) planOutcomes.push(outcome);
+    else pickOutcomes[pickIndex].push(outcome);
+
+    if (satisfied) return;
+    if (rule.hard) hardViolations += 1;
+    else score -= rule.weight * penaltyUnits;
+  };
+
+  // Inbyggd grund: variation och "länge sedan" – motsvarar den gamla viktade slumpen.
+  const seenRecipes = new Set<number>();
+  const categoryCounts = new Map<string, number>();
+  assignments.forEach(({ recipe }) => {
+    score += getRecencyBonus(recipe, referenceTime) * RECENCY_WEIGHT;
+    if (seenRecipes.has(recipe.id)) score -= DUPLICATE_RECIPE_PENALTY;
+    seenRecipes.add(recipe.id);
+    const seen = categoryCounts.get(recipe.category) ?? 0;
+    if (seen > 0) score -= REPEATED_CATEGORY_PENALTY;
+    categoryCounts.set(recipe.category, seen + 1);
+  });
+
+  const ingredientSets = input.ingredientsByRecipe
+    ? assignments.map(
+        ({ recipe }) => new Set(input.ingredientsByRecipe?.[recipe.id] ?? [])
+      )
+    : null;
+
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case "categoryMin": {
+        let matched = 0;
+        assignments.forEach(({ recipe }, index) => {
+          if (recipe.category !== rule.category) return;
+          matched += 1;
+          if (matched <= rule.count) record(rule, true, index);
+        });
+        const missing = rule.count - matched;
+        record(rule, missing <= 0, null, Math.max(0, missing));
+        break;
+      }
+      case "categoryMax": {
+        let matched = 0;
+        assignments.forEach(({ recipe }, index) => {
+          if (recipe.category !== rule.category) return;
+          matched += 1;
+          record(rule, matched <= rule.count, index);
+        });
+        break;
+      }
+      case "categoryOnDays":
+        assignments.forEach(({ target, recipe }, index) => {
+          if (!rule.dayIds.includes(target.dayId)) return;
+          record(rule, recipe.category === rule.category, index);
+        });
+        break;
+      case "noRepeatWeeks": {
+        const used = new Set<number>();
+        assignments.forEach(({ recipe }, index) => {
+          const weeksAgo = getWeeksSinceUsed(recipe, input, referenceTime);
+          const repeatedInPlan = used.has(recipe.id);
+          used.add(recipe.id);
+          record(rule, !repeatedInPlan && (weeksAgo === null || weeksAgo >= rule.weeks), index);
+        });
+        break;
+      }
+      case "quickOnBusy":
+        assignments.forEach(({ target, recipe }, index) => {
+          if (!target.busy) return;
+          const minutes = getRecipeMinutes(recipe);
+          if (minutes === null) return;
+          record(rule, minutes <= rule.maxMinutes, index);
+        });
+        break;
+      case "sharedIngredients": {
+        if (!ingredientSets) break;
+        assignments.forEach((_, index) => {
+          const own = ingredientSets[index];
+          let shared = 0;
+          own.forEach((name) => {
+            const inOther = ingredientSets.some(
+              (other, otherIndex) => otherIndex !== index && other.has(name)
+            );
+            if (inOther) shared += 1;
+          });
+          if (shared === 0) return;
+          record(rule, true, index);
+          if (!rule.hard) score += (rule.weight * Math.min(shared, 3)) / 3;
+        });
+        break;
+      }
+    }
+  }
+
+  return { score, hardViolations, pickOutcomes, planOutcomes };
+}
+
+type PlanScorer = {
+  // Vad det kostar att lägga till rätten i planen så långt (lägre = bättre)
+  cost: (target: GeneratorTarget, recipe: Recipe) => number;
+  add: (assignment: GeneratorAssignment) => void;
+};
+
+// Poängsätter en kandidat bara för det den ändrar – samma skillnader som
+// evaluateGeneratorPlan ger, utan att räkna om hela planen för varje kandidat.
+function createPlanScorer(input: GeneratorInput): PlanScorer {
+  const rules = input.rules.filter((rule) => rule.enabled);
+  const referenceTime = parseIsoDate(input.referenceDate);
+  const recipeFacts = new Map<
+    number,
+    { recency: number; weeksAgo: number | null; minutes: number | null; ingredients: string[] }
+  >();
+  const getFacts = (recipe: Recipe) => {
+    let facts = recipeFacts.get(recipe.id);
+    if (!facts) {
+      facts = {
+        recency: getRecencyBonus(recipe, referenceTime),
+        weeksAgo: getWeeksSinceUsed(recipe, input, referenceTime),
+        minutes: getRecipeMinutes(recipe),
+        ingredients: Array.from(new Set(input.ingredientsByRecipe?.[recipe.id] ?? [])),
+      };
+      recipeFacts.set(recipe.id, facts);
+    }
+    return facts;
+  };
+
+  const recipeCounts = new Map<number, number>();
+  const categoryCounts = new Map<string, number>();
+  // Vilka rätter i planen (index) som har ingrediensen, och hur många delade var och en har
+  const ingredientOwners = new Map<string, number[]>();
+  const sharedCounts: number[] = [];
+
+  const sharedBonus = (weight: number, shared: number) => (weight * Math.min(shared, 3)) / 3;
+
+  const cost = (target: GeneratorTarget, recipe: Recipe) => {
+    const facts = getFacts(recipe);
+    const sameCategory = categoryCounts.get(recipe.category) ?? 0;
+    let score = facts.recency * RECENCY_WEIGHT;
+    let hardViolations = 0;
+    if (recipeCounts.has(recipe.id)) score -= DUPLICATE_RECIPE_PENALTY;
+    if (sameCategory > 0) score -= REPEATED_CATEGORY_PENALTY;
+
+    const violate = (rule: GeneratorRule) => {
+      if (rule.hard) hardViolations += 1;
+      else score -= rule.weight;
+    };
+
+    for (const rule of rules) {
+      switch (rule.kind) {
+        case "categoryMin":
+          // Planens brist minskar med ett
+          if (recipe.category !== rule.category || sameCategory >= rule.count) break;
+          if (!rule.hard) score += rule.weight;
+          else if (sameCategory + 1 === rule.count) hardViolations -= 1;
+          break;
+        case "categoryMax":
+          if (recipe.category === rule.category && sameCategory + 1 > rule.count) violate(rule);
+          break;
+        case "categoryOnDays":
+          if (rule.dayIds.includes(target.dayId) && recipe.category !== rule.category) {
+            violate(rule);
+          }
+          break;
+        case "noRepeatWeeks":
+          if (
+            recipeCounts.has(recipe.id) ||
+            (facts.weeksAgo !== null && facts.weeksAgo < rule.weeks)
+          ) {
+            violate(rule);
+          }
+          break;
+        case "quickOnBusy":
+          if (target.busy && facts.minutes !== null && facts.minutes > rule.maxMinutes) {
+            violate(rule);
+          }
+          break;
+        case "sharedIngredients": {
+          if (!input.ingredientsByRecipe || rule.hard) break;
+          let shared = 0;
+          const gained = new Map<number, number>();
+          facts.ingredients.forEach((name) => {
+            const owners = ingredientOwners.get(name) ?? [];
+            if (owners.length === 0) return;
+            shared += 1;
+            // Ingrediensen blir delad för den enda rätt som hade den
+            if (owners.length === 1) gained.set(owners[0], (gained.get(owners[0]) ?? 0) + 1);
+          });
+          score += sharedBonus(rule.weight, shared);
+          gained.forEach((extra, index) => {
+            score +=
+              sharedBonus(rule.weight, sharedCounts[index] + extra) -
+              sharedBonus(rule.weight, sharedCounts[index]);
+          });
+          break;
+        }
+      }
+    }
+
+    return hardViolations * HARD_VIOLATION_COST - score;
+  };
+
+  const add = ({ recipe }: GeneratorAssignment) => {
+    const index = sharedCounts.length;
+    sharedCounts.push(0);
+    recipeCounts.set(recipe.id, (recipeCounts.get(recipe.id) ?? 0) + 1);
+    categoryCounts.set(recipe.category, (categoryCounts.get(recipe.category) ?? 0) + 1);
+    getFacts(recipe).ingredients.forEach((name) => {
+      const owners = ingredientOwners.get(name) ?? [];
+      if (owners.length > 0) sharedCounts[index] += 1;
+      if (owners.length === 1) sharedCounts[owners[0]] += 1;
+      ingredientOwners.set(name, [...owners, index]);
+    });
+  };
+
+  return { cost, add };
+}
+
+function isBetter(a: PlanEvaluation, b: PlanEvaluation | null): boolean {
+  if (!b) return true;
+  if (a.hardViolations !== b.hardViolations) return a.hardViolations < b.hardViolations;
+  return a.score > b.score;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Väljer en kandidat viktat mot de bästa – ger variation utan att tappa reglerna.
+function sampleCandidate<T>(
+  candidates: Array<{ value: T; cost: number }>,
+  random: () => number
+): T {
+  const best = Math.min(...candidates.map((c) => c.cost));
+  const weights = candidates.map((c) => Math.exp(-(c.cost - best) / SAMPLING_TEMPERATURE));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = random() * total;
+  for (let i = 0; i < candidates.length; i += 1) {
+    roll -= weights[i];
+    if (roll <= 0) return candidates[i].value;
+  }
+  return candidates[candidates.length - 1].value;
+}
+
+// Upptagna måltider där inte ens bästa receptet hinns med byts mot rester från en
+// tidigare dag i veckan (närmast först, varje måltid används en gång) eller enkel mat.
+function findAlternatives(
+  assignments: GeneratorAssignment[],
+  fixed: GeneratorAssignment[],
+  rules: GeneratorRule[]
+): Array<GeneratorAlternative | null> {
+  const rule = rules.find(
+    (r): r is Extract<GeneratorRule, { kind: "quickOnBusy" }> =>
+      r.enabled && r.kind === "quickOnBusy"
+  );
+  const alternatives: Array<GeneratorAlternative | null> = assignments.map(() => null);
+  if (!rule || rule.fallback === "recipe") return alternatives;
+
+  const isTooSlow = ({ target, recipe }: GeneratorAssignment) => {
+    if (!target.busy) return false;
+    const minutes = getRecipeMinutes(recipe);
+    return minutes !== null && minutes > rule.maxMinutes;
+  };
+
+  const replaced = new Set<number>();
+  assignments.forEach((assignment, index) => {
+    if (isTooSlow(assignment)) replaced.add(index);
+  });
+
+  const sources = [
+    ...fixed.map((assignment) => ({ assignment, index: null as number | null })),
+    ...assignments.map((assignment, index) => ({ assignment, index })),
+  ].filter(({ index }) => index === null || !replaced.has(index));
+  const usedSources = new Set<string>();
+
+  assignments.forEach((assignment, index) => {
+    if (!replaced.has(index)) return;
+    if (rule.fallback === "leftovers") {
+      const source = sources
+        .filter(({ assignment: candidate }) => candidate.target.dayId < assignment.target.dayId)
+        .filter(
+          ({ assignment: candidate }) =>
+            !usedSources.has(`${candidate.target.dayId}|${candidate.target.slot}`)
+        )
+        .sort((a, b) => b.assignment.target.dayId - a.assignment.target.dayId)[0];
+      if (source) {
+        const { dayId, slot } = source.assignment.target;
+        usedSources.add(`${dayId}|${slot}`);
+        alternatives[index] = { kind: "leftovers", dayId, slot };
+        return;
+      }
+    }
+    alternatives[index] = { kind: "simpleMeal", text: SIMPLE_MEAL_TEXT };
+  });
+
+  return alternatives;
+}
+
+export function generateWeekPlan(input: GeneratorInput): GeneratorResult | null {
+  if (input.recipes.length === 0 || input.targets.length === 0) return null;
+
+  const random = createSeededRandom(input.seed);
+  const fixed = input.fixed ?? [];
+  const attempts = Math.max(1, input.attempts ?? DEFAULT_ATTEMPTS);
+
+  let bestAssignments: GeneratorAssignment[] | null = null;
+  let bestEvaluation: PlanEvaluation | null = null;
+
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    const picked = new Map<GeneratorTarget, Recipe>();
+    const scorer = createPlanScorer(input);
+    fixed.forEach(scorer.add);
+
+    for (const target of shuffle(input.targets, random)) {
+      const candidates = input.recipes.map((recipe) => ({
+        value: recipe,
+        cost: scorer.cost(target, recipe),
+      }));
+      const recipe = sampleCandidate(candidates, random);
+      picked.set(target, recipe);
+      scorer.add({ target, recipe });
+    }
+
+    // Behåll ursprunglig ordning (dag för dag) så förklaringen blir läsbar.
+    const assignments = input.targets.map((target) => ({
+      target,
+      recipe: picked.get(target)!,
+    }));
+    const evaluation = evaluateGeneratorPlan([...fixed, ...assignments], input);
+    if (isBetter(evaluation, bestEvaluation)) {
+      bestEvaluation = evaluation;
+      bestAssignments = assignments;
+    }
+  }
+
+  if (!bestAssignments || !bestEvaluation) return null;
+  const outcomes = bestEvaluation.pickOutcomes.slice(fixed.length);
+  const alternatives = findAlternatives(bestAssignments, fixed, input.rules);
+
+  return {
+    picks: bestAssignments.map((assignment, index) => ({
+      ...assignment,
+      outcomes: outcomes[index] ?? [],
+      alternative: alternatives[index],
+    })),
+    planOutcomes: bestEvaluation.planOutcomes,
+    score: bestEvaluation.score,
+    hardViolations: bestEvaluation.hardViolations,
+    seed: input.seed,
+  };
+}
@@ -0,0 +1,120 @@
+import type {
+  ActiveDayIndices,
+  DayPlan,
+  MealSlotPlan,
+  MealSlotType,
+  Recipe,
+  WeekPlan,
+} from "../types";
+import {
+  getDishLabel,
+  getLeftoversLabel,
+  getSlotPlan,
+  hasSlotContent,
+} from "./mealSlotService";
+import {
+  normalizeActiveDays,
+  normalizeDayPlans,
+} from "../supabase/functions/_shared/planNormalization";
+
+// Normaliseringen av rader från databasen delas med Edge Functions.
+export { normalizeActiveDays, normalizeDayPlans };
+
+/* ---- Kopiera vecka / mallar ---- */
+
+// Mallar saknar vecka – rester inom mallen pekar på den här platshållaren.
+export const TEMPLATE_WEEK_IDENTIFIER = "mall";
+
+// Flyttar veckans dagar till en annan vecka. Rester som pekar inom källveckan följer
+// med; rester från andra veckor finns inte kvar i målveckan och blir tomma måltider.
+export function retargetDayPlans(
+  days: DayPlan[],
+  fromWeek: string,
+  toWeek: string
+): DayPlan[] {
+  return days.map((day) => {
+    const meals: Record<string, MealSlotPlan> = {};
+    for (const [slot, slotPlan] of Object.entries(day.meals)) {
+      const ref = slotPlan.leftoversFrom;
+      if (!ref) {
+        meals[slot] = { ...slotPlan, dishes: slotPlan.dishes.map((dish) => ({ ...dish })) };
+        continue;
+      }
+      meals[slot] =
+        ref.weekIdentifier === fromWeek
+          ? { ...slotPlan, dishes: [], leftoversFrom: { ...ref, weekIdentifier: toWeek } }
+          : { ...slotPlan, dishes: [], leftoversFrom: null };
+    }
+    return { dayId: day.dayId, meals };
+  });
+}
+
+export function buildWeekFromSource(
+  source: { days: DayPlan[]; activeDayIndices?: ActiveDayIndices },
+  sourceWeek: string,
+  targetWeek: string
+): WeekPlan {
+  const activeDayIndices: ActiveDayIndices = {};
+  for (const [slot, days] of Object.entries(source.activeDayIndices ?? {})) {
+    activeDayIndices[slot] = [...days];
+  }
+  return {
+    weekIdentifier: targetWeek,
+    days: retargetDayPlans(source.days, sourceWeek, targetWeek),
+    activeDayIndices,
+  };
+}
+
+export type WeekPlanChange = {
+  dayId: number;
+  slot: MealSlotType;
+  before: string | null;
+  after: string | null;
+  activeBefore: boolean;
+  activeAfter: boolean;
+};
+
+function describeSlotPlan(
+  slotPlan: MealSlotPlan,
+  lookupPlans: WeekPlan[],
+  recipes: Recipe[]
+): string | null {
+  if (!hasSlotContent(slotPlan)) return null;
+  if (slotPlan.leftoversFrom) return getLeftoversLabel(slotPlan, lookupPlans, recipes);
+  return (
+    slotPlan.dishes
+      .map((dish) => getDishLabel(dish, recipes))
+      .filter(Boolean)
+      .join(" + ") || null
+  );
+}
+
+// Förhandsvisning innan en vecka skrivs över: bara måltider som faktiskt ändras.
+export function diffWeekPlans(
+  current: WeekPlan,
+  next: WeekPlan,
+  slotIds: MealSlotType[],
+  plans: WeekPlan[],
+  recipes: Recipe[]
+): WeekPlanChange[] {
+  const nextLookup = [
+    ...plans.filter((p) => p.weekIdentifier !== next.weekIdentifier),
+    next,
+  ];
+  const changes: WeekPlanChange[] = [];
+
+  for (let dayId = 0; dayId <= 6; dayId += 1) {
+    const currentDay = current.days.find((d) => d.dayId === dayId);
+    const nextDay = next.days.find((d) => d.dayId === dayId);
+    slotIds.forEach((slot) => {
+      const before = describeSlotPlan(getSlotPlan(currentDay, slot), plans, recipes);
+      const after = describeSlotPlan(getSlotPlan(nextDay, slot), nextLookup, recipes);
+      const activeBefore = (current.activeDayIndices?.[slot] ?? []).includes(dayId);
+      const activeAfter = (next.activeDayIndices?.[slot] ?? []).includes(dayId);
+      if (before === after && activeBefore === activeAfter) return;
+      changes.push({ dayId, slot, before, after, activeBefore, activeAfter });
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,70 @@
+import { supabase } from "../supabaseClient";
+import { getCurrentUserId } from "./authService";
+import type { ActiveDayIndices, DayPlan, WeekTemplate } from "../types";
+import {
+  TEMPLATE_WEEK_IDENTIFIER,
+  normalizeActiveDays,
+  normalizeDayPlans,
+  retargetDayPlans,
+} from "./weekPlanService";
+
+type DbWeekTemplate = {
+  id: string;
+  name: string;
+  days: unknown;
+  active_day_indices: unknown;
+  updated_at: string;
+};
+
+function toWeekTemplate(row: DbWeekTemplate): WeekTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    days: normalizeDayPlans(row.days),
+    activeDayIndices: normalizeActiveDays(row.active_day_indices),
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function fetchWeekTemplates(): Promise<WeekTemplate[]> {
+  const { data, error } = await supabase
+    .from("week_templates")
+    .select("id,name,days,active_day_indices,updated_at")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as DbWeekTemplate[]).map(toWeekTemplate);
+}
+
+// Sparar veckan som mall (samma namn skriver över). Rester inom veckan följer med.
+export async function saveWeekTemplate(
+  name: string,
+  weekIdentifier: string,
+  days: DayPlan[],
+  activeDayIndices: ActiveDayIndices
+): Promise<WeekTemplate> {
+  const userId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("week_templates")
+    .upsert(
+      {
+        user_id: userId,
+        name: name.trim(),
+        days: normalizeDayPlans(
+          retargetDayPlans(days, weekIdentifier, TEMPLATE_WEEK_IDENTIFIER)
+        ),
+        active_day_indices: normalizeActiveDays(activeDayIndices),
+      },
+      { onConflict: "user_id,name" }
+    )
+    .select("id,name,days,active_day_indices,updated_at")
+    .single();
+
+  if (error) throw error;
+  return toWeekTemplate(data as DbWeekTemplate);
+}
+
+export async function deleteWeekTemplate(id: string): Promise<void> {
+  const { error } = await supabase.from("week_templates").delete().eq("id", id);
+  if (error) throw error;
+}
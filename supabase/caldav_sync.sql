@@ -0,0 +1,96 @@
+-- Skrivning av måltider till en egen CalDAV-kalender (t.ex. iCloud, Fastmail, Nextcloud).
+-- En rad per användare. Använd ett appspecifikt lösenord – det läses bara av
+-- caldav-meal-sync och visas aldrig i appen (kolumnen är inte läsbar för inloggade).
+create table if not exists public.caldav_sync_targets (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  calendar_url text not null,
+  username text not null,
+  password text not null,
+  enabled boolean not null default true,
+  look_ahead_weeks integer not null default 4 check (look_ahead_weeks between 1 and 26),
+  timezone text not null default 'Europe/Stockholm',
+  last_synced_at timestamptz null,
+  last_error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_caldav_sync_targets_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_caldav_sync_targets_updated_at on public.caldav_sync_targets;
+create trigger trg_caldav_sync_targets_updated_at
+before update on public.caldav_sync_targets
+for each row
+execute function public.set_caldav_sync_targets_updated_at();
+
+alter table public.caldav_sync_targets enable row level security;
+
+-- Lösenordet kan skrivas men inte läsas tillbaka.
+revoke select on public.caldav_sync_targets from authenticated;
+grant select (
+  user_id,
+  calendar_url,
+  username,
+  enabled,
+  look_ahead_weeks,
+  timezone,
+  last_synced_at,
+  last_error,
+  created_at,
+  updated_at
+) on public.caldav_sync_targets to authenticated;
+
+drop policy if exists caldav_sync_targets_select_own on public.caldav_sync_targets;
+create policy caldav_sync_targets_select_own
+on public.caldav_sync_targets
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists caldav_sync_targets_insert_own on public.caldav_sync_targets;
+create policy caldav_sync_targets_insert_own
+on public.caldav_sync_targets
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists caldav_sync_targets_update_own on public.caldav_sync_targets;
+create policy caldav_sync_targets_update_own
+on public.caldav_sync_targets
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists caldav_sync_targets_delete_own on public.caldav_sync_targets;
+create policy caldav_sync_targets_delete_own
+on public.caldav_sync_targets
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Händelser som skrivits till kalendern: resursens adress, ETag och innehåll vid senaste
+-- skrivning. Skrivs bara av caldav-meal-sync (service role), därför finns inga policyer
+-- för inloggade användare.
+create table if not exists public.caldav_sync_events (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  uid text not null,
+  week_identifier text not null,
+  href text not null,
+  etag text null,
+  fingerprint text not null,
+  sequence integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, uid)
+);
+
+alter table public.caldav_sync_events enable row level security;
@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { type BusyCalendar, buildBusyBlocks } from "./busyBlocks.ts";
+import { CALENDAR_ID_PROPERTY } from "./icsParser.ts";
+
+const WEEK = "2026-W43";
+const TIME_ZONE = "Europe/Stockholm";
+
+function busyCalendar(id: string, memberName: string | null): BusyCalendar {
+  return {
+    id,
+    label: id,
+    memberName,
+    isActive: true,
+    ignoreBusy: false,
+    countAllDay: false,
+    includeKeywords: [],
+    excludeKeywords: [],
+  };
+}
+
+function event(calendarId: string, uid: string, start: string, end: string): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTART:${start}`,
+    `DTEND:${end}`,
+    "SUMMARY:Träning",
+    `${CALENDAR_ID_PROPERTY}:${calendarId}`,
+    "END:VEVENT",
+  ];
+}
+
+function calendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flat(), "END:VCALENDAR"].join("\r\n");
+}
+
+describe("buildBusyBlocks", () => {
+  test("samma händelse i två av en persons kalendrar blir en tid", () => {
+    const ics = calendar(
+      event("jobb", "a@x", "20261020T150000Z", "20261020T170000Z"),
+      event("familj", "a@x", "20261020T150000Z", "20261020T170000Z")
+    );
+    const blocks = buildBusyBlocks(
+      ics,
+      WEEK,
+      [busyCalendar("jobb", "Anna"), busyCalendar("familj", "anna")],
+      { timeZone: TIME_ZONE }
+    );
+    assert.deepEqual(
+      blocks.map((block) => [block.calendarId, block.memberName, block.start]),
+      [["jobb", "Anna", "2026-10-20T15:00:00.000Z"]]
+    );
+  });
+
+  test("en gemensam händelse behålls för var och en", () => {
+    const ics = calendar(
+      event("anna", "a@x", "20261020T150000Z", "20261020T170000Z"),
+      event("erik", "a@x", "20261020T150000Z", "20261020T170000Z"),
+      event("delad", "a@x", "20261020T150000Z", "20261020T170000Z")
+    );
+    const blocks = buildBusyBlocks(
+      ics,
+      WEEK,
+      [busyCalendar("anna", "Anna"), busyCalendar("erik", "Erik"), busyCalendar("delad", null)],
+      { timeZone: TIME_ZONE }
+    );
+    assert.deepEqual(
+      blocks.map((block) => block.memberName ?? block.calendarId),
+      ["Anna", "Erik", "delad"]
+    );
+  });
+
+  test("kalenderns regler gäller före sammanslagningen", () => {
+    const ignored = { ...busyCalendar("jobb", "Anna"), ignoreBusy: true };
+    const ics = calendar(
+      event("jobb", "a@x", "20261020T150000Z", "20261020T170000Z"),
+      event("familj", "a@x", "20261020T150000Z", "20261020T170000Z")
+    );
+    const blocks = buildBusyBlocks(ics, WEEK, [ignored, busyCalendar("familj", "Anna")], {
+      timeZone: TIME_ZONE,
+    });
+    assert.deepEqual(blocks.map((block) => block.calendarId), ["familj"]);
+  });
+});
@@ -0,0 +1,143 @@
+// Upptagna tider ur användarnas kalendrar. icloud-ics-proxy räknar fram dem (?mode=busy)
+// så att bara start, slut, kalender och eventuellt en rensad rubrik når webbläsaren –
+// aldrig beskrivningar, platser eller deltagare. Reglerna per kalender delas med appen.
+
+import type { UserCalendar } from "../../../types.ts";
+import { expandIcsEvents, type IcsEventPeriod, zonedWallClockToInstant } from "./icsParser.ts";
+import { isoWeekDayToISODate, parseIsoWeek, shiftIsoWeek } from "./isoWeek.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 60;
+
+export type BusyCalendar = Pick<
+  UserCalendar,
+  | "id"
+  | "label"
+  | "memberName"
+  | "isActive"
+  | "ignoreBusy"
+  | "countAllDay"
+  | "includeKeywords"
+  | "excludeKeywords"
+>;
+
+// Svaret från ?mode=busy. Tider är ISO 8601 i UTC.
+export type BusyBlock = {
+  start: string;
+  end: string;
+  allDay: boolean;
+  calendarId: string | null;
+  calendarLabel: string | null;
+  memberName: string | null;
+  // Bara med titles=1, och då utan länkar, e-postadresser och telefonnummer
+  title: string | null;
+};
+
+export function normalizeKeywords(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const keywords = raw
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(keywords));
+}
+
+// Avgör om en händelse ska göra måltider upptagna enligt kalenderns regler.
+// Händelser utan känd kalender (äldre proxy) följer standardreglerna: heldagar räknas inte.
+export function isBusyCalendarEvent(
+  event: Pick<IcsEventPeriod, "summary" | "allDay" | "calendarId">,
+  calendar: BusyCalendar | undefined
+): boolean {
+  if (!calendar) return !event.allDay;
+  if (!calendar.isActive || calendar.ignoreBusy) return false;
+  if (event.allDay && !calendar.countAllDay) return false;
+
+  const summary = event.summary.toLowerCase();
+  if (calendar.excludeKeywords.some((keyword) => summary.includes(keyword))) return false;
+  return (
+    calendar.includeKeywords.length === 0 ||
+    calendar.includeKeywords.some((keyword) => summary.includes(keyword))
+  );
+}
+
+// Jämförelse av rubriker: gemener och enkla mellanslag.
+export function normalizeEventTitle(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Måltider som appen själv lagt i kalendern ska inte göra måltiden upptagen.
+export function isMatplanExportEvent(event: Pick<IcsEventPeriod, "description" | "uid">): boolean {
+  return /X-MATPLAN-EXPORT:1/i.test(event.description) || /@matplan/i.test(event.uid);
+}
+
+export function redactEventTitle(summary: string): string | null {
+  const redacted = summary
+    .replace(/\b(?:https?|webcal):\/\/\S+/gi, "")
+    .replace(/[^\s@]+@[^\s@]+\.[a-z]{2,}/gi, "")
+    .replace(/\+?\d[\d\s-]{6,}\d/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!redacted) return null;
+  return redacted.length > MAX_TITLE_LENGTH
+    ? `${redacted.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : redacted;
+}
+
+// Måndag 00:00 till nästa måndag 00:00 i zonen. null för ogiltig vecka.
+export function getIsoWeekRange(
+  weekIdentifier: string,
+  timeZone: string
+): { start: Date; end: Date } | null {
+  if (!parseIsoWeek(weekIdentifier)) return null;
+  const toInstant = (week: string) =>
+    new Date(
+      zonedWallClockToInstant(
+        new Date(`${isoWeekDayToISODate(week, 0)}T00:00:00Z`).getTime(),
+        timeZone
+      )
+    );
+  return { start: toInstant(weekIdentifier), end: toInstant(shiftIsoWeek(weekIdentifier, 1)) };
+}
+
+// Upptagna tider i veckan (med en dags marginal åt båda hållen) för sammanslagen ICS
+// där varje händelse är märkt med sin kalender. Tiderna räknas per hushållsmedlem
+// (member_name, annars per kalender): samma händelse i två av en persons kalendrar blir en
+// tid, medan en gemensam händelse behålls en gång för var och en som är upptagen.
+export function buildBusyBlocks(
+  icsText: string,
+  weekIdentifier: string,
+  calendars: BusyCalendar[],
+  options: { timeZone: string; includeTitles?: boolean; excludeTitles?: Set<string> }
+): BusyBlock[] {
+  const range = getIsoWeekRange(weekIdentifier, options.timeZone);
+  if (!range) return [];
+  const calendarsById = new Map(calendars.map((calendar) => [calendar.id, calendar]));
+  const seen = new Set<string>();
+
+  return expandIcsEvents(
+    icsText,
+    new Date(range.start.getTime() - DAY_MS),
+    new Date(range.end.getTime() + DAY_MS),
+    { timeZone: options.timeZone }
+  ).flatMap((event) => {
+    if (isMatplanExportEvent(event)) return [];
+    if (options.excludeTitles?.has(normalizeEventTitle(event.summary))) return [];
+    const calendar = event.calendarId ? calendarsById.get(event.calendarId) : undefined;
+    if (!isBusyCalendarEvent(event, calendar)) return [];
+    const owner = calendar?.memberName?.toLowerCase() ?? calendar?.id ?? "";
+    const key = [owner, event.start.getTime(), event.end.getTime(), event.allDay].join("|");
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [
+      {
+        start: event.start.toISOString(),
+        end: event.end.toISOString(),
+        allDay: event.allDay,
+        calendarId: calendar?.id ?? null,
+        calendarLabel: calendar?.label ?? null,
+        memberName: calendar?.memberName ?? null,
+        title: options.includeTitles ? redactEventTitle(event.summary) : null,
+      },
+    ];
+  });
+}
@@ -0,0 +1,274 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  type CalDavKnownEvent,
+  type CalDavTarget,
+  applyCalDavChanges,
+  getCalDavEventHref,
+  planCalDavChanges,
+} from "./caldav.ts";
+import type { MealCalendarEvent } from "./mealPlanIcs.ts";
+
+// Minimal CalDAV-server i minnet: PUT/DELETE med ETag och villkoren If-Match /
+// If-None-Match, som en riktig server (Radicale) hanterar dem.
+type StoredResource = { etag: string; body: string };
+type LoggedRequest = {
+  method: string;
+  path: string;
+  ifMatch: string | null;
+  ifNoneMatch: string | null;
+  status: number;
+};
+
+const resources = new Map<string, StoredResource>();
+const requests: LoggedRequest[] = [];
+let nextEtag = 1;
+let failNextWith: number | null = null;
+
+const server: Server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const path = req.url ?? "";
+    const ifMatch = req.headers["if-match"] ?? null;
+    const ifNoneMatch = req.headers["if-none-match"] ?? null;
+    const existing = resources.get(path);
+    const respond = (status: number, headers: Record<string, string> = {}) => {
+      requests.push({ method: req.method ?? "", path, ifMatch, ifNoneMatch, status });
+      res.writeHead(status, headers).end();
+    };
+
+    if (failNextWith !== null) {
+      const status = failNextWith;
+      failNextWith = null;
+      return respond(status);
+    }
+    if (req.headers.authorization !== `Basic ${btoa("anna:hemligt")}`) return respond(401);
+    if (ifMatch && ifMatch !== existing?.etag) return respond(412);
+    if (ifNoneMatch === "*" && existing) return respond(412);
+
+    if (req.method === "PUT") {
+      const etag = `"${nextEtag++}"`;
+      resources.set(path, { etag, body });
+      return respond(existing ? 204 : 201, { ETag: etag });
+    }
+    if (req.method === "DELETE") {
+      if (!existing) return respond(404);
+      resources.delete(path);
+      return respond(204);
+    }
+    respond(405);
+  });
+});
+
+let target: CalDavTarget;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  target = {
+    calendarUrl: `http://127.0.0.1:${port}/dav/calendars/anna/matplan/`,
+    username: "anna",
+    password: "hemligt",
+  };
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  resources.clear();
+  requests.length = 0;
+  failNextWith = null;
+});
+
+const toInstant = (local: number) => local - 60 * 60 * 1000;
+
+function event(uid: string, summary: string, weekIdentifier = "2026-W43"): MealCalendarEvent {
+  return {
+    uid,
+    weekIdentifier,
+    dayId: 0,
+    slot: "dinner",
+    startLocal: Date.UTC(2026, 9, 19, 17),
+    endLocal: Date.UTC(2026, 9, 19, 18),
+    summary,
+    description: "",
+    url: null,
+    alarms: [],
+  };
+}
+
+const pathOf = (href: string) => new URL(href).pathname;
+
+// En synk som i caldav-meal-sync: planera mot förra synken och spara resultatet.
+async function sync(weeks: string[], events: MealCalendarEvent[], known: CalDavKnownEvent[]) {
+  const changes = planCalDavChanges(target.calendarUrl, weeks, events, known);
+  const outcome = await applyCalDavChanges(target, changes, toInstant);
+  const removed = new Set(outcome.removed);
+  const saved = new Map(outcome.saved.map((entry) => [entry.uid, entry]));
+  const nextKnown = [
+    ...known.filter((entry) => !removed.has(entry.uid) && !saved.has(entry.uid)),
+    ...saved.values(),
+  ];
+  return { changes, outcome, known: nextKnown };
+}
+
+describe("CalDAV-synk mot lokal server", () => {
+  test("nya måltider skapas med If-None-Match", async () => {
+    const { outcome, known } = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+
+    assert.deepEqual(outcome.failed, []);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, "PUT");
+    assert.equal(requests[0].ifNoneMatch, "*");
+    assert.equal(requests[0].ifMatch, null);
+    assert.equal(requests[0].status, 201);
+
+    const href = getCalDavEventHref(target.calendarUrl, "a@matplan");
+    assert.equal(known[0].href, href);
+    assert.equal(known[0].etag, resources.get(pathOf(href))!.etag);
+    assert.match(resources.get(pathOf(href))!.body, /SUMMARY:Lasagne\r\n/);
+    assert.match(resources.get(pathOf(href))!.body, /SEQUENCE:0\r\n/);
+  });
+
+  test("ändrade måltider skrivs med If-Match och ny SEQUENCE", async () => {
+    const first = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [event("a@matplan", "Fiskgratäng")], first.known);
+
+    assert.deepEqual(second.outcome.failed, []);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, "PUT");
+    assert.equal(requests[0].ifMatch, first.known[0].etag);
+    assert.equal(requests[0].ifNoneMatch, null);
+    assert.equal(requests[0].status, 204);
+    assert.equal(second.known[0].sequence, 1);
+    assert.notEqual(second.known[0].etag, first.known[0].etag);
+    const stored = resources.get(pathOf(second.known[0].href))!;
+    assert.match(stored.body, /SUMMARY:Fiskgratäng\r\n/);
+    assert.match(stored.body, /SEQUENCE:1\r\n/);
+  });
+
+  test("oförändrade måltider ger inga anrop", async () => {
+    const first = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], first.known);
+    assert.deepEqual(second.changes, []);
+    assert.equal(requests.length, 0);
+  });
+
+  test("borttagna måltider tas bort, men bara i veckor som synkas", async () => {
+    const first = await sync(
+      ["2026-W42", "2026-W43"],
+      [event("gammal@matplan", "Soppa", "2026-W42"), event("a@matplan", "Lasagne")],
+      []
+    );
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [], first.known);
+
+    assert.deepEqual(second.outcome.removed, ["a@matplan"]);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, "DELETE");
+    assert.equal(requests[0].ifMatch, first.known.find((e) => e.uid === "a@matplan")!.etag);
+    assert.equal(requests[0].status, 204);
+    assert.deepEqual(
+      second.known.map((entry) => entry.uid),
+      ["gammal@matplan"]
+    );
+    assert.ok(resources.has(pathOf(getCalDavEventHref(target.calendarUrl, "gammal@matplan"))));
+    assert.ok(!resources.has(pathOf(getCalDavEventHref(target.calendarUrl, "a@matplan"))));
+  });
+
+  test("redan borttagen i kalendern räknas som borttagen", async () => {
+    const first = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+    resources.clear();
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [], first.known);
+    assert.deepEqual(second.outcome.removed, ["a@matplan"]);
+    assert.deepEqual(
+      requests.map(({ method, status }) => [method, status]),
+      [
+        ["DELETE", 412],
+        ["DELETE", 404],
+      ]
+    );
+  });
+
+  test("412 vid uppdatering: ändringen i kalendern skrivs över", async () => {
+    const first = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+    // Någon ändrar händelsen direkt i kalendern, så vår ETag gäller inte längre.
+    const path = pathOf(first.known[0].href);
+    resources.set(path, { etag: '"annan"', body: "ändrad i kalendern" });
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [event("a@matplan", "Fiskgratäng")], first.known);
+
+    assert.deepEqual(second.outcome.failed, []);
+    assert.deepEqual(
+      requests.map(({ method, ifMatch, status }) => [method, ifMatch, status]),
+      [
+        ["PUT", first.known[0].etag, 412],
+        ["PUT", null, 204],
+      ]
+    );
+    assert.equal(second.known[0].etag, resources.get(path)!.etag);
+    assert.match(resources.get(path)!.body, /SUMMARY:Fiskgratäng\r\n/);
+  });
+
+  test("412 vid skapande: en befintlig resurs skrivs över", async () => {
+    const href = getCalDavEventHref(target.calendarUrl, "a@matplan");
+    resources.set(pathOf(href), { etag: '"gammal"', body: "från en tidigare synk" });
+
+    const { outcome, known } = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+
+    assert.deepEqual(outcome.failed, []);
+    assert.deepEqual(
+      requests.map(({ method, ifNoneMatch, status }) => [method, ifNoneMatch, status]),
+      [
+        ["PUT", "*", 412],
+        ["PUT", null, 204],
+      ]
+    );
+    assert.equal(known[0].etag, resources.get(pathOf(href))!.etag);
+  });
+
+  test("412 vid borttagning: tas bort utan villkor", async () => {
+    const first = await sync(["2026-W43"], [event("a@matplan", "Lasagne")], []);
+    const path = pathOf(first.known[0].href);
+    resources.set(path, { etag: '"annan"', body: "ändrad i kalendern" });
+    requests.length = 0;
+
+    const second = await sync(["2026-W43"], [], first.known);
+
+    assert.deepEqual(second.outcome.removed, ["a@matplan"]);
+    assert.deepEqual(
+      requests.map(({ method, ifMatch, status }) => [method, ifMatch, status]),
+      [
+        ["DELETE", first.known[0].etag, 412],
+        ["DELETE", null, 204],
+      ]
+    );
+    assert.ok(!resources.has(path));
+  });
+
+  test("serverfel sparas inte som synkat", async () => {
+    failNextWith = 500;
+    const { outcome, known } = await sync(
+      ["2026-W43"],
+      [event("a@matplan", "Lasagne"), event("b@matplan", "Tacos")],
+      []
+    );
+
+    assert.deepEqual(outcome.failed, [{ uid: "a@matplan", error: "PUT 500" }]);
+    assert.deepEqual(
+      known.map((entry) => entry.uid),
+      ["b@matplan"]
+    );
+  });
+});
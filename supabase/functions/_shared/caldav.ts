@@ -0,0 +1,225 @@
+// Skrivning av måltider till en CalDAV-kalender (RFC 4791): en .ics-resurs per måltid,
+// PUT för att skapa/uppdatera och DELETE för att ta bort. Villkorade anrop (If-Match /
+// If-None-Match) med ETag gör att två synkar samtidigt inte skriver över varandra.
+// Händelserna bär samma X-MATPLAN-EXPORT-markör och @matplan-UID som exporten, så att
+// läsningen av upptagna tider (busyBlocks.ts) hoppar över dem.
+
+import {
+  type MealCalendarEvent,
+  getMealEventFingerprint,
+  serializeMealCalendar,
+} from "./mealPlanIcs.ts";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// fetch eller en ersättare med samma anrop (t.ex. fetchPublicHttps i urlSafety.ts).
+export type CalDavFetch = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal: AbortSignal;
+  }
+) => Promise<Response>;
+
+const defaultFetch: CalDavFetch = (url, init) => fetch(url, { ...init, redirect: "manual" });
+
+export type CalDavTarget = {
+  // Kalenderns samling, t.ex. https://caldav.example.com/dav/calendars/anna/matplan/
+  calendarUrl: string;
+  username: string;
+  password: string;
+};
+
+// Det som sparats om en händelse vid förra synken (public.caldav_sync_events).
+export type CalDavKnownEvent = {
+  uid: string;
+  weekIdentifier: string;
+  href: string;
+  etag: string | null;
+  fingerprint: string;
+  sequence: number;
+};
+
+export type CalDavChange =
+  | { kind: "create"; event: MealCalendarEvent; href: string; sequence: number }
+  | { kind: "update"; event: MealCalendarEvent; known: CalDavKnownEvent; sequence: number }
+  | { kind: "delete"; known: CalDavKnownEvent };
+
+export type CalDavSyncOutcome = {
+  // Skapade eller ändrade händelser att spara till nästa synk
+  saved: CalDavKnownEvent[];
+  // UID för händelser som tagits bort ur kalendern
+  removed: string[];
+  failed: Array<{ uid: string; error: string }>;
+};
+
+// Resursnamnet får bara innehålla säkra tecken; UID:t står kvar oförändrat i filen.
+export function getCalDavEventHref(calendarUrl: string, uid: string): string {
+  const base = calendarUrl.endsWith("/") ? calendarUrl : `${calendarUrl}/`;
+  return new URL(`${uid.replace(/[^A-Za-z0-9_-]/g, "-")}.ics`, base).toString();
+}
+
+// Jämför önskade händelser med förra synken. Bara veckor som synkas nu kan få händelser
+// borttagna – äldre veckor lämnas orörda i kalendern.
+export function planCalDavChanges(
+  calendarUrl: string,
+  weeks: string[],
+  events: MealCalendarEvent[],
+  known: CalDavKnownEvent[]
+): CalDavChange[] {
+  const knownByUid = new Map(known.map((entry) => [entry.uid, entry]));
+  const wanted = new Set(events.map((event) => event.uid));
+  const changes: CalDavChange[] = [];
+
+  events.forEach((event) => {
+    const previous = knownByUid.get(event.uid);
+    if (!previous) {
+      changes.push({
+        kind: "create",
+        event,
+        href: getCalDavEventHref(calendarUrl, event.uid),
+        sequence: 0,
+      });
+    } else if (previous.fingerprint !== getMealEventFingerprint(event)) {
+      changes.push({ kind: "update", event, known: previous, sequence: previous.sequence + 1 });
+    }
+  });
+
+  const syncedWeeks = new Set(weeks);
+  known.forEach((entry) => {
+    if (!wanted.has(entry.uid) && syncedWeeks.has(entry.weekIdentifier)) {
+      changes.push({ kind: "delete", known: entry });
+    }
+  });
+
+  return changes;
+}
+
+function getAuthHeader(target: CalDavTarget): string {
+  const bytes = new TextEncoder().encode(`${target.username}:${target.password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+// Omdirigeringar följs inte – de kunde leda till en annan server med lösenordet.
+async function caldavRequest(
+  target: CalDavTarget,
+  fetchImpl: CalDavFetch,
+  method: "PUT" | "DELETE",
+  href: string,
+  headers: Record<string, string>,
+  body?: string
+): Promise<Response> {
+  const response = await fetchImpl(href, {
+    method,
+    headers: { ...headers, Authorization: getAuthHeader(target) },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+  return response;
+}
+
+// Skapar eller ersätter en händelse. Med etag skrivs bara över om ingen annan har ändrat
+// den; utan etag bara om resursen inte redan finns. Returnerar den nya ETag:en (om servern
+// skickar någon).
+async function putCalDavEvent(
+  target: CalDavTarget,
+  fetchImpl: CalDavFetch,
+  href: string,
+  ics: string,
+  condition: { etag: string | null } | "create" | "overwrite"
+): Promise<{ status: number; etag: string | null }> {
+  const headers: Record<string, string> = { "Content-Type": "text/calendar; charset=utf-8" };
+  if (condition === "create") headers["If-None-Match"] = "*";
+  else if (condition !== "overwrite" && condition.etag) headers["If-Match"] = condition.etag;
+  const response = await caldavRequest(target, fetchImpl, "PUT", href, headers, ics);
+  return { status: response.status, etag: response.headers.get("etag") };
+}
+
+async function deleteCalDavEvent(
+  target: CalDavTarget,
+  fetchImpl: CalDavFetch,
+  href: string,
+  etag: string | null
+): Promise<number> {
+  const response = await caldavRequest(
+    target,
+    fetchImpl,
+    "DELETE",
+    href,
+    etag ? { "If-Match": etag } : {}
+  );
+  return response.status;
+}
+
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+// Utför ändringarna en i taget. Händelserna är våra egna, så ändringar som gjorts direkt
+// i kalendern (412) eller borttagna resurser (404) skrivs över respektive skapas om.
+export async function applyCalDavChanges(
+  target: CalDavTarget,
+  changes: CalDavChange[],
+  toInstant: (local: number) => number,
+  fetchImpl: CalDavFetch = defaultFetch
+): Promise<CalDavSyncOutcome> {
+  const outcome: CalDavSyncOutcome = { saved: [], removed: [], failed: [] };
+
+  for (const change of changes) {
+    const uid = change.kind === "delete" ? change.known.uid : change.event.uid;
+    try {
+      if (change.kind === "delete") {
+        const href = change.known.href;
+        let status = await deleteCalDavEvent(target, fetchImpl, href, change.known.etag);
+        if (status === 412) status = await deleteCalDavEvent(target, fetchImpl, href, null);
+        if (!isSuccess(status) && status !== 404 && status !== 410) {
+          throw new Error(`DELETE ${status}`);
+        }
+        outcome.removed.push(uid);
+        continue;
+      }
+
+      const href = change.kind === "create" ? change.href : change.known.href;
+      const ics = serializeMealCalendar([change.event], {
+        toInstant,
+        sequences: new Map([[uid, change.sequence]]),
+      });
+      let result = await putCalDavEvent(
+        target,
+        fetchImpl,
+        href,
+        ics,
+        change.kind === "create" ? "create" : { etag: change.known.etag }
+      );
+      if (result.status === 412 || (result.status === 404 && change.kind === "update")) {
+        result = await putCalDavEvent(target, fetchImpl, href, ics, "overwrite");
+      }
+      if (!isSuccess(result.status)) throw new Error(`PUT ${result.status}`);
+
+      outcome.saved.push({
+        uid,
+        weekIdentifier: change.event.weekIdentifier,
+        href,
+        etag: result.etag,
+        fingerprint: getMealEventFingerprint(change.event),
+        sequence: change.sequence,
+      });
+    } catch (error) {
+      const name = error instanceof Error ? error.name : "";
+      outcome.failed.push({
+        uid,
+        error:
+          name === "TimeoutError" || name === "AbortError"
+            ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000} s`
+            : error instanceof Error
+            ? error.message
+            : "Unknown error",
+      });
+    }
+  }
+
+  return outcome;
+}
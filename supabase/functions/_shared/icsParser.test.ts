@@ -0,0 +1,273 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  expandIcsEvents,
+  parseRecurrenceRule,
+  unfoldIcsLines,
+  zonedWallClockToInstant,
+} from "./icsParser.ts";
+
+// Stockholm som egen VTIMEZONE under ett påhittat namn, så att Intl inte kan användas.
+const CUSTOM_TIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  "TZID:Custom/Stockholm",
+  "BEGIN:STANDARD",
+  "DTSTART:19701025T030000",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "BEGIN:DAYLIGHT",
+  "DTSTART:19700329T020000",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "END:VTIMEZONE",
+];
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+}
+
+function event(...lines: string[]): string[] {
+  return ["BEGIN:VEVENT", "UID:test-1", "SUMMARY:Test", ...lines, "END:VEVENT"];
+}
+
+function expand(ics: string, from: string, to: string, timeZone = "Europe/Stockholm") {
+  return expandIcsEvents(ics, new Date(from), new Date(to), { timeZone });
+}
+
+const starts = (periods: { start: Date }[]) => periods.map((p) => p.start.toISOString());
+
+describe("tidszoner", () => {
+  test("TZID med egen VTIMEZONE följer sommar- och vintertid", () => {
+    const ics = calendar(
+      ...CUSTOM_TIMEZONE,
+      ...event("DTSTART;TZID=Custom/Stockholm:20260115T180000", "DURATION:PT1H"),
+      "BEGIN:VEVENT",
+      "UID:test-2",
+      "DTSTART;TZID=Custom/Stockholm:20260715T180000",
+      "DTEND;TZID=Custom/Stockholm:20260715T193000",
+      "END:VEVENT"
+    );
+    const periods = expand(ics, "2026-01-01T00:00:00Z", "2027-01-01T00:00:00Z");
+    assert.deepEqual(starts(periods), ["2026-01-15T17:00:00.000Z", "2026-07-15T16:00:00.000Z"]);
+    assert.equal(periods[1].end.toISOString(), "2026-07-15T17:30:00.000Z");
+  });
+
+  test("IANA-namn utan VTIMEZONE räknas med Intl", () => {
+    const ics = calendar(...event("DTSTART;TZID=Europe/Stockholm:20260329T120000"));
+    const periods = expand(ics, "2026-03-01T00:00:00Z", "2026-04-01T00:00:00Z");
+    assert.deepEqual(starts(periods), ["2026-03-29T10:00:00.000Z"]);
+  });
+
+  test("upprepning över sommartidsbytet behåller väggklockan", () => {
+    const ics = calendar(
+      ...CUSTOM_TIMEZONE,
+      ...event("DTSTART;TZID=Custom/Stockholm:20260327T180000", "RRULE:FREQ=DAILY;COUNT=3")
+    );
+    const periods = expand(ics, "2026-03-01T00:00:00Z", "2026-04-30T00:00:00Z");
+    assert.deepEqual(starts(periods), [
+      "2026-03-27T17:00:00.000Z",
+      "2026-03-28T17:00:00.000Z",
+      "2026-03-29T16:00:00.000Z",
+    ]);
+  });
+
+  test("heldagar och flytande tider ligger i angiven zon", () => {
+    const ics = calendar(
+      ...event("DTSTART;VALUE=DATE:20260610", "DTEND;VALUE=DATE:20260611"),
+      "BEGIN:VEVENT",
+      "UID:test-2",
+      "DTSTART:20260610T080000",
+      "END:VEVENT"
+    );
+    const periods = expand(ics, "2026-06-01T00:00:00Z", "2026-07-01T00:00:00Z");
+    assert.deepEqual(starts(periods), ["2026-06-09T22:00:00.000Z", "2026-06-10T06:00:00.000Z"]);
+    assert.equal(periods[0].allDay, true);
+    assert.equal(periods[0].end.toISOString(), "2026-06-10T22:00:00.000Z");
+  });
+
+  test("zonedWallClockToInstant", () => {
+    assert.equal(
+      new Date(zonedWallClockToInstant(Date.UTC(2026, 0, 15, 18), "Europe/Stockholm")).toISOString(),
+      "2026-01-15T17:00:00.000Z"
+    );
+    assert.equal(
+      new Date(zonedWallClockToInstant(Date.UTC(2026, 6, 15, 18), "America/New_York")).toISOString(),
+      "2026-07-15T22:00:00.000Z"
+    );
+  });
+});
+
+describe("RRULE", () => {
+  test("tolkar regelns delar", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY;INTERVAL=2;COUNT=5;BYDAY=2TU,-1FR;WKST=SU")!;
+    assert.equal(rule.freq, "MONTHLY");
+    assert.equal(rule.interval, 2);
+    assert.equal(rule.count, 5);
+    assert.deepEqual(rule.byDay, [
+      { weekday: 2, ordinal: 2 },
+      { weekday: 5, ordinal: -1 },
+    ]);
+    assert.equal(rule.wkst, 0);
+    assert.equal(parseRecurrenceRule("INTERVAL=2"), null);
+  });
+
+  test("COUNT räknar från första tillfället, även utanför intervallet", () => {
+    const ics = calendar(...event("DTSTART:20260105T170000Z", "RRULE:FREQ=DAILY;COUNT=3"));
+    assert.deepEqual(starts(expand(ics, "2026-01-06T00:00:00Z", "2026-02-01T00:00:00Z")), [
+      "2026-01-06T17:00:00.000Z",
+      "2026-01-07T17:00:00.000Z",
+    ]);
+  });
+
+  test("UNTIL är inklusive", () => {
+    const ics = calendar(
+      ...event("DTSTART:20260105T170000Z", "RRULE:FREQ=WEEKLY;UNTIL=20260119T170000Z")
+    );
+    assert.deepEqual(starts(expand(ics, "2026-01-01T00:00:00Z", "2026-03-01T00:00:00Z")), [
+      "2026-01-05T17:00:00.000Z",
+      "2026-01-12T17:00:00.000Z",
+      "2026-01-19T17:00:00.000Z",
+    ]);
+  });
+
+  test("UNTIL som datum gäller hela dagen", () => {
+    const ics = calendar(
+      ...event("DTSTART;VALUE=DATE:20260105", "RRULE:FREQ=DAILY;UNTIL=20260107")
+    );
+    assert.equal(expand(ics, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z").length, 3);
+  });
+
+  test("INTERVAL och BYDAY", () => {
+    const ics = calendar(
+      ...event("DTSTART:20260105T170000Z", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5")
+    );
+    assert.deepEqual(starts(expand(ics, "2026-01-01T00:00:00Z", "2026-03-01T00:00:00Z")), [
+      "2026-01-05T17:00:00.000Z",
+      "2026-01-07T17:00:00.000Z",
+      "2026-01-19T17:00:00.000Z",
+      "2026-01-21T17:00:00.000Z",
+      "2026-02-02T17:00:00.000Z",
+    ]);
+  });
+
+  test("BYDAY med ordningstal per månad", () => {
+    const ics = calendar(
+      ...event("DTSTART:20260113T170000Z", "RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=3")
+    );
+    assert.deepEqual(starts(expand(ics, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z")), [
+      "2026-01-13T17:00:00.000Z",
+      "2026-02-10T17:00:00.000Z",
+      "2026-03-10T17:00:00.000Z",
+    ]);
+  });
+
+  test("BYSETPOS väljer sista vardagen i månaden", () => {
+    const ics = calendar(
+      ...event(
+        "DTSTART:20260130T170000Z",
+        "RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3"
+      )
+    );
+    assert.deepEqual(starts(expand(ics, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z")), [
+      "2026-01-30T17:00:00.000Z",
+      "2026-02-27T17:00:00.000Z",
+      "2026-03-31T17:00:00.000Z",
+    ]);
+  });
+
+  test("WKST ändrar vilka veckor som räknas (RFC 5545-exemplet)", () => {
+    const rule = (wkst: string) =>
+      calendar(
+        ...event(
+          "DTSTART:19970805T090000Z",
+          `RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=${wkst}`
+        )
+      );
+    const days = (ics: string) =>
+      starts(expand(ics, "1997-08-01T00:00:00Z", "1997-10-01T00:00:00Z")).map((s) =>
+        s.slice(0, 10)
+      );
+    assert.deepEqual(days(rule("MO")), ["1997-08-05", "1997-08-10", "1997-08-19", "1997-08-24"]);
+    assert.deepEqual(days(rule("SU")), ["1997-08-05", "1997-08-17", "1997-08-19", "1997-08-31"]);
+  });
+});
+
+describe("EXDATE, RDATE och RECURRENCE-ID", () => {
+  test("EXDATE tar bort och RDATE lägger till tillfällen", () => {
+    const ics = calendar(
+      ...event(
+        "DTSTART;TZID=Europe/Stockholm:20260105T180000",
+        "RRULE:FREQ=DAILY;COUNT=4",
+        "EXDATE;TZID=Europe/Stockholm:20260106T180000,20260107T180000",
+        "RDATE;TZID=Europe/Stockholm:20260110T120000"
+      )
+    );
+    assert.deepEqual(starts(expand(ics, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z")), [
+      "2026-01-05T17:00:00.000Z",
+      "2026-01-08T17:00:00.000Z",
+      "2026-01-10T11:00:00.000Z",
+    ]);
+  });
+
+  test("EXDATE i UTC matchar tillfällen med TZID", () => {
+    const ics = calendar(
+      ...event(
+        "DTSTART;TZID=Europe/Stockholm:20260105T180000",
+        "RRULE:FREQ=DAILY;COUNT=2",
+        "EXDATE:20260106T170000Z"
+      )
+    );
+    assert.equal(expand(ics, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z").length, 1);
+  });
+
+  test("RECURRENCE-ID flyttar ett tillfälle och inställda försvinner", () => {
+    const ics = calendar(
+      ...event("DTSTART:20260105T170000Z", "DURATION:PT2H", "RRULE:FREQ=DAILY;COUNT=3"),
+      "BEGIN:VEVENT",
+      "UID:test-1",
+      "SUMMARY:Flyttad",
+      "RECURRENCE-ID:20260106T170000Z",
+      "DTSTART:20260106T190000Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:test-1",
+      "RECURRENCE-ID:20260107T170000Z",
+      "DTSTART:20260107T170000Z",
+      "STATUS:CANCELLED",
+      "END:VEVENT"
+    );
+    const periods = expand(ics, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z");
+    assert.deepEqual(starts(periods), ["2026-01-05T17:00:00.000Z", "2026-01-06T19:00:00.000Z"]);
+    assert.equal(periods[1].summary, "Flyttad");
+    // Flyttat tillfälle utan egen längd ärver huvudhändelsens
+    assert.equal(periods[1].end.toISOString(), "2026-01-06T21:00:00.000Z");
+  });
+});
+
+describe("radbrytningar", () => {
+  test("vikta rader fogas ihop", () => {
+    assert.deepEqual(unfoldIcsLines("SUMMARY:Lång\r\n  rubrik\r\nUID:1\n\tx"), [
+      "SUMMARY:Lång rubrik",
+      "UID:1x",
+    ]);
+  });
+
+  test("vikt SUMMARY och escape-tecken i en händelse", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:test-1",
+      "DTSTART:20260105T170000Z",
+      "SUMMARY:Föräldramöte\\, klass",
+      " 3B\\; aula",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const [period] = expand(ics, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z");
+    assert.equal(period.summary, "Föräldramöte, klass3B; aula");
+  });
+});
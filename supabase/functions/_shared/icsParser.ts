@@ -0,0 +1,803 @@
+// Gemensam ICS-tolk (RFC 5545) för klienten och icloud-ics-proxy.
+// Får inte använda Deno- eller webbläsarspecifika API:er och inte importera andra filer,
+// så att samma fil kan byggas av Vite och köras direkt i en Edge Function.
+//
+// Stöd: VTIMEZONE/TZID (med Intl som reserv för IANA-namn), heldagshändelser,
+// RRULE med FREQ=DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY,
+// BYMONTH, BYSETPOS och WKST, samt RDATE, EXDATE och RECURRENCE-ID (flyttade/inställda tillfällen).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVENT_MS = 60 * 60 * 1000;
+// Skydd mot oändliga regler (t.ex. en daglig regel sedan 1990 utan COUNT).
+const MAX_RECURRENCE_PERIODS = 20000;
+
+// Proxyn märker varje VEVENT med vilken rad i user_calendars den kom från.
+export const CALENDAR_ID_PROPERTY = "X-MATPLAN-CALENDAR-ID";
+
+const WEEKDAY_TOKENS: Record<string, number> = {
+  SU: 0,
+  MO: 1,
+  TU: 2,
+  WE: 3,
+  TH: 4,
+  FR: 5,
+  SA: 6,
+};
+
+export type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+export type IcsComponent = {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+};
+
+// `local` är väggklockan kodad som UTC-millisekunder (Date.UTC av fälten), inte ett ögonblick.
+// Först med tidszonen blir det en riktig tidpunkt, se toInstant nedan.
+export type IcsDateTime = {
+  local: number;
+  kind: "date" | "utc" | "floating" | "zoned";
+  tzid: string | null;
+};
+
+export type RecurrenceRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: IcsDateTime | null;
+  byDay: { weekday: number; ordinal: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  wkst: number;
+};
+
+export type IcsEventPeriod = {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  summary: string;
+  description: string;
+  uid: string;
+  calendarId: string | null;
+};
+
+type IcsEventSource = {
+  uid: string;
+  summary: string;
+  description: string;
+  calendarId: string | null;
+  cancelled: boolean;
+  start: IcsDateTime;
+  end: IcsDateTime | null;
+  durationMs: number | null;
+  rrule: RecurrenceRule | null;
+  rdates: IcsDateTime[];
+  exdates: IcsDateTime[];
+  recurrenceId: IcsDateTime | null;
+};
+
+type TimezoneObservance = {
+  start: number;
+  offsetFrom: number;
+  offsetTo: number;
+  rule: RecurrenceRule | null;
+  rdates: number[];
+};
+
+// Offset i minuter öster om UTC för en väggklocka i given tidszon, eller null om okänd.
+type TimezoneResolver = (tzid: string, local: number) => number | null;
+
+export function unfoldIcsLines(icsText: string): string[] {
+  return icsText
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+export function decodeIcsText(rawValue: string): string {
+  return rawValue.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function parseIcsProperty(line: string): IcsProperty | null {
+  let colonIndex = -1;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i += 1) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex <= 0) return null;
+
+  const [rawName, ...rawParams] = splitOutsideQuotes(line.slice(0, colonIndex), ";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((rawParam) => {
+    const [key, ...rest] = rawParam.split("=");
+    if (!key) return;
+    params[key.trim().toUpperCase()] = rest.join("=").trim().replace(/^"(.*)"$/, "$1");
+  });
+
+  return { name: rawName.trim().toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+// Bygger komponentträdet (VCALENDAR > VEVENT > VALARM ...). Trasiga END-rader ignoreras.
+export function parseIcsComponents(icsText: string): IcsComponent[] {
+  const root: IcsComponent = { name: "", properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  unfoldIcsLines(icsText).forEach((line) => {
+    const property = parseIcsProperty(line);
+    if (!property) return;
+    const current = stack[stack.length - 1];
+
+    if (property.name === "BEGIN") {
+      const component: IcsComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+      return;
+    }
+
+    if (property.name === "END") {
+      const name = property.value.trim().toUpperCase();
+      const index = stack.map((component) => component.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      return;
+    }
+
+    current.properties.push(property);
+  });
+
+  return root.components;
+}
+
+// Plockar ut råa block (t.ex. alla VEVENT eller VTIMEZONE) för att slå ihop flera kalendrar.
+export function extractIcsBlocks(icsText: string, componentName: string): string[] {
+  const begin = `BEGIN:${componentName}`;
+  const end = `END:${componentName}`;
+  const blocks: string[] = [];
+  let current: string[] | null = null;
+  let depth = 0;
+
+  unfoldIcsLines(icsText).forEach((line) => {
+    const normalized = line.trim().toUpperCase();
+    if (normalized === begin) {
+      depth += 1;
+      if (depth === 1) current = [];
+    }
+    if (current) current.push(line);
+    if (normalized === end && depth > 0) {
+      depth -= 1;
+      if (depth === 0 && current) {
+        blocks.push(current.join("\n"));
+        current = null;
+      }
+    }
+  });
+
+  return blocks;
+}
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+export function parseIcsDateTime(
+  rawValue: string,
+  params: Record<string, string> = {}
+): IcsDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(rawValue.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const local = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0)
+  );
+
+  if (hour === undefined) return { local, kind: "date", tzid: null };
+  if (utc) return { local, kind: "utc", tzid: null };
+  // Vissa exportörer skriver TZID=/Europe/Stockholm.
+  const tzid = params.TZID?.replace(/^\//, "").trim();
+  return tzid ? { local, kind: "zoned", tzid } : { local, kind: "floating", tzid: null };
+}
+
+// EXDATE/RDATE kan ha flera värden per rad. För PERIOD används bara starttiden.
+function parseIcsDateTimeList(property: IcsProperty): IcsDateTime[] {
+  return property.value
+    .split(",")
+    .map((part) => parseIcsDateTime(part.split("/")[0], property.params))
+    .filter((value): value is IcsDateTime => value !== null);
+}
+
+export function parseIcsDuration(rawValue: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    rawValue.trim().toUpperCase()
+  );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS +
+    Number(hours ?? 0) * 3600000 +
+    Number(minutes ?? 0) * 60000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function parseUtcOffset(rawValue: string): number | null {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(rawValue.trim());
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]) + Number(match[4] ?? 0) / 60;
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+export function parseRecurrenceRule(rawValue: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  rawValue.split(";").forEach((part) => {
+    const [key, ...rest] = part.split("=");
+    if (!key) return;
+    parts[key.trim().toUpperCase()] = rest.join("=").trim().toUpperCase();
+  });
+
+  const freq = parts.FREQ;
+  // Regler på tim-/minutnivå förekommer inte i våra kalendrar; de tolkas som enstaka händelser.
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+
+  const parseNumbers = (value: string | undefined) =>
+    (value ?? "")
+      .split(",")
+      .map((part) => Number(part.trim()))
+      .filter((n) => Number.isInteger(n) && n !== 0);
+
+  const byDay = (parts.BYDAY ?? "")
+    .split(",")
+    .map((token) => /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => ({ weekday: WEEKDAY_TOKENS[match[2]], ordinal: Number(match[1] ?? 0) }));
+
+  const interval = Number(parts.INTERVAL ?? "1");
+  const count = Number(parts.COUNT ?? "0");
+
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    count: Number.isInteger(count) && count > 0 ? count : null,
+    until: parts.UNTIL ? parseIcsDateTime(parts.UNTIL) : null,
+    byDay,
+    byMonthDay: parseNumbers(parts.BYMONTHDAY),
+    byMonth: parseNumbers(parts.BYMONTH).filter((month) => month >= 1 && month <= 12),
+    bySetPos: parseNumbers(parts.BYSETPOS),
+    wkst: WEEKDAY_TOKENS[parts.WKST ?? "MO"] ?? 1,
+  };
+}
+
+function pickOrdinal<T>(values: T[], ordinal: number): T[] {
+  if (ordinal === 0) return values;
+  const value = ordinal > 0 ? values[ordinal - 1] : values[values.length + ordinal];
+  return value === undefined ? [] : [value];
+}
+
+// Utvidgar en regel i väggklocketid. Returnerar starttider (lokala) upp till och med endLocal.
+// fromLocal låter oss hoppa över gamla perioder när COUNT inte kräver att allt räknas.
+function expandRecurrence(
+  rule: RecurrenceRule,
+  startLocal: number,
+  options: {
+    endLocal: number;
+    fromLocal?: number;
+    isAfterUntil: (local: number) => boolean;
+  }
+): number[] {
+  const timeOfDay = ((startLocal % DAY_MS) + DAY_MS) % DAY_MS;
+  const startDay = startLocal - timeOfDay;
+  const startDate = new Date(startDay);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth();
+  const startMonthDay = startDate.getUTCDate();
+  const startWeekday = startDate.getUTCDay();
+  const firstWeekStart = startDay - ((startWeekday - rule.wkst + 7) % 7) * DAY_MS;
+
+  const monthAllowed = (day: number) =>
+    rule.byMonth.length === 0 || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+
+  const monthDayAllowed = (day: number) => {
+    if (rule.byMonthDay.length === 0) return true;
+    const date = new Date(day);
+    const daysInMonth = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    return rule.byMonthDay.some(
+      (monthDay) =>
+        (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === date.getUTCDate()
+    );
+  };
+
+  // Dagar som matchar BYDAY inom [first, last], med ordningstal (2MO, -1SU) räknat i intervallet.
+  const matchByDay = (first: number, last: number) => {
+    const days: number[] = [];
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = first; day <= last; day += DAY_MS) {
+        if (new Date(day).getUTCDay() === weekday) matching.push(day);
+      }
+      days.push(...pickOrdinal(matching, ordinal));
+    });
+    return days;
+  };
+
+  const getMonthDays = (year: number, month: number) => {
+    const first = Date.UTC(year, month, 1);
+    const last = Date.UTC(year, month + 1, 0);
+    if (rule.byDay.length > 0) return matchByDay(first, last).filter(monthDayAllowed);
+    if (rule.byMonthDay.length > 0) {
+      const days: number[] = [];
+      for (let day = first; day <= last; day += DAY_MS) {
+        if (monthDayAllowed(day)) days.push(day);
+      }
+      return days;
+    }
+    const day = Date.UTC(year, month, startMonthDay);
+    return new Date(day).getUTCMonth() === month ? [day] : [];
+  };
+
+  const getPeriodStart = (index: number) => {
+    const n = index * rule.interval;
+    if (rule.freq === "DAILY") return startDay + n * DAY_MS;
+    if (rule.freq === "WEEKLY") return firstWeekStart + n * 7 * DAY_MS;
+    if (rule.freq === "MONTHLY") return Date.UTC(startYear, startMonth + n, 1);
+    return Date.UTC(startYear + n, 0, 1);
+  };
+
+  const getPeriodDays = (index: number): number[] => {
+    const periodStart = getPeriodStart(index);
+    const periodDate = new Date(periodStart);
+
+    if (rule.freq === "DAILY") {
+      const weekdayAllowed =
+        rule.byDay.length === 0 ||
+        rule.byDay.some(({ weekday }) => weekday === periodDate.getUTCDay());
+      return weekdayAllowed && monthAllowed(periodStart) && monthDayAllowed(periodStart)
+        ? [periodStart]
+        : [];
+    }
+
+    if (rule.freq === "WEEKLY") {
+      const weekdays =
+        rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [startWeekday];
+      return Array.from({ length: 7 }, (_, i) => periodStart + i * DAY_MS).filter(
+        (day) => weekdays.includes(new Date(day).getUTCDay()) && monthAllowed(day)
+      );
+    }
+
+    if (rule.freq === "MONTHLY") {
+      return monthAllowed(periodStart)
+        ? getMonthDays(periodDate.getUTCFullYear(), periodDate.getUTCMonth())
+        : [];
+    }
+
+    const year = periodDate.getUTCFullYear();
+    if (rule.byMonth.length > 0) {
+      return rule.byMonth.flatMap((month) => getMonthDays(year, month - 1));
+    }
+    if (rule.byDay.length > 0) {
+      // YEARLY;BYDAY=20MO räknar veckodagar över hela året.
+      return matchByDay(Date.UTC(year, 0, 1), Date.UTC(year, 11, 31)).filter(monthDayAllowed);
+    }
+    if (rule.byMonthDay.length > 0) {
+      return Array.from({ length: 12 }, (_, month) => getMonthDays(year, month)).flat();
+    }
+    return getMonthDays(year, startMonth);
+  };
+
+  let firstPeriod = 0;
+  if (rule.count === null && options.fromLocal !== undefined && options.fromLocal > startLocal) {
+    const fromDate = new Date(options.fromLocal);
+    const elapsedUnits =
+      rule.freq === "DAILY"
+        ? Math.floor((options.fromLocal - startDay) / DAY_MS)
+        : rule.freq === "WEEKLY"
+        ? Math.floor((options.fromLocal - firstWeekStart) / (7 * DAY_MS))
+        : rule.freq === "MONTHLY"
+        ? (fromDate.getUTCFullYear() - startYear) * 12 + fromDate.getUTCMonth() - startMonth
+        : fromDate.getUTCFullYear() - startYear;
+    firstPeriod = Math.max(0, Math.floor(elapsedUnits / rule.interval) - 1);
+  }
+
+  const results: number[] = [];
+  let emitted = 0;
+
+  // DTSTART är alltid första tillfället och räknas in i COUNT.
+  if (firstPeriod === 0) {
+    if (options.isAfterUntil(startLocal) || startLocal > options.endLocal) return results;
+    results.push(startLocal);
+    emitted = 1;
+    if (rule.count !== null && emitted >= rule.count) return results;
+  }
+
+  for (let index = firstPeriod; index < firstPeriod + MAX_RECURRENCE_PERIODS; index += 1) {
+    if (getPeriodStart(index) > options.endLocal) break;
+
+    const days = Array.from(new Set(getPeriodDays(index))).sort((a, b) => a - b);
+    const selected =
+      rule.bySetPos.length > 0
+        ? Array.from(new Set(rule.bySetPos.flatMap((position) => pickOrdinal(days, position))))
+            .sort((a, b) => a - b)
+        : days;
+
+    for (const day of selected) {
+      const local = day + timeOfDay;
+      if (local <= startLocal) continue;
+      if (options.isAfterUntil(local) || local > options.endLocal) return results;
+      results.push(local);
+      emitted += 1;
+      if (rule.count !== null && emitted >= rule.count) return results;
+    }
+  }
+
+  return results;
+}
+
+const intlFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getIntlFormatter(tzid: string): Intl.DateTimeFormat | null {
+  if (!intlFormatters.has(tzid)) {
+    try {
+      intlFormatters.set(
+        tzid,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone: tzid,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+        })
+      );
+    } catch {
+      // Okänt namn (t.ex. Outlooks "W. Europe Standard Time").
+      intlFormatters.set(tzid, null);
+    }
+  }
+  return intlFormatters.get(tzid) ?? null;
+}
+
+function getIntlOffsetAt(formatter: Intl.DateTimeFormat, instant: number): number {
+  const fields: Record<string, number> = {};
+  formatter.formatToParts(new Date(instant)).forEach((part) => {
+    if (part.type !== "literal") fields[part.type] = Number(part.value);
+  });
+  const wallClock = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+function getIntlOffset(tzid: string, local: number): number | null {
+  const formatter = getIntlFormatter(tzid);
+  if (!formatter) return null;
+  const firstGuess = getIntlOffsetAt(formatter, local);
+  return getIntlOffsetAt(formatter, local - firstGuess * 60000);
+}
+
+// Väggklocka ↔ tidpunkt i en IANA-zon, för egna flöden. Okänd zon behandlas som UTC.
+export function zonedWallClockToInstant(local: number, tzid: string): number {
+  return local - (getIntlOffset(tzid, local) ?? 0) * 60000;
+}
+
+export function instantToZonedWallClock(instant: number, tzid: string): number {
+  const formatter = getIntlFormatter(tzid);
+  return formatter ? instant + getIntlOffsetAt(formatter, instant) * 60000 : instant;
+}
+
+function readObservance(component: IcsComponent): TimezoneObservance | null {
+  const dtstart = getProperty(component, "DTSTART");
+  const start = dtstart ? parseIcsDateTime(dtstart.value) : null;
+  const offsetFromProperty = getProperty(component, "TZOFFSETFROM");
+  const offsetToProperty = getProperty(component, "TZOFFSETTO");
+  const offsetTo = offsetToProperty ? parseUtcOffset(offsetToProperty.value) : null;
+  if (!start || offsetTo === null) return null;
+
+  const rruleProperty = getProperty(component, "RRULE");
+  return {
+    start: start.local,
+    offsetFrom:
+      (offsetFromProperty ? parseUtcOffset(offsetFromProperty.value) : null) ?? offsetTo,
+    offsetTo,
+    rule: rruleProperty ? parseRecurrenceRule(rruleProperty.value) : null,
+    rdates: getProperties(component, "RDATE")
+      .flatMap(parseIcsDateTimeList)
+      .map((value) => value.local),
+  };
+}
+
+// Senaste övergången till denna observans (sommar-/vintertid) som inträffat före local.
+function getLatestOnset(observance: TimezoneObservance, local: number): number | null {
+  const onsets = [observance.start, ...observance.rdates].filter((onset) => onset <= local);
+
+  if (observance.rule) {
+    const rule = observance.rule;
+    const expand = (fromLocal?: number) =>
+      expandRecurrence(rule, observance.start, {
+        endLocal: local,
+        fromLocal,
+        isAfterUntil: (value) => rule.until !== null && value > rule.until.local,
+      });
+    const recent = expand(local - 400 * DAY_MS);
+    onsets.push(...(recent.length > 0 ? recent : expand()));
+  }
+
+  return onsets.length > 0 ? Math.max(...onsets) : null;
+}
+
+function createTimezoneResolver(vtimezones: IcsComponent[]): TimezoneResolver {
+  const observancesByTzid = new Map<string, TimezoneObservance[]>();
+  vtimezones.forEach((vtimezone) => {
+    const tzid = getProperty(vtimezone, "TZID")?.value.replace(/^\//, "").trim();
+    if (!tzid || observancesByTzid.has(tzid)) return;
+    observancesByTzid.set(
+      tzid,
+      vtimezone.components
+        .filter((component) => component.name === "STANDARD" || component.name === "DAYLIGHT")
+        .map(readObservance)
+        .filter((observance): observance is TimezoneObservance => observance !== null)
+    );
+  });
+
+  const cache = new Map<string, number | null>();
+
+  return (tzid, local) => {
+    const key = `${tzid}|${local}`;
+    if (cache.has(key)) return cache.get(key) ?? null;
+
+    let offset: number | null = null;
+    const observances = observancesByTzid.get(tzid) ?? [];
+    if (observances.length > 0) {
+      let latestOnset = -Infinity;
+      for (const observance of observances) {
+        const onset = getLatestOnset(observance, local);
+        if (onset !== null && onset > latestOnset) {
+          latestOnset = onset;
+          offset = observance.offsetTo;
+        }
+      }
+      // Före första övergången gäller den tidigaste observansens "från"-offset.
+      if (offset === null) {
+        offset = [...observances].sort((a, b) => a.start - b.start)[0].offsetFrom;
+      }
+    } else {
+      offset = getIntlOffset(tzid, local);
+    }
+
+    cache.set(key, offset);
+    return offset;
+  };
+}
+
+function readEvent(component: IcsComponent): IcsEventSource | null {
+  const dtstart = getProperty(component, "DTSTART");
+  const start = dtstart ? parseIcsDateTime(dtstart.value, dtstart.params) : null;
+  if (!start) return null;
+
+  const dtend = getProperty(component, "DTEND");
+  const duration = getProperty(component, "DURATION");
+  const rrule = getProperty(component, "RRULE");
+  const recurrenceId = getProperty(component, "RECURRENCE-ID");
+  const text = (name: string) => {
+    const property = getProperty(component, name);
+    return property ? decodeIcsText(property.value).trim() : "";
+  };
+
+  return {
+    uid: text("UID"),
+    summary: text("SUMMARY"),
+    description: text("DESCRIPTION"),
+    calendarId: text(CALENDAR_ID_PROPERTY) || null,
+    cancelled: text("STATUS").toUpperCase() === "CANCELLED",
+    start,
+    end: dtend ? parseIcsDateTime(dtend.value, dtend.params) : null,
+    durationMs: duration ? parseIcsDuration(duration.value) : null,
+    rrule: rrule ? parseRecurrenceRule(rrule.value) : null,
+    rdates: getProperties(component, "RDATE").flatMap(parseIcsDateTimeList),
+    exdates: getProperties(component, "EXDATE").flatMap(parseIcsDateTimeList),
+    recurrenceId: recurrenceId
+      ? parseIcsDateTime(recurrenceId.value, recurrenceId.params)
+      : null,
+  };
+}
+
+function toDateKey(local: number): string {
+  return new Date(local).toISOString().slice(0, 10);
+}
+
+// Alla händelser (inklusive upprepningar) som överlappar [rangeStart, rangeEnd).
+// Inställda händelser och tillfällen hoppas över; flyttade tillfällen hamnar på sin nya tid.
+// timeZone anger var datum och flytande tider ligger (på servern); utan den gäller enhetens zon.
+export function expandIcsEvents(
+  icsText: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: { timeZone?: string } = {}
+): IcsEventPeriod[] {
+  const topLevel = parseIcsComponents(icsText);
+  const calendars = topLevel.filter((component) => component.name === "VCALENDAR");
+  const components = calendars.length > 0 ? calendars.flatMap((c) => c.components) : topLevel;
+
+  const resolveOffset = createTimezoneResolver(
+    components.filter((component) => component.name === "VTIMEZONE")
+  );
+
+  const toInstant = (value: IcsDateTime): number => {
+    if (value.kind === "utc") return value.local;
+    if (value.kind === "zoned" && value.tzid) {
+      const offset = resolveOffset(value.tzid, value.local);
+      if (offset !== null) return value.local - offset * 60000;
+    }
+    // Datum och flytande tider tolkas i angiven zon, annars i enhetens egen tidszon.
+    if (options.timeZone) return zonedWallClockToInstant(value.local, options.timeZone);
+    const date = new Date(value.local);
+    return new Date(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds()
+    ).getTime();
+  };
+
+  const events = components
+    .filter((component) => component.name === "VEVENT")
+    .map(readEvent)
+    .filter((event): event is IcsEventSource => event !== null);
+
+  const overridesByUid = new Map<string, IcsEventSource[]>();
+  const masterUids = new Set<string>();
+  events.forEach((event) => {
+    if (event.recurrenceId && event.uid) {
+      overridesByUid.set(event.uid, [...(overridesByUid.get(event.uid) ?? []), event]);
+    } else if (event.uid) {
+      masterUids.add(event.uid);
+    }
+  });
+
+  const rangeStartMs = rangeStart.getTime();
+  const rangeEndMs = rangeEnd.getTime();
+  const results: IcsEventPeriod[] = [];
+
+  const getDurationMs = (event: IcsEventSource, fallback: number | null) => {
+    if (event.durationMs !== null && event.durationMs > 0) return event.durationMs;
+    if (event.end) {
+      const ms =
+        event.start.kind === "date"
+          ? event.end.local - event.start.local
+          : toInstant(event.end) - toInstant(event.start);
+      if (ms > 0) return ms;
+    }
+    if (fallback !== null) return fallback;
+    return event.start.kind === "date" ? DAY_MS : DEFAULT_EVENT_MS;
+  };
+
+  const pushPeriod = (event: IcsEventSource, start: IcsDateTime, durationMs: number) => {
+    const allDay = start.kind === "date";
+    const startMs = toInstant(start);
+    // Heldagar räknas i hela kalenderdagar så att sommartidsbyten inte flyttar slutet.
+    const endMs = allDay
+      ? toInstant({
+          ...start,
+          local: start.local + Math.max(1, Math.round(durationMs / DAY_MS)) * DAY_MS,
+        })
+      : startMs + durationMs;
+    if (endMs <= rangeStartMs || startMs >= rangeEndMs) return;
+    results.push({
+      start: new Date(startMs),
+      end: new Date(endMs),
+      allDay,
+      summary: event.summary,
+      description: event.description,
+      uid: event.uid,
+      calendarId: event.calendarId,
+    });
+  };
+
+  events.forEach((event) => {
+    if (event.cancelled) return;
+
+    // Ett flyttat tillfälle utan huvudhändelse visas som en vanlig händelse.
+    if (event.recurrenceId) {
+      if (!masterUids.has(event.uid)) pushPeriod(event, event.start, getDurationMs(event, null));
+      return;
+    }
+
+    const durationMs = getDurationMs(event, null);
+    const occurrenceStarts: IcsDateTime[] = [event.start];
+
+    if (event.rrule) {
+      const rule = event.rrule;
+      const until = rule.until;
+      const untilMs = until
+        ? until.kind === "date"
+          ? toInstant({ ...until, local: until.local + DAY_MS }) - 1
+          : toInstant(until)
+        : null;
+      occurrenceStarts.length = 0;
+      expandRecurrence(rule, event.start.local, {
+        // Marginal för tidszonsskillnad mellan väggklocka och ögonblick.
+        endLocal: rangeEndMs + 2 * DAY_MS,
+        fromLocal: rangeStartMs - durationMs - 2 * DAY_MS,
+        isAfterUntil: (local) =>
+          untilMs !== null && toInstant({ ...event.start, local }) > untilMs,
+      }).forEach((local) => occurrenceStarts.push({ ...event.start, local }));
+    }
+    occurrenceStarts.push(...event.rdates);
+
+    const overrides = event.uid ? overridesByUid.get(event.uid) ?? [] : [];
+    const removed = [...event.exdates, ...overrides.map((override) => override.recurrenceId!)];
+    const removedInstants = new Set(
+      removed.filter((value) => value.kind !== "date").map(toInstant)
+    );
+    const removedDates = new Set(
+      removed.filter((value) => value.kind === "date").map((value) => toDateKey(value.local))
+    );
+
+    const seen = new Set<number>();
+    occurrenceStarts.forEach((start) => {
+      const instant = toInstant(start);
+      if (seen.has(instant)) return;
+      seen.add(instant);
+      if (removedInstants.has(instant) || removedDates.has(toDateKey(start.local))) return;
+      pushPeriod(event, start, durationMs);
+    });
+
+    overrides.forEach((override) => {
+      if (override.cancelled) return;
+      pushPeriod(override, override.start, getDurationMs(override, durationMs));
+    });
+  });
+
+  return results.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
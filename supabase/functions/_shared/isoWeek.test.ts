@@ -0,0 +1,153 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  dateToIsoWeek,
+  getIsoWeeksInYear,
+  isoWeekDayToDate,
+  isoWeekDayToISODate,
+  parseIsoWeek,
+  shiftIsoWeek,
+} from "./isoWeek.ts";
+
+// Zoner långt från UTC åt båda hållen, med och utan sommartid.
+const TIME_ZONES = [
+  "UTC",
+  "Europe/Stockholm",
+  "America/Los_Angeles",
+  "America/St_Johns",
+  "Asia/Kolkata",
+  "Pacific/Auckland",
+  "Pacific/Kiritimati",
+  "Pacific/Pago_Pago",
+];
+
+const originalTimeZone = process.env.TZ;
+
+function inTimeZones(run: (timeZone: string) => void) {
+  for (const timeZone of TIME_ZONES) {
+    process.env.TZ = timeZone;
+    run(timeZone);
+  }
+}
+
+afterEach(() => {
+  if (originalTimeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTimeZone;
+});
+
+// Oberoende referens: räknar direkt på UTC-datum.
+function referenceIsoWeek(year: number, monthIndex: number, day: number): string {
+  const date = new Date(Date.UTC(year, monthIndex, day));
+  const weekday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - weekday + 3);
+  const weekYear = date.getUTCFullYear();
+  const firstThursday = new Date(Date.UTC(weekYear, 0, 4));
+  firstThursday.setUTCDate(firstThursday.getUTCDate() - ((firstThursday.getUTCDay() + 6) % 7) + 3);
+  const week = 1 + Math.round((date.getTime() - firstThursday.getTime()) / (7 * 86400000));
+  return `${weekYear}-W${String(week).padStart(2, "0")}`;
+}
+
+const localDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+describe("veckor per år", () => {
+  test("53-veckorsår", () => {
+    for (const year of [2004, 2009, 2015, 2020, 2026, 2032, 2037]) {
+      assert.equal(getIsoWeeksInYear(year), 53, String(year));
+    }
+    for (const year of [2019, 2021, 2022, 2023, 2024, 2025, 2027]) {
+      assert.equal(getIsoWeeksInYear(year), 52, String(year));
+    }
+  });
+
+  test("vecka 53 finns bara i 53-veckorsår", () => {
+    assert.deepEqual(parseIsoWeek("2020-W53"), { year: 2020, week: 53 });
+    assert.deepEqual(parseIsoWeek("2026-W53"), { year: 2026, week: 53 });
+    assert.equal(parseIsoWeek("2025-W53"), null);
+    assert.equal(parseIsoWeek("2026-W00"), null);
+    assert.equal(parseIsoWeek("2026-W5"), null);
+    assert.equal(parseIsoWeek("2026W05"), null);
+  });
+});
+
+describe("årsskiften (29 dec – 4 jan)", () => {
+  const CASES: Array<[string, string]> = [
+    ["2019-12-29", "2019-W52"],
+    ["2019-12-30", "2020-W01"],
+    ["2020-01-01", "2020-W01"],
+    ["2020-12-31", "2020-W53"],
+    ["2021-01-03", "2020-W53"],
+    ["2021-01-04", "2021-W01"],
+    ["2024-12-29", "2024-W52"],
+    ["2024-12-30", "2025-W01"],
+    ["2025-12-29", "2026-W01"],
+    ["2026-01-01", "2026-W01"],
+    ["2026-12-31", "2026-W53"],
+    ["2027-01-03", "2026-W53"],
+    ["2027-01-04", "2027-W01"],
+    ["2027-12-31", "2027-W52"],
+    ["2028-01-02", "2027-W52"],
+  ];
+
+  test("datum till vecka i alla tidszoner", () => {
+    inTimeZones((timeZone) => {
+      CASES.forEach(([date, week]) => {
+        assert.equal(dateToIsoWeek(localDate(date)), week, `${date} i ${timeZone}`);
+        // Sent på kvällen ska inte hamna i nästa dag
+        const late = localDate(date);
+        late.setHours(23, 59, 59);
+        assert.equal(dateToIsoWeek(late), week, `${date} 23:59 i ${timeZone}`);
+      });
+    });
+  });
+
+  test("vecka och dag till datum i alla tidszoner", () => {
+    inTimeZones((timeZone) => {
+      assert.equal(isoWeekDayToISODate("2020-W53", 0), "2020-12-28", timeZone);
+      assert.equal(isoWeekDayToISODate("2020-W53", 6), "2021-01-03", timeZone);
+      assert.equal(isoWeekDayToISODate("2026-W01", 0), "2025-12-29", timeZone);
+      assert.equal(isoWeekDayToISODate("2026-W53", 6), "2027-01-03", timeZone);
+      const monday = isoWeekDayToDate("2026-W01", 0)!;
+      assert.deepEqual(
+        [monday.getFullYear(), monday.getMonth(), monday.getDate(), monday.getHours()],
+        [2025, 11, 29, 0],
+        timeZone
+      );
+    });
+  });
+
+  test("flytta över årsskiften", () => {
+    assert.equal(shiftIsoWeek("2020-W53", 1), "2021-W01");
+    assert.equal(shiftIsoWeek("2021-W01", -1), "2020-W53");
+    assert.equal(shiftIsoWeek("2025-W52", 1), "2026-W01");
+    assert.equal(shiftIsoWeek("2026-W52", 1), "2026-W53");
+    assert.equal(shiftIsoWeek("2026-W53", 1), "2027-W01");
+    assert.equal(shiftIsoWeek("2026-W10", 52), "2027-W09");
+    assert.equal(shiftIsoWeek("2026-W10", -104), "2024-W10");
+    assert.equal(shiftIsoWeek("ogiltig", 1), "ogiltig");
+  });
+});
+
+describe("alla dagar 1995–2040", () => {
+  test("stämmer med referensen och går fram och tillbaka", () => {
+    inTimeZones((timeZone) => {
+      const end = Date.UTC(2041, 0, 1);
+      for (let time = Date.UTC(1995, 0, 1); time < end; time += 86400000) {
+        const utc = new Date(time);
+        const [year, month, day] = [utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate()];
+        const date = new Date(year, month, day);
+        const week = dateToIsoWeek(date);
+        const expected = referenceIsoWeek(year, month, day);
+        if (week !== expected) assert.fail(`${utc.toISOString()} i ${timeZone}: ${week}`);
+
+        const dayId = (utc.getUTCDay() + 6) % 7;
+        const back = isoWeekDayToDate(week, dayId)!;
+        if (back.getTime() !== date.getTime()) {
+          assert.fail(`${week} dag ${dayId} i ${timeZone}: ${back.toString()}`);
+        }
+      }
+    });
+  });
+});
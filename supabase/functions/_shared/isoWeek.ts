@@ -0,0 +1,96 @@
+// ISO 8601-veckor ("2026-W02") – delas av appen, kalenderexporten och Edge Functions.
+// Veckan börjar på måndag och vecka 1 är veckan som innehåller 4 januari, så ett år har
+// 52 eller 53 veckor och de första/sista dagarna kan höra till grannåret.
+// Date-argument och -resultat är lokala kalenderdagar (new Date(år, månad, dag)); själva
+// räkningen sker på dagnummer så att tidszoner och sommartid aldrig flyttar en dag.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_PATTERN = /^(\d{4})-W(\d{2})$/;
+
+export type IsoWeek = { year: number; week: number };
+
+// Dagar sedan 1970-01-01 för en kalenderdag.
+function toDayNumber(year: number, monthIndex: number, day: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, monthIndex, day);
+  return Math.round(date.getTime() / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): Date {
+  const date = new Date(dayNumber * DAY_MS);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// 0 = måndag ... 6 = söndag (1970-01-01 var en torsdag).
+function getIsoWeekday(dayNumber: number): number {
+  return (((dayNumber + 3) % 7) + 7) % 7;
+}
+
+function getWeekOneMonday(year: number): number {
+  const jan4 = toDayNumber(year, 0, 4);
+  return jan4 - getIsoWeekday(jan4);
+}
+
+function dayNumberToIsoWeek(dayNumber: number): IsoWeek {
+  // Torsdagen i samma vecka avgör vilket år veckan tillhör.
+  const thursday = dayNumber - getIsoWeekday(dayNumber) + 3;
+  const year = new Date(thursday * DAY_MS).getUTCFullYear();
+  return { year, week: Math.floor((thursday - getWeekOneMonday(year)) / 7) + 1 };
+}
+
+export function getIsoWeeksInYear(year: number): number {
+  return (getWeekOneMonday(year + 1) - getWeekOneMonday(year)) / 7;
+}
+
+export function formatIsoWeek({ year, week }: IsoWeek): string {
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+// null för felaktigt format och för vecka 53 i år som bara har 52 veckor.
+export function parseIsoWeek(weekIdentifier: string): IsoWeek | null {
+  const match = WEEK_PATTERN.exec(weekIdentifier);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  if (week < 1 || week > getIsoWeeksInYear(year)) return null;
+  return { year, week };
+}
+
+export function dateToIsoWeek(date: Date): string {
+  return formatIsoWeek(
+    dayNumberToIsoWeek(toDayNumber(date.getFullYear(), date.getMonth(), date.getDate()))
+  );
+}
+
+export function getCurrentIsoWeek(now: Date = new Date()): string {
+  return dateToIsoWeek(now);
+}
+
+// Lokal midnatt för en dag i veckan (dayId 0 = måndag).
+export function isoWeekDayToDate(weekIdentifier: string, dayId: number): Date | null {
+  const parsed = parseIsoWeek(weekIdentifier);
+  if (!parsed) return null;
+  return fromDayNumber(getWeekOneMonday(parsed.year) + (parsed.week - 1) * 7 + dayId);
+}
+
+export function isoWeekToMonday(weekIdentifier: string): Date | null {
+  return isoWeekDayToDate(weekIdentifier, 0);
+}
+
+// "YYYY-MM-DD" för en dag i veckan. Ogiltig vecka ger dagens datum.
+export function isoWeekDayToISODate(weekIdentifier: string, dayId: number): string {
+  const date = isoWeekDayToDate(weekIdentifier, dayId) ?? new Date();
+  return [
+    String(date.getFullYear()).padStart(4, "0"),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+// Flyttar veckan framåt/bakåt över årsskiften. Ogiltig vecka returneras oförändrad.
+export function shiftIsoWeek(weekIdentifier: string, deltaWeeks: number): string {
+  const parsed = parseIsoWeek(weekIdentifier);
+  if (!parsed) return weekIdentifier;
+  const monday = getWeekOneMonday(parsed.year) + (parsed.week - 1 + deltaWeeks) * 7;
+  return formatIsoWeek(dayNumberToIsoWeek(monday));
+}
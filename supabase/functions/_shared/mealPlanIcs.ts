@@ -0,0 +1,459 @@
+// Kalenderhändelser för planerade måltider. Delas av nedladdningen i appen
+// (services/icsService.ts) och prenumerationsflödet (functions/meal-plan-feed) så att
+// rubriker, beskrivningar och UID blir identiska. Edge Functions kan inte importera
+// services/*.ts (de drar in Supabase-klienten), därför finns de få uppslag som behövs här.
+
+import type {
+  ActiveDayIndices,
+  DayPlan,
+  MealDish,
+  MealSlotConfig,
+  MealSlotPlan,
+  MealSlotRef,
+  MealSlotType,
+  Recipe,
+  WeekPlan,
+} from "../../../types.ts";
+import { isoWeekDayToDate } from "./isoWeek.ts";
+
+// Standardmåltider – motsvarar det gamla, hårdkodade upplägget med lunch + kvällsmat.
+export const DEFAULT_MEAL_SLOTS: MealSlotConfig[] = [
+  {
+    id: "lunch",
+    label: "Lunch",
+    startTime: "12:30",
+    durationMinutes: 60,
+    defaultActiveDays: [5, 6],
+    busyWindow: { start: "11:00", end: "14:30" },
+  },
+  {
+    id: "dinner",
+    label: "Kvällsmat",
+    startTime: "17:30",
+    durationMinutes: 60,
+    defaultActiveDays: [0, 1, 2, 3, 4, 5],
+    busyWindow: { start: "16:00", end: "21:00" },
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NAMES = ["måndag", "tisdag", "onsdag", "torsdag", "fredag", "lördag", "söndag"];
+
+export type MealEventRecipe = Pick<
+  Recipe,
+  "id" | "name" | "source" | "baseServings" | "activeMinutes" | "totalMinutes"
+>;
+
+// Ingredienser (i receptets grundportioner) och steg i ordning.
+export type MealEventRecipeContent = {
+  ingredients: Array<{
+    name: string;
+    amount: number | null;
+    unit: string | null;
+    optional: boolean;
+  }>;
+  steps: string[];
+};
+
+// Påminnelse före måltiden (relativ) eller vid en fast väggklocketid (absolut).
+export type MealEventAlarm = {
+  description: string;
+  minutesBeforeStart?: number;
+  atLocal?: number;
+};
+
+// Tider är väggklocka kodad som Date.UTC-millisekunder; serializeMealCalendar gör om
+// dem till riktiga tidpunkter med enhetens eller användarens tidszon.
+export type MealCalendarEvent = {
+  uid: string;
+  weekIdentifier: string;
+  dayId: number;
+  slot: MealSlotType;
+  startLocal: number;
+  endLocal: number;
+  summary: string;
+  description: string;
+  // Länk till receptvyn i appen (första receptet)
+  url: string | null;
+  alarms: MealEventAlarm[];
+};
+
+export type MealEventOptions = {
+  // Begränsa till specifika måltidstyper vid export av enstaka dag/slot.
+  slots?: MealSlotType[];
+  // Styr vilka dagar som är aktiva per slot.
+  activeDayIndices?: ActiveDayIndices;
+  // Användarens måltider (namn, tid och längd). Standard: lunch + kvällsmat.
+  mealSlots?: MealSlotConfig[];
+  // Alla veckoplaner, så att rester från föregående vecka kan få rätt namn.
+  weekPlans?: WeekPlan[];
+  // Ingredienser och steg per recept-id – beskrivningen räcker då för att laga maten.
+  recipeContents?: Map<number, MealEventRecipeContent>;
+  // Appens adress utan hash; ger URL till receptvyn (#/recipes/:id/view).
+  appUrl?: string;
+};
+
+// Veckodagens midnatt som väggklocka (Date.UTC-ms), samma kodning som händelsernas tider.
+function weekDayToLocal(weekIdentifier: string, dayId: number): number | null {
+  const date = isoWeekDayToDate(weekIdentifier, dayId);
+  return date ? Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) : null;
+}
+
+function timeToMinutes(value: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+}
+
+// Starttid för måltiden en viss veckodag (avvikande tid eller standardtiden).
+export function getMealSlotStartTime(mealSlot: MealSlotConfig, dayId: number): string {
+  return mealSlot.dayStartTimes?.[dayId] ?? mealSlot.startTime;
+}
+
+// Längsta kända tillagningstiden bland rätterna (total tid i första hand).
+function getPrepMinutes(recipes: MealEventRecipe[]): number | null {
+  const known = recipes
+    .map((recipe) => recipe.totalMinutes ?? recipe.activeMinutes ?? null)
+    .filter((minutes): minutes is number => minutes != null && minutes > 0);
+  return known.length > 0 ? Math.max(...known) : null;
+}
+
+function buildAlarms(
+  mealSlot: MealSlotConfig,
+  dateLocal: number,
+  title: string,
+  dishRecipes: MealEventRecipe[]
+): MealEventAlarm[] {
+  const reminders = mealSlot.reminders;
+  if (!reminders) return [];
+  const alarms: MealEventAlarm[] = [];
+
+  if (reminders.cookingMarginMinutes != null) {
+    const prepMinutes = getPrepMinutes(dishRecipes);
+    alarms.push({
+      description:
+        prepMinutes != null
+          ? `Dags att börja laga ${title} (${prepMinutes} min)`
+          : `Snart dags för ${title}`,
+      minutesBeforeStart: (prepMinutes ?? 0) + reminders.cookingMarginMinutes,
+    });
+  }
+  if (reminders.eveningBeforeTime) {
+    alarms.push({
+      description: `Imorgon: ${title} – ta fram ur frysen?`,
+      atLocal: dateLocal - DAY_MS + timeToMinutes(reminders.eveningBeforeTime) * 60000,
+    });
+  }
+  return alarms;
+}
+
+function formatScaledAmount(amount: number | null, factor: number): string {
+  if (amount === null) return "";
+  const rounded = Math.round(amount * factor * 100) / 100;
+  if (Number.isInteger(rounded)) return String(rounded);
+  return rounded.toFixed(2).replace(/\.?0+$/, "");
+}
+
+// Ingredienser och steg för ett recept, skalat till måltidens portioner.
+function formatRecipeContent(
+  recipe: MealEventRecipe,
+  content: MealEventRecipeContent,
+  servings: number,
+  withName: boolean
+): string {
+  const baseServings = Math.max(1, Math.round(recipe.baseServings || 4));
+  const factor = servings / baseServings;
+  const prefix = withName ? `${recipe.name} – ` : "";
+  const sections: string[] = [];
+
+  if (content.ingredients.length > 0) {
+    sections.push(
+      [
+        `${prefix}Ingredienser (${servings} portioner):`,
+        ...content.ingredients.map((ingredient) => {
+          const text = [
+            formatScaledAmount(ingredient.amount, factor),
+            ingredient.unit,
+            ingredient.name,
+          ]
+            .map((part) => (part ?? "").trim())
+            .filter(Boolean)
+            .join(" ");
+          return `- ${text}${ingredient.optional ? " (valfri)" : ""}`;
+        }),
+      ].join("\n")
+    );
+  }
+  const steps = content.steps.map((step) => step.trim()).filter(Boolean);
+  if (steps.length > 0) {
+    sections.push(
+      [`${prefix}Gör så här:`, ...steps.map((step, index) => `${index + 1}. ${step}`)].join("\n")
+    );
+  }
+  return sections.join("\n\n");
+}
+
+function getSlotPlan(day: DayPlan | undefined, slot: MealSlotType): MealSlotPlan {
+  return day?.meals?.[slot] ?? { dishes: [] };
+}
+
+function getDishLabel(dish: MealDish, recipes: MealEventRecipe[]): string {
+  if (dish.recipeId !== null) {
+    return recipes.find((r) => r.id === dish.recipeId)?.name?.trim() || "";
+  }
+  return (dish.freeText ?? "").trim();
+}
+
+function hasSlotContent(slotPlan: MealSlotPlan): boolean {
+  return (
+    !!slotPlan.leftoversFrom ||
+    (slotPlan.dishes ?? []).some(
+      (dish) => dish.recipeId !== null || !!(dish.freeText && dish.freeText.trim())
+    )
+  );
+}
+
+function findSlotPlan(plans: WeekPlan[], ref: MealSlotRef): MealSlotPlan | null {
+  const day = plans
+    .find((p) => p.weekIdentifier === ref.weekIdentifier)
+    ?.days.find((d) => d.dayId === ref.dayId);
+  const slotPlan = day?.meals?.[ref.slot];
+  return slotPlan && !slotPlan.leftoversFrom ? slotPlan : null;
+}
+
+function resolveActiveDays(
+  activeDayIndices: ActiveDayIndices | undefined,
+  slot: MealSlotType
+): number[] {
+  const days = activeDayIndices?.[slot];
+  return Array.isArray(days) ? days : ALL_DAYS;
+}
+
+// En händelse per tänd måltid med innehåll. UID beror bara på vecka, dag och måltid,
+// så att ändrade rätter uppdaterar samma händelse i kalendern i stället för att skapa en ny.
+export function buildMealEvents(
+  weekIdentifier: string,
+  days: DayPlan[],
+  recipes: MealEventRecipe[],
+  options?: MealEventOptions
+): MealCalendarEvent[] {
+  const mealSlots = options?.mealSlots?.length ? options.mealSlots : DEFAULT_MEAL_SLOTS;
+  const selectedSlots = options?.slots?.length
+    ? mealSlots.filter((slot) => options.slots!.includes(slot.id))
+    : mealSlots;
+  const lookupPlans: WeekPlan[] = [
+    ...(options?.weekPlans ?? []).filter((p) => p.weekIdentifier !== weekIdentifier),
+    { weekIdentifier, days },
+  ];
+
+  const events: MealCalendarEvent[] = [];
+
+  days.forEach((day) => {
+    const dateLocal = weekDayToLocal(weekIdentifier, day.dayId);
+    if (dateLocal === null) return;
+
+    selectedSlots.forEach((mealSlot) => {
+      const slot = mealSlot.id;
+      if (!resolveActiveDays(options?.activeDayIndices, slot).includes(day.dayId)) return;
+
+      const slotPlan = getSlotPlan(day, slot);
+      if (!hasSlotContent(slotPlan)) return;
+
+      // Rester har inga egna rätter – beskriv dem utifrån källmåltiden.
+      const leftoversFrom = slotPlan.leftoversFrom ?? null;
+      const sourcePlan = leftoversFrom ? findSlotPlan(lookupPlans, leftoversFrom) : null;
+      const dishPlan = leftoversFrom ? sourcePlan ?? slotPlan : slotPlan;
+      const dishRecipes = (dishPlan.dishes ?? [])
+        .map((dish) => recipes.find((r) => r.id === dish.recipeId))
+        .filter((r): r is MealEventRecipe => !!r);
+      const dishLabels = (dishPlan.dishes ?? [])
+        .map((dish) => getDishLabel(dish, recipes))
+        .filter(Boolean);
+
+      let summary = dishLabels.join(" + ") || mealSlot.label;
+      let leftoversDescription = "";
+      if (leftoversFrom) {
+        summary = `Rester: ${(sourcePlan ? dishLabels.join(" + ") : "") || "okänd måltid"}`;
+        const sourceSlotLabel =
+          mealSlots.find((s) => s.id === leftoversFrom.slot)?.label ?? leftoversFrom.slot;
+        const sourceWeek =
+          leftoversFrom.weekIdentifier !== weekIdentifier
+            ? ` (${leftoversFrom.weekIdentifier})`
+            : "";
+        leftoversDescription = `Rester från ${DAY_NAMES[leftoversFrom.dayId]} ${sourceSlotLabel.toLowerCase()}${sourceWeek}`;
+      }
+
+      const servings =
+        slotPlan.servings != null && Number.isFinite(slotPlan.servings)
+          ? Math.max(1, Math.round(slotPlan.servings))
+          : Math.max(1, Math.round(dishRecipes[0]?.baseServings || 4));
+      const guestNote = (slotPlan.guestNote ?? "").trim();
+      // Lägg in en tydlig intern markering så vi kan ignorera egna exporter i kalenderläsning.
+      const description = [
+        leftoversDescription,
+        dishLabels.length > 1
+          ? ["Rätter:", ...dishLabels.map((label) => `- ${label}`)].join("\n")
+          : "",
+        dishRecipes.length > 0 || slotPlan.servings != null ? `Portioner: ${servings}` : "",
+        guestNote ? `Gäster: ${guestNote}` : "",
+        ...dishRecipes.map((recipe) =>
+          recipe.source
+            ? dishRecipes.length > 1
+              ? `Källa (${recipe.name}): ${recipe.source}`
+              : `Källa: ${recipe.source}`
+            : ""
+        ),
+        // Rester ska inte lagas – då räcker rubriken.
+        ...(leftoversFrom
+          ? []
+          : dishRecipes.map((recipe) => {
+              const content = options?.recipeContents?.get(recipe.id);
+              if (!content) return "";
+              const dishServings =
+                slotPlan.servings != null && Number.isFinite(slotPlan.servings)
+                  ? servings
+                  : Math.max(1, Math.round(recipe.baseServings || 4));
+              const text = formatRecipeContent(
+                recipe,
+                content,
+                dishServings,
+                dishRecipes.length > 1
+              );
+              return text ? `\n${text}\n` : "";
+            })),
+        `X-MATPLAN-EXPORT:1`,
+        `X-MATPLAN-SLOT:${slot}`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+      const startLocal =
+        dateLocal + timeToMinutes(getMealSlotStartTime(mealSlot, day.dayId)) * 60000;
+      events.push({
+        uid: `${weekIdentifier}-${day.dayId}-${slot}@matplan`,
+        weekIdentifier,
+        dayId: day.dayId,
+        slot,
+        startLocal,
+        endLocal: startLocal + mealSlot.durationMinutes * 60000,
+        summary,
+        description,
+        url:
+          options?.appUrl && dishRecipes[0] && !leftoversFrom
+            ? `${options.appUrl}#/recipes/${dishRecipes[0].id}/view`
+            : null,
+        // Rester behöver varken lagas eller tas fram ur frysen.
+        alarms: leftoversFrom ? [] : buildAlarms(mealSlot, dateLocal, summary, dishRecipes),
+      });
+    });
+  });
+
+  return events;
+}
+
+// Allt som syns i kalendern – ändras det ska SEQUENCE räknas upp.
+export function getMealEventFingerprint(event: MealCalendarEvent): string {
+  return JSON.stringify([
+    event.summary,
+    event.description,
+    event.startLocal,
+    event.endLocal,
+    event.url,
+    event.alarms,
+  ]);
+}
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+}
+
+// RFC 5545 3.1: rader längre än 75 oktetter viks med CRLF + mellanslag.
+// Teckenvis så att flerbytestecken (å, ä, ö) aldrig delas.
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Fortsättningsrader börjar med ett mellanslag som räknas in i 75.
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function formatIcsUtc(instant: number): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+export type SerializeMealCalendarOptions = {
+  // Väggklocka (Date.UTC-ms) → tidpunkt i ms, i enhetens eller användarens tidszon.
+  toInstant: (local: number) => number;
+  // SEQUENCE per UID (saknas = 0)
+  sequences?: Map<string, number>;
+  // Namn och uppdateringsintervall för prenumererade kalendrar
+  calendarName?: string;
+  refreshInterval?: string;
+  now?: Date;
+};
+
+export function serializeMealCalendar(
+  events: MealCalendarEvent[],
+  options: SerializeMealCalendarOptions
+): string {
+  const stamp = formatIcsUtc((options.now ?? new Date()).getTime());
+  const header = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Matplaneraren//SE",
+    "CALSCALE:GREGORIAN",
+  ];
+  if (options.calendarName) {
+    header.push("METHOD:PUBLISH", `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`);
+  }
+  if (options.refreshInterval) {
+    header.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+      `X-PUBLISHED-TTL:${options.refreshInterval}`
+    );
+  }
+
+  const body = events.flatMap((event) => [
+    "BEGIN:VEVENT",
+    `UID:${escapeIcsText(event.uid)}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${options.sequences?.get(event.uid) ?? 0}`,
+    `DTSTART:${formatIcsUtc(options.toInstant(event.startLocal))}`,
+    `DTEND:${formatIcsUtc(options.toInstant(event.endLocal))}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `DESCRIPTION:${escapeIcsText(event.description)}`,
+    // URL är en URI och ska inte TEXT-escapas.
+    ...(event.url ? [`URL:${event.url}`] : []),
+    // Receptbild som ATTACH saknas med avsikt: recepten har inget bildfält att länka till.
+    ...event.alarms.flatMap((alarm) => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeIcsText(alarm.description)}`,
+      alarm.atLocal != null
+        ? `TRIGGER;VALUE=DATE-TIME:${formatIcsUtc(options.toInstant(alarm.atLocal))}`
+        : `TRIGGER:-PT${Math.max(0, Math.round(alarm.minutesBeforeStart ?? 0))}M`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ]);
+
+  // CRLF även efter sista raden (RFC 5545 3.1).
+  return [...header, ...body, "END:VCALENDAR"].map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,94 @@
+// Läser en användares planerade måltider med service role och bygger kalenderhändelser.
+// Delas av meal-plan-feed (prenumeration) och caldav-meal-sync (skrivning till CalDAV).
+
+import type { createClient } from "npm:@supabase/supabase-js@2";
+import type { WeekPlan } from "../../../types.ts";
+import { instantToZonedWallClock } from "./icsParser.ts";
+import { dateToIsoWeek, shiftIsoWeek } from "./isoWeek.ts";
+import {
+  buildMealEvents,
+  type MealCalendarEvent,
+  type MealEventRecipe,
+} from "./mealPlanIcs.ts";
+import {
+  normalizeActiveDays,
+  normalizeDayPlans,
+  normalizeMealSlots,
+} from "./planNormalization.ts";
+
+type AdminClient = ReturnType<typeof createClient>;
+
+// Samma normalisering som appen, så att äldre rader (recipeId direkt på dagen, lunch/dinner
+// på dagraden, aktiva dagar som lista) ger samma händelser som i appen.
+function toWeekPlan(row: any): WeekPlan {
+  return {
+    weekIdentifier: String(row?.week_identifier ?? ""),
+    days: normalizeDayPlans(row?.days),
+    activeDayIndices: normalizeActiveDays(row?.active_day_indices),
+  };
+}
+
+// ISO-veckor relativt innevarande vecka, räknat i användarens tidszon.
+export function resolveWeeks(fromOffset: number, toOffset: number, timezone: string): string[] {
+  const today = new Date(instantToZonedWallClock(Date.now(), timezone));
+  const currentWeek = dateToIsoWeek(
+    new Date(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())
+  );
+  const weeks: string[] = [];
+  for (let offset = fromOffset; offset <= toOffset; offset += 1) {
+    weeks.push(shiftIsoWeek(currentWeek, offset));
+  }
+  return weeks;
+}
+
+// Händelser för föregående vecka och lookAheadWeeks framåt. En vecka till bakåt läses in
+// så att rester från veckan innan får rätt namn.
+export async function loadMealEventsForUser(
+  adminClient: AdminClient,
+  userId: string,
+  options: { lookAheadWeeks: number; timezone: string }
+): Promise<{ weeks: string[]; events: MealCalendarEvent[] }> {
+  const weeks = resolveWeeks(-1, options.lookAheadWeeks, options.timezone);
+  const lookupWeeks = resolveWeeks(-2, options.lookAheadWeeks, options.timezone);
+
+  const [plansResult, recipesResult, settingsResult] = await Promise.all([
+    adminClient
+      .from("week_plans")
+      .select("week_identifier,days,active_day_indices")
+      .eq("user_id", userId)
+      .in("week_identifier", lookupWeeks),
+    adminClient
+      .from("recipes")
+      .select("id,name,source,base_servings,active_minutes,total_minutes")
+      .eq("user_id", userId),
+    adminClient.from("user_settings").select("meal_slots").eq("user_id", userId).maybeSingle(),
+  ]);
+  if (plansResult.error) throw new Error(`Failed to load week_plans: ${plansResult.error.message}`);
+  if (recipesResult.error) throw new Error(`Failed to load recipes: ${recipesResult.error.message}`);
+  if (settingsResult.error) {
+    throw new Error(`Failed to load user_settings: ${settingsResult.error.message}`);
+  }
+
+  const weekPlans: WeekPlan[] = (plansResult.data ?? []).map(toWeekPlan);
+  const recipes: MealEventRecipe[] = (recipesResult.data ?? []).map((row: any) => ({
+    id: Number(row.id),
+    name: String(row.name ?? ""),
+    source: row.source ?? undefined,
+    baseServings: Number(row.base_servings) || 4,
+    activeMinutes: row.active_minutes ?? null,
+    totalMinutes: row.total_minutes ?? null,
+  }));
+  const mealSlots = normalizeMealSlots((settingsResult.data as any)?.meal_slots ?? null);
+
+  const events = weeks.flatMap((week) => {
+    const plan = weekPlans.find((p) => p.weekIdentifier === week);
+    if (!plan) return [];
+    return buildMealEvents(week, plan.days, recipes, {
+      activeDayIndices: plan.activeDayIndices,
+      mealSlots,
+      weekPlans,
+    });
+  });
+
+  return { weeks, events };
+}
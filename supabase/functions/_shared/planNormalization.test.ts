@@ -0,0 +1,95 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_MEAL_SLOTS, type MealEventRecipe, buildMealEvents } from "./mealPlanIcs.ts";
+import {
+  normalizeActiveDays,
+  normalizeDayPlans,
+  normalizeMealSlots,
+} from "./planNormalization.ts";
+
+const RECIPES: MealEventRecipe[] = [
+  { id: 1, name: "Lasagne", source: null, baseServings: 4 },
+  { id: 2, name: "Tomatsoppa", source: null, baseServings: 2 },
+];
+
+describe("äldre veckoplaner", () => {
+  test("recept och fritext direkt på dagen blir kvällsmat", () => {
+    assert.deepEqual(
+      normalizeDayPlans([
+        { dayId: 0, recipeId: "1" },
+        { dayId: 1, recipeId: null, freeText: " Pizza " },
+      ]),
+      [
+        {
+          dayId: 0,
+          meals: {
+            dinner: { dishes: [{ recipeId: 1, freeText: null }], leftoversFrom: null, servings: null, guestNote: null },
+          },
+        },
+        {
+          dayId: 1,
+          meals: {
+            dinner: { dishes: [{ recipeId: null, freeText: "Pizza" }], leftoversFrom: null, servings: null, guestNote: null },
+          },
+        },
+      ]
+    );
+  });
+
+  test("lunch och dinner på dagraden flyttas in under meals", () => {
+    const [day] = normalizeDayPlans([
+      { dayId: 5, lunch: { recipeId: 2 }, dinner: { recipeId: 1, servings: 6 } },
+    ]);
+    assert.deepEqual(day.meals.lunch.dishes, [{ recipeId: 2, freeText: null }]);
+    assert.deepEqual(day.meals.dinner.dishes, [{ recipeId: 1, freeText: null }]);
+    assert.equal(day.meals.dinner.servings, 6);
+  });
+
+  test("aktiva dagar som lista gäller kvällsmaten; utan kvällsmat är alla dagar tända", () => {
+    assert.deepEqual(normalizeActiveDays([3, "1", 1, 9]), { lunch: [], dinner: [1, 3] });
+    assert.deepEqual(normalizeActiveDays({ lunch: [6, 5], fika: [] }), {
+      lunch: [5, 6],
+      fika: [],
+      dinner: [0, 1, 2, 3, 4, 5, 6],
+    });
+    assert.deepEqual(normalizeActiveDays({ lunch: [], dinner: [] }).dinner, [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(normalizeActiveDays(null).dinner, [0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  test("ger samma kalenderhändelser som nya formatet", () => {
+    const legacy = buildMealEvents(
+      "2026-W43",
+      normalizeDayPlans([{ dayId: 0, recipeId: 1 }, { dayId: 5, lunch: { recipeId: 2 } }]),
+      RECIPES,
+      { activeDayIndices: normalizeActiveDays({ lunch: [5], dinner: [0] }) }
+    );
+    assert.deepEqual(
+      legacy.map(({ dayId, slot, summary }) => [dayId, slot, summary]),
+      [
+        [0, "dinner", "Lasagne"],
+        [5, "lunch", "Tomatsoppa"],
+      ]
+    );
+  });
+});
+
+describe("måltider", () => {
+  test("saknade eller tomma måltider ger standardmåltiderna", () => {
+    assert.equal(normalizeMealSlots(null), DEFAULT_MEAL_SLOTS);
+    assert.equal(normalizeMealSlots([]), DEFAULT_MEAL_SLOTS);
+    assert.equal(normalizeMealSlots([{ id: "", label: "Fika" }]), DEFAULT_MEAL_SLOTS);
+  });
+
+  test("ogiltiga värden får standardvärden", () => {
+    const [fika] = normalizeMealSlots([
+      { id: "fika", label: " Fika ", startTime: "9:30", durationMinutes: "x", dayStartTimes: { 2: "09:30", 3: "25:00", 4: "10:00" } },
+      { id: "fika", label: "Dublett" },
+    ]);
+    assert.equal(fika.label, "Fika");
+    assert.equal(fika.startTime, "09:30");
+    assert.equal(fika.durationMinutes, 60);
+    assert.deepEqual(fika.busyWindow, { start: "08:30", end: "11:30" });
+    assert.deepEqual(fika.dayStartTimes, { 4: "10:00" });
+    assert.deepEqual(fika.defaultActiveDays, []);
+  });
+});
@@ -0,0 +1,251 @@
+// Normalisering av veckoplaner (week_plans, week_templates) och måltider
+// (user_settings.meal_slots) från databasen. Tål alla äldre format så att gamla rader kan
+// läsas utan migrering. Ren modul utan Supabase/DOM – appen (services/weekPlanService.ts,
+// services/mealSlotService.ts) och Edge Functions (mealPlanSource.ts) läser samma format.
+
+import type {
+  ActiveDayIndices,
+  DayPlan,
+  MealDish,
+  MealSlotConfig,
+  MealSlotPlan,
+  MealSlotRef,
+  MealSlotReminders,
+} from "../../../types.ts";
+import { DEFAULT_MEAL_SLOTS } from "./mealPlanIcs.ts";
+
+// Måltider som tidigare låg direkt på dagraden (innan måltiderna blev konfigurerbara).
+const LEGACY_SLOT_KEYS = ["lunch", "dinner"];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+function normalizeDayIndexArray(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  const nums = v
+    .map((x) => Number(x))
+    .filter((n) => Number.isInteger(n) && n >= 0 && n <= 6);
+  return Array.from(new Set(nums)).sort((a, b) => a - b);
+}
+
+/* ---- Veckoplaner ---- */
+
+// Bakåtkompatibel normalisering:
+// - gammalt format: [0,1,2...] => tolkas som middag/kvällsmat
+// - nytt format: { <måltids-id>: [...], ... }
+// Saknas kvällsmat (eller är den tom) är alla dagar tända, som i de äldsta raderna.
+export function normalizeActiveDays(v: any): ActiveDayIndices {
+  if (Array.isArray(v)) {
+    return {
+      lunch: [],
+      dinner: normalizeDayIndexArray(v),
+    };
+  }
+
+  const out: ActiveDayIndices = {};
+  if (v && typeof v === "object") {
+    for (const [slotId, days] of Object.entries(v)) {
+      out[slotId] = normalizeDayIndexArray(days);
+    }
+  }
+  const dinner = out.dinner ?? [];
+  out.dinner = dinner.length > 0 ? dinner : [...ALL_DAYS];
+  return out;
+}
+
+function normalizeMealDish(raw: any): MealDish | null {
+  const rawRecipeId = raw?.recipeId;
+  const recipeId =
+    rawRecipeId === null || rawRecipeId === undefined || rawRecipeId === ""
+      ? null
+      : Number(rawRecipeId);
+
+  const freeText = typeof raw?.freeText === "string" ? raw.freeText.trim() : null;
+  const hasText = !!(freeText && freeText.length > 0);
+  const hasRecipe = Number.isFinite(recipeId as number);
+
+  if (hasText) return { recipeId: null, freeText };
+  if (hasRecipe) return { recipeId: recipeId as number, freeText: null };
+  return null;
+}
+
+function normalizeMealSlotRef(raw: any): MealSlotRef | null {
+  const weekIdentifier =
+    typeof raw?.weekIdentifier === "string" ? raw.weekIdentifier.trim() : "";
+  const dayId = Number(raw?.dayId);
+  const slot = typeof raw?.slot === "string" ? raw.slot.trim() : "";
+  if (!weekIdentifier || !slot) return null;
+  if (!Number.isInteger(dayId) || dayId < 0 || dayId > 6) return null;
+  return { weekIdentifier, dayId, slot };
+}
+
+function normalizeSlotPlan(raw: any): MealSlotPlan {
+  // Bakåtkompatibilitet: en ensam recipeId/freeText blir första rätten
+  const rawDishes = Array.isArray(raw?.dishes) ? raw.dishes : [raw];
+  const dishes = rawDishes
+    .map((dish: any) => normalizeMealDish(dish))
+    .filter((dish: MealDish | null): dish is MealDish => dish !== null);
+
+  const rawServings = Number(raw?.servings);
+  const servings =
+    raw?.servings === null || raw?.servings === undefined || !Number.isFinite(rawServings)
+      ? null
+      : Math.max(1, Math.round(rawServings));
+  const guestNote = typeof raw?.guestNote === "string" ? raw.guestNote.trim() : "";
+  const leftoversFrom = normalizeMealSlotRef(raw?.leftoversFrom);
+
+  return {
+    dishes: leftoversFrom ? [] : dishes,
+    leftoversFrom,
+    servings,
+    guestNote: guestNote || null,
+  };
+}
+
+export function normalizeDayPlans(v: any): DayPlan[] {
+  if (!Array.isArray(v)) return [];
+
+  const out: DayPlan[] = [];
+
+  for (const raw of v) {
+    const dayId = Number(raw?.dayId);
+    if (!Number.isFinite(dayId) || dayId < 0 || dayId > 6) continue;
+
+    // Bakåtkompatibilitet:
+    // - gammal dagrad med recipeId/freeText mappas till dinner
+    // - lunch/dinner direkt på dagraden flyttas in under meals
+    // - nytt format läses från meals (en nyckel per måltid, även borttagna måltider behålls)
+    const hasLegacyFields =
+      Object.prototype.hasOwnProperty.call(raw ?? {}, "recipeId") ||
+      Object.prototype.hasOwnProperty.call(raw ?? {}, "freeText");
+
+    const meals: Record<string, MealSlotPlan> = {};
+    if (hasLegacyFields) {
+      meals.dinner = normalizeSlotPlan(raw);
+    } else {
+      LEGACY_SLOT_KEYS.forEach((slot) => {
+        if (raw?.[slot]) meals[slot] = normalizeSlotPlan(raw[slot]);
+      });
+      if (raw?.meals && typeof raw.meals === "object") {
+        for (const [slotId, slotRaw] of Object.entries(raw.meals)) {
+          meals[slotId] = normalizeSlotPlan(slotRaw);
+        }
+      }
+    }
+
+    out.push({ dayId, meals });
+  }
+
+  // En post per dayId (om dubletter: sista vinner)
+  const byDay = new Map<number, DayPlan>();
+  for (const p of out) byDay.set(p.dayId, p);
+
+  return Array.from(byDay.values()).sort((a, b) => a.dayId - b.dayId);
+}
+
+/* ---- Måltider ---- */
+
+export function timeToMinutes(value: string): number {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return 0;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function minutesToTime(totalMinutes: number): string {
+  const clamped = Math.max(0, Math.min(MINUTES_PER_DAY - 1, Math.round(totalMinutes)));
+  const hh = Math.floor(clamped / 60);
+  const mm = clamped % 60;
+  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+}
+
+function normalizeTime(value: unknown, fallback: string): string {
+  if (typeof value !== "string") return fallback;
+  const trimmed = value.trim();
+  // Tillåt "8:00" som inmatning men spara alltid "08:00".
+  const padded = /^\d:\d{2}$/.test(trimmed) ? `0${trimmed}` : trimmed;
+  return TIME_PATTERN.test(padded) ? padded : fallback;
+}
+
+// Bara giltiga tider som skiljer sig från standardtiden sparas.
+function normalizeDayStartTimes(raw: unknown, startTime: string): Partial<Record<number, string>> {
+  const out: Partial<Record<number, string>> = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const [key, value] of Object.entries(raw)) {
+    const dayId = Number(key);
+    if (!Number.isInteger(dayId) || dayId < 0 || dayId > 6) continue;
+    const time = normalizeTime(value, "");
+    if (time && time !== startTime) out[dayId] = time;
+  }
+  return out;
+}
+
+function normalizeReminders(raw: any): MealSlotReminders {
+  const margin = Number(raw?.cookingMarginMinutes);
+  const eveningBeforeTime = normalizeTime(raw?.eveningBeforeTime, "");
+  return {
+    cookingMarginMinutes:
+      raw?.cookingMarginMinutes === null ||
+      raw?.cookingMarginMinutes === undefined ||
+      !Number.isFinite(margin)
+        ? null
+        : Math.max(0, Math.min(MINUTES_PER_DAY, Math.round(margin))),
+    eveningBeforeTime: eveningBeforeTime || null,
+  };
+}
+
+// Nya måltider får ett upptaget-fönster som täcker en timme före och efter måltiden.
+export function buildDefaultBusyWindow(
+  startTime: string,
+  durationMinutes: number
+): { start: string; end: string } {
+  const start = timeToMinutes(startTime);
+  return {
+    start: minutesToTime(start - 60),
+    end: minutesToTime(start + durationMinutes + 60),
+  };
+}
+
+function normalizeMealSlot(raw: any): MealSlotConfig | null {
+  const id = typeof raw?.id === "string" ? raw.id.trim() : "";
+  const label = typeof raw?.label === "string" ? raw.label.trim() : "";
+  if (!id || !label) return null;
+
+  const fallback = DEFAULT_MEAL_SLOTS.find((slot) => slot.id === id);
+  const startTime = normalizeTime(raw?.startTime, fallback?.startTime ?? "12:00");
+  const parsedDuration = Number(raw?.durationMinutes);
+  const durationMinutes = Number.isFinite(parsedDuration)
+    ? Math.max(5, Math.min(MINUTES_PER_DAY, Math.round(parsedDuration)))
+    : fallback?.durationMinutes ?? 60;
+  const defaultBusyWindow =
+    fallback?.busyWindow ?? buildDefaultBusyWindow(startTime, durationMinutes);
+
+  return {
+    id,
+    label,
+    startTime,
+    durationMinutes,
+    defaultActiveDays: Array.isArray(raw?.defaultActiveDays)
+      ? normalizeDayIndexArray(raw.defaultActiveDays)
+      : [...(fallback?.defaultActiveDays ?? [])],
+    busyWindow: {
+      start: normalizeTime(raw?.busyWindow?.start, defaultBusyWindow.start),
+      end: normalizeTime(raw?.busyWindow?.end, defaultBusyWindow.end),
+    },
+    dayStartTimes: normalizeDayStartTimes(raw?.dayStartTimes, startTime),
+    reminders: normalizeReminders(raw?.reminders),
+  };
+}
+
+export function normalizeMealSlots(raw: unknown): MealSlotConfig[] {
+  if (!Array.isArray(raw)) return DEFAULT_MEAL_SLOTS;
+
+  const byId = new Map<string, MealSlotConfig>();
+  for (const item of raw) {
+    const slot = normalizeMealSlot(item);
+    if (slot && !byId.has(slot.id)) byId.set(slot.id, slot);
+  }
+
+  const slots = Array.from(byId.values());
+  return slots.length > 0 ? slots : DEFAULT_MEAL_SLOTS;
+}
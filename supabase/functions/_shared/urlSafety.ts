@@ -0,0 +1,281 @@
+// Skydd mot att Edge Functions lockas att anropa interna adresser (SSRF). Länkar till
+// kalendrar och CalDAV-servrar kommer från användarna och kontrolleras innan varje anrop.
+// fetchPublicHttps kontrollerar dessutom adressen som anslutningen faktiskt gick till, så
+// att ett DNS-svar som byts mellan kontrollen och anropet (DNS rebinding) inte släpps igenom.
+
+const MAX_HEADER_BYTES = 64 * 1024;
+
+function isBlockedIPv4(ip: string): boolean {
+  const parts = ip.split(".").map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) {
+    return false;
+  }
+  const [a, b, c] = parts;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function isBlockedIPv6(ip: string): boolean {
+  const normalized = ip.toLowerCase().replace(/^\[|\]$/g, "");
+  if (normalized === "::" || normalized === "::1") return true;
+  // NAT64 (64:ff9b::/96) leder till en IPv4-adress via en översättare i nätet.
+  if (/^64:ff9b:(0{1,4}:){0,4}:/.test(normalized)) return true;
+  // IPv4 inbäddad i IPv6 (::ffff:127.0.0.1 skrivs om till ::ffff:7f00:1 av URL).
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(normalized);
+  if (dotted) return isBlockedIPv4(dotted[1]);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(normalized);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return isBlockedIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+}
+
+function isBlockedAddress(ip: string): boolean {
+  return ip.includes(":") ? isBlockedIPv6(ip) : isBlockedIPv4(ip);
+}
+
+// Kastar om adressen inte får hämtas: bara https, inga lokala namn och inga privata IP –
+// varken som adress i länken eller som DNS-svar.
+export async function assertPublicHttpsUrl(rawUrl: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error("Invalid calendar URL");
+  }
+  if (url.protocol !== "https:") throw new Error("Only https calendar URLs are allowed");
+  if (url.username || url.password) throw new Error("Credentials in calendar URL are not allowed");
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname.endsWith(".local") ||
+    hostname.endsWith(".internal")
+  ) {
+    throw new Error("Local addresses are not allowed");
+  }
+  if (isBlockedIPv4(hostname) || (hostname.startsWith("[") && isBlockedIPv6(hostname))) {
+    throw new Error("Private addresses are not allowed");
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.startsWith("[")) return url;
+
+  // Bara "ingen post av typen" godtas; andra DNS-fel stoppar anropet.
+  let found = false;
+  for (const recordType of ["A", "AAAA"] as const) {
+    let addresses: string[] = [];
+    try {
+      addresses = await Deno.resolveDns(hostname, recordType);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      throw new Error("Could not resolve calendar host");
+    }
+    if (addresses.some(isBlockedAddress)) {
+      throw new Error("Calendar host resolves to a private address");
+    }
+    found = found || addresses.length > 0;
+  }
+  if (!found) throw new Error("Calendar host not found");
+  return url;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.byteLength + b.byteLength);
+  out.set(a, 0);
+  out.set(b, a.byteLength);
+  return out;
+}
+
+// Buffrad läsning ur anslutningen: rader för statusrad, huvuden och chunkstorlekar, bytes
+// för innehållet.
+function createByteReader(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  let buffer: Uint8Array = new Uint8Array(0);
+
+  const fill = async (): Promise<boolean> => {
+    const { done, value } = await reader.read();
+    if (done) return false;
+    buffer = concatBytes(buffer, value);
+    return true;
+  };
+
+  return {
+    async readLine(): Promise<string> {
+      while (true) {
+        const end = buffer.findIndex((byte, i) => byte === 10 && buffer[i - 1] === 13);
+        if (end >= 0) {
+          const line = new TextDecoder().decode(buffer.subarray(0, end - 1));
+          buffer = buffer.subarray(end + 1);
+          return line;
+        }
+        if (buffer.byteLength > MAX_HEADER_BYTES) throw new Error("Response header too large");
+        if (!(await fill())) throw new Error("Connection closed in response header");
+      }
+    },
+    // Upp till max bytes; null när anslutningen stängts.
+    async readSome(max: number): Promise<Uint8Array | null> {
+      if (buffer.byteLength === 0 && !(await fill())) return null;
+      const chunk = buffer.subarray(0, Math.min(max, buffer.byteLength));
+      buffer = buffer.subarray(chunk.byteLength);
+      return chunk;
+    },
+  };
+}
+
+type ByteReader = ReturnType<typeof createByteReader>;
+
+async function* readExactly(bytes: ByteReader, length: number): AsyncGenerator<Uint8Array> {
+  let left = length;
+  while (left > 0) {
+    const chunk = await bytes.readSome(left);
+    if (!chunk) throw new Error("Connection closed in response body");
+    left -= chunk.byteLength;
+    yield chunk;
+  }
+}
+
+async function* readBody(bytes: ByteReader, headers: Headers): AsyncGenerator<Uint8Array> {
+  if (/\bchunked\b/i.test(headers.get("transfer-encoding") ?? "")) {
+    while (true) {
+      const size = parseInt((await bytes.readLine()).split(";")[0].trim(), 16);
+      if (!Number.isFinite(size) || size < 0) throw new Error("Invalid chunk size");
+      if (size === 0) break;
+      yield* readExactly(bytes, size);
+      await bytes.readLine();
+    }
+    while ((await bytes.readLine()) !== "") {
+      // Avslutande huvuden (trailers) läses bort.
+    }
+    return;
+  }
+
+  const declared = headers.get("content-length");
+  if (declared !== null) {
+    yield* readExactly(bytes, Number(declared));
+    return;
+  }
+
+  while (true) {
+    const chunk = await bytes.readSome(Number.POSITIVE_INFINITY);
+    if (!chunk) return;
+    yield chunk;
+  }
+}
+
+export type PublicFetchInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+};
+
+function closeQuietly(conn: { close(): void }): void {
+  try {
+    conn.close();
+  } catch {
+    // Redan stängd.
+  }
+}
+
+// fetch över en egen HTTP/1.1-anslutning. Namnet slås upp av anslutningen och adressen den
+// hamnade på kontrolleras innan något skickas. Omdirigeringar följs aldrig – anroparen får
+// svaret och avgör själv (som fetch med redirect: "manual").
+export async function fetchPublicHttps(
+  rawUrl: string | URL,
+  init: PublicFetchInit = {}
+): Promise<Response> {
+  const url = await assertPublicHttpsUrl(String(rawUrl));
+  const { signal } = init;
+  signal?.throwIfAborted();
+
+  const conn = await Deno.connectTls({
+    hostname: url.hostname.replace(/^\[|\]$/g, ""),
+    port: Number(url.port) || 443,
+  });
+  const onAbort = () => closeQuietly(conn);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const release = () => {
+    signal?.removeEventListener("abort", onAbort);
+    closeQuietly(conn);
+  };
+
+  try {
+    if (isBlockedAddress((conn.remoteAddr as { hostname: string }).hostname)) {
+      throw new Error("Calendar host resolves to a private address");
+    }
+
+    const method = (init.method ?? "GET").toUpperCase();
+    const body = init.body === undefined ? null : new TextEncoder().encode(init.body);
+    const lines = [
+      `${method} ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      "Connection: close",
+      "Accept-Encoding: identity",
+      ...Object.entries(init.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+    ];
+    if (body) lines.push(`Content-Length: ${body.byteLength}`);
+    const request = new TextEncoder().encode(`${lines.join("\r\n")}\r\n\r\n`);
+    const payload = body ? concatBytes(request, body) : request;
+    for (let offset = 0; offset < payload.byteLength; ) {
+      offset += await conn.write(payload.subarray(offset));
+    }
+
+    const bytes = createByteReader(conn.readable.getReader());
+    let status = 0;
+    let statusText = "";
+    let headers = new Headers();
+    // 1xx-svar (t.ex. 100 Continue) hoppas över.
+    while (status < 200) {
+      const match = /^HTTP\/1\.[01] (\d{3}) ?(.*)$/.exec(await bytes.readLine());
+      if (!match) throw new Error("Invalid HTTP response");
+      status = Number(match[1]);
+      statusText = match[2];
+      headers = new Headers();
+      for (let line = await bytes.readLine(); line !== ""; line = await bytes.readLine()) {
+        const colon = line.indexOf(":");
+        if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+      }
+    }
+
+    if (method === "HEAD" || status === 204 || status === 304) {
+      release();
+      return new Response(null, { status, statusText, headers });
+    }
+
+    const chunks = readBody(bytes, headers);
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) {
+            release();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          release();
+          throw signal?.aborted ? signal.reason : error;
+        }
+      },
+      cancel() {
+        release();
+      },
+    });
+    return new Response(stream, { status, statusText, headers });
+  } catch (error) {
+    release();
+    throw signal?.aborted ? signal.reason : error;
+  }
+}
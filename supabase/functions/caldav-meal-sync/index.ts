@@ -0,0 +1,219 @@
+// Skriver planerade måltider till användarens CalDAV-kalender (public.caldav_sync_targets).
+// Appen anropar funktionen (POST) efter att week_plans sparats. Funktionen räknar ut vad
+// som ändrats sedan förra synken (public.caldav_sync_events) och skapar, uppdaterar och
+// tar bort händelser för föregående vecka och look_ahead_weeks framåt.
+//
+// Lokalt mot Radicale (http://localhost:5232) krävs CALDAV_ALLOW_PRIVATE_HOSTS=true;
+// annars godtas bara https till publika adresser, som i icloud-ics-proxy.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  type CalDavKnownEvent,
+  applyCalDavChanges,
+  planCalDavChanges,
+} from "../_shared/caldav.ts";
+import { zonedWallClockToInstant } from "../_shared/icsParser.ts";
+import { loadMealEventsForUser } from "../_shared/mealPlanSource.ts";
+import { assertPublicHttpsUrl, fetchPublicHttps } from "../_shared/urlSafety.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "content-type, authorization, apikey, x-client-info",
+};
+
+type AdminClient = ReturnType<typeof createClient>;
+
+function extractBearerToken(req: Request): string | null {
+  const authHeader = req.headers.get("authorization") ?? req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = /^Bearer\s+(.+)$/i.exec(authHeader.trim());
+  return match?.[1] ?? null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+async function loadKnownEvents(
+  adminClient: AdminClient,
+  userId: string
+): Promise<CalDavKnownEvent[]> {
+  const { data, error } = await adminClient
+    .from("caldav_sync_events")
+    .select("uid,week_identifier,href,etag,fingerprint,sequence")
+    .eq("user_id", userId);
+  if (error) throw new Error(`Failed to load caldav_sync_events: ${error.message}`);
+
+  return (data ?? []).map((row: any) => ({
+    uid: String(row.uid),
+    weekIdentifier: String(row.week_identifier ?? ""),
+    href: String(row.href ?? ""),
+    etag: row.etag ?? null,
+    fingerprint: String(row.fingerprint ?? ""),
+    sequence: Number(row.sequence) || 0,
+  }));
+}
+
+async function forgetEvents(adminClient: AdminClient, userId: string, uids: string[]) {
+  if (uids.length === 0) return;
+  const { error } = await adminClient
+    .from("caldav_sync_events")
+    .delete()
+    .eq("user_id", userId)
+    .in("uid", uids);
+  if (error) throw new Error(`Failed to delete caldav_sync_events: ${error.message}`);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", {
+      status: 405,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")?.trim();
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")?.trim();
+  if (!supabaseUrl || !serviceRoleKey) {
+    return new Response("Missing Supabase env", {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+  const allowPrivateHosts = Deno.env.get("CALDAV_ALLOW_PRIVATE_HOSTS")?.trim() === "true";
+
+  const token = extractBearerToken(req);
+  if (!token) {
+    return new Response("Missing bearer token", {
+      status: 401,
+      headers: corsHeaders,
+    });
+  }
+
+  const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: userData, error: userError } = await adminClient.auth.getUser(token);
+  if (userError || !userData?.user) {
+    return new Response("Invalid token", {
+      status: 401,
+      headers: corsHeaders,
+    });
+  }
+
+  const userId = userData.user.id;
+
+  try {
+    const { data: target, error: targetError } = await adminClient
+      .from("caldav_sync_targets")
+      .select("calendar_url,username,password,enabled,look_ahead_weeks,timezone")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (targetError) {
+      throw new Error(`Failed to load caldav_sync_targets: ${targetError.message}`);
+    }
+    if (!target || !target.enabled) {
+      return jsonResponse({ ok: true, skipped: true });
+    }
+
+    const recordResult = async (lastError: string | null) => {
+      const patch = lastError
+        ? { last_error: lastError }
+        : { last_synced_at: new Date().toISOString(), last_error: null };
+      const { error } = await adminClient
+        .from("caldav_sync_targets")
+        .update(patch)
+        .eq("user_id", userId);
+      if (error) console.error("caldav_sync_targets status update failed:", error);
+    };
+
+    const calendarUrl = String(target.calendar_url).trim();
+    if (!allowPrivateHosts) {
+      try {
+        await assertPublicHttpsUrl(calendarUrl);
+      } catch (urlError) {
+        const message = urlError instanceof Error ? urlError.message : "Invalid calendar URL";
+        await recordResult(message);
+        return jsonResponse({ ok: false, error: message }, 400);
+      }
+    }
+
+    const timezone = String(target.timezone || "Europe/Stockholm");
+    const { weeks, events } = await loadMealEventsForUser(adminClient, userId, {
+      lookAheadWeeks: Number(target.look_ahead_weeks) || 4,
+      timezone,
+    });
+
+    // Händelser i en tidigare kalender (bytt adress) glöms; de skapas i den nya.
+    const base = calendarUrl.endsWith("/") ? calendarUrl : `${calendarUrl}/`;
+    const allKnown = await loadKnownEvents(adminClient, userId);
+    const known = allKnown.filter((entry) => entry.href.startsWith(base));
+    await forgetEvents(
+      adminClient,
+      userId,
+      allKnown.filter((entry) => !entry.href.startsWith(base)).map((entry) => entry.uid)
+    );
+
+    const changes = planCalDavChanges(calendarUrl, weeks, events, known);
+    const outcome = await applyCalDavChanges(
+      {
+        calendarUrl,
+        username: String(target.username ?? ""),
+        password: String(target.password ?? ""),
+      },
+      changes,
+      (local) => zonedWallClockToInstant(local, timezone),
+      // Med privata värdar tillåtna (egen server i hemnätet) räcker vanlig fetch.
+      allowPrivateHosts ? undefined : fetchPublicHttps
+    );
+
+    if (outcome.saved.length > 0) {
+      const { error } = await adminClient.from("caldav_sync_events").upsert(
+        outcome.saved.map((entry) => ({
+          user_id: userId,
+          uid: entry.uid,
+          week_identifier: entry.weekIdentifier,
+          href: entry.href,
+          etag: entry.etag,
+          fingerprint: entry.fingerprint,
+          sequence: entry.sequence,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: "user_id,uid" }
+      );
+      if (error) throw new Error(`Failed to save caldav_sync_events: ${error.message}`);
+    }
+    await forgetEvents(adminClient, userId, outcome.removed);
+
+    const createdUids = new Set(
+      changes.flatMap((change) => (change.kind === "create" ? [change.event.uid] : []))
+    );
+    const created = outcome.saved.filter((entry) => createdUids.has(entry.uid)).length;
+    await recordResult(
+      outcome.failed.length > 0
+        ? `${outcome.failed.length} events failed (${outcome.failed[0].error})`
+        : null
+    );
+
+    return jsonResponse({
+      ok: outcome.failed.length === 0,
+      created,
+      updated: outcome.saved.length - created,
+      deleted: outcome.removed.length,
+      failed: outcome.failed,
+    });
+  } catch (error) {
+    console.error("caldav-meal-sync error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ ok: false, error: message }, 500);
+  }
+});
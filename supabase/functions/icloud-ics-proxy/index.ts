@@ -1,8 +1,24 @@
 // Publik endpoint (JWT-verifiering i gateway kan vara av).
-// Funktionen validerar alltid bearer-token själv, hämtar alla aktiva kalenderlänkar
-// för aktuell användare och returnerar sammanslagen ICS.
+// Funktionen validerar alltid bearer-token själv och hämtar alla aktiva kalenderlänkar
+// för aktuell användare. Kalendrarnas innehåll lämnar aldrig funktionen:
+// ?mode=busy&week=2026-W42&tz=Europe/Stockholm[&titles=1] räknar fram upptagna tider för
+// veckan här (upprepningar, regler per kalender) och returnerar bara dem som JSON.
+// ?mode=diagnostics ger status per kalender och ?mode=test&url=... provhämtar en länk.
+//
+// Länkarna kommer från användarna, så hämtningen är hårdnad: bara https till publika
+// adresser (även efter omdirigering), tidsgräns och storleksgräns per kalender. Svar
+// cachas kort per instans och förnyas med ETag/Last-Modified.
 
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  type BusyCalendar,
+  buildBusyBlocks,
+  normalizeEventTitle,
+  normalizeKeywords,
+} from "../_shared/busyBlocks.ts";
+import { CALENDAR_ID_PROPERTY, extractIcsBlocks } from "../_shared/icsParser.ts";
+import { parseIsoWeek } from "../_shared/isoWeek.ts";
+import { fetchPublicHttps } from "../_shared/urlSafety.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +26,13 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "content-type, authorization, apikey, x-client-info",
 };
 
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 50;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const DEFAULT_TIMEZONE = "Europe/Stockholm";
+
 function normalizeFeedUrl(rawUrl: string): string {
   const trimmed = rawUrl.trim();
   if (trimmed.toLowerCase().startsWith("webcal://")) {
@@ -25,45 +48,266 @@ function extractBearerToken(req: Request): string | null {
   return match?.[1] ?? null;
 }
 
-// Plockar ut alla VEVENT-block för att kunna slå ihop flera kalendrar till en.
-function extractVeventBlocks(icsText: string): string[] {
-  const unfolded = icsText.replace(/\r?\n[ \t]/g, "");
-  const lines = unfolded.split(/\r?\n/);
-  const blocks: string[] = [];
-  let inEvent = false;
-  let current: string[] = [];
-
-  for (const line of lines) {
-    if (line === "BEGIN:VEVENT") {
-      inEvent = true;
-      current = [line];
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/* ---- Hämtning med cache, tidsgräns och storleksgräns ---- */
+
+type CachedFeed = {
+  text: string;
+  etag: string | null;
+  lastModified: string | null;
+  checkedAt: number;
+};
+
+// Lever så länge instansen återanvänds; äldsta posten slängs först.
+const feedCache = new Map<string, CachedFeed>();
+
+function storeInCache(url: string, entry: CachedFeed): void {
+  feedCache.delete(url);
+  feedCache.set(url, entry);
+  while (feedCache.size > CACHE_MAX_ENTRIES) {
+    const oldest = feedCache.keys().next().value;
+    if (oldest === undefined) break;
+    feedCache.delete(oldest);
+  }
+}
+
+// Omdirigeringar följs manuellt så att varje ny adress kontrolleras.
+async function fetchPublicUrl(
+  rawUrl: string,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> {
+  let current = rawUrl;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const response = await fetchPublicHttps(current, { headers, signal });
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
       continue;
     }
+    return response;
+  }
+  throw new Error("Too many redirects");
+}
 
-    if (line === "END:VEVENT" && inEvent) {
-      current.push(line);
-      blocks.push(current.join("\n"));
-      inEvent = false;
-      current = [];
-      continue;
+async function readLimitedText(response: Response): Promise<string> {
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > MAX_FEED_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Feed larger than ${MAX_FEED_BYTES} bytes`);
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error(`Feed larger than ${MAX_FEED_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+type CalendarFeed = { id: string; url: string };
+
+type FeedResult = {
+  id: string;
+  url: string;
+  ok: boolean;
+  // hit = från cachen utan anrop, revalidated = 304 från källan, miss = hämtad på nytt
+  cache: "hit" | "revalidated" | "miss" | null;
+  status: number | null;
+  bytes: number;
+  eventCount: number;
+  durationMs: number;
+  error: string | null;
+  text: string;
+  blocks: string[];
+};
+
+async function loadFeed(feed: CalendarFeed, useCache: boolean): Promise<FeedResult> {
+  const startedAt = Date.now();
+  const result = (
+    patch: Partial<FeedResult> & Pick<FeedResult, "ok" | "cache" | "status">
+  ): FeedResult => {
+    const text = patch.text ?? "";
+    const blocks = patch.ok ? extractIcsBlocks(text, "VEVENT") : [];
+    return {
+      id: feed.id,
+      url: feed.url,
+      bytes: new TextEncoder().encode(text).byteLength,
+      eventCount: blocks.length,
+      durationMs: Date.now() - startedAt,
+      error: null,
+      text,
+      blocks,
+      ...patch,
+    };
+  };
+
+  const cached = useCache ? feedCache.get(feed.url) : undefined;
+  if (cached && startedAt - cached.checkedAt < CACHE_TTL_MS) {
+    return result({ ok: true, cache: "hit", status: null, text: cached.text });
+  }
+
+  try {
+    const headers: Record<string, string> = { Accept: "text/calendar, */*;q=0.5" };
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    const response = await fetchPublicUrl(
+      feed.url,
+      headers,
+      AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    );
+    if (response.status === 304 && cached) {
+      cached.checkedAt = Date.now();
+      return result({ ok: true, cache: "revalidated", status: 304, text: cached.text });
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return result({
+        ok: false,
+        cache: null,
+        status: response.status,
+        error: `HTTP ${response.status}`,
+      });
+    }
+
+    const text = await readLimitedText(response);
+    if (!text.includes("BEGIN:VCALENDAR")) {
+      return result({
+        ok: false,
+        cache: null,
+        status: response.status,
+        error: "Response is not an iCalendar feed",
+      });
+    }
+    if (useCache) {
+      storeInCache(feed.url, {
+        text,
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+        checkedAt: Date.now(),
+      });
     }
+    return result({ ok: true, cache: "miss", status: response.status, text });
+  } catch (error) {
+    const name = error instanceof Error ? error.name : "";
+    const message =
+      name === "TimeoutError" || name === "AbortError"
+        ? `Timed out after ${FETCH_TIMEOUT_MS / 1000} s`
+        : error instanceof Error
+        ? error.message
+        : "Unknown error";
+    return result({ ok: false, cache: null, status: null, error: message });
+  }
+}
+
+// Det som visas i diagnostikläget (utan själva kalenderinnehållet).
+function toDiagnostics(result: FeedResult) {
+  const { text: _text, blocks: _blocks, ...diagnostics } = result;
+  return diagnostics;
+}
+
+// ?mode=test&url=... – provhämtar en länk innan den sparas och räknar händelserna.
+async function testFeedUrl(rawUrl: string): Promise<Response> {
+  const result = await loadFeed({ id: "test", url: normalizeFeedUrl(rawUrl) }, false);
+  return result.ok
+    ? jsonResponse({ ok: true, eventCount: result.eventCount })
+    : jsonResponse({ ok: false, error: result.error });
+}
 
-    if (inEvent) {
-      current.push(line);
+// Sparar senaste hämtning per kalender så att appen kan visa status. Fel här stoppar inte svaret.
+async function recordFeedStatus(
+  adminClient: ReturnType<typeof createClient>,
+  results: FeedResult[]
+): Promise<void> {
+  const now = new Date().toISOString();
+  await Promise.all(
+    results.map(async (result) => {
+      const patch = result.ok
+        ? { last_fetched_at: now, last_event_count: result.eventCount, last_error: null }
+        : { last_error: result.error };
+      const { error } = await adminClient.from("user_calendars").update(patch).eq("id", result.id);
+      if (error) console.error("calendar status update failed:", error);
+    })
+  );
+}
+
+// Tidszoner följer med så att TZID i händelserna kan tolkas. Samma TZID tas bara med en gång.
+function mergeTimezoneBlocks(icsTexts: string[]): string[] {
+  const byTzid = new Map<string, string>();
+  for (const text of icsTexts) {
+    for (const block of extractIcsBlocks(text, "VTIMEZONE")) {
+      const tzid = /^TZID[^:]*:(.*)$/m.exec(block)?.[1]?.trim() ?? block;
+      if (!byTzid.has(tzid)) byTzid.set(tzid, block);
     }
   }
+  return Array.from(byTzid.values());
+}
 
-  return blocks;
+// Märker händelserna med kalenderns id så att appen kan tillämpa kalenderns regler.
+function tagVeventBlock(block: string, calendarId: string): string {
+  const lines = block.split("\n");
+  lines.splice(lines.length - 1, 0, `${CALENDAR_ID_PROPERTY}:${calendarId}`);
+  return lines.join("\n");
 }
 
-async function resolveCalendarUrlsForUser(
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Äldre exporter saknar markören och känns igen på att rubriken är ett av användarens recept.
+async function loadRecipeTitles(
   adminClient: ReturnType<typeof createClient>,
   userId: string
-): Promise<string[]> {
+): Promise<Set<string>> {
+  const { data, error } = await adminClient.from("recipes").select("name").eq("user_id", userId);
+  if (error) {
+    console.error("recipe lookup failed:", error);
+    return new Set();
+  }
+  return new Set(
+    (data ?? []).map((row: any) => normalizeEventTitle(String(row.name ?? ""))).filter(Boolean)
+  );
+}
+
+async function resolveCalendarFeedsForUser(
+  adminClient: ReturnType<typeof createClient>,
+  userId: string
+): Promise<{ feeds: CalendarFeed[]; calendars: BusyCalendar[] }> {
   // Ny tabell med flera kalendrar per användare.
   const { data: calendars, error: calendarsError } = await adminClient
     .from("user_calendars")
-    .select("calendar_ics_url,is_active")
+    .select(
+      "id,calendar_ics_url,label,is_active,ignore_busy,count_all_day,include_keywords,exclude_keywords,member_name"
+    )
     .eq("user_id", userId)
     .eq("is_active", true);
 
@@ -71,10 +315,25 @@ async function resolveCalendarUrlsForUser(
     throw new Error(`Failed to load user_calendars: ${calendarsError.message}`);
   }
 
-  const urls = (calendars ?? [])
-    .map((row: any) => row?.calendar_ics_url?.trim?.() ?? "")
-    .filter(Boolean);
-  return urls;
+  const rows = (calendars ?? []).filter((row: any) => row?.id && row?.calendar_ics_url);
+  return {
+    feeds: rows
+      .map((row: any) => ({
+        id: String(row.id),
+        url: normalizeFeedUrl(row.calendar_ics_url),
+      }))
+      .filter((feed: CalendarFeed) => feed.url),
+    calendars: rows.map((row: any) => ({
+      id: String(row.id),
+      label: row.label?.trim() || null,
+      memberName: row.member_name?.trim() || null,
+      isActive: Boolean(row.is_active),
+      ignoreBusy: row.ignore_busy ?? false,
+      countAllDay: row.count_all_day ?? false,
+      includeKeywords: normalizeKeywords(row.include_keywords),
+      excludeKeywords: normalizeKeywords(row.exclude_keywords),
+    })),
+  };
 }
 
 Deno.serve(async (req) => {
@@ -120,9 +379,30 @@ Deno.serve(async (req) => {
 
   const userId = userData.user.id;
 
-  let rawFeedUrls: string[] = [];
+  const requestUrl = new URL(req.url);
+  if (requestUrl.searchParams.get("mode") === "test") {
+    return await testFeedUrl(requestUrl.searchParams.get("url") ?? "");
+  }
+
+  const mode = requestUrl.searchParams.get("mode");
+  const busyWeek = requestUrl.searchParams.get("week") ?? "";
+  const busyTimeZone = requestUrl.searchParams.get("tz") || DEFAULT_TIMEZONE;
+  if (mode !== "busy" && mode !== "diagnostics") {
+    return jsonResponse({ ok: false, error: "Unknown mode (busy, diagnostics or test)" }, 400);
+  }
+  if (mode === "busy") {
+    if (!parseIsoWeek(busyWeek)) {
+      return jsonResponse({ ok: false, error: "Invalid or missing week (YYYY-Www)" }, 400);
+    }
+    if (!isValidTimeZone(busyTimeZone)) {
+      return jsonResponse({ ok: false, error: "Unknown time zone" }, 400);
+    }
+  }
+
+  let feeds: CalendarFeed[] = [];
+  let calendars: BusyCalendar[] = [];
   try {
-    rawFeedUrls = await resolveCalendarUrlsForUser(adminClient, userId);
+    ({ feeds, calendars } = await resolveCalendarFeedsForUser(adminClient, userId));
   } catch (error) {
     console.error("calendar settings lookup failed:", error);
     return new Response("Failed to load calendar settings", {
@@ -131,71 +411,72 @@ Deno.serve(async (req) => {
     });
   }
 
-  if (rawFeedUrls.length === 0) {
+  if (feeds.length === 0) {
     return new Response("No active calendar_ics_url for user", {
       status: 404,
       headers: corsHeaders,
     });
   }
 
-  const feedUrls = Array.from(
-    new Set(rawFeedUrls.map((url) => normalizeFeedUrl(url)).filter(Boolean))
-  );
+  // Samma länk hämtas bara en gång, men varje kalender med länken får eget resultat – och
+  // därmed sina egna regler och sin egen status.
+  const loads = new Map<string, Promise<FeedResult>>();
+  for (const feed of feeds) {
+    if (!loads.has(feed.url)) loads.set(feed.url, loadFeed(feed, true));
+  }
 
   try {
     const fetchResults = await Promise.all(
-      feedUrls.map(async (url) => {
-        const upstream = await fetch(url, { cache: "no-store" });
-        if (!upstream.ok) {
-          const upstreamText = await upstream.text().catch(() => "");
-          return {
-            ok: false as const,
-            url,
-            status: upstream.status,
-            text: upstreamText.slice(0, 200),
-          };
-        }
-        const text = await upstream.text();
-        return {
-          ok: true as const,
-          url,
-          text,
-        };
-      })
+      feeds.map(async (feed) => ({ ...((await loads.get(feed.url)) as FeedResult), id: feed.id }))
     );
+    await recordFeedStatus(adminClient, fetchResults);
+
+    if (mode === "diagnostics") {
+      return jsonResponse({
+        ok: fetchResults.some((r) => r.ok),
+        feeds: fetchResults.map(toDiagnostics),
+      });
+    }
 
     const successful = fetchResults.filter((r) => r.ok);
     if (successful.length === 0) {
-      const details = fetchResults
-        .map((r) =>
-          r.ok
-            ? `${r.url}: ok`
-            : `${r.url}: failed (${r.status})${r.text ? ` ${r.text}` : ""}`
-        )
-        .join(" | ");
-      return new Response(`All calendar upstreams failed: ${details}`, {
-        status: 502,
-        headers: corsHeaders,
-      });
+      return jsonResponse(
+        {
+          ok: false,
+          error: "All calendar upstreams failed",
+          feeds: fetchResults.map(toDiagnostics),
+        },
+        502
+      );
     }
 
-    const mergedEvents = successful.flatMap((r) => extractVeventBlocks(r.text));
+    const mergedTimezones = mergeTimezoneBlocks(successful.map((r) => r.text));
+    const mergedEvents = successful.flatMap((r) =>
+      r.blocks.map((block) => tagVeventBlock(block, r.id))
+    );
     const mergedIcs = [
       "BEGIN:VCALENDAR",
       "VERSION:2.0",
       "PRODID:-//Matplaneraren//MergedUserCalendars//SE",
       "CALSCALE:GREGORIAN",
+      ...mergedTimezones,
       ...mergedEvents,
       "END:VCALENDAR",
     ].join("\n");
+    const recipeTitles = await loadRecipeTitles(adminClient, userId);
 
-    return new Response(mergedIcs, {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "text/calendar; charset=utf-8",
-        "Cache-Control": "no-store",
-      },
+    return jsonResponse({
+      ok: true,
+      week: busyWeek,
+      timeZone: busyTimeZone,
+      blocks: buildBusyBlocks(mergedIcs, busyWeek, calendars, {
+        timeZone: busyTimeZone,
+        includeTitles: requestUrl.searchParams.get("titles") === "1",
+        excludeTitles: recipeTitles,
+      }),
+      failedCalendars: fetchResults
+        .filter((r) => !r.ok)
+        .map((r) => ({ id: r.id, error: r.error })),
     });
   } catch (error) {
     console.error("icloud-ics-proxy error:", error);
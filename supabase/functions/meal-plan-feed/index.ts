@@ -0,0 +1,151 @@
+// Prenumerationsflöde (webcal://) med användarens planerade måltider.
+// Kalenderappar kan inte logga in, så funktionen deployas utan JWT-verifiering:
+//   supabase functions deploy meal-plan-feed --no-verify-jwt
+// Åtkomst styrs av den hemliga token i länken (public.meal_plan_feeds).
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { zonedWallClockToInstant } from "../_shared/icsParser.ts";
+import { getMealEventFingerprint, serializeMealCalendar } from "../_shared/mealPlanIcs.ts";
+import type { MealCalendarEvent } from "../_shared/mealPlanIcs.ts";
+import { loadMealEventsForUser } from "../_shared/mealPlanSource.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "content-type, authorization, apikey, x-client-info",
+};
+
+const REFRESH_INTERVAL = "PT1H";
+
+type AdminClient = ReturnType<typeof createClient>;
+
+// Jämför med senast publicerade innehåll och räknar upp SEQUENCE för ändrade händelser.
+async function resolveSequences(
+  adminClient: AdminClient,
+  userId: string,
+  events: MealCalendarEvent[]
+): Promise<Map<string, number>> {
+  const sequences = new Map<string, number>();
+  if (events.length === 0) return sequences;
+
+  const { data, error } = await adminClient
+    .from("meal_plan_feed_events")
+    .select("uid,fingerprint,sequence")
+    .eq("user_id", userId)
+    .in("uid", events.map((event) => event.uid));
+  if (error) throw new Error(`Failed to load meal_plan_feed_events: ${error.message}`);
+
+  const previous = new Map<string, { fingerprint: string; sequence: number }>();
+  (data ?? []).forEach((row: any) => {
+    previous.set(String(row.uid), {
+      fingerprint: String(row.fingerprint ?? ""),
+      sequence: Number(row.sequence) || 0,
+    });
+  });
+
+  const changed: Array<Record<string, unknown>> = [];
+  events.forEach((event) => {
+    const fingerprint = getMealEventFingerprint(event);
+    const known = previous.get(event.uid);
+    const sequence = !known
+      ? 0
+      : known.fingerprint === fingerprint
+        ? known.sequence
+        : known.sequence + 1;
+    sequences.set(event.uid, sequence);
+    if (!known || known.fingerprint !== fingerprint) {
+      changed.push({ user_id: userId, uid: event.uid, fingerprint, sequence });
+    }
+  });
+
+  if (changed.length > 0) {
+    const { error: upsertError } = await adminClient
+      .from("meal_plan_feed_events")
+      .upsert(changed, { onConflict: "user_id,uid" });
+    // Flödet levereras ändå; nästa hämtning försöker spara igen.
+    if (upsertError) console.error("meal_plan_feed_events upsert failed:", upsertError);
+  }
+
+  return sequences;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", {
+      status: 405,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")?.trim();
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")?.trim();
+  if (!supabaseUrl || !serviceRoleKey) {
+    return new Response("Missing Supabase env", {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+
+  const token = new URL(req.url).searchParams.get("token")?.trim();
+  if (!token) {
+    return new Response("Missing feed token", {
+      status: 401,
+      headers: corsHeaders,
+    });
+  }
+
+  const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const { data: feed, error: feedError } = await adminClient
+      .from("meal_plan_feeds")
+      .select("user_id,look_ahead_weeks,timezone")
+      .eq("token", token)
+      .maybeSingle();
+    if (feedError) throw new Error(`Failed to load meal_plan_feeds: ${feedError.message}`);
+    // Bytt eller avstängd länk.
+    if (!feed) {
+      return new Response("Unknown feed", {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
+    const userId = String(feed.user_id);
+    const timezone = String(feed.timezone || "Europe/Stockholm");
+    const { events } = await loadMealEventsForUser(adminClient, userId, {
+      lookAheadWeeks: Number(feed.look_ahead_weeks) || 4,
+      timezone,
+    });
+
+    const sequences = await resolveSequences(adminClient, userId, events);
+    const ics = serializeMealCalendar(events, {
+      toInstant: (local) => zonedWallClockToInstant(local, timezone),
+      sequences,
+      calendarName: "Matplanen",
+      refreshInterval: REFRESH_INTERVAL,
+    });
+
+    return new Response(ics, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("meal-plan-feed error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(`Feed failed: ${message}`, {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+});
@@ -0,0 +1,62 @@
+-- Egen ingredienskatalog: kanoniska namn med synonymer. Kompletterar och ersätter de
+-- inbyggda posterna i services/ingredientCatalog.ts (samma namn = ersätter).
+create table if not exists public.ingredient_catalog (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  synonyms text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Ett kanoniskt namn per användare – att spara igen skriver över synonymerna.
+create unique index if not exists uq_ingredient_catalog_user_name
+on public.ingredient_catalog (user_id, name);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_ingredient_catalog_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_ingredient_catalog_updated_at on public.ingredient_catalog;
+create trigger trg_ingredient_catalog_updated_at
+before update on public.ingredient_catalog
+for each row
+execute function public.set_ingredient_catalog_updated_at();
+
+alter table public.ingredient_catalog enable row level security;
+
+drop policy if exists ingredient_catalog_select_own on public.ingredient_catalog;
+create policy ingredient_catalog_select_own
+on public.ingredient_catalog
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists ingredient_catalog_insert_own on public.ingredient_catalog;
+create policy ingredient_catalog_insert_own
+on public.ingredient_catalog
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists ingredient_catalog_update_own on public.ingredient_catalog;
+create policy ingredient_catalog_update_own
+on public.ingredient_catalog
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists ingredient_catalog_delete_own on public.ingredient_catalog;
+create policy ingredient_catalog_delete_own
+on public.ingredient_catalog
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,72 @@
+-- Prenumerationslänk för matplanen (webcal), en rad per användare.
+-- Den som har token kan läsa flödet – att byta eller ta bort token stänger gamla länkar.
+create table if not exists public.meal_plan_feeds (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  token text not null unique,
+  look_ahead_weeks integer not null default 4 check (look_ahead_weeks between 1 and 26),
+  timezone text not null default 'Europe/Stockholm',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_meal_plan_feeds_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_meal_plan_feeds_updated_at on public.meal_plan_feeds;
+create trigger trg_meal_plan_feeds_updated_at
+before update on public.meal_plan_feeds
+for each row
+execute function public.set_meal_plan_feeds_updated_at();
+
+alter table public.meal_plan_feeds enable row level security;
+
+drop policy if exists meal_plan_feeds_select_own on public.meal_plan_feeds;
+create policy meal_plan_feeds_select_own
+on public.meal_plan_feeds
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists meal_plan_feeds_insert_own on public.meal_plan_feeds;
+create policy meal_plan_feeds_insert_own
+on public.meal_plan_feeds
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists meal_plan_feeds_update_own on public.meal_plan_feeds;
+create policy meal_plan_feeds_update_own
+on public.meal_plan_feeds
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists meal_plan_feeds_delete_own on public.meal_plan_feeds;
+create policy meal_plan_feeds_delete_own
+on public.meal_plan_feeds
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Senast publicerade version per händelse. SEQUENCE räknas upp när innehållet ändras
+-- så att kalenderappar ersätter händelsen. Skrivs bara av meal-plan-feed (service role),
+-- därför finns inga policyer för inloggade användare.
+create table if not exists public.meal_plan_feed_events (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  uid text not null,
+  fingerprint text not null,
+  sequence integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, uid)
+);
+
+alter table public.meal_plan_feed_events enable row level security;
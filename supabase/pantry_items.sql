@@ -0,0 +1,68 @@
+-- Det som redan finns hemma. Dras av från inköpslistan (med enhetsomräkning) och minskas
+-- när veckans rätter sparas som lagade. amount = null betyder "finns alltid hemma".
+create table if not exists public.pantry_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  amount numeric null,
+  unit text null,
+  best_before date null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_pantry_items_user
+on public.pantry_items (user_id);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_pantry_items_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_pantry_items_updated_at on public.pantry_items;
+create trigger trg_pantry_items_updated_at
+before update on public.pantry_items
+for each row
+execute function public.set_pantry_items_updated_at();
+
+alter table public.pantry_items enable row level security;
+
+drop policy if exists pantry_items_select_own on public.pantry_items;
+create policy pantry_items_select_own
+on public.pantry_items
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists pantry_items_insert_own on public.pantry_items;
+create policy pantry_items_insert_own
+on public.pantry_items
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists pantry_items_update_own on public.pantry_items;
+create policy pantry_items_update_own
+on public.pantry_items
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists pantry_items_delete_own on public.pantry_items;
+create policy pantry_items_delete_own
+on public.pantry_items
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Avbockade rader som lagts i skafferiet (så att de inte läggs dit två gånger).
+-- Kräver supabase/shopping_lists.sql.
+alter table public.shopping_list_items
+  add column if not exists in_pantry boolean not null default false;
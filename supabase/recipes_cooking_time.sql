@@ -0,0 +1,14 @@
+-- Tillagningstid per recept i minuter (null = okänd).
+-- active_minutes = tid vid spisen, total_minutes = inklusive ugn/vila.
+alter table public.recipes
+  add column if not exists active_minutes integer,
+  add column if not exists total_minutes integer;
+
+alter table public.recipes
+  drop constraint if exists recipes_cooking_minutes_check;
+alter table public.recipes
+  add constraint recipes_cooking_minutes_check
+  check (
+    (active_minutes is null or active_minutes >= 0)
+    and (total_minutes is null or total_minutes >= 0)
+  );
@@ -0,0 +1,170 @@
+-- Sparad inköpslista per vecka. Hushållet delar inloggning, så alla enheter ser samma
+-- lista och bockar av i den. Sammanslagningar och bortvalda rätter gäller hela listan.
+create table if not exists public.shopping_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  week_identifier text not null,
+  -- Sammanslagna rader: { "källnyckel": "målnyckel" }
+  merges jsonb not null default '{}'::jsonb,
+  -- Rätter som inte ska handlas till ("dag-måltid-rättindex")
+  excluded_dish_keys jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_shopping_lists_user_week
+on public.shopping_lists (user_id, week_identifier);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_shopping_lists_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_shopping_lists_updated_at on public.shopping_lists;
+create trigger trg_shopping_lists_updated_at
+before update on public.shopping_lists
+for each row
+execute function public.set_shopping_lists_updated_at();
+
+alter table public.shopping_lists enable row level security;
+
+drop policy if exists shopping_lists_select_own on public.shopping_lists;
+create policy shopping_lists_select_own
+on public.shopping_lists
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists shopping_lists_insert_own on public.shopping_lists;
+create policy shopping_lists_insert_own
+on public.shopping_lists
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists shopping_lists_update_own on public.shopping_lists;
+create policy shopping_lists_update_own
+on public.shopping_lists
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists shopping_lists_delete_own on public.shopping_lists;
+create policy shopping_lists_delete_own
+on public.shopping_lists
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Rader i listan. Genererade rader (från veckans recept) har en nyckel "namn|enhet" och
+-- uppdateras när planen ändras; egna rader (source = manual) lämnas alltid orörda.
+create table if not exists public.shopping_list_items (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.shopping_lists(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  source text not null default 'manual' check (source in ('generated', 'manual')),
+  generated_key text null,
+  name text not null,
+  amount numeric null,
+  unit text null,
+  checked boolean not null default false,
+  -- Mängden när raden bockades av; växer behovet därefter visas resten som kvar att köpa
+  checked_amount numeric null,
+  -- Genererad rad som valts bort – kommer inte tillbaka när listan räknas om
+  removed boolean not null default false,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_shopping_list_items_generated
+on public.shopping_list_items (list_id, generated_key);
+
+create index if not exists idx_shopping_list_items_list
+on public.shopping_list_items (list_id, sort_order);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_shopping_list_items_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_shopping_list_items_updated_at on public.shopping_list_items;
+create trigger trg_shopping_list_items_updated_at
+before update on public.shopping_list_items
+for each row
+execute function public.set_shopping_list_items_updated_at();
+
+alter table public.shopping_list_items enable row level security;
+
+drop policy if exists shopping_list_items_select_own on public.shopping_list_items;
+create policy shopping_list_items_select_own
+on public.shopping_list_items
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Rader får bara läggas in i (eller flyttas till) egna listor.
+drop policy if exists shopping_list_items_insert_own on public.shopping_list_items;
+create policy shopping_list_items_insert_own
+on public.shopping_list_items
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.shopping_lists l
+    where l.id = list_id and l.user_id = auth.uid()
+  )
+);
+
+drop policy if exists shopping_list_items_update_own on public.shopping_list_items;
+create policy shopping_list_items_update_own
+on public.shopping_list_items
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.shopping_lists l
+    where l.id = list_id and l.user_id = auth.uid()
+  )
+);
+
+drop policy if exists shopping_list_items_delete_own on public.shopping_list_items;
+create policy shopping_list_items_delete_own
+on public.shopping_list_items
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- Avbockningar syns direkt på andra enheter (Realtime).
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shopping_lists'
+  ) then
+    alter publication supabase_realtime add table public.shopping_lists;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shopping_list_items'
+  ) then
+    alter publication supabase_realtime add table public.shopping_list_items;
+  end if;
+end;
+$$;
@@ -0,0 +1,65 @@
+-- Avdelning per ingrediens i katalogen ('mejeri', 'frukt_gront' ...), se
+-- services/storeLayout.ts. Kräver supabase/ingredient_catalog.sql.
+alter table public.ingredient_catalog
+  add column if not exists category text;
+
+-- Butiker med avdelningarnas ordning (en rad per butik).
+create table if not exists public.store_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  category_order jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_store_profiles_user_name
+on public.store_profiles (user_id, name);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_store_profiles_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_store_profiles_updated_at on public.store_profiles;
+create trigger trg_store_profiles_updated_at
+before update on public.store_profiles
+for each row
+execute function public.set_store_profiles_updated_at();
+
+alter table public.store_profiles enable row level security;
+
+drop policy if exists store_profiles_select_own on public.store_profiles;
+create policy store_profiles_select_own
+on public.store_profiles
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists store_profiles_insert_own on public.store_profiles;
+create policy store_profiles_insert_own
+on public.store_profiles
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists store_profiles_update_own on public.store_profiles;
+create policy store_profiles_update_own
+on public.store_profiles
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists store_profiles_delete_own on public.store_profiles;
+create policy store_profiles_delete_own
+on public.store_profiles
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Regler per kalender för vad som räknas som upptaget (kör efter user_calendars.sql).
+alter table public.user_calendars
+  add column if not exists ignore_busy boolean not null default false,
+  add column if not exists count_all_day boolean not null default false,
+  add column if not exists include_keywords text[] not null default '{}',
+  add column if not exists exclude_keywords text[] not null default '{}',
+  add column if not exists member_name text;
@@ -0,0 +1,5 @@
+-- Senaste hämtning per kalender (skrivs av icloud-ics-proxy, visas under Inställningar > Kalendrar).
+alter table public.user_calendars
+  add column if not exists last_fetched_at timestamptz,
+  add column if not exists last_event_count integer,
+  add column if not exists last_error text;
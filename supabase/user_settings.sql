@@ -6,6 +6,16 @@ create table if not exists public.user_settings (
   updated_at timestamptz not null default now()
 );
 
+-- Användardefinierade måltider (frukost, lunch, fika ...).
+-- null betyder standardupplägget med lunch + kvällsmat.
+alter table public.user_settings
+  add column if not exists meal_slots jsonb;
+
+-- Regler för veckogeneratorn (fisk minst en gång, max 2 pasta ...).
+-- null betyder standardreglerna i services/weekGenerator.ts.
+alter table public.user_settings
+  add column if not exists generator_rules jsonb;
+
 -- Automatisk uppdatering av updated_at
 create or replace function public.set_updated_at()
 returns trigger
@@ -47,3 +57,15 @@ for update
 to authenticated
 using (auth.uid() = user_id)
 with check (auth.uid() = user_id);
+
+-- Ändrade måltider och regler syns direkt på andra enheter (Realtime).
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'user_settings'
+  ) then
+    alter publication supabase_realtime add table public.user_settings;
+  end if;
+end;
+$$;
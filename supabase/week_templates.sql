@@ -0,0 +1,63 @@
+-- Namngivna veckomallar (en rad per mall), samma innehåll som week_plans men utan vecka.
+create table if not exists public.week_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  days jsonb not null default '[]'::jsonb,
+  active_day_indices jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Ett namn per användare – att spara igen skriver över mallen.
+create unique index if not exists uq_week_templates_user_name
+on public.week_templates (user_id, name);
+
+-- Uppdatera updated_at automatiskt.
+create or replace function public.set_week_templates_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_week_templates_updated_at on public.week_templates;
+create trigger trg_week_templates_updated_at
+before update on public.week_templates
+for each row
+execute function public.set_week_templates_updated_at();
+
+alter table public.week_templates enable row level security;
+
+-- Samma regler som week_plans: en användare får läsa/ändra sina egna mallar.
+drop policy if exists week_templates_select_own on public.week_templates;
+create policy week_templates_select_own
+on public.week_templates
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists week_templates_insert_own on public.week_templates;
+create policy week_templates_insert_own
+on public.week_templates
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists week_templates_update_own on public.week_templates;
+create policy week_templates_update_own
+on public.week_templates
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists week_templates_delete_own on public.week_templates;
+create policy week_templates_delete_own
+on public.week_templates
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -20,25 +20,63 @@ export const RECIPE_CATEGORIES = [
 
 export type RecipeCategory = typeof RECIPE_CATEGORIES[number];
 
-export type MealSlotType = "lunch" | "dinner";
+// Id för en måltid, t.ex. "lunch", "dinner" eller ett användardefinierat id.
+export type MealSlotType = string;
 
-export type MealSlotPlan = {
+export type MealSlotConfig = {
+  id: MealSlotType;
+  label: string;
+  startTime: string; // "HH:MM"
+  durationMinutes: number;
+  // Vilka dagar som är "tända" när en ny vecka skapas
+  defaultActiveDays: number[];
+  // Tidsfönster där kalenderaktiviteter gör dagen "upptagen" för måltiden
+  busyWindow: { start: string; end: string };
+  // Avvikande starttid per veckodag (0 = måndag), t.ex. senare kvällsmat på fredagar
+  dayStartTimes?: Partial<Record<number, string>>;
+  // Påminnelser i exporterade kalenderhändelser
+  reminders?: MealSlotReminders;
+};
+
+export type MealSlotReminders = {
+  // Påminn om att börja laga: receptets tillagningstid + marginal före måltiden (null = av)
+  cookingMarginMinutes: number | null;
+  // Påminn kvällen före vid denna tid, t.ex. för att ta fram ur frysen (null = av)
+  eveningBeforeTime: string | null;
+};
+
+export type MealDish = {
   // Antingen väljer man ett recept...
   recipeId: number | null;
   // ...eller skriver fritext (då ska recipeId vara null)
   freeText?: string | null;
 };
 
+// Pekar ut en måltid i en viss vecka, t.ex. måndagens kvällsmat i 2026-W02
+export type MealSlotRef = {
+  weekIdentifier: string;
+  dayId: number;
+  slot: MealSlotType;
+};
+
+export type MealSlotPlan = {
+  // Rätterna i måltiden i ordning, t.ex. huvudrätt + tillbehör + sallad
+  dishes: MealDish[];
+  // Rester från en annan måltid (samma eller föregående vecka). Då är dishes tom.
+  leftoversFrom?: MealSlotRef | null;
+  // Antal portioner att laga (null = receptets baseServings)
+  servings?: number | null;
+  // Valfri notering om gäster, t.ex. "Mormor + 2 barn"
+  guestNote?: string | null;
+};
+
 export type DayPlan = {
   dayId: number; // 0..6 (matchar index i SWEDISH_DAYS)
-  lunch: MealSlotPlan;
-  dinner: MealSlotPlan;
+  meals: Record<MealSlotType, MealSlotPlan>;
 };
 
-export type ActiveDayIndices = {
-  lunch: number[];
-  dinner: number[];
-};
+// Vilka dagar är "tända" per måltid (nyckel = MealSlotConfig.id)
+export type ActiveDayIndices = Record<MealSlotType, number[]>;
 
 export type WeekPlan = {
   weekIdentifier: string; // t.ex. "2026-W02"
@@ -46,6 +84,71 @@ export type WeekPlan = {
   activeDayIndices?: ActiveDayIndices; // vilka dagar är "tända" per måltid
 };
 
+// Namngiven veckomall – samma innehåll som en WeekPlan men utan vecka.
+export type WeekTemplate = {
+  id: string;
+  name: string;
+  days: DayPlan[];
+  activeDayIndices: ActiveDayIndices;
+  updatedAt: string;
+};
+
+// Sparad inköpslista för en vecka (delas av alla enheter med samma inloggning)
+export type WeekShoppingList = {
+  id: string;
+  weekIdentifier: string;
+  // Sammanslagna rader: källnyckel → målnyckel
+  merges: Record<string, string>;
+  // Rätter som inte handlas till, "dag-måltid-rättindex"
+  excludedDishKeys: string[];
+  updatedAt: string;
+};
+
+export type ShoppingListItem = {
+  id: string;
+  listId: string;
+  // generated = räknad ur veckans recept, manual = tillagd för hand
+  source: "generated" | "manual";
+  // "ingrediens|grundenhet" för genererade rader, null för egna
+  generatedKey: string | null;
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  checked: boolean;
+  // Mängden när raden bockades av
+  checkedAmount: number | null;
+  removed: boolean;
+  sortOrder: number;
+  // Avbockad rad som lagts i skafferiet
+  inPantry: boolean;
+};
+
+// Ingredienskatalog: ett kanoniskt namn med synonymer. id null = inbyggd post.
+export type IngredientCatalogEntry = {
+  id: string | null;
+  name: string;
+  synonyms: string[];
+  // Avdelning i butiken (se INGREDIENT_CATEGORIES), null = okategoriserad
+  category: string | null;
+};
+
+// Butik med avdelningarnas ordning, för att gå igenom butiken i en riktning.
+export type StoreProfile = {
+  id: string;
+  name: string;
+  categoryOrder: string[];
+};
+
+export type PantryItem = {
+  id: string;
+  name: string;
+  // null = finns alltid hemma (räknas som att allt behov täcks)
+  amount: number | null;
+  unit: string | null;
+  // "YYYY-MM-DD"
+  bestBefore: string | null;
+};
+
 export type Recipe = {
   id: number;
   name: string;
@@ -54,4 +157,84 @@ export type Recipe = {
   category: string;
   lastCooked: string | null;
   baseServings: number;
+  // Tillagningstid i minuter: aktiv tid vid spisen och total tid (null = okänd)
+  activeMinutes?: number | null;
+  totalMinutes?: number | null;
+};
+
+// Regler för veckogeneratorn. "hard" = får aldrig brytas, annars vägs regeln in med weight.
+type GeneratorRuleBase = {
+  id: string;
+  enabled: boolean;
+  hard: boolean;
+  weight: number;
+};
+
+// Vad generatorn föreslår när inget recept hinns med en upptagen kväll:
+// "recipe" = behåll receptet ändå, "leftovers" = rester (annars enkel mat), "simpleMeal" = enkel mat
+export type QuickOnBusyFallback = "recipe" | "leftovers" | "simpleMeal";
+
+export type GeneratorRule =
+  // Minst N rätter ur kategorin per vecka, t.ex. fisk minst en gång
+  | (GeneratorRuleBase & { kind: "categoryMin"; category: string; count: number })
+  // Högst N rätter ur kategorin per vecka, t.ex. max 2 pasta
+  | (GeneratorRuleBase & { kind: "categoryMax"; category: string; count: number })
+  // Kategorin på vissa veckodagar, t.ex. vegetariskt på måndagar
+  | (GeneratorRuleBase & { kind: "categoryOnDays"; category: string; dayIds: number[] })
+  // Samma recept får inte återkomma inom N veckor
+  | (GeneratorRuleBase & { kind: "noRepeatWeeks"; weeks: number })
+  // Snabba recept när måltiden krockar med kalendern, annars rester/enkel mat
+  | (GeneratorRuleBase & {
+      kind: "quickOnBusy";
+      maxMinutes: number;
+      fallback: QuickOnBusyFallback;
+    })
+  // Föredra recept som delar ingredienser med veckans övriga rätter
+  | (GeneratorRuleBase & { kind: "sharedIngredients" });
+
+export type GeneratorRuleKind = GeneratorRule["kind"];
+
+
+// En kalenderlänk (public.user_calendars) med regler för vad som gör en måltid upptagen.
+export type UserCalendar = {
+  id: string;
+  url: string;
+  label: string | null;
+  isActive: boolean;
+  // Kalendern hämtas men gör aldrig någon måltid upptagen
+  ignoreBusy: boolean;
+  // Heldagshändelser (lov, resor ...) gör hela dagen upptagen
+  countAllDay: boolean;
+  // Bara händelser vars rubrik innehåller något av orden räknas (tom = alla)
+  includeKeywords: string[];
+  // Händelser vars rubrik innehåller något av orden räknas inte
+  excludeKeywords: string[];
+  // Vem i hushållet kalendern tillhör, t.ex. "Anna"
+  memberName: string | null;
+  // Senaste lyckade hämtning via proxyn och antal händelser då
+  lastFetchedAt: string | null;
+  lastEventCount: number | null;
+  lastError: string | null;
+};
+
+// Prenumererbar kalenderlänk med matplanen (webcal)
+export type MealPlanFeed = {
+  token: string;
+  // Antal veckor framåt som publiceras (utöver innevarande och föregående vecka)
+  lookAheadWeeks: number;
+  // Tidszon som måltidstiderna tolkas i, t.ex. "Europe/Stockholm"
+  timezone: string;
+  updatedAt: string;
+};
+
+// CalDAV-kalender som planerade måltider skrivs till (lösenordet läses aldrig tillbaka)
+export type CalDavSyncTarget = {
+  calendarUrl: string;
+  username: string;
+  enabled: boolean;
+  // Antal veckor framåt som skrivs (utöver innevarande och föregående vecka)
+  lookAheadWeeks: number;
+  timezone: string;
+  lastSyncedAt: string | null;
+  lastError: string | null;
 };